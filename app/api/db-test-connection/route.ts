@@ -36,7 +36,7 @@ export async function GET(request: Request) {
   
   const masked = connectionString.replace(/:[^:@]+@/, ':****@');
   
-  let result: any = {
+  const result: any = {
     success: false,
     connectionType: testName,
     connectionString: masked,
@@ -83,12 +83,8 @@ export async function POST(request: NextRequest) {
       document = await dbModels.createDocument(finalId, fileName, filePath, category, finalDocumentType, finalInspectorId);
     } catch (error: any) {
       if (error.message && (error.message.includes('UNIQUE constraint') || error.message.includes('UNIQUE') || error.code === '23505')) {
-        try {
-          await dbModels.deleteDocument(finalId);
-          document = await dbModels.createDocument(finalId, fileName, filePath, category, finalDocumentType, finalInspectorId);
-        } catch (retryError) {
-          throw retryError;
-        }
+        await dbModels.deleteDocument(finalId);
+        document = await dbModels.createDocument(finalId, fileName, filePath, category, finalDocumentType, finalInspectorId);
       } else {
         throw error;
       }
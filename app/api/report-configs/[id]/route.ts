@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as dbModels from '../../../../db/models.js';
+import { createErrorResponse } from '../../utils/errorResponse';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const config = await dbModels.getReportConfigById(params.id);
+    if (!config) {
+      return NextResponse.json({ error: 'Report config not found' }, { status: 404 });
+    }
+    return NextResponse.json(config);
+  } catch (error: any) {
+    console.error('Error getting report config:', error);
+    return createErrorResponse(error);
+  }
+}
+
+// DELETE removes the saved config; a bundled config with the same id is used again
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await dbModels.deleteReportConfig(params.id);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting report config:', error);
+    return createErrorResponse(error);
+  }
+}
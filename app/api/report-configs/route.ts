@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as dbModels from '../../../db/models.js';
+import { validateReportConfigStructure } from '../../../src/utils/reportConfigValidator';
+import { createErrorResponse } from '../utils/errorResponse';
+
+// GET /api/report-configs - report configs saved from the mapping editor
+export async function GET() {
+  try {
+    const configs = await dbModels.getAllReportConfigs();
+    return NextResponse.json(configs);
+  } catch (error: any) {
+    console.error('Error getting report configs:', error);
+    return createErrorResponse(error);
+  }
+}
+
+// POST /api/report-configs - saves a full ReportConfig (replaces the saved config with the same id)
+export async function POST(request: NextRequest) {
+  try {
+    const config = await request.json();
+    // Template fields aren't checked here: a config may be saved before its template version is uploaded
+    const problems = validateReportConfigStructure(config).map(issue => issue.message);
+    if (problems.length > 0) {
+      return NextResponse.json({
+        error: `Invalid report config:\n${problems.map(problem => `- ${problem}`).join('\n')}`,
+        details: problems,
+      }, { status: 400 });
+    }
+    const saved = await dbModels.saveReportConfig(config);
+    return NextResponse.json(saved);
+  } catch (error: any) {
+    console.error('Error saving report config:', error);
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PDFDocument } from 'pdf-lib';
+import * as dbModels from '../../../../../db/models.js';
+import { requireStaff } from '../../../../../lib/apiAuth';
+import { getR2Object } from '../../../../../lib/r2Server';
+import type { ReportRecord, ReportRevisionSource } from '../../../../../src/types/reports';
+import type { TemplateVersions } from '../../../../../src/types/templates';
+import { readTemplateKeywords } from '../../../../../src/utils/templateLoader';
+import { createErrorResponse } from '../../../utils/errorResponse';
+
+// The template versions recorded in the keywords of an archived PDF, for reports archived before their inputs kept
+// them. Templates not found there are filled from the config's pins.
+async function readArchivedTemplateVersions(report: ReportRecord): Promise<TemplateVersions> {
+  try {
+    const bytes = await getR2Object(report.filePath);
+    if (!bytes) return {};
+    const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+    return readTemplateKeywords(pdfDoc.getKeywords());
+  } catch (error: any) {
+    console.warn(`⚠️ Could not read the template versions of ${report.fileName}:`, error.message);
+    return {};
+  }
+}
+
+// GET /api/reports/<id>/inputs
+// Returns what the report was generated from, with the original report, the number of the next revision and the
+// template versions it was filled from, so it can be reopened and regenerated as a revision.
+// Staff only (see lib/apiAuth.ts).
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const refused = requireStaff(request);
+  if (refused) return refused;
+
+  try {
+    const report = await dbModels.getReportById(params.id);
+    if (!report) {
+      return NextResponse.json({ error: `Report ${params.id} not found` }, { status: 404 });
+    }
+    const inputs = await dbModels.getReportInputs(params.id);
+    if (!inputs) {
+      return NextResponse.json({ error: `The inputs of ${report.fileName} weren't kept, it can't be regenerated` }, { status: 404 });
+    }
+
+    // Revisions are numbered per original, whichever of its revisions is reopened
+    const revisionOf = report.revisionOf || report.id;
+    const source: ReportRevisionSource = {
+      inputs,
+      revisionOf,
+      revision: await dbModels.getNextRevision(revisionOf),
+      templateVersions: inputs.templateVersions || await readArchivedTemplateVersions(report),
+    };
+    return NextResponse.json(source);
+  } catch (error: any) {
+    console.error('Error getting report inputs:', error);
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as dbModels from '../../../../../db/models.js';
+import { requireStaff } from '../../../../../lib/apiAuth';
+import { createErrorResponse } from '../../../utils/errorResponse';
+
+// POST /api/reports/<id>/revoke { reason }
+// Revokes an issued report: its verification page then shows it as revoked. The record and file are kept.
+// Staff only (see lib/apiAuth.ts).
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const refused = requireStaff(request);
+  if (refused) return refused;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body?.reason === 'string' ? body.reason.trim() : '';
+
+    const existing = await dbModels.getReportById(params.id);
+    if (!existing) {
+      return NextResponse.json({ error: `Report ${params.id} not found` }, { status: 404 });
+    }
+    if (existing.revokedAt) {
+      return NextResponse.json({ error: `${existing.fileName} is already revoked` }, { status: 409 });
+    }
+
+    const report = await dbModels.revokeReport(params.id, reason);
+    console.log(`✅ Revoked report ${params.id}${reason ? `: ${reason}` : ''}`);
+    return NextResponse.json(report);
+  } catch (error: any) {
+    console.error('Error revoking report:', error);
+    return createErrorResponse(error);
+  }
+}
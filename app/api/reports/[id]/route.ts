@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as dbModels from '../../../../db/models.js';
+import { requireStaff } from '../../../../lib/apiAuth';
+import { getR2Object } from '../../../../lib/r2Server';
+import { createErrorResponse } from '../../utils/errorResponse';
+
+// GET /api/reports/<id>
+// Returns the archived PDF as it was generated. Staff only (see lib/apiAuth.ts).
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const refused = requireStaff(request);
+  if (refused) return refused;
+
+  try {
+    const report = await dbModels.getReportById(params.id);
+    if (!report) {
+      return NextResponse.json({ error: `Report ${params.id} not found` }, { status: 404 });
+    }
+
+    const bytes = await getR2Object(report.filePath);
+    if (!bytes) {
+      return NextResponse.json({ error: `File of report ${params.id} not found in storage` }, { status: 404 });
+    }
+
+    return new NextResponse(Buffer.from(bytes), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': bytes.length.toString(),
+        'Content-Disposition': `attachment; filename="${report.fileName}"`,
+        // An archived file never changes
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error getting archived report:', error);
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireStaff } from '../../../../lib/apiAuth';
+import { generateServerReport, ReportRequestError } from '../../../../lib/reportServer';
+import type { ServerReportOutput, ServerReportRequest } from '../../../../lib/reportServer';
+import { createErrorResponse } from '../../utils/errorResponse';
+
+const OUTPUTS: ServerReportOutput[] = ['report', 'certificate', 'bundle'];
+
+// Reads the request from a multipart form (with the workbook file) or a JSON body (with the extracted data)
+async function readGenerateRequest(request: NextRequest): Promise<ServerReportRequest> {
+  const contentType = request.headers.get('content-type') || '';
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await request.formData();
+    const workbook = formData.get('workbook');
+    const data = formData.get('data');
+    let parsedData: Record<string, any> | undefined;
+    try {
+      parsedData = typeof data === 'string' && data.trim() ? JSON.parse(data) : undefined;
+    } catch {
+      throw new ReportRequestError('"data" must be a JSON object of field values', 400);
+    }
+    return {
+      reportType: String(formData.get('reportType') || ''),
+      inspectorId: String(formData.get('inspectorId') || ''),
+      data: parsedData,
+      workbook: workbook instanceof Blob
+        ? {
+          fileName: (workbook as File).name || 'workbook.xlsx',
+          bytes: await workbook.arrayBuffer(),
+          sheetName: (formData.get('sheetName') as string | null) || undefined,
+        }
+        : undefined,
+      analyzerProfileId: (formData.get('analyzerProfileId') as string | null) || undefined,
+      output: (formData.get('output') as ServerReportOutput | null) || undefined,
+      generatedBy: (formData.get('generatedBy') as string | null) || undefined,
+      sign: formData.get('sign') === 'true',
+    };
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ReportRequestError('Send a JSON body or a multipart form with the workbook', 400);
+  }
+  return {
+    reportType: String(body?.reportType || ''),
+    inspectorId: String(body?.inspectorId || ''),
+    data: body?.data,
+    output: body?.output,
+    generatedBy: typeof body?.generatedBy === 'string' ? body.generatedBy : undefined,
+    sign: body?.sign === true,
+  };
+}
+
+// POST /api/reports/generate
+// Multipart form: workbook (Excel file or CSV/text export), sheetName (default: the first sheet), analyzerProfileId,
+// reportType, inspectorId, data (JSON of the confirmed field values), output ('report', 'certificate' or 'bundle'),
+// generatedBy and sign ('true' to digitally sign the PDF with the server's certificate).
+// JSON body: { reportType, inspectorId, data, output, generatedBy, sign }, with data holding the extracted readings and
+// the field values.
+// Returns the PDF, which is also kept in the report archive (its id is in the X-Report-Id header); warnings (missing
+// documents, calibration warnings) are listed in the X-Report-Warnings header.
+// Staff only (see lib/apiAuth.ts), as the PDF is archived.
+export async function POST(request: NextRequest) {
+  const refused = requireStaff(request);
+  if (refused) return refused;
+
+  try {
+    const generateRequest = await readGenerateRequest(request);
+    if (!generateRequest.reportType) {
+      return NextResponse.json({ error: 'reportType is required' }, { status: 400 });
+    }
+    if (!generateRequest.inspectorId) {
+      return NextResponse.json({ error: 'inspectorId is required' }, { status: 400 });
+    }
+    if (generateRequest.output && !OUTPUTS.includes(generateRequest.output)) {
+      return NextResponse.json({ error: `output must be one of: ${OUTPUTS.join(', ')}` }, { status: 400 });
+    }
+    if (generateRequest.data !== undefined && (typeof generateRequest.data !== 'object' || Array.isArray(generateRequest.data))) {
+      return NextResponse.json({ error: '"data" must be a JSON object of field values' }, { status: 400 });
+    }
+
+    // The verification QR code links back to this site
+    const report = await generateServerReport({ ...generateRequest, baseUrl: request.nextUrl.origin });
+    return new NextResponse(Buffer.from(report.bytes), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': report.bytes.length.toString(),
+        'Content-Disposition': `attachment; filename="${report.fileName}"`,
+        'X-Report-Warnings': encodeURIComponent(JSON.stringify(report.warnings)),
+        ...(report.reportId ? { 'X-Report-Id': report.reportId } : {}),
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof ReportRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error generating report:', error);
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as dbModels from '../../../db/models.js';
+import { requireStaff } from '../../../lib/apiAuth';
+import { getMissingR2Vars, isR2Configured } from '../../../lib/r2Server';
+import { ArchiveUnavailableError, archiveReport, RevisionTakenError } from '../../../lib/reportArchive';
+import type { ArchivedDocument, ReportInputs, ReportRecordDetails, ReportSearch } from '../../../src/types/reports';
+import { createErrorResponse } from '../utils/errorResponse';
+
+const DOCUMENTS: ArchivedDocument[] = ['report', 'certificate', 'summary'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// GET /api/reports[?address=eglantine&inspector=<id>&from=2025-01-01&to=2025-06-30&result=positive]
+// Searches the report archive, newest first. from/to are inspection dates; result is positive or negative.
+// Staff only (see lib/apiAuth.ts).
+export async function GET(request: NextRequest) {
+  const refused = requireStaff(request);
+  if (refused) return refused;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = params.get('from') || undefined;
+    const to = params.get('to') || undefined;
+    const result = params.get('result') || undefined;
+    for (const date of [from, to]) {
+      if (date && !DATE_PATTERN.test(date)) {
+        return NextResponse.json({ error: `Invalid date: ${date} (expected YYYY-MM-DD)` }, { status: 400 });
+      }
+    }
+    if (result && result !== 'positive' && result !== 'negative') {
+      return NextResponse.json({ error: 'result must be positive or negative' }, { status: 400 });
+    }
+
+    const search: ReportSearch = {
+      address: params.get('address')?.trim() || undefined,
+      inspectorId: params.get('inspector') || undefined,
+      from,
+      to,
+      result: result as ReportSearch['result'],
+    };
+    return NextResponse.json(await dbModels.searchReports(search));
+  } catch (error: any) {
+    console.error('Error searching reports:', error);
+    return createErrorResponse(error);
+  }
+}
+
+// POST /api/reports (multipart: file, details = JSON of the ReportRecordDetails, inputs = JSON of the ReportInputs, id)
+// Archives a PDF generated in the browser. A revision names the original report in details.revisionOf;
+// 409 if another revision of the same document (and unit) took its number first.
+// id is the UUID the PDF's verification QR code links to (default: a new one).
+// Staff only (see lib/apiAuth.ts): the verification page and /api/reports/verify vouch for what is archived.
+export async function POST(request: NextRequest) {
+  const refused = requireStaff(request);
+  if (refused) return refused;
+
+  if (!isR2Configured()) {
+    return NextResponse.json({
+      error: 'R2 storage is not configured',
+      message: 'Missing environment variables',
+      missingVars: getMissingR2Vars(),
+    }, { status: 500 });
+  }
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    let details: ReportRecordDetails;
+    try {
+      details = JSON.parse(String(formData.get('details') || ''));
+    } catch {
+      return NextResponse.json({ error: '"details" must be a JSON object' }, { status: 400 });
+    }
+    if (!details || typeof details.reportType !== 'string' || !details.reportType) {
+      return NextResponse.json({ error: 'details.reportType is required' }, { status: 400 });
+    }
+    if (!DOCUMENTS.includes(details.document)) {
+      return NextResponse.json({ error: `details.document must be one of: ${DOCUMENTS.join(', ')}` }, { status: 400 });
+    }
+    if (details.inspectionDate && !DATE_PATTERN.test(details.inspectionDate)) {
+      return NextResponse.json({ error: `Invalid inspection date: ${details.inspectionDate} (expected YYYY-MM-DD)` }, { status: 400 });
+    }
+    if (details.unit !== undefined && (typeof details.unit !== 'string' || !details.unit)) {
+      return NextResponse.json({ error: 'details.unit must be a unit id' }, { status: 400 });
+    }
+    if (details.revisionOf) {
+      if (!Number.isInteger(details.revision) || details.revision! < 1) {
+        return NextResponse.json({ error: 'details.revision must be a revision number (1 or more)' }, { status: 400 });
+      }
+      if (!await dbModels.getReportById(details.revisionOf)) {
+        return NextResponse.json({ error: `Report ${details.revisionOf} (the original of the revision) not found` }, { status: 400 });
+      }
+    }
+
+    let inputs: ReportInputs | undefined;
+    const rawInputs = formData.get('inputs');
+    if (typeof rawInputs === 'string' && rawInputs.trim()) {
+      try {
+        inputs = JSON.parse(rawInputs);
+      } catch {
+        return NextResponse.json({ error: '"inputs" must be a JSON object' }, { status: 400 });
+      }
+      if (!inputs || typeof inputs.data !== 'object' || !Array.isArray(inputs.documentIds)) {
+        return NextResponse.json({ error: '"inputs" must have data and documentIds' }, { status: 400 });
+      }
+    }
+
+    const id = (formData.get('id') as string | null) || undefined;
+    if (id) {
+      if (!ID_PATTERN.test(id)) {
+        return NextResponse.json({ error: '"id" must be a UUID' }, { status: 400 });
+      }
+      if (await dbModels.getReportById(id)) {
+        return NextResponse.json({ error: `Report ${id} already exists` }, { status: 409 });
+      }
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const record = await archiveReport(bytes, file.name || 'report.pdf', details, inputs, id);
+    return NextResponse.json(record);
+  } catch (error: any) {
+    if (error instanceof RevisionTakenError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof ArchiveUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    console.error('Error archiving report:', error);
+    return createErrorResponse(error);
+  }
+}
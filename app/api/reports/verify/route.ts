@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as dbModels from '../../../../db/models.js';
+import { getPublicReportInfo, sha256Hex } from '../../../../lib/reportArchive';
+import type { PdfVerification, ReportRecord } from '../../../../src/types/reports';
+import { createErrorResponse } from '../../utils/errorResponse';
+
+// POST /api/reports/verify (multipart: file)
+// Checks whether a PDF is byte-identical to a report we issued, by its SHA-256. Public: a match only reveals
+// what is printed on the document, plus whether it is still current.
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    const sha256 = sha256Hex(new Uint8Array(await file.arrayBuffer()));
+    const reports: ReportRecord[] | null = await dbModels.getReportsBySha256(sha256);
+    if (!reports) {
+      // Not "no match": without the database nothing can be said about the file
+      return NextResponse.json({ error: 'The report archive is not available, try again later' }, { status: 503 });
+    }
+
+    const verification: PdfVerification = {
+      sha256,
+      matches: await Promise.all(reports.map(getPublicReportInfo)),
+    };
+    console.log(`${verification.matches.length ? '✅' : '⚠️'} Verified ${file.name || 'PDF'} (${sha256}): ${verification.matches.length} match(es)`);
+    return NextResponse.json(verification);
+  } catch (error: any) {
+    console.error('Error verifying PDF:', error);
+    return createErrorResponse(error);
+  }
+}
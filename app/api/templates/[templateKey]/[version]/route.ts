@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as dbModels from '../../../../../db/models.js';
+import { getR2Object } from '../../../../../lib/r2Server';
+import { createErrorResponse } from '../../../utils/errorResponse';
+
+// GET /api/templates/XHRTEMP.pdf/3 (or /latest)
+// Returns the PDF of one template version, with its version and hash in the response headers.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { templateKey: string; version: string } }
+) {
+  try {
+    const templateKey = decodeURIComponent(params.templateKey);
+    let templateVersion;
+    if (params.version === 'latest') {
+      templateVersion = await dbModels.getLatestTemplateVersion(templateKey);
+    } else {
+      const version = parseInt(params.version, 10);
+      if (isNaN(version)) {
+        return NextResponse.json({ error: `Invalid version: ${params.version}` }, { status: 400 });
+      }
+      templateVersion = await dbModels.getTemplateVersion(templateKey, version);
+    }
+
+    if (!templateVersion) {
+      return NextResponse.json({ error: `Template ${templateKey} version ${params.version} not found` }, { status: 404 });
+    }
+
+    const bytes = await getR2Object(templateVersion.filePath);
+    if (!bytes) {
+      return NextResponse.json({ error: `File for ${templateKey} v${templateVersion.version} not found in storage` }, { status: 404 });
+    }
+
+    return new NextResponse(Buffer.from(bytes), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': bytes.length.toString(),
+        'X-Template-Version': templateVersion.version.toString(),
+        'X-Template-Sha256': templateVersion.sha256,
+        // A numbered version never changes; "latest" does
+        'Cache-Control': params.version === 'latest' ? 'no-cache' : 'public, max-age=31536000, immutable',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error getting template version:', error);
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import { PDFDocument } from 'pdf-lib';
+import * as dbModels from '../../../db/models.js';
+import { getMissingR2Vars, isR2Configured, putR2Object } from '../../../lib/r2Server';
+import { getTemplateFieldInventory } from '../../../src/utils/templateInventory';
+import { createErrorResponse } from '../utils/errorResponse';
+
+// Template keys are the file names used in the report configs (e.g. XHRTEMP.pdf)
+const TEMPLATE_KEY_PATTERN = /^[\w.\- ]+\.pdf$/i;
+
+// GET /api/templates[?template=XHRTEMP.pdf]
+// Lists template versions, newest first.
+export async function GET(request: NextRequest) {
+  try {
+    const templateKey = request.nextUrl.searchParams.get('template') || undefined;
+    const versions = await dbModels.getTemplateVersions(templateKey);
+    return NextResponse.json(versions);
+  } catch (error: any) {
+    console.error('Error getting template versions:', error);
+    return createErrorResponse(error);
+  }
+}
+
+// POST /api/templates (multipart: file, templateKey, notes?)
+// Stores a new template version in R2 and records its hash and form-field inventory.
+export async function POST(request: NextRequest) {
+  if (!isR2Configured()) {
+    return NextResponse.json({
+      error: 'R2 storage is not configured',
+      message: 'Missing environment variables',
+      missingVars: getMissingR2Vars(),
+    }, { status: 500 });
+  }
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const templateKey = ((formData.get('templateKey') as string | null) || '').trim();
+    const notes = ((formData.get('notes') as string | null) || '').trim();
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    if (!TEMPLATE_KEY_PATTERN.test(templateKey)) {
+      return NextResponse.json({ error: 'templateKey must be a PDF file name like XHRTEMP.pdf' }, { status: 400 });
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    let fields;
+    try {
+      const pdfDoc = await PDFDocument.load(bytes);
+      fields = getTemplateFieldInventory(pdfDoc);
+    } catch (err: any) {
+      return NextResponse.json({ error: `${file.name} is not a readable PDF: ${err.message}` }, { status: 400 });
+    }
+
+    const sha256 = createHash('sha256').update(bytes).digest('hex');
+
+    // Re-uploading the current file doesn't create a new version
+    const latest = await dbModels.getLatestTemplateVersion(templateKey);
+    if (latest && latest.sha256 === sha256) {
+      return NextResponse.json({ ...latest, unchanged: true });
+    }
+
+    // Stored by content hash, so an object is never overwritten by a different file
+    const filePath = `templates/${templateKey}/${sha256}.pdf`;
+    await putR2Object(filePath, bytes, 'application/pdf');
+
+    const version = await dbModels.createTemplateVersion(templateKey, file.name, filePath, sha256, fields, notes);
+    if (!version) {
+      return NextResponse.json({ error: 'The template library is not available, try again later' }, { status: 503 });
+    }
+    console.log(`✅ Stored ${templateKey} v${version.version} (${fields.length} fields, sha256 ${sha256.slice(0, 12)}…)`);
+    return NextResponse.json(version);
+  } catch (error: any) {
+    console.error('Error uploading template version:', error);
+    return createErrorResponse(error);
+  }
+}
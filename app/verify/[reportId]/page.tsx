@@ -0,0 +1,47 @@
+import type { Metadata } from 'next'
+import * as dbModels from '../../../db/models.js'
+import { getPublicReportInfo } from '../../../lib/reportArchive'
+import type { ReportRecord } from '../../../src/types/reports'
+import { VerifiedReport } from '../../../src/components/VerifiedReport'
+
+// Always read the current status: a report can be revised or revoked after it was issued
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+  title: 'Report Verification - Lead Reports',
+  robots: { index: false, follow: false },
+}
+
+// GET /verify/<report id>
+// Public page the QR code of an issued report or certificate links to: what was issued, and whether it is still
+// current, superseded by a revision or revoked. Only what is printed on the document is shown.
+export default async function VerifyReportPage({ params }: { params: { reportId: string } }) {
+  const report: ReportRecord | null = await dbModels.getReportById(params.reportId)
+
+  if (!report) {
+    return (
+      <main className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+        <div className="max-w-md w-full bg-white border border-red-300 rounded-xl p-6 shadow-sm">
+          <h1 className="text-xl font-bold text-red-700 mb-2">Not a Recognized Document</h1>
+          <p className="text-sm text-slate-600">
+            No report or certificate was issued under this code. The document may not be genuine; contact the
+            issuing office to confirm.
+          </p>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+      <div className="max-w-md w-full bg-white border border-slate-200 rounded-xl p-6 shadow-sm space-y-5">
+        <p className="text-xs font-semibold text-slate-500 uppercase">Document Verification</p>
+        <VerifiedReport report={await getPublicReportInfo(report)} />
+        <p className="text-xs text-slate-500">
+          Check that these details match the printed document. If they differ, the document may have been altered.
+          To check the PDF file itself, drop it on the <a href="/verify" className="underline">file check page</a>.
+        </p>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,23 @@
+import type { Metadata } from 'next'
+import { PdfVerifier } from '../../src/components/PdfVerifier'
+
+export const metadata: Metadata = {
+  title: 'Check a Report File - Lead Reports',
+  robots: { index: false, follow: false },
+}
+
+// GET /verify
+// Public page to check a PDF file against the reports we issued: an edited copy doesn't match.
+export default function VerifyFilePage() {
+  return (
+    <main className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+      <div className="max-w-md w-full bg-white border border-slate-200 rounded-xl p-6 shadow-sm space-y-5">
+        <div>
+          <p className="text-xs font-semibold text-slate-500 uppercase">Document Verification</p>
+          <h1 className="text-xl font-bold text-slate-900">Check a Report File</h1>
+        </div>
+        <PdfVerifier />
+      </div>
+    </main>
+  )
+}
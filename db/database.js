@@ -450,6 +450,87 @@ async function initializeDatabase() {
         FOREIGN KEY (inspector_id) REFERENCES inspectors(id) ON DELETE CASCADE
       )
     `);
+
+    // Create template_versions table (template library, files live in R2)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS template_versions (
+        template_key TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        file_name TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        sha256 TEXT NOT NULL,
+        fields JSONB NOT NULL DEFAULT '[]',
+        notes TEXT,
+        uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (template_key, version)
+      )
+    `);
+
+    // Create report_configs table (configs saved from the mapping editor)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS report_configs (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        config JSONB NOT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Create reports table (archive of generated PDFs, files live in R2)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS reports (
+        id TEXT PRIMARY KEY,
+        report_type TEXT NOT NULL,
+        document TEXT NOT NULL,
+        file_name TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        address TEXT NOT NULL DEFAULT '',
+        block TEXT,
+        lot TEXT,
+        county TEXT,
+        inspection_date TEXT,
+        inspector_id TEXT,
+        inspector_name TEXT,
+        result TEXT,
+        is_positive BOOLEAN NOT NULL DEFAULT FALSE,
+        total_readings INTEGER NOT NULL DEFAULT 0,
+        positive_readings INTEGER NOT NULL DEFAULT 0,
+        template_key TEXT,
+        template_version INTEGER,
+        generated_by TEXT,
+        generated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        revision_of TEXT,
+        revision INTEGER NOT NULL DEFAULT 0,
+        inputs JSONB,
+        revoked_at TIMESTAMP,
+        revoked_reason TEXT,
+        sha256 TEXT,
+        unit TEXT
+      )
+    `);
+
+    // Revision, revocation, checksum and unit columns, for reports tables created before they were kept
+    await client.query(`
+      ALTER TABLE reports
+        ADD COLUMN IF NOT EXISTS revision_of TEXT,
+        ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS inputs JSONB,
+        ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS revoked_reason TEXT,
+        ADD COLUMN IF NOT EXISTS sha256 TEXT,
+        ADD COLUMN IF NOT EXISTS unit TEXT
+    `);
+
+    // A revision number is given once per document (and unit) of an original (see createReport)
+    try {
+      await client.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_revision ON reports(revision_of, document, COALESCE(unit, ''), revision)
+          WHERE revision_of IS NOT NULL
+      `);
+    } catch (error) {
+      // Revisions numbered twice before the index existed; they have to be renumbered or removed by hand
+      console.warn('⚠️ Could not create the unique revision index (duplicate revision numbers in reports):', error.message);
+    }
   } finally {
     client.release();
   }
@@ -375,6 +375,304 @@ export async function deleteDocument(id) {
   await pool.query('DELETE FROM documents WHERE id = $1', [id]);
 }
 
+// ==================== TEMPLATE VERSIONS ====================
+
+function mapTemplateVersionRow(row) {
+  return {
+    templateKey: row.template_key,
+    version: row.version,
+    fileName: row.file_name,
+    filePath: row.file_path,
+    sha256: row.sha256,
+    fields: row.fields || [],
+    notes: row.notes || undefined,
+    uploadedAt: new Date(row.uploaded_at)
+  };
+}
+
+// All versions, newest first (optionally for one template)
+export async function getTemplateVersions(templateKey) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    const result = templateKey
+      ? await pool.query('SELECT * FROM template_versions WHERE template_key = $1 ORDER BY version DESC', [templateKey])
+      : await pool.query('SELECT * FROM template_versions ORDER BY template_key, version DESC');
+    return result.rows.map(mapTemplateVersionRow);
+  }, []);
+}
+
+export async function getTemplateVersion(templateKey, version) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    const result = await pool.query(
+      'SELECT * FROM template_versions WHERE template_key = $1 AND version = $2',
+      [templateKey, version]
+    );
+    return result.rows[0] ? mapTemplateVersionRow(result.rows[0]) : null;
+  }, null);
+}
+
+export async function getLatestTemplateVersion(templateKey) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    const result = await pool.query(
+      'SELECT * FROM template_versions WHERE template_key = $1 ORDER BY version DESC LIMIT 1',
+      [templateKey]
+    );
+    return result.rows[0] ? mapTemplateVersionRow(result.rows[0]) : null;
+  }, null);
+}
+
+// Attempts at numbering a new template version before giving up on concurrent uploads
+const TEMPLATE_VERSION_ATTEMPTS = 5;
+
+// Records a new version; the version number is the next one for the template.
+// Two uploads at once can both pick the same number: the primary key (template_key, version) rejects
+// the second insert, which is retried with the number after the one just taken.
+export async function createTemplateVersion(templateKey, fileName, filePath, sha256, fields, notes) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await pool.query(
+          `INSERT INTO template_versions 
+           (template_key, version, file_name, file_path, sha256, fields, notes) 
+           SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5, $6 
+           FROM template_versions WHERE template_key = $1
+           RETURNING *`,
+          [templateKey, fileName, filePath, sha256, JSON.stringify(fields || []), notes || null]
+        );
+        return mapTemplateVersionRow(result.rows[0]);
+      } catch (error) {
+        if (error.code !== '23505' || attempt >= TEMPLATE_VERSION_ATTEMPTS) throw error;
+        console.warn(`⚠️ ${templateKey} version taken by a concurrent upload, retrying (attempt ${attempt + 1}/${TEMPLATE_VERSION_ATTEMPTS})`);
+      }
+    }
+  });
+}
+
+// ==================== REPORT CONFIGS ====================
+
+function mapReportConfigRow(row) {
+  return {
+    ...row.config,
+    id: row.id,
+    name: row.name,
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+export async function getAllReportConfigs() {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    const result = await pool.query('SELECT * FROM report_configs ORDER BY name');
+    return result.rows.map(mapReportConfigRow);
+  }, []);
+}
+
+export async function getReportConfigById(id) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    const result = await pool.query('SELECT * FROM report_configs WHERE id = $1', [id]);
+    return result.rows[0] ? mapReportConfigRow(result.rows[0]) : null;
+  }, null);
+}
+
+export async function saveReportConfig(config) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    const { updatedAt, ...stored } = config;
+    await pool.query(
+      `INSERT INTO report_configs (id, name, config, updated_at) 
+       VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+       ON CONFLICT (id) DO UPDATE SET 
+         name = $2, 
+         config = $3, 
+         updated_at = CURRENT_TIMESTAMP`,
+      [config.id, config.name, JSON.stringify(stored)]
+    );
+    return await getReportConfigById(config.id);
+  });
+}
+
+export async function deleteReportConfig(id) {
+  const pool = await getDatabase();
+  await pool.query('DELETE FROM report_configs WHERE id = $1', [id]);
+}
+
+// ==================== REPORTS (archive of generated PDFs) ====================
+
+// Every column but inputs, which can be large (the extracted readings) and is only read to regenerate a report
+const REPORT_COLUMNS = `id, report_type, document, file_name, file_path, address, block, lot, county, inspection_date,
+  inspector_id, inspector_name, result, is_positive, total_readings, positive_readings, template_key, template_version,
+  generated_by, generated_at, revision_of, revision, revoked_at, revoked_reason, sha256, unit`;
+
+function mapReportRow(row) {
+  return {
+    id: row.id,
+    reportType: row.report_type,
+    document: row.document,
+    fileName: row.file_name,
+    filePath: row.file_path,
+    address: row.address,
+    block: row.block || undefined,
+    lot: row.lot || undefined,
+    county: row.county || undefined,
+    inspectionDate: row.inspection_date || undefined,
+    inspectorId: row.inspector_id || undefined,
+    inspectorName: row.inspector_name || undefined,
+    result: row.result || undefined,
+    isPositive: row.is_positive,
+    totalReadings: row.total_readings,
+    positiveReadings: row.positive_readings,
+    templateKey: row.template_key || undefined,
+    templateVersion: row.template_version ?? undefined,
+    generatedBy: row.generated_by || undefined,
+    generatedAt: new Date(row.generated_at),
+    revisionOf: row.revision_of || undefined,
+    revision: row.revision || undefined,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+    revokedReason: row.revoked_reason || undefined,
+    sha256: row.sha256 || undefined,
+    unit: row.unit || undefined
+  };
+}
+
+// inputs: what the PDF was generated from ({ data, documentIds }), or null if it wasn't sent
+// sha256: hex digest of the PDF
+// A revision is only inserted while its number is still the next one of its document (and unit): the number is
+// printed on the PDF, so one taken meanwhile (the same report reopened twice) can't be renumbered. Returns false then,
+// and null without the database.
+export async function createReport(id, fileName, filePath, details, inputs, sha256) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    try {
+      const result = await pool.query(
+        `INSERT INTO reports
+         (id, report_type, document, file_name, file_path, address, block, lot, county, inspection_date,
+          inspector_id, inspector_name, result, is_positive, total_readings, positive_readings,
+          template_key, template_version, generated_by, revision_of, revision, inputs, sha256, unit)
+         SELECT $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14::boolean, $15::integer, $16::integer,
+                $17, $18::integer, $19, $20::text, $21::integer, $22::jsonb, $23, $24::text
+         WHERE $20::text IS NULL OR NOT EXISTS (
+           SELECT 1 FROM reports
+           WHERE revision_of = $20 AND document = $3 AND COALESCE(unit, '') = COALESCE($24, '') AND revision >= $21
+         )
+         RETURNING ${REPORT_COLUMNS}`,
+        [
+          id, details.reportType, details.document, fileName, filePath, details.address || '',
+          details.block || null, details.lot || null, details.county || null, details.inspectionDate || null,
+          details.inspectorId || null, details.inspectorName || null, details.result || null, !!details.isPositive,
+          details.totalReadings || 0, details.positiveReadings || 0,
+          details.templateKey || null, details.templateVersion ?? null, details.generatedBy || null,
+          details.revisionOf || null, details.revision || 0, inputs ? JSON.stringify(inputs) : null, sha256 || null,
+          details.unit || null
+        ]
+      );
+      return result.rows[0] ? mapReportRow(result.rows[0]) : false;
+    } catch (error) {
+      // The same revision inserted at the same moment: the unique revision index keeps only one
+      if (error.code === '23505' && error.constraint === 'idx_reports_revision') return false;
+      throw error;
+    }
+  });
+}
+
+export async function getReportById(id) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    const result = await pool.query(`SELECT ${REPORT_COLUMNS} FROM reports WHERE id = $1`, [id]);
+    return result.rows[0] ? mapReportRow(result.rows[0]) : null;
+  }, null);
+}
+
+// The inputs a report was generated from (null if the report or its inputs weren't kept)
+export async function getReportInputs(id) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    const result = await pool.query('SELECT inputs FROM reports WHERE id = $1', [id]);
+    return result.rows[0]?.inputs || null;
+  }, null);
+}
+
+// The number the next revision of an original report gets, as of now. Nothing is reserved: if another revision is
+// archived first, createReport refuses this number and the report has to be reopened again.
+export async function getNextRevision(originalId) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    const result = await pool.query(
+      'SELECT COALESCE(MAX(revision), 0) + 1 AS next FROM reports WHERE id = $1 OR revision_of = $1',
+      [originalId]
+    );
+    return result.rows[0].next;
+  }, 1);
+}
+
+// Reports whose PDF has this SHA-256 (hex), oldest first. Normally one; the same bytes archived twice give more.
+export async function getReportsBySha256(sha256) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    const result = await pool.query(
+      `SELECT ${REPORT_COLUMNS} FROM reports WHERE sha256 = $1 ORDER BY generated_at`,
+      [sha256.toLowerCase()]
+    );
+    return result.rows.map(mapReportRow);
+  });
+}
+
+// Revokes an issued report (its verification page then says so). Returns the updated record, or null if not found.
+export async function revokeReport(id, reason) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    const result = await pool.query(
+      `UPDATE reports SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = $2 WHERE id = $1 RETURNING ${REPORT_COLUMNS}`,
+      [id, reason || null]
+    );
+    return result.rows[0] ? mapReportRow(result.rows[0]) : null;
+  });
+}
+
+// The newest revision that replaces a report: same original, same document (and unit, for a multi-unit run), a higher
+// revision number and not revoked itself (null if the report is the latest). Not the address, which a revision may correct.
+export async function getSupersedingRevision(report) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    const result = await pool.query(
+      `SELECT ${REPORT_COLUMNS} FROM reports
+       WHERE revision_of = $1 AND document = $2 AND COALESCE(unit, '') = $3 AND revision > $4 AND revoked_at IS NULL
+       ORDER BY revision DESC LIMIT 1`,
+      [report.revisionOf || report.id, report.document, report.unit || '', report.revision || 0]
+    );
+    return result.rows[0] ? mapReportRow(result.rows[0]) : null;
+  }, null);
+}
+
+// Newest first. search: { address (part of, case-insensitive), inspectorId, from/to (inspection date), result ('positive'/'negative') }
+export async function searchReports(search = {}, limit = 500) {
+  return safeDbCall(async () => {
+    const pool = await getDatabase();
+    const conditions = [];
+    const values = [];
+    const addCondition = (sql, value) => {
+      values.push(value);
+      conditions.push(sql.replace('?', `$${values.length}`));
+    };
+    if (search.address) addCondition('address ILIKE ?', `%${search.address.replace(/[\\%_]/g, '\\$&')}%`);
+    if (search.inspectorId) addCondition('inspector_id = ?', search.inspectorId);
+    if (search.from) addCondition('inspection_date >= ?', search.from);
+    if (search.to) addCondition('inspection_date <= ?', search.to);
+    if (search.result) addCondition('is_positive = ?', search.result === 'positive');
+
+    values.push(limit);
+    const result = await pool.query(
+      `SELECT ${REPORT_COLUMNS} FROM reports ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY generated_at DESC LIMIT $${values.length}`,
+      values
+    );
+    return result.rows.map(mapReportRow);
+  }, []);
+}
+
 // ==================== ALL DATA ====================
 
 export async function getAllData() {
@@ -7,6 +7,9 @@
 -- =====================================================
 
 -- Drop tables if they exist (optional - only use if you want to start fresh)
+-- DROP TABLE IF EXISTS reports CASCADE;
+-- DROP TABLE IF EXISTS report_configs CASCADE;
+-- DROP TABLE IF EXISTS template_versions CASCADE;
 -- DROP TABLE IF EXISTS documents CASCADE;
 -- DROP TABLE IF EXISTS inspector_variables CASCADE;
 -- DROP TABLE IF EXISTS inspector_variable_names CASCADE;
@@ -77,6 +80,77 @@ CREATE TABLE IF NOT EXISTS documents (
   FOREIGN KEY (inspector_id) REFERENCES inspectors(id) ON DELETE CASCADE
 );
 
+-- =====================================================
+-- 7. Template Versions Table
+-- =====================================================
+-- Every uploaded version of a PDF report template (the file itself is stored in R2).
+-- template_key is the template's file name from the report config (e.g. XHRTEMP.pdf);
+-- versions are never overwritten so old reports can be regenerated with the template of their time.
+CREATE TABLE IF NOT EXISTS template_versions (
+  template_key TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  sha256 TEXT NOT NULL,
+  fields JSONB NOT NULL DEFAULT '[]',
+  notes TEXT,
+  uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (template_key, version)
+);
+
+-- =====================================================
+-- 8. Report Configs Table
+-- =====================================================
+-- Report configurations saved from the mapping editor (the full ReportConfig as JSON).
+-- A saved config replaces the bundled one with the same id (src/config/reports.ts).
+CREATE TABLE IF NOT EXISTS report_configs (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  config JSONB NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =====================================================
+-- 9. Reports Table
+-- =====================================================
+-- Archive of every generated PDF (the file itself is stored in R2 under reports/<id>/).
+-- Details are copied at generation time, so the record doesn't change when an inspector or config does.
+-- inspection_date is YYYY-MM-DD text, which sorts and compares like a date.
+-- A revision points to the original report (revision_of) and is numbered from 1; the original stays as it was.
+-- inputs is the confirmed data and the document ids the PDF was generated from, so it can be regenerated.
+-- A revoked report (revoked_at set) is shown as revoked on its public verification page (/verify/<id>).
+-- sha256 is the hex digest of the stored PDF, to recognise a submitted copy as byte-identical (or not).
+-- unit is the unit id of a PDF of a multi-unit run, so its revisions can be told from the other units'.
+CREATE TABLE IF NOT EXISTS reports (
+  id TEXT PRIMARY KEY,
+  report_type TEXT NOT NULL,
+  document TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  address TEXT NOT NULL DEFAULT '',
+  block TEXT,
+  lot TEXT,
+  county TEXT,
+  inspection_date TEXT,
+  inspector_id TEXT,
+  inspector_name TEXT,
+  result TEXT,
+  is_positive BOOLEAN NOT NULL DEFAULT FALSE,
+  total_readings INTEGER NOT NULL DEFAULT 0,
+  positive_readings INTEGER NOT NULL DEFAULT 0,
+  template_key TEXT,
+  template_version INTEGER,
+  generated_by TEXT,
+  generated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  revision_of TEXT,
+  revision INTEGER NOT NULL DEFAULT 0,
+  inputs JSONB,
+  revoked_at TIMESTAMP,
+  revoked_reason TEXT,
+  sha256 TEXT,
+  unit TEXT
+);
+
 -- =====================================================
 -- Create Indexes for Better Performance
 -- =====================================================
@@ -85,13 +159,22 @@ CREATE INDEX IF NOT EXISTS idx_documents_category ON documents(category);
 CREATE INDEX IF NOT EXISTS idx_documents_document_type ON documents(document_type);
 CREATE INDEX IF NOT EXISTS idx_documents_inspector_id ON documents(inspector_id);
 CREATE INDEX IF NOT EXISTS idx_document_types_category ON document_types(category);
+CREATE INDEX IF NOT EXISTS idx_template_versions_uploaded_at ON template_versions(template_key, uploaded_at);
+CREATE INDEX IF NOT EXISTS idx_reports_generated_at ON reports(generated_at);
+CREATE INDEX IF NOT EXISTS idx_reports_inspection_date ON reports(inspection_date);
+CREATE INDEX IF NOT EXISTS idx_reports_inspector_id ON reports(inspector_id);
+CREATE INDEX IF NOT EXISTS idx_reports_revision_of ON reports(revision_of);
+CREATE INDEX IF NOT EXISTS idx_reports_sha256 ON reports(sha256);
+-- A revision number is given once per document (and unit) of an original
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_revision ON reports(revision_of, document, COALESCE(unit, ''), revision)
+  WHERE revision_of IS NOT NULL;
 
 -- =====================================================
 -- Verification Queries (Optional - run to verify tables)
 -- =====================================================
 -- SELECT table_name FROM information_schema.tables 
 -- WHERE table_schema = 'public' 
--- AND table_name IN ('inspectors', 'inspector_variables', 'inspector_variable_names', 'document_types', 'general_variables', 'documents')
+-- AND table_name IN ('inspectors', 'inspector_variables', 'inspector_variable_names', 'document_types', 'general_variables', 'documents', 'template_versions', 'report_configs', 'reports')
 -- ORDER BY table_name;
 
 -- =====================================================
@@ -0,0 +1,30 @@
+/**
+ * Staff-only API routes (the ones that read the report archive, add to it or revoke a report, whose records the
+ * public verification page vouches for) need the STAFF_API_TOKEN of the server as a bearer token:
+ * `Authorization: Bearer <token>`. They refuse every request while it isn't set.
+ */
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Compares digests, which have the same length whatever was sent, so the comparison takes the same time
+function isStaffToken(sent: string, token: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(sent), digest(token));
+}
+
+/**
+ * Checks that a request comes from staff.
+ * @returns The response to refuse it with (503 without STAFF_API_TOKEN on the server, 401 without the right token),
+ * or null when it may go on
+ */
+export function requireStaff(request: NextRequest): NextResponse | null {
+  const token = process.env.STAFF_API_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: 'STAFF_API_TOKEN is not configured on the server' }, { status: 503 });
+  }
+  const sent = /^Bearer\s+(.+)$/i.exec(request.headers.get('authorization') || '')?.[1].trim();
+  if (!sent || !isStaffToken(sent, token)) {
+    return NextResponse.json({ error: 'A valid staff token is required (Authorization: Bearer <token>)' }, { status: 401 });
+  }
+  return null;
+}
@@ -0,0 +1,119 @@
+import { createHash, generateKeyPairSync, verify, X509Certificate } from 'crypto';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { addSignatureField, invisibleSignatureField } from '../src/utils/signatureField';
+import { createDetachedSignature, createSelfSignedCertificate } from './cms';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const certificate = createSelfSignedCertificate(privateKey, publicKey, { commonName: 'Jane Inspector', organization: 'AAA Lead' });
+
+// DER elements, enough to walk a SignedData: tag, where the element and its contents are, and its children
+interface DerElement {
+  tag: number;
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+const readElement = (der: Buffer, start: number): DerElement => {
+  let length = der[start + 1];
+  let contentStart = start + 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = der.readUIntBE(start + 2, lengthBytes);
+    contentStart += lengthBytes;
+  }
+  return { tag: der[start], start, contentStart, end: contentStart + length };
+};
+
+const readChildren = (der: Buffer, parent: DerElement): DerElement[] => {
+  const children: DerElement[] = [];
+  for (let offset = parent.contentStart; offset < parent.end; offset = children[children.length - 1].end) {
+    children.push(readElement(der, offset));
+  }
+  return children;
+};
+
+// The parts of a detached signature a verifier checks
+const readSignedData = (der: Buffer) => {
+  const [contentType, wrapper] = readChildren(der, readElement(der, 0));
+  const [signedData] = readChildren(der, wrapper);
+  const [, , encapsulatedContent, certificates, signerInfos] = readChildren(der, signedData);
+  const [signerInfo] = readChildren(der, signerInfos);
+  const [, , , signedAttributes, , signature] = readChildren(der, signerInfo);
+  return {
+    contentType: der.subarray(contentType.start, contentType.end),
+    encapsulatedContent: readChildren(der, encapsulatedContent),
+    certificates: der.subarray(certificates.contentStart, certificates.end),
+    // Signed as a SET, stored tagged [0]
+    signedAttributes: Buffer.concat([Buffer.from([0x31]), der.subarray(signedAttributes.start + 1, signedAttributes.end)]),
+    signature: der.subarray(signature.contentStart, signature.end),
+  };
+};
+
+describe('createSelfSignedCertificate', () => {
+  it('is a valid certificate of the key, issued by itself', () => {
+    const x509 = new X509Certificate(certificate);
+    expect(x509.subject).toBe('CN=Jane Inspector\nO=AAA Lead');
+    expect(x509.issuer).toBe(x509.subject);
+    expect(x509.checkPrivateKey(privateKey)).toBe(true);
+    expect(x509.verify(publicKey)).toBe(true);
+  });
+});
+
+describe('createDetachedSignature', () => {
+  const content = Buffer.from('%PDF-1.7 the signed byte ranges');
+
+  it('signs the digest of the content without including it', () => {
+    const signed = readSignedData(createDetachedSignature(content, privateKey, [certificate]));
+
+    // signedData (1.2.840.113549.1.7.2), with only the data content type left of the content
+    expect(signed.contentType.toString('hex')).toBe('06092a864886f70d010702');
+    expect(signed.encapsulatedContent).toHaveLength(1);
+    expect(signed.certificates.equals(certificate)).toBe(true);
+    expect(signed.signedAttributes.includes(createHash('sha256').update(content).digest())).toBe(true);
+    expect(verify('sha256', signed.signedAttributes, publicKey, signed.signature)).toBe(true);
+  });
+
+  it('signs with EC keys too', () => {
+    const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const ecCertificate = createSelfSignedCertificate(ec.privateKey, ec.publicKey, { commonName: 'EC Signer' });
+    const signed = readSignedData(createDetachedSignature(content, ec.privateKey, [ecCertificate]));
+    expect(verify('sha256', signed.signedAttributes, ec.publicKey, signed.signature)).toBe(true);
+  });
+});
+
+describe('signPdf', () => {
+  it('signs the whole file but the signature itself', async () => {
+    // The signing settings are read when pdfSigner is loaded
+    const dir = mkdtempSync(join(tmpdir(), 'pdf-signing-'));
+    process.env.PDF_SIGNING_CERT = join(dir, 'signing-cert.pem');
+    process.env.PDF_SIGNING_KEY = join(dir, 'signing-key.pem');
+    writeFileSync(process.env.PDF_SIGNING_CERT, new X509Certificate(certificate).toString());
+    writeFileSync(process.env.PDF_SIGNING_KEY, privateKey.export({ type: 'pkcs8', format: 'pem' }));
+    const { signPdf } = await import('./pdfSigner');
+
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage();
+    addSignatureField(pdfDoc, invisibleSignatureField(pdfDoc));
+    const pdf = Buffer.from(await signPdf(await pdfDoc.save(), new Date(2024, 2, 7)));
+
+    const [start1, length1, start2, length2] = /\/ByteRange \[(\d+) (\d+) (\d+) (\d+)\]/.exec(pdf.toString('latin1'))!
+      .slice(1).map(Number);
+    expect(start1).toBe(0);
+    expect(start2 + length2).toBe(pdf.length);
+    const contents = pdf.subarray(length1, start2).toString('latin1');
+    expect(contents).toMatch(/^<[0-9a-f]+>$/);
+
+    const signedContent = Buffer.concat([pdf.subarray(0, length1), pdf.subarray(start2)]);
+    const signature = Buffer.from(contents.slice(1, -1), 'hex');
+    const signed = readSignedData(signature.subarray(0, readElement(signature, 0).end));
+    expect(signed.signedAttributes.includes(createHash('sha256').update(signedContent).digest())).toBe(true);
+    expect(verify('sha256', signed.signedAttributes, publicKey, signed.signature)).toBe(true);
+
+    await expect(signPdf(new Uint8Array(pdf))).rejects.toThrow('already signed');
+  });
+});
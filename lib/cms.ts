@@ -0,0 +1,215 @@
+/**
+ * The little ASN.1/DER needed to sign PDFs with Node's crypto alone: a detached CMS (PKCS#7) SignedData over
+ * the signed byte ranges, and a self-signed certificate to test signing with.
+ */
+import { createHash, sign, type KeyObject } from 'crypto';
+
+const OIDS = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  sha256WithRSAEncryption: '1.2.840.113549.1.1.11',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+  commonName: '2.5.4.3',
+  organizationName: '2.5.4.10',
+  keyUsage: '2.5.29.15',
+};
+
+// ==================== DER ENCODING ====================
+
+const encodeLength = (length: number): Buffer => {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+};
+
+const tlv = (tag: number, ...contents: Buffer[]): Buffer => {
+  const content = Buffer.concat(contents);
+  return Buffer.concat([Buffer.from([tag]), encodeLength(content.length), content]);
+};
+
+const sequence = (...items: Buffer[]) => tlv(0x30, ...items);
+// DER sorts the elements of a SET OF by their encoding
+const setOf = (...items: Buffer[]) => tlv(0x31, ...[...items].sort(Buffer.compare));
+const explicit = (tagNumber: number, ...items: Buffer[]) => tlv(0xa0 | tagNumber, ...items);
+const octetString = (bytes: Buffer) => tlv(0x04, bytes);
+const derNull = () => Buffer.from([0x05, 0x00]);
+const utf8String = (text: string) => tlv(0x0c, Buffer.from(text, 'utf8'));
+
+const objectIdentifier = (oid: string): Buffer => {
+  const [first, second, ...rest] = oid.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of rest) {
+    const arcBytes = [arc & 0x7f];
+    for (let n = Math.floor(arc / 128); n > 0; n = Math.floor(n / 128)) arcBytes.unshift((n & 0x7f) | 0x80);
+    bytes.push(...arcBytes);
+  }
+  return tlv(0x06, Buffer.from(bytes));
+};
+
+// A non-negative integer from its big-endian bytes (a leading zero keeps it positive)
+const unsignedInteger = (bytes: Buffer): Buffer => {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) start++;
+  const trimmed = bytes.subarray(start);
+  return tlv(0x02, trimmed[0] & 0x80 ? Buffer.concat([Buffer.from([0]), trimmed]) : trimmed);
+};
+
+// UTCTime for years before 2050, GeneralizedTime after (as X.509 and CMS require)
+const time = (date: Date): Buffer => {
+  const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14); // YYYYMMDDHHMMSS
+  return date.getUTCFullYear() < 2050
+    ? tlv(0x17, Buffer.from(`${iso.slice(2)}Z`, 'ascii'))
+    : tlv(0x18, Buffer.from(`${iso}Z`, 'ascii'));
+};
+
+const algorithm = (oid: string, withNullParameters: boolean) =>
+  sequence(objectIdentifier(oid), ...(withNullParameters ? [derNull()] : []));
+
+// ==================== DER READING ====================
+
+interface DerElement {
+  tag: number;
+  start: number;        // Offset of the tag
+  contentStart: number;
+  end: number;          // Offset after the content
+}
+
+const readElement = (der: Buffer, offset: number): DerElement => {
+  const tag = der[offset];
+  let length = der[offset + 1];
+  let contentStart = offset + 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) length = length * 256 + der[offset + 2 + i];
+    contentStart += lengthBytes;
+  }
+  if (contentStart + length > der.length) {
+    throw new Error('Malformed DER: an element runs past the end of the data');
+  }
+  return { tag, start: offset, contentStart, end: contentStart + length };
+};
+
+const readChildren = (der: Buffer, parent: DerElement): DerElement[] => {
+  const children: DerElement[] = [];
+  for (let offset = parent.contentStart; offset < parent.end;) {
+    const child = readElement(der, offset);
+    children.push(child);
+    offset = child.end;
+  }
+  return children;
+};
+
+/**
+ * The issuer and serial number of a DER certificate, as encoded in it, which is how a CMS signer names
+ * its certificate.
+ */
+const readIssuerAndSerialNumber = (certificate: Buffer): Buffer => {
+  const [tbsCertificate] = readChildren(certificate, readElement(certificate, 0));
+  const fields = readChildren(certificate, tbsCertificate);
+  const index = fields[0].tag === 0xa0 ? 1 : 0; // [0] version is absent from v1 certificates
+  const serialNumber = fields[index];
+  const issuer = fields[index + 2];
+  return sequence(
+    certificate.subarray(issuer.start, issuer.end),
+    certificate.subarray(serialNumber.start, serialNumber.end)
+  );
+};
+
+const signatureAlgorithmFor = (privateKey: KeyObject): Buffer => {
+  if (privateKey.asymmetricKeyType === 'rsa') return algorithm(OIDS.sha256WithRSAEncryption, true);
+  if (privateKey.asymmetricKeyType === 'ec') return algorithm(OIDS.ecdsaWithSHA256, false);
+  throw new Error(`Unsupported signing key type: ${privateKey.asymmetricKeyType} (use an RSA or EC key)`);
+};
+
+// ==================== CMS / X.509 ====================
+
+/**
+ * Builds a detached CMS SignedData (PKCS#7) over some content, as a PDF's /Contents holds it for
+ * adbe.pkcs7.detached: SHA-256 digest, signed attributes (content type, message digest, signing time)
+ * and the certificates, signer first.
+ * @param content - The signed bytes (for a PDF, both byte ranges joined)
+ * @param certificates - DER certificates: the signer's, then the rest of its chain
+ * @returns The DER encoding
+ */
+export function createDetachedSignature(
+  content: Buffer,
+  privateKey: KeyObject,
+  certificates: Buffer[],
+  signingTime: Date = new Date()
+): Buffer {
+  const signedAttributes = [
+    sequence(objectIdentifier(OIDS.contentType), setOf(objectIdentifier(OIDS.data))),
+    sequence(objectIdentifier(OIDS.messageDigest), setOf(octetString(createHash('sha256').update(content).digest()))),
+    sequence(objectIdentifier(OIDS.signingTime), setOf(time(signingTime))),
+  ];
+  // The signature covers the attributes encoded as a SET; in the SignerInfo they are tagged [0] instead
+  const signedAttributesSet = setOf(...signedAttributes);
+  const signature = sign('sha256', signedAttributesSet, privateKey);
+
+  const signerInfo = sequence(
+    unsignedInteger(Buffer.from([1])),
+    readIssuerAndSerialNumber(certificates[0]),
+    algorithm(OIDS.sha256, true),
+    Buffer.concat([Buffer.from([0xa0]), signedAttributesSet.subarray(1)]),
+    signatureAlgorithmFor(privateKey),
+    octetString(signature)
+  );
+  const signedData = sequence(
+    unsignedInteger(Buffer.from([1])),
+    setOf(algorithm(OIDS.sha256, true)),
+    sequence(objectIdentifier(OIDS.data)), // Detached: no content
+    tlv(0xa0, ...certificates),            // [0] IMPLICIT certificates, in chain order
+    setOf(signerInfo)
+  );
+  return sequence(objectIdentifier(OIDS.signedData), explicit(0, signedData));
+}
+
+/**
+ * Creates a self-signed X.509 certificate for a key pair, to test signing without a certificate authority.
+ * PDF readers show its signatures as valid and unmodified but the signer as unverified, until the certificate
+ * is trusted.
+ * @param days - Validity from now
+ * @returns The DER certificate
+ */
+export function createSelfSignedCertificate(
+  privateKey: KeyObject,
+  publicKey: KeyObject,
+  subject: { commonName: string; organization?: string },
+  days: number = 365
+): Buffer {
+  const name = sequence(
+    setOf(sequence(objectIdentifier(OIDS.commonName), utf8String(subject.commonName))),
+    ...(subject.organization
+      ? [setOf(sequence(objectIdentifier(OIDS.organizationName), utf8String(subject.organization)))]
+      : [])
+  );
+  const notBefore = new Date();
+  const notAfter = new Date(notBefore.getTime() + days * 24 * 60 * 60 * 1000);
+  const serialNumber = createHash('sha256').update(`${subject.commonName}${notBefore.toISOString()}`).digest().subarray(0, 16);
+  serialNumber[0] &= 0x7f; // Positive
+
+  const signatureAlgorithm = signatureAlgorithmFor(privateKey);
+  const tbsCertificate = sequence(
+    explicit(0, unsignedInteger(Buffer.from([2]))), // v3
+    unsignedInteger(serialNumber),
+    signatureAlgorithm,
+    name,
+    sequence(time(notBefore), time(notAfter)),
+    name,
+    publicKey.export({ type: 'spki', format: 'der' }),
+    // Key usage: digital signature and non-repudiation (content commitment), critical
+    explicit(3, sequence(sequence(
+      objectIdentifier(OIDS.keyUsage),
+      Buffer.from([0x01, 0x01, 0xff]),
+      octetString(Buffer.from([0x03, 0x02, 0x06, 0xc0]))
+    )))
+  );
+  const signature = sign('sha256', tbsCertificate, privateKey);
+  return sequence(tbsCertificate, signatureAlgorithm, tlv(0x03, Buffer.from([0]), signature));
+}
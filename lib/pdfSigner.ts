@@ -0,0 +1,218 @@
+/**
+ * Digital signatures of generated PDFs: a detached CMS (PKCS#7) signature with the certificate and key held on
+ * the server, in the "Digital Signature" field the PDF was built with, so PDF readers show it as signed and
+ * unmodified since.
+ */
+import { createPrivateKey, X509Certificate, type KeyObject } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import {
+  PDFAcroSignature,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFString,
+  StandardFonts,
+  beginText,
+  endText,
+  moveText,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  setFillingRgbColor,
+  setFontAndSize,
+  setLineWidth,
+  setStrokingRgbColor,
+  showText,
+  stroke,
+} from 'pdf-lib';
+import type { PDFFont, PDFOperator } from 'pdf-lib';
+import { createDetachedSignature } from './cms';
+import { DIGITAL_SIGNATURE_FIELD } from '../src/utils/signatureField';
+
+// Certificate chain (signer first) and private key: PEM contents, or paths of PEM files
+const PDF_SIGNING_CERT = process.env.PDF_SIGNING_CERT;
+const PDF_SIGNING_KEY = process.env.PDF_SIGNING_KEY;
+const PDF_SIGNING_KEY_PASSPHRASE = process.env.PDF_SIGNING_KEY_PASSPHRASE;
+
+// Room left in /Contents for the signature on top of the certificates (signed attributes, RSA-4096 signature...)
+const SIGNATURE_SPACE = 4096;
+// Replaced with the real byte ranges once the PDF is written; as wide as any offset they can have
+const BYTE_RANGE_PLACEHOLDER = 9999999999;
+
+interface SigningCredentials {
+  privateKey: KeyObject;
+  certificates: Buffer[]; // DER, signer first
+  signerName: string;     // Common name of the signer's certificate
+  organization?: string;  // Its organization
+}
+
+let credentials: SigningCredentials | null = null;
+
+export function getMissingSigningVars(): string[] {
+  const missingVars: string[] = [];
+  if (!PDF_SIGNING_CERT) missingVars.push('PDF_SIGNING_CERT');
+  if (!PDF_SIGNING_KEY) missingVars.push('PDF_SIGNING_KEY');
+  return missingVars;
+}
+
+export function isSigningConfigured(): boolean {
+  return getMissingSigningVars().length === 0;
+}
+
+// A PEM setting holds the PEM itself or the path of a PEM file
+function readPem(value: string, variable: string): string {
+  if (value.includes('-----BEGIN')) return value.replace(/\\n/g, '\n'); // Single-line env values escape newlines
+  if (!existsSync(value)) {
+    throw new Error(`${variable} is neither PEM nor the path of an existing file: ${value}`);
+  }
+  return readFileSync(value, 'utf8');
+}
+
+function getSigningCredentials(): SigningCredentials {
+  if (!isSigningConfigured()) {
+    throw new Error(`PDF signing is not configured. Missing: ${getMissingSigningVars().join(', ')}`);
+  }
+  if (!credentials) {
+    const certificatePems = readPem(PDF_SIGNING_CERT!, 'PDF_SIGNING_CERT')
+      .match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [];
+    if (certificatePems.length === 0) {
+      throw new Error('PDF_SIGNING_CERT holds no PEM certificate');
+    }
+    const certificates = certificatePems.map(pem => new X509Certificate(pem));
+    const privateKey = createPrivateKey({
+      key: readPem(PDF_SIGNING_KEY!, 'PDF_SIGNING_KEY'),
+      passphrase: PDF_SIGNING_KEY_PASSPHRASE,
+    });
+    if (!certificates[0].checkPrivateKey(privateKey)) {
+      throw new Error('PDF_SIGNING_KEY is not the key of the first certificate in PDF_SIGNING_CERT');
+    }
+    if (new Date(certificates[0].validTo) < new Date()) {
+      console.warn(`⚠️ The PDF signing certificate expired on ${certificates[0].validTo}, signatures will show as invalid`);
+    }
+    const subject = certificates[0].subject;
+    credentials = {
+      privateKey,
+      certificates: certificates.map(certificate => certificate.raw),
+      signerName: subject.match(/^CN=(.*)$/m)?.[1] || subject.split('\n')[0],
+      organization: subject.match(/^O=(.*)$/m)?.[1],
+    };
+  }
+  return credentials;
+}
+
+// The lines of the visible signature, in the font size that fits them in the widget
+function layoutAppearance(font: PDFFont, lines: string[], width: number, height: number) {
+  const padding = 3;
+  const widest = Math.max(...lines.map(line => font.widthOfTextAtSize(line, 1)));
+  const fontSize = Math.min(9, (height - padding * 2) / (lines.length * 1.2), (width - padding * 2) / widest);
+  return { padding, fontSize, lineHeight: fontSize * 1.2 };
+}
+
+// Visible appearance of the signature: a framed box with the signer and the date
+function createAppearance(pdfDoc: PDFDocument, font: PDFFont, lines: string[], width: number, height: number) {
+  const { padding, fontSize, lineHeight } = layoutAppearance(font, lines, width, height);
+  const operators: PDFOperator[] = [
+    pushGraphicsState(),
+    setStrokingRgbColor(0.1, 0.25, 0.55),
+    setLineWidth(0.75),
+    rectangle(0.5, 0.5, width - 1, height - 1),
+    stroke(),
+    beginText(),
+    setFillingRgbColor(0.1, 0.25, 0.55),
+    setFontAndSize('F1', fontSize),
+    moveText(padding, height - padding - fontSize),
+  ];
+  lines.forEach((line, index) => {
+    if (index > 0) operators.push(moveText(0, -lineHeight));
+    operators.push(showText(font.encodeText(line)));
+  });
+  operators.push(endText(), popGraphicsState());
+
+  return pdfDoc.context.register(pdfDoc.context.formXObject(operators, {
+    BBox: [0, 0, width, height],
+    Resources: { Font: { F1: font.ref } },
+  }));
+}
+
+const findSignatureField = (pdfDoc: PDFDocument): PDFAcroSignature | undefined => {
+  const fields = pdfDoc.catalog.getAcroForm()?.getAllFields() || [];
+  return fields
+    .map(([field]) => field)
+    .find((field): field is PDFAcroSignature =>
+      field instanceof PDFAcroSignature && field.getPartialName() === DIGITAL_SIGNATURE_FIELD);
+};
+
+/**
+ * Signs a generated PDF with the server's certificate: fills its "Digital Signature" field (see
+ * addSignatureField) with a detached CMS signature, and with the visible appearance unless the field is invisible.
+ * Only called on PDFs the server has just built itself (generateServerReport): the field says nothing about who
+ * made a PDF, so signing one sent from outside would vouch for content the server never produced.
+ * @returns The signed PDF
+ * @throws Error if the PDF has no unsigned signature field, signing isn't configured or the credentials are invalid
+ */
+export async function signPdf(bytes: Uint8Array, signingTime: Date = new Date()): Promise<Uint8Array> {
+  const { privateKey, certificates, signerName, organization } = getSigningCredentials();
+  const pdfDoc = await PDFDocument.load(bytes);
+
+  const field = findSignatureField(pdfDoc);
+  if (!field) {
+    throw new Error(`The PDF has no "${DIGITAL_SIGNATURE_FIELD}" field: only reports generated to be signed can be signed`);
+  }
+  if (field.dict.has(PDFName.of('V'))) {
+    throw new Error('The PDF is already signed');
+  }
+
+  const widget = field.getWidgets()[0];
+  const { width, height } = widget.getRectangle();
+  if (width > 0 && height > 0) {
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const lines = [
+      `Digitally signed by ${signerName}`,
+      ...(organization ? [organization] : []),
+      `Date: ${signingTime.toISOString().replace('T', ' ').slice(0, 19)} UTC`,
+    ];
+    widget.setNormalAppearance(createAppearance(pdfDoc, font, lines, width, height));
+  }
+
+  const contentsLength = certificates.reduce((total, certificate) => total + certificate.length, 0) + SIGNATURE_SPACE;
+  const signatureDict = pdfDoc.context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'adbe.pkcs7.detached',
+    ByteRange: [0, BYTE_RANGE_PLACEHOLDER, BYTE_RANGE_PLACEHOLDER, BYTE_RANGE_PLACEHOLDER],
+    Contents: PDFHexString.of('0'.repeat(contentsLength * 2)),
+    M: PDFString.fromDate(signingTime),
+    Name: PDFString.of(signerName),
+  });
+  field.dict.set(PDFName.of('V'), pdfDoc.context.register(signatureDict));
+  // Signatures exist, and the file must only be appended to from now on
+  pdfDoc.catalog.getOrCreateAcroForm().dict.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+
+  // Object streams would compress the signature dictionary, whose placeholders are patched in the file below
+  const pdf = Buffer.from(await pdfDoc.save({ useObjectStreams: false }));
+
+  // The signature covers the whole file except the /Contents value
+  const contentsStart = pdf.indexOf(`<${'0'.repeat(contentsLength * 2)}>`, 0, 'latin1');
+  const byteRangeMatch = /\/ByteRange\s*\[\s*0\s+9999999999\s+9999999999\s+9999999999\s*\]/.exec(pdf.toString('latin1'));
+  if (contentsStart < 0 || !byteRangeMatch) {
+    throw new Error('Signature placeholders not found in the saved PDF');
+  }
+  const contentsEnd = contentsStart + contentsLength * 2 + 2;
+  const byteRange = `/ByteRange [0 ${contentsStart} ${contentsEnd} ${pdf.length - contentsEnd}]`;
+  pdf.write(byteRange.padEnd(byteRangeMatch[0].length, ' '), byteRangeMatch.index, 'latin1');
+
+  const signature = createDetachedSignature(
+    Buffer.concat([pdf.subarray(0, contentsStart), pdf.subarray(contentsEnd)]),
+    privateKey,
+    certificates,
+    signingTime
+  );
+  if (signature.length > contentsLength) {
+    throw new Error(`The signature (${signature.length} bytes) doesn't fit the space reserved for it (${contentsLength} bytes)`);
+  }
+  pdf.write(signature.toString('hex').padEnd(contentsLength * 2, '0'), contentsStart + 1, 'latin1');
+
+  console.log(`✅ Signed the PDF as ${signerName}`);
+  return new Uint8Array(pdf);
+}
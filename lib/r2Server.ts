@@ -0,0 +1,81 @@
+/**
+ * Server-side R2 access for API routes that read or write objects themselves
+ * (the browser goes through /api/upload and /api/files instead).
+ */
+import { S3Client, DeleteObjectCommand, GetObjectCommand, NoSuchKey, PutObjectCommand } from '@aws-sdk/client-s3';
+
+// Get R2 configuration (check both NEXT_PUBLIC_* and REACT_APP_* for backward compatibility)
+const R2_ENDPOINT = process.env.NEXT_PUBLIC_R2_ENDPOINT || process.env.REACT_APP_R2_ENDPOINT;
+const R2_ACCESS_KEY_ID = process.env.NEXT_PUBLIC_R2_ACCESS_KEY_ID || process.env.REACT_APP_R2_ACCESS_KEY_ID;
+const R2_SECRET_ACCESS_KEY = process.env.NEXT_PUBLIC_R2_SECRET_ACCESS_KEY || process.env.REACT_APP_R2_SECRET_ACCESS_KEY;
+export const R2_BUCKET_NAME = process.env.NEXT_PUBLIC_R2_BUCKET_NAME || process.env.REACT_APP_R2_BUCKET_NAME || 'lead-main';
+
+let r2Client: S3Client | null = null;
+
+export function getMissingR2Vars(): string[] {
+  const missingVars: string[] = [];
+  if (!R2_ENDPOINT) missingVars.push('REACT_APP_R2_ENDPOINT or NEXT_PUBLIC_R2_ENDPOINT');
+  if (!R2_ACCESS_KEY_ID) missingVars.push('REACT_APP_R2_ACCESS_KEY_ID or NEXT_PUBLIC_R2_ACCESS_KEY_ID');
+  if (!R2_SECRET_ACCESS_KEY) missingVars.push('REACT_APP_R2_SECRET_ACCESS_KEY or NEXT_PUBLIC_R2_SECRET_ACCESS_KEY');
+  return missingVars;
+}
+
+export function isR2Configured(): boolean {
+  return getMissingR2Vars().length === 0;
+}
+
+function getR2Client(): S3Client {
+  if (!isR2Configured()) {
+    throw new Error(`R2 storage is not configured. Missing: ${getMissingR2Vars().join(', ')}`);
+  }
+  if (!r2Client) {
+    r2Client = new S3Client({
+      region: 'auto',
+      endpoint: R2_ENDPOINT!,
+      forcePathStyle: true,
+      credentials: {
+        accessKeyId: R2_ACCESS_KEY_ID!,
+        secretAccessKey: R2_SECRET_ACCESS_KEY!,
+      },
+    });
+  }
+  return r2Client;
+}
+
+export async function putR2Object(key: string, body: Uint8Array | Buffer, contentType: string): Promise<void> {
+  await getR2Client().send(new PutObjectCommand({
+    Bucket: R2_BUCKET_NAME,
+    Key: key,
+    Body: body,
+    ContentType: contentType,
+  }));
+}
+
+export async function deleteR2Object(key: string): Promise<void> {
+  await getR2Client().send(new DeleteObjectCommand({
+    Bucket: R2_BUCKET_NAME,
+    Key: key,
+  }));
+}
+
+/**
+ * @returns The object's bytes, or null if there is no such object or it has no body
+ */
+export async function getR2Object(key: string): Promise<Uint8Array | null> {
+  let response;
+  try {
+    response = await getR2Client().send(new GetObjectCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+    }));
+  } catch (error) {
+    if (error instanceof NoSuchKey) {
+      return null;
+    }
+    throw error;
+  }
+  if (!response.Body) {
+    return null;
+  }
+  return await response.Body.transformToByteArray();
+}
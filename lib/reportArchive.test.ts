@@ -0,0 +1,148 @@
+import { PGlite } from '@electric-sql/pglite';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDatabase } from '../db/database.js';
+import * as dbModels from '../db/models.js';
+import type { ReportRecordDetails } from '../src/types/reports';
+import { ArchiveUnavailableError, archiveReport, getPublicReportInfo, RevisionTakenError, sha256Hex } from './reportArchive';
+
+// The reports table of db/schema.sql, in an in-memory Postgres
+const db = new PGlite();
+
+vi.mock('../db/database.js', () => ({
+  getDatabase: vi.fn(async () => ({ query: (text: string, params?: unknown[]) => db.query(text, params) })),
+  getDatabaseSync: vi.fn(),
+  isDatabaseAvailable: vi.fn(() => true),
+}));
+
+// The bucket, by key
+const objects = new Map<string, Uint8Array>();
+
+vi.mock('./r2Server', () => ({
+  putR2Object: vi.fn(async (key: string, body: Uint8Array) => { objects.set(key, body); }),
+  deleteR2Object: vi.fn(async (key: string) => { objects.delete(key); }),
+  getR2Object: vi.fn(async (key: string) => objects.get(key) || null),
+}));
+
+beforeAll(async () => {
+  const schema = readFileSync(join(__dirname, '../db/schema.sql'), 'utf8');
+  await db.exec(schema.match(/CREATE TABLE IF NOT EXISTS reports \([\s\S]*?\n\);/)![0]);
+  await db.exec(schema.match(/CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_revision [\s\S]*?;/)![0]);
+});
+
+beforeEach(async () => {
+  await db.exec('DELETE FROM reports');
+  objects.clear();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+const createDetails = (overrides: Partial<ReportRecordDetails> = {}): ReportRecordDetails => ({
+  reportType: 'XHR',
+  document: 'report',
+  address: '12 Eglantine Ave',
+  isPositive: false,
+  totalReadings: 40,
+  positiveReadings: 0,
+  ...overrides,
+});
+
+const archive = (id: string, overrides: Partial<ReportRecordDetails> = {}) =>
+  archiveReport(new TextEncoder().encode(`%PDF ${id}`), 'report.pdf', createDetails(overrides), undefined, id);
+
+describe('archiveReport', () => {
+  it('stores the PDF under its record and records it with its SHA-256', async () => {
+    const bytes = new TextEncoder().encode('%PDF original');
+    const record = await archiveReport(bytes, 'report.pdf', createDetails({ inspectorName: 'Jane Inspector' }), undefined, 'original');
+
+    expect(record).toMatchObject({
+      id: 'original',
+      filePath: 'reports/original/report.pdf',
+      address: '12 Eglantine Ave',
+      inspectorName: 'Jane Inspector',
+      sha256: sha256Hex(bytes),
+    });
+    expect(objects.get(record.filePath)).toBe(bytes);
+    expect(await dbModels.getReportById('original')).toEqual(record);
+  });
+
+  it('refuses a revision number taken by the same document of the same original, and removes its PDF', async () => {
+    await archive('original');
+    await archive('revision-2', { revisionOf: 'original', revision: 2 });
+
+    await expect(archive('again-2', { revisionOf: 'original', revision: 2 })).rejects.toThrow(RevisionTakenError);
+    // A lower number is taken too: a later revision was already issued
+    await expect(archive('late-1', { revisionOf: 'original', revision: 1 })).rejects.toThrow(
+      'Revision 1 of this report was already saved; reopen the report to generate the next revision'
+    );
+    expect([...objects.keys()]).toEqual(['reports/original/report.pdf', 'reports/revision-2/report.pdf']);
+    expect(await dbModels.getReportById('again-2')).toBeNull();
+  });
+
+  it('numbers revisions per document and unit', async () => {
+    await archive('original');
+    await archive('report-1', { revisionOf: 'original', revision: 1 });
+    await archive('certificate-1', { revisionOf: 'original', revision: 1, document: 'certificate' });
+    await archive('unit-a-1', { revisionOf: 'original', revision: 1, unit: '1A' });
+    await archive('unit-b-1', { revisionOf: 'original', revision: 1, unit: '1B' });
+
+    await expect(archive('unit-a-again-1', { revisionOf: 'original', revision: 1, unit: '1A' })).rejects.toThrow(RevisionTakenError);
+    // Another original numbers its own revisions
+    await expect(archive('other-1', { revisionOf: 'other', revision: 1 })).resolves.toMatchObject({ revision: 1 });
+  });
+
+  it('is unavailable without the database, and removes the PDF it stored', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(getDatabase).mockResolvedValueOnce(null as any);
+
+    await expect(archive('original')).rejects.toThrow(ArchiveUnavailableError);
+    expect(objects.size).toBe(0);
+  });
+});
+
+describe('getPublicReportInfo', () => {
+  const info = async (id: string) => getPublicReportInfo((await dbModels.getReportById(id))!);
+
+  it('is current until a later revision of the same document is issued', async () => {
+    await archive('original');
+    expect(await info('original')).toMatchObject({ id: 'original', status: 'current', supersededBy: undefined });
+
+    await archive('certificate-1', { revisionOf: 'original', revision: 1, document: 'certificate' });
+    expect((await info('original')).status).toBe('current');
+
+    await archive('revision-1', { revisionOf: 'original', revision: 1, address: '12 Eglantine Avenue' });
+    await archive('revision-2', { revisionOf: 'original', revision: 2 });
+    // Superseded by the newest revision, whatever the address it corrected
+    expect(await info('original')).toMatchObject({ status: 'superseded', supersededBy: { id: 'revision-2', revision: 2 } });
+    expect(await info('revision-1')).toMatchObject({ status: 'superseded', supersededBy: { id: 'revision-2', revision: 2 } });
+    expect((await info('revision-2')).status).toBe('current');
+    expect((await info('certificate-1')).status).toBe('current');
+  });
+
+  it('is superseded only by revisions of the same unit', async () => {
+    await archive('unit-a', { unit: '1A' });
+    await archive('unit-b-1', { revisionOf: 'unit-a', revision: 1, unit: '1B' });
+
+    expect((await info('unit-a')).status).toBe('current');
+    await archive('unit-a-1', { revisionOf: 'unit-a', revision: 1, unit: '1A' });
+    expect(await info('unit-a')).toMatchObject({ status: 'superseded', supersededBy: { id: 'unit-a-1' } });
+  });
+
+  it('says a report is revoked, and a revoked revision supersedes nothing', async () => {
+    await archive('original');
+    await archive('revision-1', { revisionOf: 'original', revision: 1 });
+    await archive('revision-2', { revisionOf: 'original', revision: 2 });
+
+    const revoked = await dbModels.revokeReport('revision-2', 'Wrong inspection date');
+    expect(revoked).toMatchObject({ id: 'revision-2', revokedReason: 'Wrong inspection date' });
+    expect(await info('revision-2')).toMatchObject({
+      status: 'revoked',
+      supersededBy: undefined,
+      revokedAt: revoked!.revokedAt!.toISOString(),
+      revokedReason: 'Wrong inspection date',
+    });
+    expect(await info('original')).toMatchObject({ status: 'superseded', supersededBy: { id: 'revision-1' } });
+    expect((await info('revision-1')).status).toBe('current');
+    expect(await dbModels.revokeReport('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * The report archive: every generated PDF is stored in R2 and recorded in the reports table with the details
+ * it was generated with, so it can be searched for and downloaded again later.
+ */
+import { createHash, randomUUID } from 'crypto';
+import * as dbModels from '../db/models.js';
+import { deleteR2Object, putR2Object } from './r2Server';
+import type { PublicReportInfo, ReportInputs, ReportRecord, ReportRecordDetails } from '../src/types/reports';
+
+/**
+ * Hex SHA-256 of a file, as recorded for every archived PDF.
+ */
+export function sha256Hex(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+/**
+ * A revision whose number another revision of the same document took first (its report was reopened twice).
+ */
+export class RevisionTakenError extends Error {
+  constructor(details: ReportRecordDetails) {
+    super(`Revision ${details.revision} of this ${details.document} was already saved; reopen the report to generate the next revision`);
+    this.name = 'RevisionTakenError';
+  }
+}
+
+/**
+ * The archive can't record reports (no database configured or reachable).
+ */
+export class ArchiveUnavailableError extends Error {
+  constructor() {
+    super('The report archive is not available, try again later');
+    this.name = 'ArchiveUnavailableError';
+  }
+}
+
+// Removes the PDF of a record that wasn't created, so the bucket keeps no file the archive doesn't know of
+async function discardUpload(filePath: string): Promise<void> {
+  try {
+    await deleteR2Object(filePath);
+  } catch (error) {
+    console.warn(`⚠️ Could not remove ${filePath} after its record wasn't created:`, error);
+  }
+}
+
+/**
+ * Stores a generated PDF and records it in the archive, with its SHA-256 so a submitted copy can be checked
+ * against it later.
+ * @param inputs - What the PDF was generated from, so it can be regenerated as a revision
+ * @param id - Record id, when it was chosen before the PDF was built (its verification QR code links to it)
+ * @returns The archive record
+ * @throws RevisionTakenError when the revision number was taken meanwhile
+ * @throws ArchiveUnavailableError without the database
+ */
+export async function archiveReport(
+  bytes: Uint8Array,
+  fileName: string,
+  details: ReportRecordDetails,
+  inputs?: ReportInputs,
+  id: string = randomUUID()
+): Promise<ReportRecord> {
+  // One folder per record, so PDFs of the same address (same file name) never overwrite each other
+  const filePath = `reports/${id}/${fileName}`;
+  await putR2Object(filePath, bytes, 'application/pdf');
+  let record: ReportRecord | false | null;
+  try {
+    record = await dbModels.createReport(id, fileName, filePath, details, inputs || null, sha256Hex(bytes));
+  } catch (error) {
+    await discardUpload(filePath);
+    throw error;
+  }
+  if (!record) {
+    await discardUpload(filePath);
+    throw record === false ? new RevisionTakenError(details) : new ArchiveUnavailableError();
+  }
+  console.log(`✅ Archived ${fileName} (${record.id})`);
+  return record;
+}
+
+/**
+ * What the public may see about an issued report, with whether it is current, superseded by a later
+ * revision or revoked.
+ */
+export async function getPublicReportInfo(report: ReportRecord): Promise<PublicReportInfo> {
+  const superseding: ReportRecord | null = report.revokedAt ? null : await dbModels.getSupersedingRevision(report);
+  return {
+    id: report.id,
+    document: report.document,
+    address: report.address,
+    block: report.block,
+    lot: report.lot,
+    county: report.county,
+    inspectionDate: report.inspectionDate,
+    result: report.result,
+    isPositive: report.isPositive,
+    inspectorName: report.inspectorName,
+    issuedAt: report.generatedAt.toISOString(),
+    revision: report.revision,
+    status: report.revokedAt ? 'revoked' : superseding ? 'superseded' : 'current',
+    supersededBy: superseding
+      ? { id: superseding.id, revision: superseding.revision || 0, issuedAt: superseding.generatedAt.toISOString() }
+      : undefined,
+    revokedAt: report.revokedAt?.toISOString(),
+    revokedReason: report.revokedReason,
+  };
+}
@@ -0,0 +1,314 @@
+/**
+ * Server-side report generation, for the generate API and scripts. Loads what generation needs (the saved
+ * report configs, the templates and the inspector's documents and variables) from the database, R2 and public/;
+ * the browser loads the same things through the API.
+ */
+import { randomUUID } from 'crypto';
+import { readFile } from 'fs/promises';
+import { join, normalize, sep } from 'path';
+import * as dbModels from '../db/models.js';
+import { getR2Object, isR2Configured } from './r2Server';
+import { isSigningConfigured, signPdf } from './pdfSigner';
+import { archiveReport } from './reportArchive';
+import { getReportConfig, setReportConfigs } from '../src/config/reports';
+import { getAnalyzerProfile } from '../src/config/analyzerProfiles';
+import type { ReportConfig } from '../src/types/reportStructure';
+import type { Document, Inspector } from '../src/types/documents';
+import { getTemplateKey } from '../src/utils/templateLoader';
+import { buildPDFReport } from '../src/utils/pdfGenerator';
+import { buildCertificatePDF } from '../src/utils/certificateGenerator';
+import { buildPdfFileName } from '../src/utils/pdfDownload';
+import { getVerificationUrl } from '../src/utils/qrCode';
+import {
+  extractReportData,
+  findCertificateDocumentType,
+  findLicenseDocumentType,
+  getReferencedDocumentIds,
+  getReportRecordDetails,
+  getTemplateVersions,
+  isSupportedUploadFile,
+  readUploadedWorkbook,
+} from '../src/utils/reportData';
+
+const PUBLIC_DIR = join(process.cwd(), 'public');
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+};
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer => {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+};
+
+/**
+ * Loads a template like loadTemplateBytes does in the browser: a pinned version from the template
+ * library (R2), otherwise the static file in public/.
+ * @throws Error if the template doesn't exist or is empty
+ */
+export async function loadServerTemplate(templateUrl: string, version?: number): Promise<ArrayBuffer> {
+  const templateKey = getTemplateKey(templateUrl);
+  if (version !== undefined) {
+    const templateVersion = await dbModels.getTemplateVersion(templateKey, version);
+    if (!templateVersion) {
+      throw new Error(`Template ${templateKey} version ${version} not found`);
+    }
+    const bytes = await getR2Object(templateVersion.filePath);
+    if (!bytes || bytes.length === 0) {
+      throw new Error(`File for ${templateKey} v${version} not found in storage`);
+    }
+    return toArrayBuffer(bytes);
+  }
+
+  const filePath = normalize(join(PUBLIC_DIR, templateUrl));
+  if (!filePath.startsWith(PUBLIC_DIR + sep)) {
+    throw new Error(`Template path ${templateUrl} is outside public/`);
+  }
+  const bytes = await readFile(filePath);
+  if (bytes.length === 0) {
+    throw new Error(`Template file ${templateKey} is empty. Please check the file.`);
+  }
+  return toArrayBuffer(bytes);
+}
+
+/**
+ * Applies the report configs saved in the database, so getReportConfig returns what the app uses.
+ */
+export async function loadSavedReportConfigs(): Promise<void> {
+  const savedConfigs = await dbModels.getAllReportConfigs();
+  setReportConfigs(savedConfigs.map(({ updatedAt, ...config }: any) => config as ReportConfig));
+}
+
+// Downloads a document's file from R2; documents whose file is missing are left out with a warning
+async function withFile(doc: Document): Promise<Document | null> {
+  if (!doc.filePath || !doc.filePath.startsWith('documents/')) {
+    console.warn(`⚠️ Document ${doc.id} (${doc.fileName}) has invalid or missing filePath: "${doc.filePath}"`);
+    return null;
+  }
+  try {
+    const bytes = await getR2Object(doc.filePath);
+    if (!bytes) {
+      console.warn(`⚠️ File of document ${doc.id} (${doc.fileName}) not found in storage`);
+      return null;
+    }
+    const extension = doc.fileName.split('.').pop()?.toLowerCase() || '';
+    return { ...doc, file: new Blob([bytes as any], { type: CONTENT_TYPES[extension] || 'application/octet-stream' }) };
+  } catch (error) {
+    console.warn(`⚠️ Failed to load file from R2 for ${doc.id}:`, error);
+    return null;
+  }
+}
+
+export interface ServerGenerationContext {
+  inspector: Inspector | null;
+  inspectors: Inspector[];
+  generalVariables: Map<string, string>;
+  generalTypedDocuments: Map<string, Document>;
+  inspectorDocuments: Map<string, Document[]>;
+}
+
+/**
+ * Loads the general documents and variables, and the inspector with their documents, with the files downloaded.
+ * @param inspectorId - Inspector of the report (the inspector is null if there is no such inspector)
+ */
+export async function loadServerGenerationContext(inspectorId: string | undefined): Promise<ServerGenerationContext> {
+  const inspector: Inspector | null = inspectorId ? await dbModels.getInspectorById(inspectorId) : null;
+  const generalVariables: Map<string, string> = await dbModels.getAllGeneralVariables();
+
+  const generalTypedDocuments = new Map<string, Document>();
+  const storedGeneralDocuments: Map<string, Document> = await dbModels.getGeneralTypedDocuments();
+  for (const [documentType, doc] of Array.from(storedGeneralDocuments.entries())) {
+    const loaded = await withFile(doc);
+    if (loaded) generalTypedDocuments.set(documentType, loaded);
+  }
+
+  const inspectorDocuments = new Map<string, Document[]>();
+  if (inspector) {
+    const storedInspectorDocuments: Document[] = await dbModels.getInspectorDocumentsById(inspector.id);
+    const loaded = await Promise.all(storedInspectorDocuments.map(withFile));
+    inspectorDocuments.set(inspector.id, loaded.filter((doc): doc is Document => doc !== null));
+  }
+
+  return {
+    inspector,
+    inspectors: inspector ? [inspector] : [],
+    generalVariables,
+    generalTypedDocuments,
+    inspectorDocuments,
+  };
+}
+
+// A request that can't be generated; status is the HTTP status the API answers with
+export class ReportRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ReportRequestError';
+  }
+}
+
+export type ServerReportOutput = 'report' | 'certificate' | 'bundle';
+
+export interface ServerReportRequest {
+  reportType: string;
+  inspectorId: string;
+  // Confirmed form values by field id. Without a workbook, also the extracted data of the upload step
+  // (fullExcelData, headerRowIndex, counts...)
+  data?: Record<string, any>;
+  workbook?: { fileName: string; bytes: ArrayBuffer; sheetName?: string }; // Excel file or CSV/text export
+  analyzerProfileId?: string; // Analyzer profile to read the workbook with (default: detect from the headers)
+  output?: ServerReportOutput; // The report (default), the lead-safe certificate, or the report with it
+  generatedBy?: string; // Recorded in the report archive
+  baseUrl?: string; // Site address for the verification QR code, when NEXT_PUBLIC_APP_URL isn't set
+  sign?: boolean; // Digitally sign the PDF with the server's certificate (PDF_SIGNING_CERT and PDF_SIGNING_KEY)
+}
+
+export interface ServerReport {
+  bytes: Uint8Array;
+  fileName: string;
+  warnings: string[]; // What the confirmation step would have flagged (missing documents, calibration warnings...)
+  reportId?: string; // Report archive record (undefined if the PDF couldn't be archived, see warnings)
+}
+
+/**
+ * Generates a report without the browser: reads the workbook, applies the confirmed data and the inspector
+ * like the confirmation step does, and builds the PDF with templates and documents loaded on the server.
+ * @throws ReportRequestError for an invalid request or data the report can't be generated from
+ */
+export async function generateServerReport(request: ServerReportRequest): Promise<ServerReport> {
+  const output = request.output || 'report';
+  await loadSavedReportConfigs();
+  const config = getReportConfig(request.reportType);
+  if (!config) {
+    throw new ReportRequestError(`Unknown report type: ${request.reportType}`, 400);
+  }
+  if (output !== 'report' && !config.certifTemplateUrl) {
+    throw new ReportRequestError(`${config.name} has no certificate template`, 400);
+  }
+  if (request.sign && !isSigningConfigured()) {
+    throw new ReportRequestError('PDF signing is not configured on the server (PDF_SIGNING_CERT and PDF_SIGNING_KEY)', 400);
+  }
+
+  let extracted: Record<string, any> = {};
+  if (request.workbook) {
+    const { fileName, bytes, sheetName } = request.workbook;
+    if (!isSupportedUploadFile(fileName)) {
+      throw new ReportRequestError(`${fileName} is not an Excel file (.xlsx or .xls) or an analyzer export (.csv or .txt)`, 400);
+    }
+    let uploaded;
+    try {
+      uploaded = readUploadedWorkbook(fileName, bytes);
+    } catch (error: any) {
+      throw new ReportRequestError(`Failed to parse ${fileName}: ${error.message}`, 400);
+    }
+    const sheet = sheetName || uploaded.workbook.SheetNames[0];
+    if (!uploaded.workbook.Sheets[sheet]) {
+      throw new ReportRequestError(`Sheet "${sheet}" not found in ${fileName} (sheets: ${uploaded.workbook.SheetNames.join(', ')})`, 400);
+    }
+    try {
+      extracted = extractReportData(uploaded.workbook, sheet, config, {
+        fileName,
+        profile: getAnalyzerProfile(request.analyzerProfileId),
+        instrumentMetadata: uploaded.instrumentMetadata,
+      });
+    } catch (error: any) {
+      throw new ReportRequestError(error.message, 422);
+    }
+  }
+
+  const context = await loadServerGenerationContext(request.inspectorId);
+  if (!context.inspector) {
+    throw new ReportRequestError(`Inspector ${request.inspectorId} not found`, 404);
+  }
+  const inspector = context.inspector;
+  const inspectorDocs = context.inspectorDocuments.get(inspector.id) || [];
+
+  // Filled like the confirmation step does, unless the request sets them. What the server decides (the calibration
+  // check of the workbook, and no revision: revisions are regenerated in the browser) can't be set by the request.
+  const data: Record<string, any> = {
+    ...extracted,
+    'Inspector name': inspector.name,
+    njdoh: inspector.variableValues?.get('njdoh') || '',
+    njdca: context.generalVariables.get('njdca') || '',
+    ...request.data,
+    selectedInspectorId: inspector.id,
+    certificateDocumentType: findCertificateDocumentType(context.generalTypedDocuments),
+    licenseDocumentType: findLicenseDocumentType(inspectorDocs),
+    calibrationQA: extracted.calibrationQA ?? null,
+    revision: undefined,
+    revisionOf: undefined,
+    templateVersions: undefined,
+    units: undefined,
+  };
+
+  if (data.calibrationQA?.blocking) {
+    throw new ReportRequestError(`The calibration check failed: ${data.calibrationQA.problems.join(' ')}`, 422);
+  }
+
+  const warnings: string[] = [];
+  if (data.calibrationQA?.status === 'warn' || data.calibrationQA?.status === 'fail') {
+    warnings.push(...data.calibrationQA.problems.map((problem: string) => `Calibration: ${problem}`));
+  }
+  if (!data.certificateDocumentType) warnings.push('Missing certificate document');
+  if (!inspectorDocs.some(doc => doc.documentType?.toLowerCase().includes('signature'))) warnings.push('Missing inspector signature');
+  if (!data.licenseDocumentType) warnings.push('Missing inspector license');
+  if (!String(data.njdoh || '').trim()) warnings.push('Missing njdoh (Inspector variable)');
+  if (!String(data.njdca || '').trim()) warnings.push('Missing njdca (General variable)');
+  warnings.forEach(warning => console.warn(`⚠️ ${warning}`));
+
+  // The id is known before the PDF is built, so its QR code can link to the verification page of its archive record.
+  // Without the archive there is no record to verify against, and no QR code.
+  const reportId = randomUUID();
+  let verificationUrl: string | undefined;
+  if (isR2Configured()) {
+    verificationUrl = getVerificationUrl(reportId, request.baseUrl);
+    if (!verificationUrl && (output === 'certificate' ? config.certificateQrCode : config.qrCode)) {
+      warnings.push('No verification QR code: NEXT_PUBLIC_APP_URL is not set');
+    }
+  }
+
+  const reportData = data as any;
+  const address = data.Address || data.address || '';
+  const report: ServerReport = output === 'certificate'
+    ? {
+      bytes: await buildCertificatePDF(
+        reportData, config.id, context.generalTypedDocuments, context.inspectorDocuments, context.inspectors,
+        context.generalVariables, undefined, loadServerTemplate, verificationUrl, request.sign
+      ),
+      fileName: buildPdfFileName('Lead Safe Certificate', address, data.revision),
+      warnings,
+    }
+    : {
+      bytes: await buildPDFReport(
+        reportData, config.id, context.generalTypedDocuments, context.inspectorDocuments, context.inspectors,
+        context.generalVariables,
+        { includeCertificate: output === 'bundle', loadTemplate: loadServerTemplate, verificationUrl, digitalSignature: request.sign }
+      ),
+      fileName: buildPdfFileName(config.fileNamePrefix || 'Final Lead Inspection Report', address, data.revision),
+      warnings,
+    };
+  // Signed before it is archived, so the archive (and its SHA-256) has the file that is delivered
+  if (request.sign) {
+    report.bytes = await signPdf(report.bytes);
+  }
+
+  // Like in the browser, the PDF is delivered even if it can't be archived
+  if (!isR2Configured()) {
+    warnings.push('Not saved to the report archive: R2 storage is not configured');
+  } else {
+    try {
+      const details = getReportRecordDetails(data, config, output === 'certificate' ? 'certificate' : 'report');
+      const record = await archiveReport(report.bytes, report.fileName, { ...details, generatedBy: request.generatedBy }, {
+        data,
+        documentIds: getReferencedDocumentIds(data, context.generalTypedDocuments, context.inspectorDocuments),
+        templateVersions: getTemplateVersions(data, config),
+      }, reportId);
+      report.reportId = record.id;
+    } catch (error: any) {
+      console.warn(`⚠️ Failed to archive ${report.fileName}:`, error);
+      warnings.push(`Not saved to the report archive: ${error.message}`);
+    }
+  }
+  return report;
+}
@@ -0,0 +1,70 @@
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Creates public/templates/DustWipeTEMP.pdf, the summary page of the Dust Wipe Clearance Report, with the form fields
+// the DUST_WIPE config maps (the lab results table is added after it when the report is generated).
+// Re-running it writes the same file, so the template only changes when this script does.
+//
+// npm run create-dust-wipe-template
+
+// Fixed dates so the output doesn't change from one run to the next
+const TEMPLATE_DATE = new Date('2024-01-01T00:00:00Z');
+
+async function createDustWipeTemplate() {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.setTitle('Dust Wipe Clearance Report');
+    pdfDoc.setCreationDate(TEMPLATE_DATE);
+    pdfDoc.setModificationDate(TEMPLATE_DATE);
+
+    const page = pdfDoc.addPage([612, 792]); // Letter
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+    const form = pdfDoc.getForm();
+    const margin = 60;
+    const labelColor = rgb(0.2, 0.2, 0.2);
+
+    page.drawText('Dust Wipe Clearance Report', { x: margin, y: 720, size: 20, font: boldFont });
+    page.drawLine({ start: { x: margin, y: 708 }, end: { x: 552, y: 708 }, thickness: 1, color: rgb(0.6, 0.6, 0.6) });
+
+    // Label and text field on one row
+    const addField = (name: string, label: string, y: number, width = 300) => {
+        page.drawText(label, { x: margin, y: y + 6, size: 11, font, color: labelColor });
+        const field = form.createTextField(name);
+        field.addToPage(page, { x: 220, y, width, height: 20, font, borderWidth: 0 });
+        page.drawLine({ start: { x: 220, y }, end: { x: 220 + width, y }, thickness: 0.5, color: labelColor });
+    };
+
+    addField('Address', 'Property Address:', 660);
+    addField('Date', 'Sampling Date:', 625, 150);
+    addField('Report Date', 'Report Date:', 590, 150);
+    addField('Inspector name', 'Inspector / Risk Assessor:', 555);
+
+    page.drawText('Results', { x: margin, y: 500, size: 14, font: boldFont });
+    addField('Number of Samples', 'Wipe samples collected:', 465, 80);
+    addField('Failed Samples', 'Samples above threshold:', 430, 80);
+    addField('Clearance Result', 'Clearance result:', 395);
+
+    const statement = [
+        'Dust wipe samples were collected and analyzed by an accredited laboratory. Each result is compared with',
+        'the lead dust hazard threshold for its surface (floors, window sills, window troughs). Clearance is passed',
+        'when every sample is below its threshold. The sample results are listed on the following pages.',
+    ];
+    statement.forEach((line, index) => {
+        page.drawText(line, { x: margin, y: 340 - index * 14, size: 9.5, font, color: labelColor });
+    });
+
+    page.drawText('Signature:', { x: margin, y: 206, size: 11, font, color: labelColor });
+    const signature = form.createTextField('Inspector sig');
+    signature.addToPage(page, { x: 220, y: 200, width: 200, height: 40, font, borderWidth: 0 });
+    page.drawLine({ start: { x: 220, y: 200 }, end: { x: 420, y: 200 }, thickness: 0.5, color: labelColor });
+
+    const outputPath = path.join(process.cwd(), 'public', 'templates', 'DustWipeTEMP.pdf');
+    fs.writeFileSync(outputPath, await pdfDoc.save());
+    console.log(`✅ Dust wipe template created at: ${outputPath}`);
+}
+
+createDustWipeTemplate().catch(err => {
+    console.error('❌ Failed to create the dust wipe template:', err);
+    process.exit(1);
+});
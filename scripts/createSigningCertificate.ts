@@ -0,0 +1,74 @@
+import { generateKeyPairSync, X509Certificate } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createSelfSignedCertificate } from '../lib/cms';
+
+// Creates a self-signed certificate and its private key for signing PDFs, to try digital signatures without a
+// certificate from a certificate authority. PDF readers show the signatures as valid and the documents as unmodified,
+// but the signer as unknown until the certificate is trusted (in Acrobat: Signature Panel > Certificate Details > Trust).
+//
+// npm run create-signing-cert -- --name <signer name> [--organization <name>] [--days <n>] [--out <dir>]
+
+const USAGE = `Usage: npm run create-signing-cert -- --name <signer name>
+    [--organization <name>]       Organization shown under the signer's name
+    [--days <n>]                  Validity (default: 365)
+    [--out <dir>]                 Where to write signing-cert.pem and signing-key.pem (default: the current directory)`;
+
+const parseArgs = (args: string[]): Record<string, string> => {
+    const values: Record<string, string> = {};
+    for (let i = 0; i < args.length; i++) {
+        const match = args[i].match(/^--([\w-]+)(?:=(.*))?$/);
+        if (!match) {
+            throw new Error(`Unexpected argument: ${args[i]}`);
+        }
+        const value = match[2] ?? args[++i];
+        if (value === undefined || value.startsWith('--')) {
+            throw new Error(`Missing value for --${match[1]}`);
+        }
+        values[match[1]] = value;
+    }
+    if (!values.name) {
+        throw new Error('Missing --name');
+    }
+    if (values.days !== undefined && !/^[1-9]\d*$/.test(values.days)) {
+        throw new Error('--days must be a number of days');
+    }
+    return values;
+};
+
+function createSigningCertificate() {
+    let values: Record<string, string>;
+    try {
+        values = parseArgs(process.argv.slice(2));
+    } catch (error: any) {
+        console.error(`❌ ${error.message}\n\n${USAGE}`);
+        process.exit(1);
+    }
+
+    const dir = values.out || process.cwd();
+    const certificatePath = path.join(dir, 'signing-cert.pem');
+    const keyPath = path.join(dir, 'signing-key.pem');
+    const existing = [certificatePath, keyPath].filter(file => fs.existsSync(file));
+    if (existing.length > 0) {
+        console.error(`❌ ${existing.join(' and ')} already ${existing.length > 1 ? 'exist' : 'exists'}, move them away first`);
+        process.exit(1);
+    }
+
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const certificate = new X509Certificate(createSelfSignedCertificate(privateKey, publicKey, {
+        commonName: values.name,
+        organization: values.organization,
+    }, values.days ? parseInt(values.days, 10) : undefined));
+
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(certificatePath, certificate.toString());
+    fs.writeFileSync(keyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+
+    console.log(`✅ Wrote ${certificatePath} (valid until ${certificate.validTo})`);
+    console.log(`✅ Wrote ${keyPath} (keep it private)`);
+    console.log('\nTo sign with them, add to .env.local:');
+    console.log(`PDF_SIGNING_CERT=${path.resolve(certificatePath)}`);
+    console.log(`PDF_SIGNING_KEY=${path.resolve(keyPath)}`);
+}
+
+createSigningCertificate();
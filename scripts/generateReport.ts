@@ -0,0 +1,229 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ServerReportOutput } from '../lib/reportServer';
+
+// Generates reports from the command line, the same way the generate API does (templates from public/ and the
+// database, documents from R2). Takes one workbook or a directory of workbooks, writes the PDFs and prints a summary.
+// Exits with status 1 if any workbook failed.
+//
+// npm run generate-report -- --workbook <file|dir> --type <report type> --inspector <id>
+//     [--sheet <name>] [--fields <overrides.json|.yaml>] [--out <dir|file.pdf>] [--output report|certificate|bundle]
+//     [--profile <analyzer profile id>] [--generated-by <name>] [--sign]
+
+const USAGE = `Usage: npm run generate-report -- --workbook <file|dir> --type <report type> --inspector <id>
+    [--sheet <name>]              Sheet to read (default: the first sheet)
+    [--fields <file>]             JSON or YAML file of field values, e.g. { "Address": "26 Eglantine Ave" }
+    [--out <dir|file.pdf>]        Where to write the PDFs (default: the current directory)
+    [--output <kind>]             report (default), certificate or bundle
+    [--profile <id>]              Analyzer profile (default: detected from the headers)
+    [--generated-by <name>]       Recorded in the report archive (default: the system user name)
+    [--sign]                      Digitally sign the PDFs (PDF_SIGNING_CERT and PDF_SIGNING_KEY must be set)`;
+
+const WORKBOOK_EXTENSIONS = /\.(xlsx|xls|csv|tsv|txt)$/i;
+const OUTPUTS: ServerReportOutput[] = ['report', 'certificate', 'bundle'];
+const FLAGS = ['sign']; // Options without a value
+
+interface CliOptions {
+    workbook: string;
+    type: string;
+    inspector: string;
+    sheet?: string;
+    fields?: string;
+    out?: string;
+    output: ServerReportOutput;
+    profile?: string;
+    generatedBy: string;
+    sign: boolean;
+}
+
+interface RunResult {
+    workbook: string;
+    outputPath?: string;
+    warnings: string[];
+    error?: string;
+}
+
+const parseArgs = (args: string[]): CliOptions => {
+    const values: Record<string, string> = {};
+    for (let i = 0; i < args.length; i++) {
+        const match = args[i].match(/^--([\w-]+)(?:=(.*))?$/);
+        if (!match) {
+            throw new Error(`Unexpected argument: ${args[i]}`);
+        }
+        if (FLAGS.includes(match[1]) && match[2] === undefined) {
+            values[match[1]] = 'true';
+            continue;
+        }
+        const value = match[2] ?? args[++i];
+        if (value === undefined || value.startsWith('--')) {
+            throw new Error(`Missing value for --${match[1]}`);
+        }
+        values[match[1]] = value;
+    }
+
+    const missing = ['workbook', 'type', 'inspector'].filter(name => !values[name]);
+    if (missing.length > 0) {
+        throw new Error(`Missing ${missing.map(name => `--${name}`).join(', ')}`);
+    }
+    const output = (values.output || 'report') as ServerReportOutput;
+    if (!OUTPUTS.includes(output)) {
+        throw new Error(`--output must be one of ${OUTPUTS.join(', ')}`);
+    }
+    return {
+        workbook: values.workbook,
+        type: values.type,
+        inspector: values.inspector,
+        sheet: values.sheet,
+        fields: values.fields,
+        out: values.out,
+        output,
+        profile: values.profile,
+        generatedBy: values['generated-by'] || os.userInfo().username,
+        sign: values.sign === 'true',
+    };
+};
+
+// A YAML scalar: quoted strings as written, otherwise booleans, null and numbers like YAML reads them
+const parseYamlScalar = (raw: string): any => {
+    const value = raw.replace(/\s+#.*$/, '').trim();
+    if (/^".*"$/.test(value)) return JSON.parse(value);
+    if (/^'.*'$/.test(value)) return value.slice(1, -1).replace(/''/g, "'");
+    if (value === '' || value === '~' || value === 'null') return null;
+    if (value === 'true' || value === 'false') return value === 'true';
+    if (/^-?\d+(\.\d+)?$/.test(value)) return parseFloat(value);
+    return value;
+};
+
+/**
+ * Reads the field overrides: a JSON object, or a flat YAML map of "field: value" lines. Nested YAML isn't read;
+ * use JSON for values that aren't plain text, numbers or booleans.
+ * @throws Error if the file isn't a flat object
+ */
+const readFieldOverrides = (filePath: string): Record<string, any> => {
+    const text = fs.readFileSync(filePath, 'utf8').replace(/^\uFEFF/, '');
+    if (/\.json$/i.test(filePath) || text.trim().startsWith('{')) {
+        const parsed = JSON.parse(text);
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            throw new Error(`${filePath} must contain a JSON object of field values`);
+        }
+        return parsed;
+    }
+
+    const fields: Record<string, any> = {};
+    text.split(/\r\n|\r|\n/).forEach((line, index) => {
+        if (line.trim() === '' || line.trim().startsWith('#') || line.trim() === '---') return;
+        const match = line.match(/^(?:"([^"]+)"|'([^']+)'|([^\s#][^:]*?))\s*:(?:\s+(.*))?$/);
+        if (!match || /^\s/.test(line) || (match[4] ?? '').trim().startsWith('- ')) {
+            throw new Error(`${filePath} line ${index + 1}: only "field: value" lines are supported (use JSON for nested values)`);
+        }
+        fields[match[1] ?? match[2] ?? match[3]] = parseYamlScalar(match[4] ?? '');
+    });
+    return fields;
+};
+
+const listWorkbooks = (workbookPath: string): string[] => {
+    if (!fs.statSync(workbookPath).isDirectory()) {
+        return [workbookPath];
+    }
+    return fs.readdirSync(workbookPath)
+        .filter(name => WORKBOOK_EXTENSIONS.test(name) && !name.startsWith('~$')) // ~$ files are Excel lock files
+        .sort()
+        .map(name => path.join(workbookPath, name));
+};
+
+// The PDF path of one report: --out as given for a single workbook named *.pdf, else the report's file name in --out.
+// Reports of the same address in a batch get a numbered name instead of overwriting each other.
+const resolveOutputPath = (out: string | undefined, fileName: string, batch: boolean, written: Set<string>): string => {
+    if (out && !batch && /\.pdf$/i.test(out)) {
+        return out;
+    }
+    const dir = out || process.cwd();
+    let outputPath = path.join(dir, fileName);
+    for (let n = 2; written.has(outputPath); n++) {
+        outputPath = path.join(dir, fileName.replace(/\.pdf$/i, ` (${n}).pdf`));
+    }
+    return outputPath;
+};
+
+async function generateReports() {
+    let options: CliOptions;
+    let fields: Record<string, any> = {};
+    let workbooks: string[];
+    try {
+        options = parseArgs(process.argv.slice(2));
+        if (options.fields) {
+            fields = readFieldOverrides(options.fields);
+        }
+        if (!fs.existsSync(options.workbook)) {
+            throw new Error(`${options.workbook} not found`);
+        }
+        workbooks = listWorkbooks(options.workbook);
+    } catch (error: any) {
+        console.error(`❌ ${error.message}\n\n${USAGE}`);
+        process.exit(1);
+    }
+    if (workbooks.length === 0) {
+        console.error(`❌ No workbooks (.xlsx, .xls, .csv, .tsv, .txt) in ${options.workbook}`);
+        process.exit(1);
+    }
+
+    // The database and R2 read their credentials when first imported
+    const envFile = path.join(process.cwd(), '.env.local');
+    if (fs.existsSync(envFile)) {
+        process.loadEnvFile(envFile);
+    }
+    const { generateServerReport } = await import('../lib/reportServer');
+
+    const batch = workbooks.length > 1 || fs.statSync(options.workbook).isDirectory();
+    if (options.out && (batch || !/\.pdf$/i.test(options.out))) {
+        fs.mkdirSync(options.out, { recursive: true });
+    }
+
+    const results: RunResult[] = [];
+    const written = new Set<string>();
+    for (const workbookPath of workbooks) {
+        const workbook = path.basename(workbookPath);
+        console.log(`\n=== ${workbook} ===`);
+        try {
+            const bytes = fs.readFileSync(workbookPath);
+            const report = await generateServerReport({
+                reportType: options.type,
+                inspectorId: options.inspector,
+                data: fields,
+                workbook: {
+                    fileName: workbook,
+                    bytes: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer,
+                    sheetName: options.sheet,
+                },
+                analyzerProfileId: options.profile,
+                output: options.output,
+                generatedBy: options.generatedBy,
+                sign: options.sign,
+            });
+            const outputPath = resolveOutputPath(options.out, report.fileName, batch, written);
+            fs.writeFileSync(outputPath, report.bytes);
+            written.add(outputPath);
+            console.log(`✅ Wrote ${outputPath}`);
+            results.push({ workbook, outputPath, warnings: report.warnings });
+        } catch (error: any) {
+            console.error(`❌ ${error.message}`);
+            results.push({ workbook, warnings: [], error: error.message });
+        }
+    }
+
+    const failed = results.filter(result => result.error);
+    console.log('\n=== Summary ===');
+    results.forEach(result => {
+        if (result.error) {
+            console.log(`❌ ${result.workbook}: ${result.error}`);
+            return;
+        }
+        console.log(`${result.warnings.length === 0 ? '✅' : '⚠️ '} ${result.workbook} → ${result.outputPath}`);
+        result.warnings.forEach(warning => console.log(`    - ${warning}`));
+    });
+    console.log(`\n${failed.length === 0 ? '✅' : '❌'} ${results.length - failed.length} of ${results.length} report(s) generated\n`);
+    process.exit(failed.length === 0 ? 0 : 1);
+}
+
+generateReports();
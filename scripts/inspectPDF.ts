@@ -1,6 +1,7 @@
 import { PDFDocument } from 'pdf-lib';
 import * as fs from 'fs';
 import * as path from 'path';
+import { getTemplateFieldInventory } from '../src/utils/templateInventory';
 
 async function inspectPDF() {
     const templatePath = path.join(process.cwd(), 'public', 'templates', 'Certif Template.pdf');
@@ -8,8 +9,7 @@ async function inspectPDF() {
     try {
         const pdfBuffer = fs.readFileSync(templatePath);
         const pdfDoc = await PDFDocument.load(pdfBuffer);
-        const form = pdfDoc.getForm();
-        const fields = form.getFields();
+        const fields = getTemplateFieldInventory(pdfDoc);
 
         console.log(`\n=== PDF Template Field Inspection ===`);
         console.log(`File: ${templatePath}`);
@@ -17,21 +17,9 @@ async function inspectPDF() {
 
         const fieldList: { name: string; type: string; id: string }[] = [];
 
-        fields.forEach(field => {
-            const type = field.constructor.name.replace('PDF', '').replace('Field', ''); // Clean up type name
-            const name = field.getName();
+        fields.forEach(({ name, type, value }) => {
             fieldList.push({ name, type, id: name });
             
-            // Try to get the value if it's a text field
-            let value = '';
-            try {
-                if ('getText' in field) {
-                    value = (field as any).getText() || '';
-                }
-            } catch (e) {
-                // Field might not have a value
-            }
-            
             console.log(`Field: "${name}"`);
             console.log(`  Type: ${type}`);
             if (value) {
@@ -0,0 +1,55 @@
+import { PDFDocument } from 'pdf-lib';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getReportConfigs } from '../src/config/reports';
+import { getTemplateFieldInventory } from '../src/utils/templateInventory';
+import type { TemplateFieldInfo } from '../src/utils/templateInventory';
+import { checkReportConfig } from '../src/utils/reportConfigValidator';
+import type { ReportConfigIssue } from '../src/utils/reportConfigValidator';
+
+// Checks the bundled report configs against the template files in public/templates.
+// Pinned template library versions aren't checked here (they live in R2); the app checks those at startup.
+// Exits with status 1 if any config has errors.
+
+const loadTemplateFields = async (templateUrl: string): Promise<TemplateFieldInfo[] | null> => {
+    const templatePath = path.join(process.cwd(), 'public', 'templates', path.basename(templateUrl));
+    if (!fs.existsSync(templatePath)) {
+        return null;
+    }
+    const pdfDoc = await PDFDocument.load(fs.readFileSync(templatePath));
+    return getTemplateFieldInventory(pdfDoc);
+};
+
+async function validateReports() {
+    let errorCount = 0;
+
+    for (const config of getReportConfigs()) {
+        console.log(`\n=== ${config.name} (${config.id}) ===`);
+
+        const report = await loadTemplateFields(config.templateUrl);
+        if (!report) {
+            console.log(`❌ Template not found: public/templates/${path.basename(config.templateUrl)}`);
+            errorCount++;
+            continue;
+        }
+        const certificate = config.certifTemplateUrl ? await loadTemplateFields(config.certifTemplateUrl) : undefined;
+        if (certificate === null) {
+            console.log(`❌ Certificate template not found: public/templates/${path.basename(config.certifTemplateUrl!)}`);
+            errorCount++;
+        }
+
+        const issues: ReportConfigIssue[] = checkReportConfig(config, { report, certificate: certificate || undefined });
+        if (issues.length === 0) {
+            console.log('✅ No issues');
+        }
+        issues.forEach(issue => {
+            console.log(`${issue.severity === 'error' ? '❌' : '⚠️ '} [${issue.kind}] ${issue.message}`);
+        });
+        errorCount += issues.filter(issue => issue.severity === 'error').length;
+    }
+
+    console.log(`\n${errorCount === 0 ? '✅' : '❌'} ${errorCount} error(s)\n`);
+    process.exit(errorCount === 0 ? 0 : 1);
+}
+
+validateReports();
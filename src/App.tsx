@@ -6,7 +6,15 @@ import { StepUpload } from './components/StepUpload';
 import { StepConfirmation } from './components/StepConfirmation';
 import { StepGeneration } from './components/StepGeneration';
 import { Documents } from './components/Documents';
+import { Templates } from './components/Templates';
+import { ReportArchive } from './components/ReportArchive';
+import { MappingEditor } from './components/MappingEditor';
+import { getReportConfigs } from './config/reports';
+import type { ReportConfig } from './types/reportStructure';
 import type { Inspector, Document } from './types/documents';
+import type { ReportRecord } from './types/reports';
+import type { TemplateVersions } from './types/templates';
+import { loadReportRevisionSource } from './utils/reportArchive';
 import {
   loadInspectorsAsync,
   saveInspectors,
@@ -24,15 +32,21 @@ import {
   loadInspectorVariableNamesAsync,
   saveInspectorVariableNames,
   loadAllData,
+  loadReportConfigsAsync,
   isStorageInitialized,
   initializeStorage,
   apiCall,
 } from './utils/storage';
 import { getApiUrl } from './utils/apiConfig';
+import { logReportConfigIssues, validateReportConfig } from './utils/reportConfigValidator';
+import type { DustWipeSample, ReadingDisagreement, ReadingTimestamp } from './utils/excelExtractor';
+import type { CalibrationQAResult } from './utils/calibrationQA';
 
 // Types
-export type ReportType = 'XHR' | null;
+// Id of a report config: the bundled 'XHR' and 'DUST_WIPE', or one saved from the mapping editor
+export type ReportType = string | null;
 export type AppStep = 'upload' | 'confirmation' | 'generation';
+export type AppView = 'reports' | 'archive' | 'documents' | 'templates' | 'mappings'; // reports: the generation wizard, archive: generated reports
 
 export interface ExtractedData {
   fileName: string;
@@ -42,17 +56,59 @@ export interface ExtractedData {
   isPositive?: boolean;
   totalReadings?: number;
   positiveReadings?: number;
+  inconclusiveReadings?: number; // XRF readings inside the action level's inconclusive range
+  readingDisagreements?: ReadingDisagreement[]; // Readings whose value and the analyzer's call disagree
   fullExcelData?: any[][]; // Full Excel data including header row
   headerRowIndex?: number;
+  analyzerProfileId?: string; // XRF analyzer profile the sheet was read with (see config/analyzerProfiles.ts)
+  calibrationQA?: CalibrationQAResult | null; // Calibration check of the XRF readings (null: not checked)
+  inspectionStart?: string; // First and last non-calibration reading timestamps (YYYY-MM-DDTHH:MM:SS)
+  inspectionEnd?: string;
+  readingTimestamps?: ReadingTimestamp[]; // Checked against the confirmed inspection dates
+  // Instrument details from the metadata preamble of a CSV/text export (usable in expressions, e.g. instrumentSerialNumber)
+  instrumentModel?: string;
+  instrumentSerialNumber?: string;
+  instrumentSourceDate?: string;
+  instrumentFirmware?: string;
+  dustWipeSamples?: DustWipeSample[]; // Lab results for dust wipe reports
   selectedInspectorId?: string; // ID of the inspector who performed the inspection
   certificateDocumentType?: string; // Document type for general certificate
   licenseDocumentType?: string; // Document type for inspector license
+  units?: UnitData[]; // Multi-unit workbooks: one report per unit (the readings above are the building totals)
+  // Regenerating an archived report: the original's id, the new revision's number, the documents the original used
+  // and the template versions it was filled from
+  revisionOf?: string;
+  revision?: number;
+  originalDocumentIds?: string[];
+  templateVersions?: TemplateVersions;
+}
+
+// What an upload yields: the ExtractedData it can fill in, plus the form values read from the sheet (the mapped
+// cells and the Date), keyed by field id
+export type UploadedData = Partial<ExtractedData> & Record<string, unknown>;
+
+// One unit of a multi-unit workbook (a sheet, or the readings sharing a Sample ID prefix), reported on its own
+export interface UnitData {
+  id: string; // Sheet name or Sample ID prefix
+  source: 'sheet' | 'sample_prefix';
+  sheetName: string;
+  fields: Record<string, string>; // Per-unit field values (unit number, result, counts), keyed by field id
+  isPositive: boolean;
+  totalReadings: number;
+  positiveReadings: number;
+  inconclusiveReadings: number;
+  readingDisagreements: ReadingDisagreement[];
+  fullExcelData?: any[][];
+  headerRowIndex?: number;
+  analyzerProfileId?: string;
+  calibrationQA?: CalibrationQAResult | null;
 }
 
 function App() {
   const [reportType, setReportType] = useState<ReportType>(null);
   const [step, setStep] = useState<AppStep>('upload');
-  const [currentView, setCurrentView] = useState<'reports' | 'documents'>('reports');
+  const [currentView, setCurrentView] = useState<AppView>('reports');
+  const [reportConfigs, setReportConfigs] = useState<ReportConfig[]>(getReportConfigs()); // Bundled configs until saved ones load
 
   const [data, setData] = useState<ExtractedData>({
     fileName: '',
@@ -94,11 +150,20 @@ function App() {
         // Load individual data
         // Split into batches to avoid exhausting database connection pool
         // Batch 1: Core data (can run in parallel)
-        const [loadedInspectors, loadedGeneralTypes, loadedInspectorTypes] = await Promise.all([
+        const [loadedInspectors, loadedGeneralTypes, loadedInspectorTypes, loadedReportConfigs] = await Promise.all([
           loadInspectorsAsync(),
           loadGeneralDocumentTypesAsync(),
           loadInspectorDocumentTypesAsync(),
+          loadReportConfigsAsync(),
         ]);
+        setReportConfigs(loadedReportConfigs);
+
+        // Check the configs against their templates' fields in the background (results are logged)
+        loadedReportConfigs.forEach(config => {
+          validateReportConfig(config)
+            .then(issues => logReportConfigIssues(config, issues))
+            .catch(err => console.warn(`Could not validate report config ${config.id}:`, err));
+        });
         
         // Small delay to allow connections to be released
         await new Promise(resolve => setTimeout(resolve, 100));
@@ -122,7 +187,7 @@ function App() {
         
         // Ensure default variables are always present
         // 1. Ensure 'njdoh' is in inspectorVariableNames
-        let updatedInspectorVarNames = [...loadedInspectorVarNames];
+        const updatedInspectorVarNames = [...loadedInspectorVarNames];
         if (!updatedInspectorVarNames.includes('njdoh')) {
           updatedInspectorVarNames.push('njdoh');
           await saveInspectorVariableNames(updatedInspectorVarNames);
@@ -196,15 +261,15 @@ function App() {
     }
   };
 
-  const handleViewChange = (view: 'reports' | 'documents') => {
+  const handleViewChange = (view: AppView) => {
     setCurrentView(view);
-    if (view === 'documents') {
-      // Clear report selection when switching to documents
+    if (view !== 'reports') {
+      // Clear report selection when switching to an admin view
       setReportType(null);
     }
   };
 
-  const handleFileUpload = (fileData: Partial<ExtractedData>) => {
+  const handleFileUpload = (fileData: UploadedData) => {
     setData(prev => ({ ...prev, ...fileData }));
     setStep('confirmation');
   };
@@ -214,6 +279,21 @@ function App() {
     setStep('generation');
   };
 
+  // Reopens an archived report in the confirmation step, to be edited and generated as a new revision
+  const handleReviseReport = async (report: ReportRecord) => {
+    const { inputs, revisionOf, revision, templateVersions } = await loadReportRevisionSource(report.id);
+    setReportType(report.reportType);
+    setData({
+      ...(inputs.data as ExtractedData),
+      revisionOf,
+      revision,
+      originalDocumentIds: inputs.documentIds,
+      templateVersions,
+    });
+    setStep('confirmation');
+    setCurrentView('reports');
+  };
+
   const handleReset = () => {
     setStep('upload');
     setData({ fileName: '', rawData: [], address: '', inspectorName: '', isPositive: false, totalReadings: 0, positiveReadings: 0 });
@@ -858,6 +938,7 @@ function App() {
     return (
       <Layout 
         selectedReport={reportType} 
+        reports={reportConfigs}
         onSelectReport={handleReportSelect}
         currentView={currentView}
         onViewChange={handleViewChange}
@@ -875,6 +956,7 @@ function App() {
     return (
       <Layout 
         selectedReport={reportType} 
+        reports={reportConfigs}
         onSelectReport={handleReportSelect}
         currentView={currentView}
         onViewChange={handleViewChange}
@@ -898,6 +980,7 @@ function App() {
   return (
     <Layout 
       selectedReport={reportType} 
+      reports={reportConfigs}
       onSelectReport={handleReportSelect}
       currentView={currentView}
       onViewChange={handleViewChange}
@@ -933,6 +1016,17 @@ function App() {
           uploadError={uploadError}
           onClearUploadError={() => setUploadError(null)}
         />
+      ) : currentView === 'archive' ? (
+        <ReportArchive inspectors={inspectors} reports={reportConfigs} onRevise={handleReviseReport} />
+      ) : currentView === 'templates' ? (
+        <Templates />
+      ) : currentView === 'mappings' ? (
+        <MappingEditor
+          reports={reportConfigs}
+          generalVariableNames={Array.from(generalVariables.keys())}
+          inspectorVariableNames={inspectorVariableNames}
+          onReportsChange={setReportConfigs}
+        />
       ) : !reportType ? (
         <div className="flex flex-col items-center justify-center h-full text-center animate-fade-in opacity-60">
           <div className="w-20 h-20 mb-6 rounded-full bg-white border border-slate-200 shadow-sm flex items-center justify-center">
@@ -1,18 +1,20 @@
 import React from 'react';
-import { FileText, FolderOpen } from 'lucide-react';
-import type { ReportType } from '../App';
-import { REPORTS } from '../config/reports';
+import { Archive, FileText, FolderOpen, Layers, SlidersHorizontal } from 'lucide-react';
+import type { AppView, ReportType } from '../App';
+import type { ReportConfig } from '../types/reportStructure';
+import { getReportConfigs } from '../config/reports';
 
 interface LayoutProps {
   children: React.ReactNode;
   selectedReport: ReportType;
+  reports?: ReportConfig[]; // Report configs in use (default: getReportConfigs())
   onSelectReport: (type: ReportType) => void;
-  currentView?: 'reports' | 'documents';
-  onViewChange?: (view: 'reports' | 'documents') => void;
+  currentView?: AppView;
+  onViewChange?: (view: AppView) => void;
   onClearStorage?: () => void;
 }
 
-export const Layout: React.FC<LayoutProps> = ({ children, selectedReport, onSelectReport, currentView = 'reports', onViewChange, onClearStorage }) => {
+export const Layout: React.FC<LayoutProps> = ({ children, selectedReport, reports = getReportConfigs(), onSelectReport, currentView = 'reports', onViewChange, onClearStorage }) => {
   return (
     <div className="flex h-screen w-full overflow-hidden bg-slate-50 text-slate-900 font-sans">
 
@@ -32,7 +34,7 @@ export const Layout: React.FC<LayoutProps> = ({ children, selectedReport, onSele
           </label>
 
           <div className="space-y-1">
-            {REPORTS.map((report) => (
+            {reports.map((report) => (
               <button
                 key={report.id}
                 onClick={() => {
@@ -63,8 +65,34 @@ export const Layout: React.FC<LayoutProps> = ({ children, selectedReport, onSele
           </div>
         </div>
 
-        {/* Documents Section */}
+        {/* Reports Archive Section */}
         <div className="pt-6 border-t border-slate-100 mb-4">
+          <button
+            onClick={() => onViewChange?.('archive')}
+            className={`w-full group flex items-center justify-between p-3 rounded-lg transition-all duration-200 border ${currentView === 'archive'
+                ? 'bg-green-50 border-green-200 text-green-700'
+                : 'bg-transparent border-transparent text-slate-600 hover:bg-slate-50 hover:text-slate-900'
+              }`}
+          >
+            <div className="flex items-center gap-3">
+              <Archive
+                size={18}
+                className={`transition-colors duration-200 ${currentView === 'archive' ? 'text-green-600' : 'text-slate-400 group-hover:text-slate-500'
+                  }`}
+              />
+              <span className="font-medium text-sm">
+                Reports
+              </span>
+            </div>
+
+            {currentView === 'archive' && (
+              <div className="w-1.5 h-1.5 rounded-full bg-green-600" />
+            )}
+          </button>
+        </div>
+
+        {/* Documents Section */}
+        <div className="mb-4">
           <button
             onClick={() => onViewChange?.('documents')}
             className={`w-full group flex items-center justify-between p-3 rounded-lg transition-all duration-200 border ${currentView === 'documents'
@@ -89,6 +117,58 @@ export const Layout: React.FC<LayoutProps> = ({ children, selectedReport, onSele
           </button>
         </div>
 
+        {/* Template Library Section */}
+        <div className="mb-4">
+          <button
+            onClick={() => onViewChange?.('templates')}
+            className={`w-full group flex items-center justify-between p-3 rounded-lg transition-all duration-200 border ${currentView === 'templates'
+                ? 'bg-green-50 border-green-200 text-green-700'
+                : 'bg-transparent border-transparent text-slate-600 hover:bg-slate-50 hover:text-slate-900'
+              }`}
+          >
+            <div className="flex items-center gap-3">
+              <Layers
+                size={18}
+                className={`transition-colors duration-200 ${currentView === 'templates' ? 'text-green-600' : 'text-slate-400 group-hover:text-slate-500'
+                  }`}
+              />
+              <span className="font-medium text-sm">
+                Templates
+              </span>
+            </div>
+
+            {currentView === 'templates' && (
+              <div className="w-1.5 h-1.5 rounded-full bg-green-600" />
+            )}
+          </button>
+        </div>
+
+        {/* Mapping Editor Section */}
+        <div className="mb-4">
+          <button
+            onClick={() => onViewChange?.('mappings')}
+            className={`w-full group flex items-center justify-between p-3 rounded-lg transition-all duration-200 border ${currentView === 'mappings'
+                ? 'bg-green-50 border-green-200 text-green-700'
+                : 'bg-transparent border-transparent text-slate-600 hover:bg-slate-50 hover:text-slate-900'
+              }`}
+          >
+            <div className="flex items-center gap-3">
+              <SlidersHorizontal
+                size={18}
+                className={`transition-colors duration-200 ${currentView === 'mappings' ? 'text-green-600' : 'text-slate-400 group-hover:text-slate-500'
+                  }`}
+              />
+              <span className="font-medium text-sm">
+                Field Mappings
+              </span>
+            </div>
+
+            {currentView === 'mappings' && (
+              <div className="w-1.5 h-1.5 rounded-full bg-green-600" />
+            )}
+          </button>
+        </div>
+
         {/* User Account Section */}
         <div className="pt-4 border-t border-slate-100">
           <div className="flex items-center gap-3 p-2 rounded-lg hover:bg-slate-50 transition-colors">
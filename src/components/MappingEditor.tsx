@@ -0,0 +1,556 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PDFDocument } from 'pdf-lib';
+import { FileText, Save, Loader2, AlertCircle, X, RotateCcw, Copy, Search, Trash2 } from 'lucide-react';
+import type { FieldMapping, FieldSource, ReportConfig } from '../types/reportStructure';
+import { getBundledReportConfig } from '../config/reports';
+import { deleteReportConfig, saveReportConfig } from '../utils/storage';
+import { getTemplateFieldInventory } from '../utils/templateInventory';
+import type { TemplateFieldInfo } from '../utils/templateInventory';
+import { loadTemplateBytes } from '../utils/templateLoader';
+import { validateReportConfigStructure } from '../utils/reportConfigValidator';
+
+interface MappingEditorProps {
+  reports: ReportConfig[];
+  generalVariableNames: string[];
+  inspectorVariableNames: string[];
+  onReportsChange: (reports: ReportConfig[]) => void;
+}
+
+type MappingTarget = 'report' | 'certificate';
+
+const NO_FIELDS: TemplateFieldInfo[] = [];
+
+const copyReport = (report: ReportConfig | undefined): ReportConfig | null =>
+  report ? JSON.parse(JSON.stringify(report)) : null;
+
+const SOURCE_LABELS: Record<FieldSource, string> = {
+  user_input: 'User input',
+  excel_cell: 'Excel cell / column',
+  static: 'Static value',
+  variable: 'Variable',
+  derived: 'Derived',
+  calculation: 'Calculation',
+};
+
+// Whether a mapping fills the field, by its id or one of its aliases
+const mapsToField = (mapping: FieldMapping, fieldName: string) =>
+  mapping.pdfFieldId === fieldName || !!mapping.aliases?.includes(fieldName);
+
+// Settings kept when a field's source changes; everything source-specific is dropped
+const withSource = (mapping: FieldMapping | undefined, fieldId: string, source: FieldSource): FieldMapping => {
+  const base: FieldMapping = {
+    pdfFieldId: mapping?.pdfFieldId || fieldId,
+    aliases: mapping?.aliases,
+    source,
+    label: mapping?.label,
+    dateFormat: mapping?.dateFormat,
+    overlay: mapping?.overlay,
+  };
+  if (source === 'user_input') return { ...base, inputType: 'text', required: false };
+  if (source === 'variable') return { ...base, variableScope: 'general', variableName: '' };
+  if (source === 'derived') return { ...base, derive: { type: 'copy', from: '' } };
+  if (source === 'calculation') return { ...base, expression: '' };
+  return base;
+};
+
+const describePlacement = (field: TemplateFieldInfo): string => {
+  const placement = field.placements?.[0];
+  if (!placement) return 'not on a page';
+  const { x, y, width, height } = placement.rect;
+  const more = field.placements!.length > 1 ? ` (+${field.placements!.length - 1})` : '';
+  return `p.${placement.pageIndex + 1} · ${Math.round(x)},${Math.round(y)} · ${Math.round(width)}×${Math.round(height)}${more}`;
+};
+
+export const MappingEditor: React.FC<MappingEditorProps> = ({
+  reports,
+  generalVariableNames,
+  inspectorVariableNames,
+  onReportsChange,
+}) => {
+  const [selectedId, setSelectedId] = useState<string>(reports[0]?.id || '');
+  const [target, setTarget] = useState<MappingTarget>('report');
+  const [draft, setDraft] = useState<ReportConfig | null>(() => copyReport(reports[0]));
+  const [draftOf, setDraftOf] = useState<ReportConfig | undefined>(reports[0]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [loadedFields, setLoadedFields] = useState<TemplateFieldInfo[]>([]);
+  const [isLoadingFields, setIsLoadingFields] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+
+  const selectedReport = reports.find(r => r.id === selectedId);
+  const bundledReport = getBundledReportConfig(selectedId);
+  // Saved configs replace the bundled object, so identity tells whether this one was saved
+  const isSaved = !!selectedReport && selectedReport !== bundledReport;
+
+  // Start a fresh draft when another report is selected (or after it was saved)
+  if (draftOf !== selectedReport) {
+    setDraftOf(selectedReport);
+    setDraft(copyReport(selectedReport));
+    setIsDirty(false);
+  }
+
+  const templateUrl = target === 'report' ? draft?.templateUrl : draft?.certifTemplateUrl;
+  const templateVersion = target === 'report' ? draft?.templateVersion : draft?.certifTemplateVersion;
+  const fields = templateUrl ? loadedFields : NO_FIELDS;
+
+  // Load the template's fields with their page positions
+  useEffect(() => {
+    if (!templateUrl) return;
+    let cancelled = false;
+    const loadFields = async () => {
+      setIsLoadingFields(true);
+      setError(null);
+      try {
+        const pdfDoc = await PDFDocument.load(await loadTemplateBytes(templateUrl, templateVersion));
+        if (!cancelled) setLoadedFields(getTemplateFieldInventory(pdfDoc));
+      } catch (err: any) {
+        console.error('Error loading template fields:', err);
+        if (!cancelled) {
+          setError(err.message || 'Failed to load the template');
+          setLoadedFields([]);
+        }
+      } finally {
+        if (!cancelled) setIsLoadingFields(false);
+      }
+    };
+    loadFields();
+    return () => {
+      cancelled = true;
+    };
+  }, [templateUrl, templateVersion]);
+
+  const mappings = useMemo(
+    () => (target === 'report' ? draft?.mappings : draft?.certificateMappings) || [],
+    [draft, target]
+  );
+  const fieldNames = useMemo(() => new Set(fields.map(f => f.name)), [fields]);
+  const unmatchedMappings = mappings.filter(m => !fieldNames.has(m.pdfFieldId) && !m.aliases?.some(a => fieldNames.has(a)));
+  // Fields no mapping fills, offered as the new name of a mapping whose field was renamed
+  const unmappedFieldNames = fields.map(f => f.name).filter(name => !mappings.some(m => mapsToField(m, name)));
+  const structureProblems = useMemo(
+    () => (draft ? validateReportConfigStructure(draft).map(issue => issue.message) : []),
+    [draft]
+  );
+  const visibleFields = fields.filter(f => f.name.toLowerCase().includes(filter.trim().toLowerCase()));
+
+  const setMappings = (next: FieldMapping[]) => {
+    setDraft(prev => prev && (target === 'report' ? { ...prev, mappings: next } : { ...prev, certificateMappings: next }));
+    setIsDirty(true);
+    setMessage(null);
+  };
+
+  // Replaces the field's mapping (keeping its position in the list), adds it, or removes it (null)
+  const updateMapping = (fieldId: string, mapping: FieldMapping | null) => {
+    const index = mappings.findIndex(m => mapsToField(m, fieldId));
+    if (mapping === null) {
+      setMappings(mappings.filter((_, i) => i !== index));
+    } else if (index === -1) {
+      setMappings([...mappings, mapping]);
+    } else {
+      setMappings(mappings.map((m, i) => (i === index ? mapping : m)));
+    }
+  };
+
+  const handleSave = async (config: ReportConfig) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      onReportsChange(await saveReportConfig(config));
+      setSelectedId(config.id);
+      setMessage(`Saved ${config.name}. New reports use these mappings.`);
+    } catch (err: any) {
+      console.error('Error saving report config:', err);
+      setError(err.message || 'Failed to save the report config');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDuplicate = () => {
+    if (!draft) return;
+    const name = window.prompt('Name of the new report', `${draft.name} (copy)`)?.trim();
+    if (!name) return;
+    const id = name.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+    if (!id || reports.some(r => r.id === id)) {
+      alert(id ? `A report with the id "${id}" already exists. Please choose another name.` : 'Please use letters or digits in the name.');
+      return;
+    }
+    handleSave({ ...draft, id, name });
+  };
+
+  const handleRevert = async () => {
+    if (!selectedReport) return;
+    const confirmed = window.confirm(bundledReport
+      ? `Discard the saved mappings of ${selectedReport.name} and go back to the bundled configuration?`
+      : `Delete the report ${selectedReport.name}?`);
+    if (!confirmed) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const next = await deleteReportConfig(selectedReport.id);
+      onReportsChange(next);
+      if (!bundledReport) setSelectedId(next[0]?.id || '');
+      setMessage(bundledReport ? `${selectedReport.name} uses the bundled configuration again.` : null);
+    } catch (err: any) {
+      console.error('Error deleting report config:', err);
+      setError(err.message || 'Failed to delete the report config');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderSourceSettings = (fieldId: string, mapping: FieldMapping) => {
+    const inputClass = 'px-2 py-1 bg-white border border-slate-300 rounded text-xs text-slate-900';
+    const update = (changes: Partial<FieldMapping>) => updateMapping(fieldId, { ...mapping, ...changes });
+
+    switch (mapping.source) {
+      case 'user_input':
+        return (
+          <div className="flex items-center gap-2 flex-wrap">
+            <input
+              type="text"
+              value={mapping.label || ''}
+              onChange={(e) => update({ label: e.target.value || undefined })}
+              placeholder="Label"
+              className={`${inputClass} w-40`}
+            />
+            <select
+              value={mapping.inputType || 'text'}
+              onChange={(e) => update({ inputType: e.target.value as FieldMapping['inputType'] })}
+              className={inputClass}
+            >
+              <option value="text">Text</option>
+              <option value="date">Date</option>
+              <option value="number">Number</option>
+            </select>
+            <label className="flex items-center gap-1 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                checked={!!mapping.required}
+                onChange={(e) => update({ required: e.target.checked })}
+              />
+              Required
+            </label>
+          </div>
+        );
+      case 'excel_cell':
+        return (
+          <div className="flex items-center gap-2 flex-wrap">
+            <input
+              type="text"
+              value={mapping.excelColumn || ''}
+              onChange={(e) => update({ excelColumn: e.target.value })}
+              placeholder='Column ("B" or header name)'
+              className={`${inputClass} w-48`}
+            />
+            <input
+              type="number"
+              min={1}
+              value={mapping.excelRow ?? ''}
+              onChange={(e) => update({ excelRow: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+              placeholder="Row (optional)"
+              className={`${inputClass} w-28`}
+            />
+            <input
+              type="text"
+              value={mapping.label || ''}
+              onChange={(e) => update({ label: e.target.value || undefined })}
+              placeholder="Label"
+              className={`${inputClass} w-32`}
+            />
+          </div>
+        );
+      case 'static':
+        return (
+          <input
+            type="text"
+            value={mapping.staticValue || ''}
+            onChange={(e) => update({ staticValue: e.target.value })}
+            placeholder="Value"
+            className={`${inputClass} w-64`}
+          />
+        );
+      case 'variable': {
+        const names = mapping.variableScope === 'inspector' ? inspectorVariableNames : generalVariableNames;
+        return (
+          <div className="flex items-center gap-2">
+            <select
+              value={mapping.variableScope || 'general'}
+              onChange={(e) => update({ variableScope: e.target.value as 'general' | 'inspector', variableName: '' })}
+              className={inputClass}
+            >
+              <option value="general">General</option>
+              <option value="inspector">Inspector</option>
+            </select>
+            <select
+              value={mapping.variableName || ''}
+              onChange={(e) => update({ variableName: e.target.value })}
+              className={`${inputClass} w-48`}
+            >
+              <option value="">Select a variable...</option>
+              {names.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+              {mapping.variableName && !names.includes(mapping.variableName) && (
+                <option value={mapping.variableName}>{mapping.variableName} (not defined)</option>
+              )}
+            </select>
+          </div>
+        );
+      }
+      case 'derived':
+        if (mapping.derive?.type !== 'copy') {
+          return <code className="text-xs text-slate-500">{JSON.stringify(mapping.derive)}</code>;
+        }
+        return (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-500">Copy of</span>
+            <select
+              value={mapping.derive.from}
+              onChange={(e) => update({ derive: { type: 'copy', from: e.target.value } })}
+              className={`${inputClass} w-56`}
+            >
+              <option value="">Select a field...</option>
+              {mappings.filter(m => m.pdfFieldId !== fieldId).map(m => (
+                <option key={m.pdfFieldId} value={m.pdfFieldId}>{m.pdfFieldId}</option>
+              ))}
+            </select>
+          </div>
+        );
+      case 'calculation':
+        return (
+          <input
+            type="text"
+            value={mapping.expression || ''}
+            onChange={(e) => update({ expression: e.target.value })}
+            placeholder='Expression, e.g. general("njdca")'
+            className={`${inputClass} w-80 font-mono`}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="flex h-full animate-fade-in bg-slate-50 flex-col">
+      {error && (
+        <div className="bg-red-50 border-b border-red-200 px-4 py-3 flex items-start gap-3">
+          <AlertCircle className="text-red-600 flex-shrink-0 mt-0.5" size={20} />
+          <div className="flex-1">
+            <p className="text-sm font-medium text-red-900">Mapping Editor Error</p>
+            <p className="text-xs text-red-700 whitespace-pre-wrap">{error}</p>
+          </div>
+          <button
+            onClick={() => setError(null)}
+            className="text-red-600 hover:text-red-800"
+            aria-label="Dismiss error"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 flex border-t border-slate-200 overflow-hidden">
+        {/* Column 1: Report configs */}
+        <div className="w-56 border-r border-slate-200 bg-white flex flex-col">
+          <div className="p-3 border-b border-slate-200 bg-slate-50">
+            <h3 className="text-xs font-semibold text-slate-500 uppercase">Reports</h3>
+          </div>
+          <div className="flex-1 overflow-y-auto p-2">
+            {reports.map(report => (
+              <button
+                key={report.id}
+                onClick={() => {
+                  if (isDirty && !window.confirm('Discard unsaved mapping changes?')) return;
+                  setSelectedId(report.id);
+                  setTarget('report');
+                  setMessage(null);
+                }}
+                className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm transition-colors ${
+                  selectedId === report.id
+                    ? 'bg-blue-50 text-blue-700 font-medium'
+                    : 'text-slate-700 hover:bg-slate-100'
+                }`}
+              >
+                <FileText size={16} />
+                <span className="flex-1 text-left truncate">{report.name}</span>
+                {report !== getBundledReportConfig(report.id) && (
+                  <div className="w-1.5 h-1.5 rounded-full bg-green-500" title="Saved in the database" />
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Column 2: Template fields and their mappings */}
+        {draft ? (
+          <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="p-4 border-b border-slate-200 bg-white space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <h2 className="text-lg font-bold text-slate-900">{draft.name}</h2>
+                  <p className="text-xs text-slate-500">
+                    {templateUrl || 'No template'}{templateVersion !== undefined ? ` (v${templateVersion})` : ''}
+                    {' · '}{mappings.length} mappings
+                    {isSaved ? ' · saved in the database' : ' · bundled configuration'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {isSaved && (
+                    <button
+                      onClick={handleRevert}
+                      disabled={isSaving}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded text-sm border border-slate-300 bg-white text-slate-700 hover:bg-slate-50"
+                    >
+                      {bundledReport ? <RotateCcw size={14} /> : <Trash2 size={14} />}
+                      {bundledReport ? 'Revert' : 'Delete'}
+                    </button>
+                  )}
+                  <button
+                    onClick={handleDuplicate}
+                    disabled={isSaving}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded text-sm border border-slate-300 bg-white text-slate-700 hover:bg-slate-50"
+                  >
+                    <Copy size={14} />
+                    Duplicate
+                  </button>
+                  <button
+                    onClick={() => handleSave(draft)}
+                    disabled={isSaving || !isDirty || structureProblems.length > 0}
+                    className={`flex items-center gap-1 px-3 py-1.5 rounded text-sm font-medium ${
+                      isSaving || !isDirty || structureProblems.length > 0 ? 'bg-slate-100 text-slate-400' : 'bg-blue-600 text-white hover:bg-blue-700'
+                    }`}
+                  >
+                    {isSaving ? <Loader2 className="animate-spin" size={14} /> : <Save size={14} />}
+                    Save
+                  </button>
+                </div>
+              </div>
+              {message && <p className="text-xs text-green-700">{message}</p>}
+              {structureProblems.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded px-3 py-2">
+                  <p className="text-xs font-medium text-amber-900">This configuration can't be saved yet:</p>
+                  <ul className="list-disc list-inside text-xs text-amber-800">
+                    {structureProblems.map((problem, idx) => <li key={idx}>{problem}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                {draft.certifTemplateUrl && (
+                  <select
+                    value={target}
+                    onChange={(e) => setTarget(e.target.value as MappingTarget)}
+                    className="px-2 py-1.5 bg-white border border-slate-300 rounded text-sm text-slate-900"
+                  >
+                    <option value="report">Report template</option>
+                    <option value="certificate">Certificate template</option>
+                  </select>
+                )}
+                <div className="flex-1 flex items-center gap-2 px-2 py-1.5 bg-white border border-slate-300 rounded">
+                  <Search size={14} className="text-slate-400" />
+                  <input
+                    type="text"
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder="Filter fields"
+                    className="flex-1 text-sm text-slate-900 outline-none"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4">
+              {isLoadingFields ? (
+                <div className="flex items-center gap-2 text-sm text-slate-500">
+                  <Loader2 className="animate-spin" size={16} /> Loading template fields...
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  {visibleFields.map(field => {
+                    const mapping = mappings.find(m => mapsToField(m, field.name));
+                    return (
+                      <div key={field.name} className="bg-white border border-slate-200 rounded-lg px-3 py-2 flex items-start gap-3">
+                        <div className="w-64 flex-shrink-0 min-w-0">
+                          <p className="text-sm font-medium text-slate-900 truncate" title={field.name}>{field.name}</p>
+                          <p className="text-xs text-slate-500">{field.type} · {describePlacement(field)}</p>
+                          {mapping && mapping.pdfFieldId !== field.name && (
+                            <p className="text-xs text-slate-500 truncate">alias of "{mapping.pdfFieldId}"</p>
+                          )}
+                          {mapping && field.type !== 'Text' && !mapping.overlay && (
+                            <p className="text-xs text-amber-700">Not a text field, the value can't be written</p>
+                          )}
+                        </div>
+                        <select
+                          value={mapping?.source || ''}
+                          onChange={(e) => {
+                            const source = e.target.value as FieldSource | '';
+                            updateMapping(field.name, source ? withSource(mapping, field.name, source) : null);
+                          }}
+                          className="px-2 py-1 bg-white border border-slate-300 rounded text-xs text-slate-900"
+                        >
+                          <option value="">Not mapped</option>
+                          {(Object.keys(SOURCE_LABELS) as FieldSource[]).map(source => (
+                            <option key={source} value={source}>{SOURCE_LABELS[source]}</option>
+                          ))}
+                        </select>
+                        <div className="flex-1 min-w-0">
+                          {mapping && renderSourceSettings(field.name, mapping)}
+                        </div>
+                      </div>
+                    );
+                  })}
+
+                  {unmatchedMappings.length > 0 && (
+                    <div className="pt-4">
+                      <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">
+                        Mappings without a field in this template
+                      </h4>
+                      {unmatchedMappings.map(mapping => (
+                        <div key={mapping.pdfFieldId} className="bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 flex items-center gap-3 mb-1">
+                          <span className="text-sm text-slate-900 flex-1 truncate">"{mapping.pdfFieldId}"</span>
+                          <span className="text-xs text-slate-500">{SOURCE_LABELS[mapping.source]}</span>
+                          {unmappedFieldNames.length > 0 && (
+                            <select
+                              value=""
+                              onChange={(e) => updateMapping(mapping.pdfFieldId, {
+                                ...mapping,
+                                aliases: [...(mapping.aliases || []), e.target.value],
+                              })}
+                              className="px-2 py-1 bg-white border border-slate-300 rounded text-xs text-slate-900 w-48"
+                              title="Add the field's name in this template as an alias"
+                            >
+                              <option value="">Renamed to...</option>
+                              {unmappedFieldNames.map(name => (
+                                <option key={name} value={name}>{name}</option>
+                              ))}
+                            </select>
+                          )}
+                          <button
+                            onClick={() => updateMapping(mapping.pdfFieldId, null)}
+                            className="p-1 hover:bg-red-100 rounded text-red-600"
+                            aria-label={`Remove mapping ${mapping.pdfFieldId}`}
+                          >
+                            <X size={14} />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 flex items-center justify-center text-sm text-slate-500">
+            Select a report to edit its field mappings.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+'use client'
+
+import React, { useState } from 'react';
+import { Upload, FileCheck, FileX, Loader2, AlertCircle } from 'lucide-react';
+import type { PdfVerification } from '../types/reports';
+import { verifyPdfFile } from '../utils/reportArchive';
+import { VerifiedReport } from './VerifiedReport';
+
+// Drop a PDF to check whether it is byte-identical to a report we issued (see /api/reports/verify)
+export const PdfVerifier: React.FC = () => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [verification, setVerification] = useState<PdfVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const checkFile = async (file: File) => {
+    setIsChecking(true);
+    setError(null);
+    setVerification(null);
+    setFileName(file.name);
+    try {
+      setVerification(await verifyPdfFile(file));
+    } catch (err: any) {
+      console.error('Error verifying PDF:', err);
+      setError(err.message || 'The file could not be checked');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const onDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      checkFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div
+        className={`border-2 border-dashed rounded-xl p-8 flex flex-col items-center justify-center transition-all cursor-pointer bg-white
+          ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-slate-300 hover:border-blue-400 hover:bg-slate-50'}
+          ${isChecking ? 'opacity-50 pointer-events-none' : ''}`}
+        onDrop={onDrop}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+        }}
+        onClick={() => document.getElementById('verifyFileInput')?.click()}
+      >
+        <div className="w-14 h-14 bg-blue-50 rounded-full flex items-center justify-center mb-4 text-blue-600">
+          {isChecking ? <Loader2 size={28} className="animate-spin" /> : <Upload size={28} />}
+        </div>
+        <p className="font-semibold text-slate-900">{isChecking ? 'Checking...' : 'Drop a PDF here, or click to choose one'}</p>
+        <p className="text-xs text-slate-500 mt-1 text-center">
+          The file is compared with the reports we issued. It is not stored.
+        </p>
+        <input
+          type="file"
+          id="verifyFileInput"
+          accept=".pdf,application/pdf"
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files && e.target.files[0]) checkFile(e.target.files[0]);
+            e.target.value = '';
+          }}
+          disabled={isChecking}
+        />
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-red-600 text-sm bg-red-50 py-2 px-4 rounded-lg">
+          <AlertCircle size={16} />
+          {error}
+        </div>
+      )}
+
+      {verification && (
+        verification.matches.length === 0 ? (
+          <div className="border border-red-300 bg-red-50 rounded-lg p-4 text-red-800">
+            <p className="font-semibold flex items-center gap-2"><FileX size={18} /> No Match</p>
+            <p className="text-sm">
+              {fileName} is not identical to any report we issued. It may have been edited, or it was not issued by us.
+              Contact the office to confirm.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="border border-green-300 bg-green-50 rounded-lg p-4 text-green-800">
+              <p className="font-semibold flex items-center gap-2"><FileCheck size={18} /> Identical to an Issued Report</p>
+              <p className="text-sm">{fileName} is byte-for-byte the file we issued.</p>
+            </div>
+            {verification.matches.map(report => (
+              <VerifiedReport key={report.id} report={report} />
+            ))}
+          </div>
+        )
+      )}
+
+      {verification && (
+        <p className="text-xs text-slate-400 break-all">SHA-256: {verification.sha256}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import { Search, Download, Loader2, AlertCircle, X, Pencil, Ban, FileCheck } from 'lucide-react';
+import type { Inspector } from '../types/documents';
+import type { ReportConfig } from '../types/reportStructure';
+import type { ReportRecord, ReportSearch } from '../types/reports';
+import { downloadArchivedReport, revokeArchivedReport, searchReports } from '../utils/reportArchive';
+
+interface ReportArchiveProps {
+  inspectors: Inspector[];
+  reports: ReportConfig[]; // Report configs, for the report names
+  onRevise: (report: ReportRecord) => Promise<void>; // Reopens the report's inputs to generate a revision
+}
+
+const DOCUMENT_LABELS: Record<ReportRecord['document'], string> = {
+  report: 'Report',
+  certificate: 'Certificate',
+  summary: 'Building Summary',
+};
+
+export const ReportArchive: React.FC<ReportArchiveProps> = ({ inspectors, reports, onRevise }) => {
+  const [search, setSearch] = useState<ReportSearch>({});
+  const [results, setResults] = useState<ReportRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true); // The latest reports are loaded first
+  const [error, setError] = useState<string | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [revisingId, setRevisingId] = useState<string | null>(null);
+
+  const runSearch = async (criteria: ReportSearch) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setResults(await searchReports(criteria));
+    } catch (err: any) {
+      console.error('Error searching reports:', err);
+      setError(err.message || 'Failed to search reports');
+      setResults([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The latest reports until a search is run
+  useEffect(() => {
+    let cancelled = false;
+    const loadLatest = async () => {
+      try {
+        const latest = await searchReports({});
+        if (!cancelled) setResults(latest);
+      } catch (err: any) {
+        console.error('Error loading the latest reports:', err);
+        if (!cancelled) setError(err.message || 'Failed to load the latest reports');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadLatest();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateSearch = (changes: Partial<ReportSearch>) => {
+    setSearch(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleDownload = async (report: ReportRecord) => {
+    setDownloadingId(report.id);
+    setError(null);
+    try {
+      await downloadArchivedReport(report);
+    } catch (err: any) {
+      console.error('Error downloading report:', err);
+      setError(`${report.fileName}: ${err.message || 'Download failed'}`);
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleRevise = async (report: ReportRecord) => {
+    setRevisingId(report.id);
+    setError(null);
+    try {
+      await onRevise(report);
+    } catch (err: any) {
+      console.error('Error reopening report:', err);
+      setError(`${report.fileName}: ${err.message || 'Could not reopen the report'}`);
+    } finally {
+      setRevisingId(null);
+    }
+  };
+
+  // Revoking can't be undone: the verification page of the PDF says it is no longer valid
+  const handleRevoke = async (report: ReportRecord) => {
+    const reason = window.prompt(`Revoke ${report.fileName}? Its verification page will show it as revoked.\n\nReason (optional):`, '');
+    if (reason === null) return;
+    setError(null);
+    try {
+      const revoked = await revokeArchivedReport(report.id, reason.trim());
+      setResults(prev => prev.map(r => (r.id === revoked.id ? revoked : r)));
+    } catch (err: any) {
+      console.error('Error revoking report:', err);
+      setError(`${report.fileName}: ${err.message || 'Could not revoke the report'}`);
+    }
+  };
+
+  const reportName = (reportType: string) => reports.find(r => r.id === reportType)?.name || reportType;
+
+  return (
+    <div className="flex h-full animate-fade-in bg-slate-50 flex-col">
+      {error && (
+        <div className="bg-red-50 border-b border-red-200 px-4 py-3 flex items-start gap-3">
+          <AlertCircle className="text-red-600 flex-shrink-0 mt-0.5" size={20} />
+          <div className="flex-1">
+            <p className="text-sm font-medium text-red-900">Reports Error</p>
+            <p className="text-xs text-red-700 whitespace-pre-wrap">{error}</p>
+          </div>
+          <button
+            onClick={() => setError(null)}
+            className="text-red-600 hover:text-red-800"
+            aria-label="Dismiss error"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {/* Search */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          runSearch(search);
+        }}
+        className="p-4 border-b border-t border-slate-200 bg-white flex flex-wrap items-end gap-3"
+      >
+        <div className="flex-1 min-w-[12rem]">
+          <label className="text-xs font-semibold text-slate-500 uppercase block mb-1">Address</label>
+          <input
+            type="text"
+            value={search.address || ''}
+            onChange={(e) => updateSearch({ address: e.target.value || undefined })}
+            placeholder="e.g. Eglantine"
+            className="w-full px-2 py-1.5 bg-white border border-slate-300 rounded text-sm text-slate-900"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-semibold text-slate-500 uppercase block mb-1">Inspector</label>
+          <select
+            value={search.inspectorId || ''}
+            onChange={(e) => updateSearch({ inspectorId: e.target.value || undefined })}
+            className="px-2 py-1.5 bg-white border border-slate-300 rounded text-sm text-slate-900"
+          >
+            <option value="">Any inspector</option>
+            {inspectors.map(inspector => (
+              <option key={inspector.id} value={inspector.id}>{inspector.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs font-semibold text-slate-500 uppercase block mb-1">Inspected From</label>
+          <input
+            type="date"
+            value={search.from || ''}
+            onChange={(e) => updateSearch({ from: e.target.value || undefined })}
+            className="px-2 py-1.5 bg-white border border-slate-300 rounded text-sm text-slate-900"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-semibold text-slate-500 uppercase block mb-1">To</label>
+          <input
+            type="date"
+            value={search.to || ''}
+            onChange={(e) => updateSearch({ to: e.target.value || undefined })}
+            className="px-2 py-1.5 bg-white border border-slate-300 rounded text-sm text-slate-900"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-semibold text-slate-500 uppercase block mb-1">Result</label>
+          <select
+            value={search.result || ''}
+            onChange={(e) => updateSearch({ result: (e.target.value || undefined) as ReportSearch['result'] })}
+            className="px-2 py-1.5 bg-white border border-slate-300 rounded text-sm text-slate-900"
+          >
+            <option value="">Any result</option>
+            <option value="positive">Positive (Not Lead Free / Failed)</option>
+            <option value="negative">Negative (Lead Free / Passed)</option>
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex items-center gap-2 px-3 py-1.5 rounded text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isLoading ? <Loader2 className="animate-spin" size={16} /> : <Search size={16} />}
+          Search
+        </button>
+        <a
+          href="/verify"
+          target="_blank"
+          rel="noreferrer"
+          className="flex items-center gap-2 px-3 py-1.5 rounded text-sm font-medium border border-slate-300 text-slate-700 hover:bg-slate-50"
+          title="Check whether a PDF someone sent is identical to one we issued"
+        >
+          <FileCheck size={16} />
+          Check a PDF
+        </a>
+      </form>
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto p-4">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-slate-500">
+            <Loader2 className="animate-spin" size={16} /> Searching reports...
+          </div>
+        ) : results.length === 0 ? (
+          <p className="text-sm text-slate-500">No reports found. Reports are saved here when they are generated.</p>
+        ) : (
+          <table className="w-full text-sm bg-white border border-slate-200 rounded-lg">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 border-b border-slate-200">
+                <th className="p-2 font-medium">Address</th>
+                <th className="p-2 font-medium">Inspected</th>
+                <th className="p-2 font-medium">Inspector</th>
+                <th className="p-2 font-medium">Result</th>
+                <th className="p-2 font-medium">Generated</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(report => (
+                <tr key={report.id} className="border-b border-slate-100 align-top">
+                  <td className="p-2">
+                    <p className="font-medium text-slate-900">{report.address || 'N/A'}</p>
+                    <p className="text-xs text-slate-500">
+                      {[
+                        report.block && `Block ${report.block}`,
+                        report.lot && `Lot ${report.lot}`,
+                        report.county && `${report.county} County`,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {DOCUMENT_LABELS[report.document]} · {reportName(report.reportType)}
+                      {!!report.revision && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 font-medium">
+                          Revision {report.revision}
+                        </span>
+                      )}
+                      {report.revokedAt && (
+                        <span
+                          className="ml-2 px-1.5 py-0.5 rounded bg-red-100 text-red-800 font-medium"
+                          title={report.revokedReason || undefined}
+                        >
+                          Revoked {report.revokedAt.toLocaleDateString()}
+                        </span>
+                      )}
+                    </p>
+                  </td>
+                  <td className="p-2 text-slate-700 whitespace-nowrap">{report.inspectionDate || '—'}</td>
+                  <td className="p-2 text-slate-700">{report.inspectorName || '—'}</td>
+                  <td className="p-2">
+                    <span className={`font-semibold ${report.isPositive ? 'text-red-600' : 'text-green-600'}`}>
+                      {report.result || (report.isPositive ? 'Positive' : 'Negative')}
+                    </span>
+                    <p className="text-xs text-slate-500">
+                      {report.positiveReadings} of {report.totalReadings} positive
+                    </p>
+                  </td>
+                  <td className="p-2 text-xs text-slate-500">
+                    <p>{report.generatedAt.toLocaleString()}</p>
+                    {report.generatedBy && <p>by {report.generatedBy}</p>}
+                    {report.templateKey && (
+                      <p>
+                        {report.templateKey}{' '}
+                        {report.templateVersion !== undefined ? `v${report.templateVersion}` : '(static file)'}
+                      </p>
+                    )}
+                  </td>
+                  <td className="p-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => handleRevise(report)}
+                      disabled={revisingId !== null}
+                      className="p-1.5 rounded text-slate-500 hover:text-amber-600 hover:bg-amber-50 disabled:opacity-50"
+                      title="Revise: reopen to edit and regenerate as a new revision"
+                      aria-label={`Revise ${report.fileName}`}
+                    >
+                      {revisingId === report.id ? <Loader2 className="animate-spin" size={16} /> : <Pencil size={16} />}
+                    </button>
+                    {!report.revokedAt && (
+                      <button
+                        onClick={() => handleRevoke(report)}
+                        className="p-1.5 rounded text-slate-500 hover:text-red-600 hover:bg-red-50"
+                        title="Revoke: mark as no longer valid on its verification page"
+                        aria-label={`Revoke ${report.fileName}`}
+                      >
+                        <Ban size={16} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDownload(report)}
+                      disabled={downloadingId === report.id}
+                      className="p-1.5 rounded text-slate-500 hover:text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                      title={`Download ${report.fileName}`}
+                      aria-label={`Download ${report.fileName}`}
+                    >
+                      {downloadingId === report.id ? <Loader2 className="animate-spin" size={16} /> : <Download size={16} />}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Check, ClipboardList, AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
-import type { ExtractedData } from '../App';
+import { Check, ClipboardList, AlertCircle, AlertTriangle, CheckCircle2, Calculator, Building2, History } from 'lucide-react';
+import type { ExtractedData, UnitData } from '../App';
 import { getReportConfig } from '../config/reports';
 import type { Inspector, Document } from '../types/documents';
+import { evaluateFieldExpression, resolveFieldValue } from '../utils/fieldResolver';
+import { DEFAULT_ACTION_LEVEL } from '../utils/excelExtractor';
+import { getUnitFieldIds, getUnitReportData } from '../utils/multiUnit';
+import { findCertificateDocumentType, findLicenseDocumentType, getReferencedDocumentIds } from '../utils/reportData';
 
 interface StepConfirmationProps {
     data: ExtractedData & Record<string, any>; // Allow dynamic keys
@@ -25,8 +29,17 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
     inspectorDocuments,
     generalVariables
 }) => {
+    const config = getReportConfig(reportType);
+    const isDustWipe = config?.dataType === 'dust_wipe';
+    const calibrationQA = isDustWipe ? null : data.calibrationQA;
+    const actionLevel = config?.actionLevel || DEFAULT_ACTION_LEVEL;
+    // Multi-unit runs: fields confirmed per unit in the units table instead of once
+    const unitFieldIds = data.units && config ? getUnitFieldIds(config) : [];
+    const calibrationBlocking = !!calibrationQA?.blocking || (data.units || []).some(unit => !!unit.calibrationQA?.blocking);
+
     // Initialize formData with data, ensuring all Excel-extracted values are included
     const initialFormData: Record<string, any> = { ...data };
+    const initialUnits: UnitData[] = [];
     
     {
         // Ensure all Excel-extracted values are in initialFormData (from StepUpload)
@@ -37,16 +50,9 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
             initialFormData['Inspection Location'] = data['Inspection Location'] || data.address || '';
         }
         
-        // Auto-fill address field from Address field if Address is set
-        if (initialFormData['Address']) {
-            initialFormData['address'] = initialFormData['Address'];
-        } else if (data['Address']) {
-            initialFormData['Address'] = data['Address'];
-            initialFormData['address'] = data['Address'];
-        } else if (data.address) {
-            // If address exists but Address doesn't, set both
+        // Property Address from Excel (derived fields such as address are resolved at generation time)
+        if (!initialFormData['Address'] && data.address) {
             initialFormData['Address'] = data.address;
-            initialFormData['address'] = data.address;
         }
         
         // Date from Excel - use extracted date if available
@@ -81,41 +87,56 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
             }
         }
         
-        // Today/Report Date - default to today if not set
-        if (initialFormData['Today'] === undefined || initialFormData['Today'] === '') {
-            initialFormData['Today'] = data['Today'] || new Date().toISOString().split('T')[0];
-        }
-        
-        // Auto-fill Numb1 (Total readings) and Numb2 (Positive readings) from Excel if not already set
-        if (initialFormData['Numb1'] === undefined || initialFormData['Numb1'] === '') {
-            initialFormData['Numb1'] = data['Numb1'] || data.totalReadings || 0;
-        }
-        if (initialFormData['Numb2'] === undefined || initialFormData['Numb2'] === '') {
-            initialFormData['Numb2'] = data['Numb2'] || data.positiveReadings || 0;
-        }
-        
-        // Auto-fill Inspection Result based on positive/negative status if not already set
-        if (initialFormData['Inspection Result'] === undefined || initialFormData['Inspection Result'] === '') {
-            initialFormData['Inspection Result'] = data['Inspection Result'] || (data.isPositive ? 'Not Lead Free' : 'Lead Free');
-        }
-        
-        // Auto-fill Inspection Info 1 with "property" if not already set
-        if (initialFormData['Inspection Info 1'] === undefined || initialFormData['Inspection Info 1'] === '') {
-            initialFormData['Inspection Info 1'] = data['Inspection Info 1'] || 'property';
+        // Inspection start and end dates from the first and last reading timestamps (YYYY-MM-DD for the date inputs)
+        const dateRange = config?.dateRangeFields;
+        if (dateRange) {
+            if (!initialFormData[dateRange.start] && data.inspectionStart) {
+                initialFormData[dateRange.start] = data.inspectionStart.slice(0, 10);
+            }
+            if (dateRange.end && (data.inspectionEnd || !initialFormData[dateRange.end])) {
+                initialFormData[dateRange.end] = String(data.inspectionEnd || initialFormData[dateRange.start] || '').slice(0, 10);
+            }
         }
-        
+
         // Ensure Inspection Info 2 is blank by default if not set
         if (initialFormData['Inspection Info 2'] === undefined) {
             initialFormData['Inspection Info 2'] = data['Inspection Info 2'] || '';
         }
         
-        // Auto-fill Building Type with default "single family home" if not set
-        if (initialFormData['Building Type'] === undefined || initialFormData['Building Type'] === '') {
-            initialFormData['Building Type'] = data['Building Type'] || 'single family home';
-        }
+        // Default values declared in the report config (e.g. Inspection Result from isPositive,
+        // Numb1/Numb2 from the reading counts, Today from today())
+        const preselectedInspector = inspectors.find(i => i.id === data.selectedInspectorId);
+        config?.mappings.forEach(mapping => {
+            if (mapping.source !== 'user_input' || !mapping.expression) return;
+            if (initialFormData[mapping.pdfFieldId] !== undefined && initialFormData[mapping.pdfFieldId] !== '') return;
+            initialFormData[mapping.pdfFieldId] = evaluateFieldExpression(mapping.expression, initialFormData, config.mappings, {
+                generalVariables,
+                inspectorVariables: preselectedInspector?.variableValues,
+            });
+        });
+
+        // Per-unit fields: the unit number defaults to the sheet name or Sample ID prefix, the others to their
+        // expression evaluated with the unit's readings
+        (data.units || []).forEach(unit => {
+            const fields: Record<string, string> = { ...unit.fields };
+            unitFieldIds.forEach(fieldId => {
+                if (fields[fieldId] !== undefined && fields[fieldId] !== '') return;
+                const mapping = config!.mappings.find(m => m.pdfFieldId === fieldId);
+                if (fieldId === config!.unitField) {
+                    fields[fieldId] = unit.id;
+                } else if (mapping?.expression) {
+                    fields[fieldId] = evaluateFieldExpression(mapping.expression, getUnitReportData(initialFormData as ExtractedData, unit), config!.mappings, {
+                        generalVariables,
+                        inspectorVariables: preselectedInspector?.variableValues,
+                    });
+                }
+            });
+            initialUnits.push({ ...unit, fields });
+        });
     }
     
     const [formData, setFormData] = useState<Record<string, any>>(initialFormData);
+    const [units, setUnits] = useState<UnitData[]>(initialUnits);
     const [errors, setErrors] = useState<Record<string, string>>({});
     const [selectedInspectorId, setSelectedInspectorId] = useState<string>(data.selectedInspectorId || '');
     const [missingItems, setMissingItems] = useState<{
@@ -131,7 +152,6 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
                 const updated = { ...prev };
                 if (selectedInspector?.name) {
                     updated['Inspector name'] = selectedInspector.name;
-                    updated['inpector name '] = selectedInspector.name;
                 }
                 // Auto-fill njdoh from inspector variable
                 if (selectedInspector?.variableValues) {
@@ -147,7 +167,6 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
             setFormData(prev => ({
                 ...prev,
                 'Inspector name': '',
-                'inpector name ': '',
                 'njdoh': ''
             }));
         }
@@ -213,29 +232,26 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
         setMissingItems({ documents: missingDocs, variables: missingVars });
     }, [selectedInspectorId, inspectorDocuments, generalTypedDocuments, generalVariables, inspectors]);
 
-    const config = getReportConfig(reportType);
-
-    // Filter for User Input fields dynamically, but exclude fields that are auto-filled:
-    // - Inspector name fields (auto-filled from dropdown)
-    // - address field (auto-filled from Address field)
+    // Filter for User Input fields dynamically ('derived' fields are never shown), but exclude fields that are auto-filled:
+    // - Inspector name (auto-filled from dropdown)
     // - county, block, lot fields (only needed for page 6, which is removed if positive)
+    // - per-unit fields of a multi-unit run (confirmed in the units table)
+    const leadFreePageRemoved = data.units ? data.units.every(unit => unit.isPositive) : data.isPositive;
     const inputFields = config?.mappings.filter(m => 
-        m.source === 'user_input' && 
+        (m.source === 'user_input' || m.source === 'excel_cell') && 
         m.pdfFieldId !== 'Inspector name' && 
-        m.pdfFieldId !== 'inpector name ' &&
-        m.pdfFieldId !== 'address' &&
+        !unitFieldIds.includes(m.pdfFieldId) &&
         // Exclude county, block, and lot if report is positive (page 6 will be removed)
-        !(data.isPositive && (m.pdfFieldId === 'county' || m.pdfFieldId === 'block' || m.pdfFieldId === 'lot'))
+        !(leadFreePageRemoved && (m.pdfFieldId === 'county' || m.pdfFieldId === 'block' || m.pdfFieldId === 'lot'))
     ) || [];
 
+    // Fields computed from config expressions - shown read-only so the user can check them before generating
+    const calculatedFields = config?.mappings.filter(m => m.source === 'calculation') || [];
+    const selectedInspector = inspectors.find(i => i.id === selectedInspectorId);
+
     const handleChange = (fieldId: string, value: string) => {
         setFormData(prev => ({ ...prev, [fieldId]: value }));
         
-        // Auto-fill address field when Address field changes
-        if (fieldId === 'Address') {
-            setFormData(prev => ({ ...prev, address: value }));
-        }
-        
         if (errors[fieldId]) {
             setErrors(prev => {
                 const newErrors = { ...prev };
@@ -245,6 +261,28 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
         }
     };
 
+    // Readings taken outside the inspection dates entered above (compared by day)
+    const dateRange = config?.dateRangeFields;
+    const windowStart = dateRange ? String(formData[dateRange.start] || '').slice(0, 10) : '';
+    const windowEnd = dateRange?.end ? String(formData[dateRange.end] || '').slice(0, 10) || windowStart : windowStart;
+    const readingsOutsideWindow = windowStart
+        ? (data.readingTimestamps || []).filter(reading =>
+            reading.timestamp.slice(0, 10) < windowStart || reading.timestamp.slice(0, 10) > windowEnd)
+        : [];
+
+    const handleUnitChange = (unitIndex: number, fieldId: string, value: string) => {
+        setUnits(prev => prev.map((unit, idx) => idx === unitIndex ? { ...unit, fields: { ...unit.fields, [fieldId]: value } } : unit));
+
+        const errorKey = `unit:${unitIndex}:${fieldId}`;
+        if (errors[errorKey]) {
+            setErrors(prev => {
+                const newErrors = { ...prev };
+                delete newErrors[errorKey];
+                return newErrors;
+            });
+        }
+    };
+
     const validate = () => {
         const newErrors: Record<string, string> = {};
 
@@ -256,12 +294,30 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
                 newErrors['inspector'] = 'Inspector selection is required';
             }
 
+            // A failed calibration check blocks the report when the analyzer profile says so
+            if (calibrationBlocking) {
+                newErrors['general'] = 'The calibration check failed. Correct the XRF data or re-run the calibration before generating the report.';
+            }
+
             inputFields.forEach(field => {
                 // Simple required check for now (assuming all inputs are required for MVP unless specified)
                 if (field.required && !String(formData[field.pdfFieldId] || '').trim()) {
                     newErrors[field.pdfFieldId] = `${field.label || field.pdfFieldId} is required`;
                 }
             });
+
+            if (dateRange?.end && formData[dateRange.end] && windowEnd < windowStart) {
+                newErrors[dateRange.end] = 'The inspection end date is before the start date';
+            }
+
+            units.forEach((unit, idx) => {
+                unitFieldIds.forEach(fieldId => {
+                    const field = config.mappings.find(m => m.pdfFieldId === fieldId);
+                    if ((field?.required || fieldId === config.unitField) && !String(unit.fields[fieldId] || '').trim()) {
+                        newErrors[`unit:${idx}:${fieldId}`] = `${field?.label || fieldId} is required`;
+                    }
+                });
+            });
         }
 
         setErrors(newErrors);
@@ -274,22 +330,12 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
             // Just try to find them if they exist, but don't require them
             
             // Find certificate document type (look for "certificate" or "Certificate" in general document types)
-            const certificateType = Array.from(generalTypedDocuments.keys()).find(
-                type => type.toLowerCase().includes('certificate') || type.toLowerCase().includes('cert')
-            );
+            const certificateType = findCertificateDocumentType(generalTypedDocuments);
             
             // Find license document type if inspector is selected
-            let licenseDocumentType: string | undefined = undefined;
-            if (selectedInspectorId) {
-                const inspectorDocs = inspectorDocuments.get(selectedInspectorId) || [];
-                const licenseDoc = inspectorDocs.find(doc => 
-                    doc.documentType?.toLowerCase().includes('license') || 
-                    doc.documentType?.toLowerCase().includes('licence')
-                );
-                if (licenseDoc) {
-                    licenseDocumentType = licenseDoc.documentType;
-                }
-            }
+            const licenseDocumentType = selectedInspectorId
+                ? findLicenseDocumentType(inspectorDocuments.get(selectedInspectorId) || [])
+                : undefined;
             
             // All validations passed (no required checks for now)
             // Merge formData with original data to ensure all Excel-extracted values are included
@@ -302,9 +348,19 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
                 // Ensure these are explicitly included
                 fullExcelData: data.fullExcelData,
                 headerRowIndex: data.headerRowIndex,
+                analyzerProfileId: data.analyzerProfileId,
+                calibrationQA: data.calibrationQA,
+                dustWipeSamples: data.dustWipeSamples,
                 isPositive: data.isPositive,
                 totalReadings: data.totalReadings,
-                positiveReadings: data.positiveReadings
+                positiveReadings: data.positiveReadings,
+                inconclusiveReadings: data.inconclusiveReadings,
+                readingDisagreements: data.readingDisagreements,
+                instrumentModel: data.instrumentModel,
+                instrumentSerialNumber: data.instrumentSerialNumber,
+                instrumentSourceDate: data.instrumentSourceDate,
+                instrumentFirmware: data.instrumentFirmware,
+                units: data.units ? units : undefined
             } as ExtractedData;
             
             console.log('Submitting confirmed data with fields:', Object.keys(confirmedData));
@@ -316,6 +372,10 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
 
     if (!config) return <div className="text-red-500">Error: Report configuration missing.</div>;
 
+    // A revision uses the documents as they are now: count those of the original that were replaced or removed since
+    const currentDocumentIds = getReferencedDocumentIds({ selectedInspectorId }, generalTypedDocuments, inspectorDocuments);
+    const replacedDocuments = (data.originalDocumentIds || []).filter(id => !currentDocumentIds.includes(id)).length;
+
     return (
         <div className="flex flex-col h-full animate-fade-in">
             <div className="text-center mb-8">
@@ -324,6 +384,27 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
 
             <div className="space-y-6 max-w-6xl mx-auto w-full pb-10 px-4">
 
+                {/* Revision of an archived report */}
+                {!!data.revision && (
+                    <div className="bg-blue-50 border border-blue-300 rounded-xl p-6 shadow-sm">
+                        <div className="flex items-start gap-3">
+                            <History className="text-blue-600 flex-shrink-0 mt-0.5" size={24} />
+                            <div className="flex-1">
+                                <h3 className="font-semibold text-blue-900">Revision {data.revision}</h3>
+                                <p className="text-sm text-blue-800">
+                                    Reopened from Reports with the values it was generated with. The new PDF is marked
+                                    "Revised"; the original stays in Reports.
+                                </p>
+                                {replacedDocuments > 0 && (
+                                    <p className="text-sm text-amber-700 mt-2">
+                                        {replacedDocuments} document(s) used by the original were replaced or removed since; the current ones will be used.
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
                 {/* Missing Documents/Variables Warning - only show if something is missing */}
                 {(missingItems.documents.length > 0 || missingItems.variables.length > 0) && (
                     <div className="bg-amber-50 border border-amber-300 rounded-xl p-6 shadow-sm">
@@ -374,9 +455,14 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
                                 <>
                                     <AlertTriangle className="text-red-600" size={24} />
                                     <div>
-                                        <h3 className="font-semibold text-red-900">Status: Positive</h3>
+                                        <h3 className="font-semibold text-red-900">
+                                            {isDustWipe ? 'Clearance: Failed' : 'Status: Positive'}
+                                        </h3>
                                         <p className="text-sm text-red-700 mt-1">
-                                            One or more screenings in the Pb P/F column are positive (excluding calibration rows).
+                                            {isDustWipe
+                                                ? `${data.positiveReadings || 0} of ${data.totalReadings || 0} wipe samples are at or above the lead dust hazard threshold.`
+                                                : `${data.positiveReadings || 0} reading(s) at or above the action level of ${actionLevel.level} mg/cm² or reported positive by the analyzer (excluding calibration rows)${
+                                                    data.inconclusiveReadings ? `, including ${data.inconclusiveReadings} inconclusive` : ''}.`}
                                         </p>
                                     </div>
                                 </>
@@ -384,9 +470,13 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
                                 <>
                                     <CheckCircle2 className="text-green-600" size={24} />
                                     <div>
-                                        <h3 className="font-semibold text-green-900">Status: Negative</h3>
+                                        <h3 className="font-semibold text-green-900">
+                                            {isDustWipe ? 'Clearance: Passed' : 'Status: Negative'}
+                                        </h3>
                                         <p className="text-sm text-green-700 mt-1">
-                                            No positive screenings detected in the Pb P/F column (excluding calibration rows).
+                                            {isDustWipe
+                                                ? `All ${data.totalReadings || 0} wipe samples are below the lead dust hazard thresholds.`
+                                                : `No readings at or above the action level of ${actionLevel.level} mg/cm² or reported positive by the analyzer (excluding calibration rows).`}
                                         </p>
                                     </div>
                                 </>
@@ -395,6 +485,229 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
                     </div>
                 )}
 
+                {/* Readings whose value and the analyzer's call disagree */}
+                {!isDustWipe && data.readingDisagreements && data.readingDisagreements.length > 0 && (
+                    <div className="bg-amber-50 p-6 rounded-xl border border-amber-300 shadow-sm">
+                        <div className="flex items-start gap-3">
+                            <AlertTriangle className="text-amber-600 flex-shrink-0" size={24} />
+                            <div className="flex-1">
+                                <h3 className="font-semibold text-amber-900">Readings Disagree With the Analyzer</h3>
+                                <p className="text-sm text-amber-800 mt-1">
+                                    These readings are classified from their value against the action level of {actionLevel.level} mg/cm²,
+                                    which differs from the analyzer's own result. Please review them before generating the report.
+                                </p>
+                                <ul className="list-disc list-inside text-sm text-amber-800 mt-2 space-y-1">
+                                    {data.readingDisagreements.map(d => (
+                                        <li key={d.rowNumber}>
+                                            Row {d.rowNumber}: {d.value} mg/cm² is {d.numeric}, the analyzer reported {d.device}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Readings whose timestamp falls outside the inspection dates */}
+                {!isDustWipe && readingsOutsideWindow.length > 0 && (
+                    <div className="bg-amber-50 p-6 rounded-xl border border-amber-300 shadow-sm">
+                        <div className="flex items-start gap-3">
+                            <AlertTriangle className="text-amber-600 flex-shrink-0" size={24} />
+                            <div className="flex-1">
+                                <h3 className="font-semibold text-amber-900">Readings Outside the Inspection Dates</h3>
+                                <p className="text-sm text-amber-800 mt-1">
+                                    {readingsOutsideWindow.length} reading(s) were taken outside {windowStart}
+                                    {windowEnd !== windowStart ? ` to ${windowEnd}` : ''}. Check the inspection dates below or the analyzer's clock.
+                                </p>
+                                <ul className="list-disc list-inside text-sm text-amber-800 mt-2 space-y-1">
+                                    {readingsOutsideWindow.slice(0, 10).map(reading => (
+                                        <li key={`${reading.unit || ''}:${reading.rowNumber}`}>
+                                            Row {reading.rowNumber}{reading.unit ? ` (unit ${reading.unit})` : ''}: {reading.timestamp.replace('T', ' ')}
+                                        </li>
+                                    ))}
+                                    {readingsOutsideWindow.length > 10 && <li>and {readingsOutsideWindow.length - 10} more</li>}
+                                </ul>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Instrument details from a CSV/text export's preamble */}
+                {!isDustWipe && (data.instrumentModel || data.instrumentSerialNumber || data.instrumentSourceDate || data.instrumentFirmware) && (
+                    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+                        <div className="flex items-center gap-2 mb-4 text-blue-600 font-semibold border-b border-slate-100 pb-2">
+                            <ClipboardList size={20} />
+                            <h3>XRF Instrument</h3>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                            {[
+                                ['Model', data.instrumentModel],
+                                ['Serial Number', data.instrumentSerialNumber],
+                                ['Source Date', data.instrumentSourceDate],
+                                ['Firmware', data.instrumentFirmware],
+                            ].map(([label, value]) => (
+                                <div key={label}>
+                                    <span className="block text-slate-500">{label}</span>
+                                    <span className="text-slate-900 font-medium">{value || '-'}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* XRF Calibration Check */}
+                {calibrationQA && (
+                    <div className={`bg-white p-6 rounded-xl border shadow-sm ${
+                        calibrationQA.status === 'fail'
+                            ? 'border-red-300 bg-red-50'
+                            : calibrationQA.status === 'warn'
+                                ? 'border-amber-300 bg-amber-50'
+                                : 'border-green-300 bg-green-50'
+                    }`}>
+                        <div className="flex items-start gap-3">
+                            {calibrationQA.status === 'pass'
+                                ? <CheckCircle2 className="text-green-600 flex-shrink-0" size={24} />
+                                : <AlertTriangle className={`flex-shrink-0 ${calibrationQA.status === 'fail' ? 'text-red-600' : 'text-amber-600'}`} size={24} />}
+                            <div className="flex-1">
+                                <h3 className={`font-semibold ${
+                                    calibrationQA.status === 'fail' ? 'text-red-900' : calibrationQA.status === 'warn' ? 'text-amber-900' : 'text-green-900'
+                                }`}>
+                                    Calibration Check: {calibrationQA.status === 'fail' ? 'Failed' : calibrationQA.status === 'warn' ? 'Passed with warnings' : 'Passed'}
+                                </h3>
+                                <p className="text-sm text-slate-700 mt-1">
+                                    {calibrationQA.sequences.length === 0
+                                        ? 'No calibration readings found.'
+                                        : calibrationQA.sequences.map(sequence =>
+                                            `${sequence.position} (${sequence.readings.length} reading${sequence.readings.length === 1 ? '' : 's'}${
+                                                sequence.passed === null ? '' : sequence.passed ? ', in tolerance' : ', out of tolerance'})`
+                                        ).join(' · ')}
+                                </p>
+                                {calibrationQA.problems.length > 0 && (
+                                    <ul className="list-disc list-inside text-sm text-slate-700 mt-2 space-y-1">
+                                        {calibrationQA.problems.map((problem, idx) => <li key={idx}>{problem}</li>)}
+                                    </ul>
+                                )}
+                                {calibrationQA.blocking && (
+                                    <p className="text-sm font-medium text-red-700 mt-2">
+                                        The report can't be generated until the calibration check passes.
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Units of a multi-unit workbook (one report each) */}
+                {data.units && units.length > 0 && (
+                    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+                        <div className="flex items-center gap-2 mb-4 text-blue-600 font-semibold border-b border-slate-100 pb-2">
+                            <Building2 size={20} />
+                            <h3>Units ({units.length})</h3>
+                        </div>
+                        <p className="text-sm text-slate-500 mb-4">
+                            One report is generated per unit, plus a building summary. The fields below are shared by all units.
+                        </p>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-slate-500 border-b border-slate-100">
+                                        <th className="py-2 pr-4 font-medium">{units[0].source === 'sheet' ? 'Sheet' : 'Sample ID'}</th>
+                                        {unitFieldIds.map(fieldId => {
+                                            const field = config.mappings.find(m => m.pdfFieldId === fieldId);
+                                            return <th key={fieldId} className="py-2 pr-4 font-medium">{field?.label || fieldId}</th>;
+                                        })}
+                                        <th className="py-2 pr-4 font-medium">Readings</th>
+                                        <th className="py-2 font-medium">Calibration</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {units.map((unit, idx) => (
+                                        <tr key={unit.id} className="border-b border-slate-50 align-top">
+                                            <td className="py-2 pr-4 text-slate-900 font-medium">{unit.id}</td>
+                                            {unitFieldIds.map(fieldId => {
+                                                const field = config.mappings.find(m => m.pdfFieldId === fieldId);
+                                                const error = errors[`unit:${idx}:${fieldId}`];
+                                                return (
+                                                    <td key={fieldId} className="py-2 pr-4">
+                                                        <input
+                                                            type={field?.inputType || 'text'}
+                                                            className={`input-field ${error ? 'border-red-500 ring-1 ring-red-500' : ''}`}
+                                                            value={unit.fields[fieldId] ?? ''}
+                                                            onChange={(e) => handleUnitChange(idx, fieldId, e.target.value)}
+                                                        />
+                                                        {error && <p className="text-red-500 text-xs mt-1 font-medium">{error}</p>}
+                                                    </td>
+                                                );
+                                            })}
+                                            <td className="py-2 pr-4">
+                                                <span className={`font-medium ${unit.isPositive ? 'text-red-600' : 'text-green-600'}`}>
+                                                    {unit.isPositive ? 'Positive' : 'Negative'}
+                                                </span>
+                                                <span className="text-slate-500"> · {unit.positiveReadings} of {unit.totalReadings}</span>
+                                                {unit.readingDisagreements.length > 0 && (
+                                                    <p className="text-xs text-amber-700 mt-1">
+                                                        {unit.readingDisagreements.length} disagree with the analyzer
+                                                    </p>
+                                                )}
+                                            </td>
+                                            <td className={`py-2 font-medium ${
+                                                unit.calibrationQA?.status === 'fail' ? 'text-red-600' : unit.calibrationQA?.status === 'warn' ? 'text-amber-600' : 'text-green-600'
+                                            }`} title={unit.calibrationQA?.problems.join('\n')}>
+                                                {!unit.calibrationQA ? '-' : unit.calibrationQA.status === 'fail' ? 'Failed' : unit.calibrationQA.status === 'warn' ? 'Warnings' : 'Passed'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        {calibrationBlocking && (
+                            <p className="text-sm font-medium text-red-700 mt-3">
+                                The reports can't be generated until the calibration check of every unit passes.
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                {/* Dust Wipe Results (per sample) */}
+                {isDustWipe && data.dustWipeSamples && data.dustWipeSamples.length > 0 && (
+                    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+                        <div className="flex items-center gap-2 mb-4 text-blue-600 font-semibold border-b border-slate-100 pb-2">
+                            <ClipboardList size={20} />
+                            <h3>Wipe Sample Results</h3>
+                        </div>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-slate-500 border-b border-slate-100">
+                                        <th className="py-2 pr-4 font-medium">Sample</th>
+                                        <th className="py-2 pr-4 font-medium">Location</th>
+                                        <th className="py-2 pr-4 font-medium">Surface</th>
+                                        <th className="py-2 pr-4 font-medium">Result (µg/ft²)</th>
+                                        <th className="py-2 pr-4 font-medium">Threshold</th>
+                                        <th className="py-2 font-medium">Status</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {data.dustWipeSamples.map((sample, idx) => (
+                                        <tr key={idx} className="border-b border-slate-50">
+                                            <td className="py-2 pr-4 text-slate-900">{sample.sampleId || '-'}</td>
+                                            <td className="py-2 pr-4 text-slate-600">{sample.location || '-'}</td>
+                                            <td className="py-2 pr-4 text-slate-600">{sample.surface || '-'}</td>
+                                            <td className="py-2 pr-4 text-slate-900">{sample.resultText}</td>
+                                            <td className="py-2 pr-4 text-slate-600">{sample.threshold ?? '-'}</td>
+                                            <td className={`py-2 font-medium ${
+                                                sample.passed === false ? 'text-red-600' : sample.passed ? 'text-green-600' : 'text-amber-600'
+                                            }`}>
+                                                {sample.passed === false ? 'Fail' : sample.passed ? 'Pass' : 'Check manually'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                )}
+
                 {/* Inspector Selection */}
                 <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
                     <div className="flex items-center gap-2 mb-4 text-blue-600 font-semibold border-b border-slate-100 pb-2">
@@ -502,10 +815,11 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
                                     </div>
                                 )}
 
-                                {/* Row 4: Inspection Date, Today (Report Date) */}
-                                {hasAnyField(['Date', 'Today']) && (
-                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+                                {/* Row 4: Inspection Start Date, Inspection End Date, Today (Report Date) */}
+                                {hasAnyField(['Date', 'insp date end', 'Today']) && (
+                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
                                         {renderField('Date')}
+                                        {renderField('insp date end')}
                                         {renderField('Today')}
                                     </div>
                                 )}
@@ -523,6 +837,32 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
                     })()}
                 </div>
 
+                {/* Calculated Fields (read-only, recomputed as inputs change) */}
+                {config && calculatedFields.length > 0 && (
+                    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+                        <div className="flex items-center gap-2 mb-4 text-blue-600 font-semibold border-b border-slate-100 pb-2">
+                            <Calculator size={20} />
+                            <h3>Calculated Fields</h3>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+                            {calculatedFields.map(field => (
+                                <div key={field.pdfFieldId}>
+                                    <label className="label-text">{field.label || field.pdfFieldId}</label>
+                                    <input
+                                        type="text"
+                                        className="input-field bg-slate-50 text-slate-600"
+                                        value={resolveFieldValue(field, { ...data, ...formData }, config.mappings, {
+                                            generalVariables,
+                                            inspectorVariables: selectedInspector?.variableValues,
+                                        })}
+                                        readOnly
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {errors['general'] && (
                     <div className="flex items-center gap-2 text-red-600 bg-red-50 px-4 py-3 rounded-lg border border-red-200">
                         <AlertCircle size={18} />
@@ -540,10 +880,11 @@ export const StepConfirmation: React.FC<StepConfirmationProps> = ({
                     </button>
                     <button
                         onClick={handleSubmit}
-                        className="flex-1 primary-btn flex items-center justify-center gap-2"
+                        disabled={calibrationBlocking}
+                        className="flex-1 primary-btn flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         <Check size={18} />
-                        Generate PDF
+                        {data.units ? 'Generate Reports' : 'Generate PDF'}
                     </button>
                 </div>
             </div>
@@ -1,9 +1,17 @@
 import React from 'react';
-import { Download, CheckCircle, RotateCcw, AlertTriangle, CheckCircle2, FileText } from 'lucide-react';
+import { Download, CheckCircle, RotateCcw, AlertTriangle, CheckCircle2, FileText, Archive } from 'lucide-react';
 import type { ExtractedData } from '../App';
-import { generatePDFReport } from '../utils/pdfGenerator';
+import { generatePDFReport, generateUnitReports } from '../utils/pdfGenerator';
+import type { GeneratedPdf, ReportOutput } from '../utils/pdfGenerator';
+import { archiveReport } from '../utils/reportArchive';
+import { getReferencedDocumentIds, getTemplateVersions } from '../utils/reportData';
+import { getReportConfig } from '../config/reports';
 import type { Inspector, Document } from '../types/documents';
 import { getFileFromR2, isR2Configured } from '../utils/r2Storage';
+import { getUnitLabel } from '../utils/multiUnit';
+
+// Remembered in the browser, so whoever uses it doesn't retype their name for every report
+const GENERATED_BY_STORAGE_KEY = 'generatedBy';
 
 interface StepGenerationProps {
     data: ExtractedData;
@@ -26,12 +34,47 @@ export const StepGeneration: React.FC<StepGenerationProps> = ({
 }) => {
     const [isGenerating, setIsGenerating] = React.useState(false);
     const [error, setError] = React.useState<string | null>(null);
+    const config = getReportConfig(reportType);
+    const isDustWipe = config?.dataType === 'dust_wipe';
+    const hasCertificate = !!config?.certifTemplateUrl;
+    const [output, setOutput] = React.useState<ReportOutput>('report');
+    const [generatedBy, setGeneratedBy] = React.useState<string>(() =>
+        typeof window !== 'undefined' ? window.localStorage.getItem(GENERATED_BY_STORAGE_KEY) || '' : '');
+    const [archiveMessage, setArchiveMessage] = React.useState<{ ok: boolean; text: string } | null>(null);
+    // Multi-unit runs download one report per unit plus a building summary as a ZIP
+    const units = data.units || [];
+
+    // Keeps the downloaded PDFs in the report archive. The download already happened, so a failure is only reported.
+    const archiveGenerated = async (generated: GeneratedPdf[]) => {
+        const name = generatedBy.trim();
+        window.localStorage.setItem(GENERATED_BY_STORAGE_KEY, name);
+        // Kept with each PDF so it can be reopened and regenerated as a revision
+        const { originalDocumentIds, templateVersions, ...snapshot } = data;
+        const inputs = {
+            data: snapshot,
+            documentIds: getReferencedDocumentIds(data, generalTypedDocuments, inspectorDocuments),
+            templateVersions: config ? getTemplateVersions(data, config) : undefined,
+        };
+        const failures: string[] = [];
+        for (const pdf of generated) {
+            try {
+                await archiveReport(pdf.bytes, pdf.fileName, { ...pdf.details, generatedBy: name || undefined }, inputs, pdf.reportId);
+            } catch (err: any) {
+                console.warn(`⚠️ Failed to archive ${pdf.fileName}:`, err);
+                failures.push(`${pdf.fileName}: ${err?.message || 'Unknown error'}`);
+            }
+        }
+        setArchiveMessage(failures.length === 0
+            ? { ok: true, text: `Saved ${generated.length} PDF(s) to Reports.` }
+            : { ok: false, text: `Not saved to Reports:\n${failures.join('\n')}` });
+    };
 
     const handleDownload = async () => {
         if (isGenerating) return;
         
         setIsGenerating(true);
         setError(null);
+        setArchiveMessage(null);
         
         try {
             console.log('Starting PDF generation...', {
@@ -143,16 +186,18 @@ export const StepGeneration: React.FC<StepGenerationProps> = ({
                 }
             }
             
-            await generatePDFReport(
+            const generated = await (units.length > 0 ? generateUnitReports : generatePDFReport)(
                 data, 
                 reportType, 
                 generalTypedDocuments, 
                 documentsWithFiles, 
                 inspectors, 
-                generalVariables
+                generalVariables,
+                output
             );
             
             console.log('PDF generation completed successfully');
+            await archiveGenerated(generated);
         } catch (err: any) {
             console.error('PDF generation error:', err);
             const errorMessage = err?.message || 'Unknown error occurred';
@@ -171,7 +216,9 @@ export const StepGeneration: React.FC<StepGenerationProps> = ({
 
             <h2 className="text-3xl font-bold text-slate-900 mb-2">Ready to Download!</h2>
             <p className="text-slate-500 mb-8 max-w-sm">
-                Your Report for <strong>{data.address}</strong> has been prepared.
+                {units.length > 0
+                    ? <>Your Reports for the {units.length} units of <strong>{data.address}</strong> have been prepared.</>
+                    : <>Your Report for <strong>{data.address}</strong> has been prepared.</>}
             </p>
 
             <div className="flex flex-col gap-4 w-full max-w-xs">
@@ -180,6 +227,33 @@ export const StepGeneration: React.FC<StepGenerationProps> = ({
                         <strong>Error:</strong> {error}
                     </div>
                 )}
+                <div className="text-left">
+                    <label className="label-text">Generated By</label>
+                    <input
+                        type="text"
+                        className="input-field"
+                        value={generatedBy}
+                        onChange={(e) => setGeneratedBy(e.target.value)}
+                        placeholder="Your name (recorded in Reports)"
+                        disabled={isGenerating}
+                    />
+                </div>
+                {hasCertificate && (
+                    <div className="text-left">
+                        <label className="label-text">Lead-Safe Certificate</label>
+                        <select
+                            className="input-field"
+                            value={output}
+                            onChange={(e) => setOutput(e.target.value as ReportOutput)}
+                            disabled={isGenerating}
+                        >
+                            <option value="report">Report only</option>
+                            <option value="bundle">Include certificate in the report</option>
+                            <option value="separate">Report and certificate as separate files</option>
+                            <option value="certificate">Certificate only</option>
+                        </select>
+                    </div>
+                )}
                 <button
                     onClick={handleDownload}
                     disabled={isGenerating}
@@ -188,16 +262,27 @@ export const StepGeneration: React.FC<StepGenerationProps> = ({
                     {isGenerating ? (
                         <>
                             <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                            Generating PDF...
+                            {units.length > 0 ? 'Generating Reports...' : 'Generating PDF...'}
                         </>
                     ) : (
                         <>
                             <Download size={20} />
-                            Download Report (.pdf)
+                            {units.length > 0
+                                ? `Download ${units.length} Reports (.zip)`
+                                : output === 'certificate' ? 'Download Certificate (.pdf)' : 'Download Report (.pdf)'}
                         </>
                     )}
                 </button>
 
+                {archiveMessage && (
+                    <div className={`flex items-start gap-2 p-3 rounded-lg text-sm text-left border ${
+                        archiveMessage.ok ? 'bg-green-50 border-green-200 text-green-700' : 'bg-amber-50 border-amber-200 text-amber-800'
+                    }`}>
+                        <Archive size={16} className="flex-shrink-0 mt-0.5" />
+                        <span className="whitespace-pre-wrap break-all">{archiveMessage.text}</span>
+                    </div>
+                )}
+
                 <button
                     onClick={onReset}
                     className="py-3 text-slate-400 hover:text-slate-600 flex items-center justify-center gap-2 transition-colors font-medium text-sm"
@@ -220,6 +305,14 @@ export const StepGeneration: React.FC<StepGenerationProps> = ({
                         <span className="text-slate-900 font-medium text-right max-w-[60%]">{data.address || 'N/A'}</span>
                     </div>
                     
+                    {isDustWipe ? (
+                    <div className="flex justify-between items-center">
+                        <span className="text-slate-500">Clearance Result:</span>
+                        <span className={`font-semibold ${data.isPositive ? 'text-red-600' : 'text-green-600'}`}>
+                            {data.isPositive ? 'Failed' : 'Passed'}
+                        </span>
+                    </div>
+                    ) : (
                     <div className="flex justify-between items-center">
                         <span className="text-slate-500">Inspection Result:</span>
                         <span className={`font-semibold ${
@@ -228,6 +321,7 @@ export const StepGeneration: React.FC<StepGenerationProps> = ({
                             {(data as any)['Inspection Result'] || (data.isPositive ? 'Not Lead Free' : 'Lead Free')}
                         </span>
                     </div>
+                    )}
 
                     <div className="flex justify-between items-center">
                         <span className="text-slate-500">Status:</span>
@@ -246,13 +340,22 @@ export const StepGeneration: React.FC<StepGenerationProps> = ({
                         </div>
                     </div>
 
+                    {units.length > 0 && (
+                        <div className="flex justify-between items-start">
+                            <span className="text-slate-500">Units:</span>
+                            <span className="text-slate-900 font-medium text-right max-w-[60%]">
+                                {units.map(unit => getUnitLabel(unit, config)).join(', ')}
+                            </span>
+                        </div>
+                    )}
+
                     <div className="flex justify-between items-center">
-                        <span className="text-slate-500">Total Readings:</span>
+                        <span className="text-slate-500">{isDustWipe ? 'Wipe Samples:' : 'Total Readings:'}</span>
                         <span className="text-slate-900 font-medium">{data.totalReadings || 0}</span>
                     </div>
 
                     <div className="flex justify-between items-center">
-                        <span className="text-slate-500">Positive Readings:</span>
+                        <span className="text-slate-500">{isDustWipe ? 'Failed Samples:' : 'Positive Readings:'}</span>
                         <span className="text-slate-900 font-medium">{data.positiveReadings || 0}</span>
                     </div>
 
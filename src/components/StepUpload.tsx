@@ -1,14 +1,21 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Upload, FileSpreadsheet, AlertCircle, Check, Layers, ArrowRight, Loader2 } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import type { ExtractedData } from '../App';
+import type { UploadedData } from '../App';
 import type { ReportType } from '../App';
-import { extractSheetInfo } from '../utils/excelExtractor';
+import { detectWorkbookUnits, extractMappedCells } from '../utils/excelExtractor';
 import { getReportConfig } from '../config/reports';
-import { getTemplateUrl } from '../utils/apiConfig';
+import { ANALYZER_PROFILES, getAnalyzerProfile } from '../config/analyzerProfiles';
+import { toUnitData } from '../utils/multiUnit';
+import { getInstrumentDataFields, isTextExportFile } from '../utils/textExportParser';
+import { extractReportData, getCalibrationQA, isSupportedUploadFile, readUploadedWorkbook } from '../utils/reportData';
+import type { InstrumentMetadata } from '../types/analyzerProfiles';
+import { getTemplateKey, getTemplateSourceUrls } from '../utils/templateLoader';
+import { validateReportConfig } from '../utils/reportConfigValidator';
+import type { ReportConfigIssue } from '../utils/reportConfigValidator';
 
 interface StepUploadProps {
-    onUpload: (data: Partial<ExtractedData>) => void;
+    onUpload: (data: UploadedData) => void;
     reportType: ReportType;
     onBack: () => void;
 }
@@ -19,6 +26,12 @@ export const StepUpload: React.FC<StepUploadProps> = ({ onUpload, reportType, on
     const [isProcessing, setIsProcessing] = useState(false);
     const [templateFilesValid, setTemplateFilesValid] = useState<{ valid: boolean; missing: string[] } | null>(null);
     const [isCheckingTemplates, setIsCheckingTemplates] = useState(true);
+    // Config errors found against the template fields (mapped fields the template doesn't have, etc.)
+    const [configErrors, setConfigErrors] = useState<ReportConfigIssue[]>([]);
+    // XRF analyzer profile chosen by the user ('' = detect from the sheet headers)
+    const [analyzerProfileId, setAnalyzerProfileId] = useState('');
+    // One report per unit of a multi-family workbook instead of one report for a single sheet
+    const [multiUnit, setMultiUnit] = useState(false);
 
     // Check required template files on mount
     useEffect(() => {
@@ -31,17 +44,17 @@ export const StepUpload: React.FC<StepUploadProps> = ({ onUpload, reportType, on
                 return;
             }
 
-            const requiredFiles: string[] = [config.templateUrl];
-            if (config.certifTemplateUrl && reportType === 'XHR') {
-                requiredFiles.push(config.certifTemplateUrl);
+            const requiredFiles: { url: string; version?: number }[] = [{ url: config.templateUrl, version: config.templateVersion }];
+            if (config.certifTemplateUrl) {
+                requiredFiles.push({ url: config.certifTemplateUrl, version: config.certifTemplateVersion });
             }
 
             const missing: string[] = [];
             
-            for (const fileUrl of requiredFiles) {
+            for (const { url: fileUrl, version } of requiredFiles) {
                 let found = false;
-                const filename = fileUrl.replace('/templates/', '');
-                const urlsToTry = getTemplateUrl(fileUrl);
+                const filename = version !== undefined ? `${getTemplateKey(fileUrl)} v${version}` : getTemplateKey(fileUrl);
+                const urlsToTry = getTemplateSourceUrls(fileUrl, version);
                 
                 console.log(`Checking template: ${filename}, trying URLs:`, urlsToTry);
                 
@@ -67,7 +80,7 @@ export const StepUpload: React.FC<StepUploadProps> = ({ onUpload, reportType, on
                 
                 if (!found) {
                     console.warn(`❌ Template file not accessible: ${fileUrl} (tried: ${urlsToTry.join(', ')})`);
-                    missing.push(fileUrl);
+                    missing.push(version !== undefined ? `${fileUrl} (template library v${version})` : fileUrl);
                 }
             }
 
@@ -76,6 +89,17 @@ export const StepUpload: React.FC<StepUploadProps> = ({ onUpload, reportType, on
                 missing 
             });
             setIsCheckingTemplates(false);
+
+            // Doesn't block the upload: the report still generates, but these fields would come out blank
+            setConfigErrors([]);
+            if (missing.length === 0) {
+                try {
+                    const issues = await validateReportConfig(config);
+                    setConfigErrors(issues.filter(issue => issue.severity === 'error'));
+                } catch (err: any) {
+                    console.warn('Could not validate the report config:', err.message);
+                }
+            }
         };
 
         checkTemplateFiles();
@@ -86,21 +110,31 @@ export const StepUpload: React.FC<StepUploadProps> = ({ onUpload, reportType, on
     const [sheetNames, setSheetNames] = useState<string[]>([]);
     const [selectedSheet, setSelectedSheet] = useState<string | null>(null);
     const [fileName, setFileName] = useState<string>('');
+    // Instrument details from the preamble of a CSV/text export (empty for Excel uploads)
+    const instrumentMetadata = useRef<InstrumentMetadata>({});
 
     const processFile = async (file: File) => {
         setIsProcessing(true);
         setError(null);
         setFileName(file.name);
 
-        if (!file.name.endsWith('.xlsx') && !file.name.endsWith('.xls')) {
-            setError('Please upload a valid Excel file (.xlsx or .xls)');
+        const isTextExport = isTextExportFile(file.name);
+        if (!isSupportedUploadFile(file.name)) {
+            setError('Please upload a valid Excel file (.xlsx or .xls) or an analyzer export (.csv or .txt)');
             setIsProcessing(false);
             return;
         }
 
         try {
-            const data = await file.arrayBuffer();
-            const wb = XLSX.read(data);
+            // CSV/text exports: the metadata preamble is kept apart, the readings become a one-sheet workbook
+            const uploaded = readUploadedWorkbook(file.name, await file.arrayBuffer());
+            const wb = uploaded.workbook;
+            instrumentMetadata.current = uploaded.instrumentMetadata;
+
+            if (multiUnit && getReportConfig(reportType)?.dataType !== 'dust_wipe') {
+                handleUnitsConfirm(wb, file.name);
+                return;
+            }
 
             setWorkbook(wb);
             setSheetNames(wb.SheetNames);
@@ -114,28 +148,75 @@ export const StepUpload: React.FC<StepUploadProps> = ({ onUpload, reportType, on
             }
         } catch (err) {
             console.error(err);
-            setError('Failed to parse Excel file. Please ensure it is a valid .xlsx or .xls file.');
+            setError(isTextExport
+                ? 'Failed to parse the analyzer export. Please ensure it is a comma, semicolon or tab-delimited text file.'
+                : 'Failed to parse Excel file. Please ensure it is a valid .xlsx or .xls file.');
             setIsProcessing(false);
         }
     };
 
-    const handleSheetConfirm = (wb: XLSX.WorkBook, sheetName: string) => {
-        const sheet = wb.Sheets[sheetName];
-        const extracted = extractSheetInfo(sheet);
+    // Multi-unit mode: a unit per sheet with readings, or per Sample ID prefix when a single sheet has them.
+    // The readings passed on are the building totals; each unit's own are in `units`.
+    const handleUnitsConfirm = (wb: XLSX.WorkBook, uploadedFileName: string) => {
+        const config = getReportConfig(reportType);
+        const detected = detectWorkbookUnits(wb, {
+            profile: getAnalyzerProfile(analyzerProfileId),
+            actionLevel: config?.actionLevel,
+            timeZone: config?.timeZone,
+        });
+        if (detected.length === 0) {
+            setError('No units found. The workbook needs a sheet per unit, or Sample IDs that start with the unit (e.g. 1A-001).');
+            setIsProcessing(false);
+            return;
+        }
+
+        const units = detected.map(unit => toUnitData(unit, getCalibrationQA(unit.info)));
+        const first = detected[0];
+        const sum = (count: (unit: typeof units[number]) => number) => units.reduce((total, unit) => total + count(unit), 0);
+        // The building's inspection window spans all units
+        const readingTimestamps = detected.flatMap(unit =>
+            (unit.info.readingTimestamps || []).map(reading => ({ ...reading, unit: unit.id })));
+        const timestamps = readingTimestamps.map(reading => reading.timestamp).sort();
 
-        const isPositive = extracted.isPositive || false;
-        
         onUpload({
-            fileName: fileName,
-            rawData: extracted.rawData,
-            address: extracted.address || '',
-            isPositive: isPositive,
-            totalReadings: extracted.totalReadings || 0,
-            positiveReadings: extracted.positiveReadings || 0,
-            fullExcelData: extracted.fullExcelData,
-            headerRowIndex: extracted.headerRowIndex,
-            Date: extracted.date || '', // Include extracted date from Excel
-        } as any);
+            fileName: uploadedFileName,
+            rawData: [],
+            address: first.info.address || '',
+            isPositive: units.some(unit => unit.isPositive),
+            totalReadings: sum(unit => unit.totalReadings),
+            positiveReadings: sum(unit => unit.positiveReadings),
+            inconclusiveReadings: sum(unit => unit.inconclusiveReadings),
+            readingDisagreements: [],
+            fullExcelData: undefined,
+            headerRowIndex: undefined,
+            analyzerProfileId: first.info.analyzerProfileId,
+            calibrationQA: null,
+            units,
+            inspectionStart: timestamps[0],
+            inspectionEnd: timestamps[timestamps.length - 1],
+            readingTimestamps,
+            ...getInstrumentDataFields(instrumentMetadata.current),
+            Date: timestamps[0] || first.info.date || '', // Include extracted date from Excel
+            ...extractMappedCells(wb.Sheets[first.sheetName], config?.mappings || []),
+        });
+    };
+
+    const handleSheetConfirm = (wb: XLSX.WorkBook, sheetName: string) => {
+        let extracted: UploadedData;
+        try {
+            extracted = extractReportData(wb, sheetName, getReportConfig(reportType), {
+                fileName,
+                profile: getAnalyzerProfile(analyzerProfileId),
+                instrumentMetadata: instrumentMetadata.current,
+            });
+        } catch (err: any) {
+            setError(err.message);
+            setWorkbook(null);
+            setSheetNames([]);
+            setIsProcessing(false);
+            return;
+        }
+        onUpload(extracted);
     };
 
     const handleSheetSelect = (name: string) => {
@@ -155,7 +236,7 @@ export const StepUpload: React.FC<StepUploadProps> = ({ onUpload, reportType, on
         if (e.dataTransfer.files && e.dataTransfer.files[0]) {
             processFile(e.dataTransfer.files[0]);
         }
-    }, []);
+    }, [analyzerProfileId, multiUnit]);
 
     const onDragOver = useCallback((e: React.DragEvent) => {
         e.preventDefault();
@@ -235,7 +316,11 @@ export const StepUpload: React.FC<StepUploadProps> = ({ onUpload, reportType, on
             <div className="text-center mb-8">
                 <h2 className="text-2xl font-bold text-slate-900 mb-2">Upload Data Source</h2>
                 <p className="text-slate-500">
-                    {reportType === 'XHR' ? 'Upload the XRF Inspection Excel file.' : 'Upload your Excel file to begin.'}
+                    {reportType === 'XHR'
+                        ? 'Upload the XRF Inspection Excel file.'
+                        : reportType === 'DUST_WIPE'
+                            ? 'Upload the dust wipe lab results Excel file.'
+                            : 'Upload your Excel file to begin.'}
                 </p>
             </div>
 
@@ -274,6 +359,55 @@ export const StepUpload: React.FC<StepUploadProps> = ({ onUpload, reportType, on
                 </div>
             )}
 
+            {getReportConfig(reportType)?.dataType !== 'dust_wipe' && (
+                <div className="mb-4 flex items-center justify-center gap-2">
+                    <label htmlFor="analyzerProfile" className="text-sm text-slate-600">XRF analyzer:</label>
+                    <select
+                        id="analyzerProfile"
+                        value={analyzerProfileId}
+                        onChange={(e) => setAnalyzerProfileId(e.target.value)}
+                        disabled={isProcessing}
+                        className="px-2 py-1.5 bg-white border border-slate-300 rounded text-sm text-slate-900"
+                    >
+                        <option value="">Auto-detect from the sheet headers</option>
+                        {ANALYZER_PROFILES.map(profile => (
+                            <option key={profile.id} value={profile.id}>{profile.name}</option>
+                        ))}
+                    </select>
+                    <label className="ml-4 flex items-center gap-2 text-sm text-slate-600">
+                        <input
+                            type="checkbox"
+                            checked={multiUnit}
+                            onChange={(e) => setMultiUnit(e.target.checked)}
+                            disabled={isProcessing}
+                        />
+                        One report per unit (multi-unit workbook)
+                    </label>
+                </div>
+            )}
+
+            {!isCheckingTemplates && configErrors.length > 0 && (
+                <div className="mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4">
+                    <div className="flex items-start gap-3">
+                        <AlertCircle className="text-amber-600 flex-shrink-0 mt-0.5" size={20} />
+                        <div className="flex-1">
+                            <h3 className="text-sm font-semibold text-amber-900 mb-2">Report Configuration Problems</h3>
+                            <p className="text-sm text-amber-800 mb-2">
+                                The report can still be generated, but some fields may come out blank:
+                            </p>
+                            <ul className="list-disc list-inside text-sm text-amber-800 space-y-1">
+                                {configErrors.map((issue, idx) => (
+                                    <li key={idx} className="text-xs">{issue.message}</li>
+                                ))}
+                            </ul>
+                            <p className="text-sm text-amber-800 mt-3">
+                                Fix the mappings in Field Mappings, or add aliases for renamed fields.
+                            </p>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             <div
                 className={`
           flex-1 border-2 border-dashed rounded-xl p-10 flex flex-col items-center justify-center transition-all duration-300 cursor-pointer bg-white
@@ -304,13 +438,13 @@ export const StepUpload: React.FC<StepUploadProps> = ({ onUpload, reportType, on
                     {isProcessing ? 'Processing File...' : 'Drag & Drop your Excel file here'}
                 </h3>
                 <p className="text-slate-500 mb-8 text-center max-w-xs">
-                    Supports .xlsx and .xls files.
+                    Supports .xlsx and .xls files, and .csv or tab-delimited .txt analyzer exports.
                 </p>
 
                 <input
                     type="file"
                     id="fileInput"
-                    accept=".xlsx,.xls"
+                    accept=".xlsx,.xls,.csv,.tsv,.txt"
                     className="hidden"
                     onChange={handleFileInput}
                     disabled={isProcessing}
@@ -0,0 +1,290 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Upload, Loader2, AlertCircle, X, ChevronDown, ChevronRight, Pin } from 'lucide-react';
+import type { TemplateVersion } from '../types/templates';
+import { getReportConfigs } from '../config/reports';
+import { loadTemplateVersions, uploadTemplateVersion } from '../utils/templateLibrary';
+import { getTemplateKey } from '../utils/templateLoader';
+
+// A template used by the report configs, with the version each config is pinned to
+interface TemplateUsage {
+  templateKey: string;
+  usedBy: { reportName: string; role: 'report' | 'certificate'; pinnedVersion?: number }[];
+}
+
+const getTemplateUsages = (): TemplateUsage[] => {
+  const usages = new Map<string, TemplateUsage>();
+  const addUsage = (templateUrl: string, reportName: string, role: 'report' | 'certificate', pinnedVersion?: number) => {
+    const templateKey = getTemplateKey(templateUrl);
+    if (!usages.has(templateKey)) {
+      usages.set(templateKey, { templateKey, usedBy: [] });
+    }
+    usages.get(templateKey)!.usedBy.push({ reportName, role, pinnedVersion });
+  };
+
+  getReportConfigs().forEach(report => {
+    addUsage(report.templateUrl, report.name, 'report', report.templateVersion);
+    if (report.certifTemplateUrl) {
+      addUsage(report.certifTemplateUrl, report.name, 'certificate', report.certifTemplateVersion);
+    }
+  });
+  return Array.from(usages.values());
+};
+
+// Field names added and removed since the previous version
+const diffFields = (version: TemplateVersion, previous?: TemplateVersion) => {
+  if (!previous) return null;
+  const names = new Set(version.fields.map(f => f.name));
+  const previousNames = new Set(previous.fields.map(f => f.name));
+  return {
+    added: version.fields.filter(f => !previousNames.has(f.name)).map(f => f.name),
+    removed: previous.fields.filter(f => !names.has(f.name)).map(f => f.name),
+  };
+};
+
+export const Templates: React.FC = () => {
+  const [usages] = useState<TemplateUsage[]>(getTemplateUsages);
+  const [selectedKey, setSelectedKey] = useState<string>(usages[0]?.templateKey || '');
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(!!selectedKey);
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadMessage, setUploadMessage] = useState<string | null>(null);
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+
+  const refreshVersions = async (templateKey: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setVersions(await loadTemplateVersions(templateKey));
+    } catch (err: any) {
+      console.error('Error loading template versions:', err);
+      setError(err.message || 'Failed to load template versions');
+      setVersions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectTemplate = (templateKey: string) => {
+    setSelectedKey(templateKey);
+    setExpandedVersion(null);
+    setUploadMessage(null);
+    setIsLoading(true);
+    setError(null);
+  };
+
+  // The versions of the selected template
+  useEffect(() => {
+    if (!selectedKey) return;
+    let cancelled = false;
+    const loadVersions = async () => {
+      try {
+        const loaded = await loadTemplateVersions(selectedKey);
+        if (!cancelled) setVersions(loaded);
+      } catch (err: any) {
+        console.error('Error loading template versions:', err);
+        if (!cancelled) {
+          setError(err.message || 'Failed to load template versions');
+          setVersions([]);
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadVersions();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedKey]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.type !== 'application/pdf' && !file.name.toLowerCase().endsWith('.pdf')) {
+      alert('Please select a PDF file');
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+    setUploadMessage(null);
+    try {
+      const result = await uploadTemplateVersion(file, selectedKey, notes.trim());
+      setUploadMessage(result.unchanged
+        ? `${file.name} is identical to v${result.version}, no new version was created.`
+        : `Uploaded ${selectedKey} v${result.version} (${result.fields.length} fields).`);
+      setNotes('');
+      await refreshVersions(selectedKey);
+    } catch (err: any) {
+      console.error('Template upload error:', err);
+      setError(err.message || 'Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const selectedUsage = usages.find(u => u.templateKey === selectedKey);
+
+  return (
+    <div className="flex h-full animate-fade-in bg-slate-50 flex-col">
+      {error && (
+        <div className="bg-red-50 border-b border-red-200 px-4 py-3 flex items-start gap-3">
+          <AlertCircle className="text-red-600 flex-shrink-0 mt-0.5" size={20} />
+          <div className="flex-1">
+            <p className="text-sm font-medium text-red-900">Template Library Error</p>
+            <p className="text-xs text-red-700 whitespace-pre-wrap">{error}</p>
+          </div>
+          <button
+            onClick={() => setError(null)}
+            className="text-red-600 hover:text-red-800"
+            aria-label="Dismiss error"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 flex border-t border-slate-200 overflow-hidden">
+        {/* Column 1: Templates used by the report configs */}
+        <div className="w-64 border-r border-slate-200 bg-white flex flex-col">
+          <div className="p-3 border-b border-slate-200 bg-slate-50">
+            <h3 className="text-xs font-semibold text-slate-500 uppercase">Templates</h3>
+          </div>
+          <div className="flex-1 overflow-y-auto p-2">
+            {usages.map(usage => (
+              <button
+                key={usage.templateKey}
+                onClick={() => selectTemplate(usage.templateKey)}
+                className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm transition-colors ${
+                  selectedKey === usage.templateKey
+                    ? 'bg-blue-50 text-blue-700 font-medium'
+                    : 'text-slate-700 hover:bg-slate-100'
+                }`}
+              >
+                <FileText size={16} />
+                <span className="flex-1 text-left truncate">{usage.templateKey}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Column 2: Versions of the selected template */}
+        <div className="flex-1 flex flex-col overflow-hidden">
+          <div className="p-4 border-b border-slate-200 bg-white">
+            <h2 className="text-lg font-bold text-slate-900">{selectedKey}</h2>
+            {selectedUsage && (
+              <ul className="mt-1 space-y-0.5">
+                {selectedUsage.usedBy.map((use, idx) => (
+                  <li key={idx} className="text-xs text-slate-500 flex items-center gap-1">
+                    <Pin size={12} />
+                    {use.reportName} ({use.role}):{' '}
+                    {use.pinnedVersion !== undefined
+                      ? <span className="font-medium text-slate-700">pinned to v{use.pinnedVersion}</span>
+                      : <span>static file in public/templates</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="mt-3 flex items-center gap-2">
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What changed in this version (optional)"
+                className="flex-1 px-2 py-1.5 bg-white border border-slate-300 rounded text-sm text-slate-900"
+              />
+              <label className={`flex items-center gap-2 px-3 py-1.5 rounded text-sm font-medium cursor-pointer ${
+                isUploading ? 'bg-slate-100 text-slate-400' : 'bg-blue-600 text-white hover:bg-blue-700'
+              }`}>
+                {isUploading ? <Loader2 className="animate-spin" size={16} /> : <Upload size={16} />}
+                {isUploading ? 'Uploading...' : 'Upload New Version'}
+                <input
+                  type="file"
+                  accept=".pdf"
+                  onChange={handleUpload}
+                  disabled={isUploading || !selectedKey}
+                  className="hidden"
+                />
+              </label>
+            </div>
+            {uploadMessage && <p className="mt-2 text-xs text-green-700">{uploadMessage}</p>}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4">
+            {isLoading ? (
+              <div className="flex items-center gap-2 text-sm text-slate-500">
+                <Loader2 className="animate-spin" size={16} /> Loading versions...
+              </div>
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-slate-500">
+                No versions uploaded yet. Reports use the static file until a config is pinned to a version.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {versions.map((version, idx) => {
+                  const diff = diffFields(version, versions[idx + 1]);
+                  const isExpanded = expandedVersion === version.version;
+                  return (
+                    <div key={version.version} className="bg-white border border-slate-200 rounded-lg">
+                      <button
+                        onClick={() => setExpandedVersion(isExpanded ? null : version.version)}
+                        className="w-full flex items-start gap-3 p-3 text-left"
+                      >
+                        {isExpanded ? <ChevronDown size={16} className="mt-0.5" /> : <ChevronRight size={16} className="mt-0.5" />}
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-semibold text-slate-900">v{version.version}</span>
+                            {idx === 0 && <span className="text-xs px-1.5 py-0.5 rounded bg-green-50 text-green-700">latest</span>}
+                            <span className="text-xs text-slate-500">{version.uploadedAt.toLocaleString()}</span>
+                          </div>
+                          <p className="text-xs text-slate-500 truncate">
+                            {version.fileName} · {version.fields.length} fields · sha256 {version.sha256.slice(0, 12)}…
+                          </p>
+                          {version.notes && <p className="text-sm text-slate-700 mt-1">{version.notes}</p>}
+                          {diff && (diff.added.length > 0 || diff.removed.length > 0) && (
+                            <p className="text-xs mt-1">
+                              {diff.added.length > 0 && <span className="text-green-700">+{diff.added.length} field(s) </span>}
+                              {diff.removed.length > 0 && <span className="text-red-700">-{diff.removed.length} field(s)</span>}
+                            </p>
+                          )}
+                        </div>
+                      </button>
+                      {isExpanded && (
+                        <div className="border-t border-slate-100 p-3">
+                          {diff?.removed.length ? (
+                            <p className="text-xs text-red-700 mb-2">Removed: {diff.removed.join(', ')}</p>
+                          ) : null}
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="text-left text-slate-500">
+                                <th className="py-1 pr-2 font-medium">Field</th>
+                                <th className="py-1 pr-2 font-medium">Type</th>
+                                <th className="py-1 font-medium">Template Value</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {version.fields.map(field => (
+                                <tr key={field.name} className={diff?.added.includes(field.name) ? 'bg-green-50' : ''}>
+                                  <td className="py-0.5 pr-2 text-slate-900">{field.name}</td>
+                                  <td className="py-0.5 pr-2 text-slate-500">{field.type}</td>
+                                  <td className="py-0.5 text-slate-500">{field.value || ''}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
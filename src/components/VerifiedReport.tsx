@@ -0,0 +1,74 @@
+import type { PublicReportInfo } from '../types/reports';
+import { formatDateForPDF } from '../utils/dateFormat';
+
+interface VerifiedReportProps {
+  report: PublicReportInfo;
+}
+
+const DOCUMENT_LABELS: Record<PublicReportInfo['document'], string> = {
+  report: 'Lead Inspection Report',
+  certificate: 'Lead-Safe Certificate',
+  summary: 'Building Summary',
+};
+
+const formatIssueDate = (iso: string) => new Date(iso).toLocaleDateString('en-US', { dateStyle: 'long' });
+
+// An issued report as the public verification pages show it: its status, then what is printed on it
+export const VerifiedReport: React.FC<VerifiedReportProps> = ({ report }) => {
+  const status = report.status === 'revoked'
+    ? {
+      label: 'Revoked',
+      className: 'border-red-300 bg-red-50 text-red-800',
+      text: `This document was revoked on ${formatIssueDate(report.revokedAt!)} and is no longer valid.`,
+    }
+    : report.status === 'superseded'
+      ? {
+        label: 'Superseded',
+        className: 'border-amber-300 bg-amber-50 text-amber-800',
+        text: `This document was replaced by Revision ${report.supersededBy!.revision}, issued on ${formatIssueDate(report.supersededBy!.issuedAt)}.`,
+      }
+      : {
+        label: 'Current',
+        className: 'border-green-300 bg-green-50 text-green-800',
+        text: 'This is the current version of the document.',
+      };
+
+  const rows: [string, string][] = [
+    ['Property Address', report.address || 'N/A'],
+    ...(report.block || report.lot ? [['Block / Lot', `${report.block || '—'} / ${report.lot || '—'}`] as [string, string]] : []),
+    ...(report.county ? [['County', report.county] as [string, string]] : []),
+    ['Inspection Date', report.inspectionDate ? formatDateForPDF(report.inspectionDate) : 'N/A'],
+    ['Result', report.result || (report.isPositive ? 'Positive' : 'Negative')],
+    ['Inspector', report.inspectorName || 'N/A'],
+    ['Issued', formatIssueDate(report.issuedAt)],
+    ...(report.revision ? [['Revision', String(report.revision)] as [string, string]] : []),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-bold text-slate-900">{DOCUMENT_LABELS[report.document]}</h2>
+
+      <div className={`border rounded-lg p-4 ${status.className}`}>
+        <p className="font-semibold">{status.label}</p>
+        <p className="text-sm">{status.text}</p>
+        {report.status === 'revoked' && report.revokedReason && (
+          <p className="text-sm mt-1">Reason: {report.revokedReason}</p>
+        )}
+        {report.supersededBy && (
+          <a href={`/verify/${encodeURIComponent(report.supersededBy.id)}`} className="text-sm underline mt-1 inline-block">
+            View the current revision
+          </a>
+        )}
+      </div>
+
+      <dl className="text-sm divide-y divide-slate-100">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-4 py-2">
+            <dt className="text-slate-500">{label}</dt>
+            <dd className="text-slate-900 font-medium text-right">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import type { AnalyzerProfile, CalibrationStandard, InstrumentMetadataField } from '../types/analyzerProfiles';
+
+// NIST SRM 2573 lead paint film, the usual calibration check standard for XRF analyzers
+const NIST_1_04: CalibrationStandard = { name: 'NIST SRM 2573 (1.04 mg/cm²)', value: 1.04, tolerance: 0.3 };
+
+// Used when no profile's header signature matches the sheet
+export const DEFAULT_ANALYZER_PROFILE_ID = 'standard';
+
+export const ANALYZER_PROFILES: AnalyzerProfile[] = [
+    {
+        // The export format the app was built for: a "Pb P/F" call per reading, 4 calibration readings first
+        id: 'standard',
+        name: 'Standard export (Pb P/F)',
+        headerSignature: ['pb p/f'],
+        headerScanRows: 5,
+        columns: {
+            date: ['date', 'time', 'collected'],
+            site: ['sample', 'location', 'address'],
+            reading: ['pb mg/cm', 'pb (mg/cm'],
+            units: ['units'],
+            result: ['pb p/f'],
+            depthIndex: ['depth index', 'depth'],
+            calibration: ['calibration'],
+            room: ['room'],
+            component: ['component'],
+            substrate: ['substrate'],
+        },
+        positiveValues: ['positive', 'pos', 'p', '+', 'fail', 'f'],
+        negativeValues: ['negative', 'neg', 'n', '-', 'pass'],
+        calibrationValues: ['pcs cal', 'calibration', 'cal'],
+        leadingCalibrationRows: 4,
+        defaultUnits: 'mg/cm²',
+        // These exports often have no reading column, so a failed check only warns
+        calibrationCheck: { standards: [NIST_1_04], onFailure: 'warn' },
+    },
+    {
+        id: 'niton-xlp',
+        name: 'Thermo Niton XLp',
+        headerSignature: ['pbc', 'results', 'depth index'],
+        columns: {
+            date: ['time', 'date'],
+            site: ['site', 'location', 'sample'],
+            reading: ['pbc'],
+            units: ['units'],
+            result: ['results', 'result'],
+            depthIndex: ['depth index'],
+            calibration: ['type', 'mode'],
+            room: ['room'],
+            component: ['component'],
+            substrate: ['substrate'],
+        },
+        positiveValues: ['positive', 'pos'],
+        negativeValues: ['negative', 'neg'],
+        calibrationValues: ['cal', 'standard', 'check'],
+        calibrationCheck: { standards: [NIST_1_04] },
+    },
+    {
+        id: 'viken-pb200i',
+        name: 'Viken Pb200i',
+        headerSignature: ['result', 'mg/cm', 'component'],
+        columns: {
+            date: ['date/time', 'date', 'time'],
+            site: ['location', 'address', 'sample'],
+            reading: ['pb (mg/cm', 'pb mg/cm', 'mg/cm'],
+            result: ['result'],
+            depthIndex: ['depth'],
+            calibration: ['calibration', 'cal check'],
+            room: ['room'],
+            component: ['component'],
+            substrate: ['substrate'],
+        },
+        positiveValues: ['positive', 'pos'],
+        negativeValues: ['negative', 'neg'],
+        calibrationValues: ['cal'],
+        calibrationFlagValues: ['yes', 'y'],
+        defaultUnits: 'mg/cm²',
+        calibrationCheck: { standards: [NIST_1_04] },
+    },
+    {
+        id: 'protec-lpa1',
+        name: 'Protec LPA-1',
+        headerSignature: ['conc', 'pos/neg'],
+        columns: {
+            date: ['date', 'time'],
+            site: ['location', 'site', 'sample'],
+            reading: ['conc'],
+            units: ['units'],
+            result: ['pos/neg'],
+            calibration: ['mode', 'calibration'],
+            room: ['room'],
+            component: ['component', 'surface'],
+            substrate: ['substrate'],
+        },
+        positiveValues: ['pos', 'positive', '+'],
+        negativeValues: ['neg', 'negative', '-'],
+        calibrationValues: ['cal', 'verify'],
+        defaultUnits: 'mg/cm²',
+        calibrationCheck: { standards: [NIST_1_04] },
+    },
+];
+
+// Preamble keys of CSV/text exports per instrument metadata field (case-insensitive substrings).
+// Fields are matched in this order, so "Instrument Serial No" is a serial number rather than a model.
+export const INSTRUMENT_METADATA_KEYS: [InstrumentMetadataField, string[]][] = [
+    ['serialNumber', ['serial', 's/n']],
+    ['sourceDate', ['source date', 'source install', 'source assay', 'source']],
+    ['firmware', ['firmware', 'software', 'version']],
+    ['model', ['model', 'instrument', 'analyzer']],
+];
+
+export const getAnalyzerProfile = (id: string | null | undefined): AnalyzerProfile | undefined => {
+    return ANALYZER_PROFILES.find(p => p.id === id);
+};
+
+export const getDefaultAnalyzerProfile = (): AnalyzerProfile => {
+    return getAnalyzerProfile(DEFAULT_ANALYZER_PROFILE_ID)!;
+};
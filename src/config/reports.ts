@@ -5,8 +5,11 @@ export const REPORTS: ReportConfig[] = [
         id: 'XHR',
         name: 'XHR Lead Inspection Report',
         templateUrl: '/templates/XHRTEMP.pdf',
+        certifTemplateUrl: '/templates/CertTEMP.pdf',
+        unitField: 'Units areas',
+        dateRangeFields: { start: 'Date', end: 'insp date end' },
         mappings: [
-            // 1. Address - user enters once, fills Address and address fields (Inspection Location stays blank)
+            // 1. Address - user enters once, address (page 6) is derived from it (Inspection Location stays blank)
             {
                 pdfFieldId: 'Inspection Location',
                 source: 'static',
@@ -21,10 +24,8 @@ export const REPORTS: ReportConfig[] = [
             },
             {
                 pdfFieldId: 'address',
-                source: 'user_input', // Not shown as input field - auto-filled from Address field
-                label: 'Property Address', // Reuses same value as Address
-                inputType: 'text',
-                required: false
+                source: 'derived',
+                derive: { type: 'copy', from: 'Address' }
             },
             {
                 pdfFieldId: 'county',
@@ -50,69 +51,79 @@ export const REPORTS: ReportConfig[] = [
                 label: 'Units areas',
                 inputType: 'text'
             },
-            // Building Type - default to "single family home" but editable
+            // Building Type - defaults to "single family home" but editable
             {
                 pdfFieldId: 'Building Type',
                 source: 'user_input',
                 label: 'Building Type',
                 inputType: 'text',
-                required: false
+                required: false,
+                expression: '"single family home"'
             },
-            // Inspection Date (fills Date, insp date, insp date end, and Inspection Result date fields)
+            // Inspection start and end dates, filled from the reading timestamps (insp date and cert date are derived
+            // from the start)
             {
                 pdfFieldId: 'Date',
                 source: 'user_input',
-                label: 'Inspection Date',
+                label: 'Inspection Start Date',
                 inputType: 'date',
                 required: true
             },
             {
                 pdfFieldId: 'insp date',
-                source: 'static',
-                staticValue: '' // Reuses same value as Date (filled automatically)
+                source: 'derived',
+                derive: { type: 'copy', from: 'Date' }
             },
             {
                 pdfFieldId: 'insp date end',
-                source: 'static',
-                staticValue: '' // Reuses same value as Date (filled automatically)
+                source: 'user_input',
+                label: 'Inspection End Date',
+                inputType: 'date',
+                required: true
             },
             {
                 pdfFieldId: 'Today',
                 source: 'user_input',
                 label: 'Today (Report Date)',
                 inputType: 'date',
-                required: true
+                required: true,
+                expression: 'today()'
             },
             {
                 pdfFieldId: 'cert date',
-                source: 'static',
-                staticValue: '' // Reuses same value as Date (filled automatically)
+                source: 'derived',
+                derive: { type: 'copy', from: 'Date' }
             },
             {
                 pdfFieldId: 'cert date 2',
-                source: 'static',
-                staticValue: '' // Reuses same value as Today (Report Date) (filled automatically)
+                source: 'derived',
+                derive: { type: 'copy', from: 'Today' }
             },
             {
                 pdfFieldId: 'Inspection Result',
                 source: 'user_input',
                 label: 'Inspection Result',
-                inputType: 'text'
+                inputType: 'text',
+                expression: 'isPositive ? "Not Lead Free" : "Lead Free"'
             },
             {
                 pdfFieldId: 'Numb1',
                 source: 'user_input',
                 label: 'Amount of total readings',
-                inputType: 'number'
+                inputType: 'number',
+                expression: 'coalesce(totalReadings, 0)',
+                // Drawn after flattening so the count stays visible on the flattened page
+                overlay: { font: 'HelveticaBold', size: 10, x: 2.5, y: 1.319 }
             },
             {
                 pdfFieldId: 'Numb2',
                 source: 'user_input',
                 label: 'Amount of positive readings',
-                inputType: 'number'
+                inputType: 'number',
+                expression: 'coalesce(positiveReadings, 0)',
+                overlay: { font: 'HelveticaBold', size: 10, x: 2.5, y: 1.319 }
             },
-            // Note: Numb1 and Numb2 default to 0 if not provided (handled in StepConfirmation)
-            // Inspector name (auto-filled from inspector dropdown, fills Inspector name and inpector name fields)
+            // Inspector name (auto-filled from inspector dropdown, inpector name is derived from it)
             {
                 pdfFieldId: 'Inspector name',
                 source: 'user_input', // Not shown as input field - auto-filled from dropdown in StepConfirmation
@@ -121,10 +132,16 @@ export const REPORTS: ReportConfig[] = [
             },
             {
                 pdfFieldId: 'inpector name ',
-                source: 'user_input', // Not shown as input field - auto-filled from Inspector name
-                label: 'Inspector name', // Reuses same value as Inspector name
-                inputType: 'text',
-                required: false
+                source: 'derived',
+                derive: { type: 'copy', from: 'Inspector name' }
+            },
+            // Permit number of the inspector, at the right of the Inspector name on page 5
+            {
+                pdfFieldId: 'Inspector permit',
+                source: 'calculation',
+                label: 'Inspector permit',
+                expression: 'trim(coalesce(inspector("license number"), inspector("permit number"))) ? concat("Permit# ", trim(coalesce(inspector("license number"), inspector("permit number")))) : ""',
+                overlay: { anchorField: 'Inspector name', size: 9, align: 'right' }
             },
             // Inspector sig - signature image is placed directly on page 5 from inspector documents, not a text input
             {
@@ -144,17 +161,19 @@ export const REPORTS: ReportConfig[] = [
                 source: 'static',
                 staticValue: '6 White Dove Court, Lakewood, NJ, 08701'
             },
-            // 16. njdoh - filled from inspector variable (per inspector)
+            // 16. njdoh - inspector variable (per inspector)
             {
                 pdfFieldId: 'njdoh',
-                source: 'static',
-                staticValue: '' // Filled from inspector variable when inspector is selected
+                source: 'variable',
+                variableScope: 'inspector',
+                variableName: 'njdoh'
             },
-            // 17. njdca - filled from general variable (shared across all reports)
+            // 17. njdca - general variable (shared across all reports)
             {
                 pdfFieldId: 'njdca',
-                source: 'static',
-                staticValue: '' // Filled from general variable
+                source: 'variable',
+                variableScope: 'general',
+                variableName: 'njdca'
             },
             {
                 pdfFieldId: 'phone',
@@ -165,12 +184,207 @@ export const REPORTS: ReportConfig[] = [
                 pdfFieldId: 'Inspection Info 1',
                 source: 'user_input',
                 label: 'Inspection Info 1',
+                inputType: 'text',
+                expression: '"property"'
+            }
+        ],
+        // Lead-safe certificate (CertTEMP.pdf), filled from the report's fields.
+        // Contractor details and the phone number are already stored in the template and are only replaced
+        // when the matching report field or variable has a value.
+        certificateMappings: [
+            { pdfFieldId: 'Site Address', source: 'derived', derive: { type: 'copy', from: 'Address' } },
+            { pdfFieldId: 'County', source: 'derived', derive: { type: 'copy', from: 'county' } },
+            { pdfFieldId: 'Block', source: 'derived', derive: { type: 'copy', from: 'block' } },
+            { pdfFieldId: 'Lot', source: 'derived', derive: { type: 'copy', from: 'lot' } },
+            { pdfFieldId: 'Applicable Units or Common Areas 1', source: 'derived', derive: { type: 'copy', from: 'Units areas' } },
+            { pdfFieldId: 'Name of Inspector  Risk Assessor', source: 'derived', derive: { type: 'copy', from: 'Inspector name' } },
+            { pdfFieldId: 'NJDOH ID', source: 'derived', derive: { type: 'copy', from: 'njdoh' } },
+            { pdfFieldId: 'Name of Evaluation Contractor', source: 'derived', derive: { type: 'copy', from: 'contractor name ' } },
+            { pdfFieldId: 'NJDCA CERT', source: 'derived', derive: { type: 'copy', from: 'njdca' } },
+            { pdfFieldId: 'Address of Evaluation Contractor', source: 'derived', derive: { type: 'copy', from: 'contactor address' } },
+            { pdfFieldId: 'Phone', source: 'derived', derive: { type: 'copy', from: 'phone' } },
+            // Dates are split into month / day / year boxes: inspection start, inspection end, certificate issued
+            { pdfFieldId: 'Dates of Inspection', source: 'derived', derive: { type: 'date_part', from: 'Date', part: 'month' } },
+            { pdfFieldId: 'undefined', source: 'derived', derive: { type: 'date_part', from: 'Date', part: 'day' } },
+            { pdfFieldId: 'undefined_2', source: 'derived', derive: { type: 'date_part', from: 'Date', part: 'year' } },
+            { pdfFieldId: 'TO', source: 'derived', derive: { type: 'date_part', from: 'insp date end', part: 'month' } },
+            { pdfFieldId: 'undefined_3', source: 'derived', derive: { type: 'date_part', from: 'insp date end', part: 'day' } },
+            { pdfFieldId: 'undefined_4', source: 'derived', derive: { type: 'date_part', from: 'insp date end', part: 'year' } },
+            { pdfFieldId: 'Date Certificate Issued', source: 'derived', derive: { type: 'date_part', from: 'cert date', part: 'month' } },
+            { pdfFieldId: 'undefined_5', source: 'derived', derive: { type: 'date_part', from: 'cert date', part: 'day' } },
+            { pdfFieldId: 'undefined_6a', source: 'derived', derive: { type: 'date_part', from: 'cert date', part: 'year' } }
+        ],
+        certificateImages: [
+            {
+                document: 'signature',
+                anchorField: 'Signature of Inspector  Risk Assessor',
+                offset: { y: -14, height: 50 },
+                whiteBackground: { paddingX: 2, paddingY: 2 }
+            }
+        ],
+        // Verification QR code in the bottom-right corner, right of the signature line
+        certificateQrCode: {
+            anchorField: 'Signature of Inspector  Risk Assessor',
+            offset: { x: 143, y: -80, width: 60, height: 60 }
+        },
+        // Digital signature appearance (signed output only) under the red notice, left of the QR code
+        certificateDigitalSignature: {
+            anchorField: 'Signature of Inspector  Risk Assessor',
+            offset: { x: -68, y: -75, width: 200, height: 38 }
+        },
+        // Inspector signature on page 5 (Inspector sig field) and on the lead-free certificate
+        // (just below the phone field). The white box hides the form underneath.
+        images: [
+            {
+                document: 'signature',
+                anchorField: 'Inspector sig',
+                scale: 1.25,
+                whiteBackground: { paddingX: 40, paddingY: 10 }
+            },
+            {
+                document: 'signature',
+                anchorField: 'phone',
+                offset: { x: 2, y: -41, width: 151, height: 19 },
+                align: 'left',
+                scale: 1.25,
+                whiteBackground: { paddingX: 40, paddingY: 10 }
+            }
+        ],
+        // Verification QR code on the cover, under "Performed on:" (the first Date widget)
+        qrCode: {
+            anchorField: 'Date',
+            offset: { y: -72, height: 60 }
+        },
+        // Digital signature appearance (signed output only) on page 5, under the signature line
+        digitalSignature: {
+            anchorField: 'Inspector sig',
+            offset: { x: 150, y: -75, width: 200, height: 40 }
+        },
+        // Final order: pages 1-5, positive readings intro, readings table, lead-free certificate
+        // (negative results only), lead-safe certificate (bundled output only), room drawing,
+        // then the certificate and license attachments
+        pageLayout: {
+            pages: [
+                { id: 'cover', index: 0 },
+                { id: 'disclosure', index: 1 },
+                { id: 'methodology', index: 2 },
+                { id: 'scope', containsField: 'Inspection Result', index: 3 },
+                { id: 'inspection-data', containsField: 'Inspector sig', index: 4 },
+                { id: 'lead-free-certificate', containsField: 'county', index: 5 },
+                { id: 'readings-intro', index: -2 },
+                { id: 'room-drawing', index: -1 }
+            ],
+            steps: [
+                { type: 'template', page: 'cover' },
+                { type: 'template', page: 'disclosure' },
+                { type: 'template', page: 'methodology' },
+                { type: 'template', page: 'scope' },
+                { type: 'template', page: 'inspection-data' },
+                { type: 'template', page: 'readings-intro' },
+                { type: 'readings' },
+                { type: 'template', page: 'lead-free-certificate', when: '!isPositive' },
+                { type: 'attachment', document: 'leadSafeCertificate' },
+                { type: 'template', page: 'room-drawing' },
+                { type: 'attachment', document: 'certificate' },
+                { type: 'attachment', document: 'license' }
+            ]
+        }
+    },
+    {
+        id: 'DUST_WIPE',
+        name: 'Dust Wipe Clearance Report',
+        // One summary page with the fields below; the lab results table is added after it
+        templateUrl: '/templates/DustWipeTEMP.pdf',
+        dataType: 'dust_wipe',
+        // Lead dust hazard standards in µg/ft² (EPA); set stricter local values here
+        dustWipeThresholds: {
+            floor: 10,
+            window_sill: 100,
+            window_trough: 400
+        },
+        fileNamePrefix: 'Dust Wipe Clearance Report',
+        mappings: [
+            {
+                pdfFieldId: 'Address',
+                source: 'user_input',
+                label: 'Property Address',
+                inputType: 'text',
+                required: true
+            },
+            {
+                pdfFieldId: 'Date',
+                source: 'user_input',
+                label: 'Sampling Date',
+                inputType: 'date'
+            },
+            {
+                pdfFieldId: 'Inspector name',
+                source: 'user_input', // Not shown as input field - auto-filled from dropdown in StepConfirmation
+                label: 'Inspector Name',
                 inputType: 'text'
+            },
+            {
+                pdfFieldId: 'Report Date',
+                source: 'calculation',
+                expression: 'formatDate(today(), "M/D/YYYY")'
+            },
+            {
+                pdfFieldId: 'Number of Samples',
+                source: 'calculation',
+                expression: 'coalesce(totalReadings, 0)'
+            },
+            {
+                pdfFieldId: 'Failed Samples',
+                source: 'calculation',
+                expression: 'coalesce(positiveReadings, 0)'
+            },
+            // Overall result: fails if any sample is at or above its hazard threshold
+            {
+                pdfFieldId: 'Clearance Result',
+                source: 'calculation',
+                expression: 'isPositive ? "Failed - lead dust hazard present" : "Passed"'
             }
-        ]
+        ],
+        images: [
+            {
+                document: 'signature',
+                anchorField: 'Inspector sig',
+                whiteBackground: { paddingX: 4, paddingY: 2 }
+            }
+        ],
+        pageLayout: {
+            pages: [
+                { id: 'summary', index: 0 }
+            ],
+            steps: [
+                { type: 'template', page: 'summary' },
+                { type: 'readings' },
+                { type: 'attachment', document: 'certificate' },
+                { type: 'attachment', document: 'license' }
+            ]
+        }
     }
 ];
 
-export const getReportConfig = (id: string | null): ReportConfig | undefined => {
+// Configs in use: the bundled REPORTS, with configs saved from the mapping editor replacing
+// the bundled config of the same id (new ids are added after the bundled ones)
+let activeReports: ReportConfig[] = REPORTS;
+
+export const setReportConfigs = (savedConfigs: ReportConfig[]): void => {
+    const savedById = new Map(savedConfigs.map(config => [config.id, config]));
+    activeReports = [
+        ...REPORTS.map(report => savedById.get(report.id) || report),
+        ...savedConfigs.filter(config => !REPORTS.some(report => report.id === config.id)),
+    ];
+};
+
+export const getReportConfigs = (): ReportConfig[] => activeReports;
+
+// The config shipped with the app, ignoring saved changes
+export const getBundledReportConfig = (id: string | null): ReportConfig | undefined => {
     return REPORTS.find(r => r.id === id);
 };
+
+export const getReportConfig = (id: string | null): ReportConfig | undefined => {
+    return activeReports.find(r => r.id === id);
+};
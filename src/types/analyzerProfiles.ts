@@ -0,0 +1,55 @@
+// What a column of an XRF analyzer export holds
+export type AnalyzerColumnRole =
+    | 'date'         // Reading date/time (the inspection date)
+    | 'site'         // Sample id or location the site address is read from
+    | 'reading'      // Measured lead concentration
+    | 'units'        // Units of the reading (e.g. mg/cm²)
+    | 'result'       // The analyzer's positive/negative call
+    | 'depthIndex'   // Depth index (paint layer depth indicator)
+    | 'calibration'  // Marks calibration check readings
+    | 'room'
+    | 'component'
+    | 'substrate';
+
+// Instrument details an analyzer writes above its readings in a CSV/text export
+export type InstrumentMetadataField = 'model' | 'serialNumber' | 'sourceDate' | 'firmware';
+export type InstrumentMetadata = Partial<Record<InstrumentMetadataField, string>>;
+
+// A reference standard the analyzer is checked against (e.g. a NIST lead paint film)
+export interface CalibrationStandard {
+    name: string;
+    value: number;     // Certified lead content, in the units of the readings
+    tolerance: number; // Accepted deviation of a check reading (±, same units)
+}
+
+// How the calibration check readings of an export are validated before a report is generated
+export interface CalibrationCheckSettings {
+    standards: CalibrationStandard[]; // Each check reading is compared with the closest standard
+    minReadings?: number;             // Readings each calibration sequence needs (default 3)
+    requireClosing?: boolean;         // A closing calibration after the last reading is required (default true)
+    onFailure?: 'block' | 'warn';     // Whether a failed check stops the report from being generated (default block)
+}
+
+// How to read the spreadsheet export of one XRF analyzer model
+export interface AnalyzerProfile {
+    id: string;
+    name: string;
+    // Header texts (case-insensitive substrings) that must all be in one row for the export to be this analyzer's.
+    // Empty: never auto-detected, only chosen manually
+    headerSignature: string[];
+    headerScanRows?: number;        // Rows searched for the header row (default 10)
+    // Header candidates per role, matched case-insensitively as substrings in order (first match wins)
+    columns: Partial<Record<AnalyzerColumnRole, string[]>>;
+    positiveValues: string[];       // Result values that mean positive (exact, case-insensitive)
+    negativeValues: string[];       // Result values that mean negative; anything else is inconclusive
+    calibrationValues?: string[];   // Substrings of the calibration column that mark a calibration reading
+    // Whole values of the calibration column that mark one (exact, case-insensitive), for short flags such as "y"
+    // that would match unrelated text as substrings
+    calibrationFlagValues?: string[];
+    leadingCalibrationRows?: number; // Data rows at the top that are always calibration readings (default 0)
+    defaultUnits?: string;          // Units of the readings when there is no units column
+    calibrationCheck?: CalibrationCheckSettings; // Unset: calibration readings are skipped but not validated
+    // Columns the room/component summary of the report groups readings by (default room, component, substrate).
+    // Roles the sheet has no column for are left out
+    summaryGroupBy?: AnalyzerColumnRole[];
+}
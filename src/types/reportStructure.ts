@@ -1,7 +1,18 @@
-export type FieldSource = 'user_input' | 'excel_cell' | 'static' | 'calculation';
+import type { AnalyzerColumnRole } from './analyzerProfiles';
+
+export type FieldSource = 'user_input' | 'excel_cell' | 'static' | 'calculation' | 'derived' | 'variable';
+
+// How a 'derived' field gets its value from other fields (referenced by pdfFieldId)
+export type FieldDerivation =
+    | { type: 'copy'; from: string }                                         // Same value as another field
+    | { type: 'date_part'; from: string; part: 'month' | 'day' | 'year' }    // One component of a date field
+    | { type: 'concat'; from: string[]; separator?: string };                // Join several fields (empty values skipped)
 
 export interface FieldMapping {
     pdfFieldId: string;    // The actual form field name in the PDF
+    // Other names of the same field, used when the template has no field named pdfFieldId
+    // (e.g. a field renamed or a typo fixed in a newer template version)
+    aliases?: string[];
     source: FieldSource;
 
     // For 'user_input'
@@ -9,21 +20,163 @@ export interface FieldMapping {
     inputType?: 'text' | 'date' | 'number';
     required?: boolean;
 
-    // For date fields that need to be split into multiple PDF fields (e.g., month/day/year)
-    splitDateToFields?: string[];  // Array of additional PDF field IDs to populate from this date input
-
-    // For 'excel_cell'
+    // For 'excel_cell' (read from the uploaded sheet, then editable on the confirmation step)
     excelColumn?: string;  // e.g. "B" or "Result" (header name)
-    excelRow?: number;     // Fixed row number (optional)
+    excelRow?: number;     // Fixed row number (optional; default: first non-empty cell below the header)
 
     // For 'static'
     staticValue?: string;
+
+    // For 'variable': a general variable, or a variable of the selected inspector
+    variableScope?: 'general' | 'inspector';
+    variableName?: string; // Matched case-insensitively
+
+    // For 'derived'
+    derive?: FieldDerivation;
+
+    // For 'calculation': the expression that computes the value (see utils/expressionEvaluator.ts)
+    // For 'user_input': an expression for the initial value shown in the confirmation form
+    expression?: string;
+
+    // Date output format (e.g. "MM/DD/YYYY", with literal text in brackets: "[Month] M"). Applies to date inputs and fields copied from them.
+    // Defaults to M/D/YYYY (time appended when present).
+    dateFormat?: string;
+
+    // Draw the value as text on the page after flattening instead of filling the form field
+    overlay?: TextOverlay;
+}
+
+// Text drawn onto a page after flattening, for values that must survive it at an exact position.
+// Positioned at a field's widget rectangle (default) or, when `page` is set, at explicit coordinates.
+export interface TextOverlay {
+    anchorField?: string;   // Field whose widget rectangle positions the text (default: the mapping's own field)
+    widgetIndex?: number;   // Which widget of the anchor field (default 0)
+    page?: number;          // 0-based template page for explicit coordinates (x/y are then absolute)
+    x?: number;             // Offset of the text from the widget's left edge (default 2), or absolute x
+    y?: number;             // Offset of the baseline from the widget's bottom edge (default: centred), or absolute y
+    font?: 'Helvetica' | 'HelveticaBold' | 'TimesRoman' | 'TimesRomanBold' | 'Courier' | 'CourierBold';
+    size?: number;          // Font size (default 10)
+    color?: string;         // "#RRGGBB" (default black)
+    align?: 'left' | 'center' | 'right'; // Within the widget width (default left)
+}
+
+// An uploaded image document (signature, stamp, logo) placed on the form at a field's widget rectangle
+export interface ImageMapping {
+    document: string;                          // Document type to place, matched case-insensitively by substring (e.g. 'signature')
+    documentCategory?: 'inspector' | 'general'; // Selected inspector's documents (default) or general typed documents
+    anchorField: string;                       // Form field whose widget rectangle positions the image
+    widgetIndex?: number;                      // Which widget of the anchor field (default 0)
+    // Rectangle relative to the widget: x/y shift its bottom-left corner, width/height replace its size
+    offset?: { x?: number; y?: number; width?: number; height?: number };
+    fit?: 'contain' | 'fill' | 'none';         // contain (default) keeps the aspect ratio, fill stretches, none keeps the image size
+    allowUpscale?: boolean;                    // contain only scales down unless this is set
+    scale?: number;                            // Multiplier applied after fitting (e.g. 1.25)
+    align?: 'left' | 'center' | 'right';       // Horizontal alignment in the rectangle (default center)
+    whiteBackground?: { paddingX?: number; paddingY?: number }; // White box drawn behind the image to cover the form
+}
+
+// QR code linking to the public verification page of the generated PDF (/verify/<report id>),
+// drawn as a square at a field's widget rectangle
+export interface QrCodePlacement {
+    anchorField: string;                       // Form field whose widget rectangle positions the code
+    widgetIndex?: number;                      // Which widget of the anchor field (default 0)
+    offset?: { x?: number; y?: number; width?: number; height?: number }; // Same as ImageMapping.offset
+    size?: number;                             // Side of the square in points (default: the largest that fits)
+    align?: 'left' | 'center' | 'right';       // Horizontal alignment in the rectangle (default center)
+}
+
+// Where the visible appearance of a digital signature goes (when the PDF is signed on the server):
+// a rectangle at a field's widget rectangle, showing the signer's name, the date and the reason
+export interface SignaturePlacement {
+    anchorField: string;                       // Form field whose widget rectangle positions the signature
+    widgetIndex?: number;                      // Which widget of the anchor field (default 0)
+    offset?: { x?: number; y?: number; width?: number; height?: number }; // Same as ImageMapping.offset
+}
+
+// A template page identified independently of its position, so a template revision that
+// adds or removes pages only needs this list updated (the layout steps keep working)
+export interface TemplatePageRef {
+    id: string;              // Name used by the layout steps (e.g. 'lead-free-certificate')
+    containsField?: string;  // Preferred: the page holding a widget of this form field
+    index?: number;          // Fallback: 0-based page index; negative counts from the end (-1 = last page)
+}
+
+// One entry of the final page order. Steps with a `when` expression are skipped when it is false.
+export type PageLayoutStep =
+    | { type: 'template'; page: string; when?: string }                              // A template page by id
+    | { type: 'readings'; when?: string }                                             // Excel readings table pages
+    // Uploaded documents, or the lead-safe certificate filled from certifTemplateUrl (only when bundled)
+    | { type: 'attachment'; document: 'certificate' | 'license' | 'leadSafeCertificate'; when?: string };
+
+// Template pages not referenced by any step are left out of the report
+export interface PageLayout {
+    pages: TemplatePageRef[];
+    steps: PageLayoutStep[];
+}
+
+// Lead level a numeric XRF reading is classified against (in mg/cm²).
+// Readings inside the inconclusive range are neither positive nor negative.
+export interface ActionLevel {
+    level: number;                          // At or above: positive (e.g. 1.0, or a stricter local threshold)
+    inconclusiveRange?: [number, number];   // [from, to): inconclusive; at or above `to` positive, below `from` negative
+    inconclusiveAsPositive?: boolean;       // Count inconclusive readings as positive (default true, pending lab confirmation)
+}
+
+// Surface categories of dust wipe samples, each with its own hazard threshold
+export type DustWipeSurfaceType = 'floor' | 'window_sill' | 'window_trough';
+
+// Lead dust hazard thresholds in µg/ft² by surface type: a sample at or above its threshold fails clearance
+export type DustWipeThresholds = Record<DustWipeSurfaceType, number>;
+
+// One column of the readings table pages: a sheet column picked by its header or by its analyzer column role
+export interface ReadingsTableColumn {
+    header?: string;           // Sheet header, case-insensitive (an exact match wins over one containing it)
+    role?: AnalyzerColumnRole; // Or the column the analyzer profile finds for this role (e.g. 'reading')
+    label?: string;            // Header printed in the report (default: the sheet's header)
+    width?: number;            // In points; all widths are scaled to fill the table (default: sized to the content)
+}
+
+// How the readings table pages print the sheet. Long values wrap onto more lines rather than shrinking the font.
+export interface ReadingsTableSettings {
+    columns?: ReadingsTableColumn[]; // Columns in print order. Unset: every sheet column except Condition and Notes
+    fontSize?: number;               // Default 7
+    groupCalibration?: boolean;      // Calibration readings shaded under a "Calibration Check" heading (default true)
 }
 
 export interface ReportConfig {
     id: string;
     name: string;
     templateUrl: string; // URL to the PDF template (e.g., /templates/file.pdf)
+    // Template library version to generate with (keyed by the template's file name). Unset: the static file above.
+    // Pinning keeps reports reproducible when a new template version is uploaded.
+    templateVersion?: number;
     certifTemplateUrl?: string; // Optional certificate template URL
+    certifTemplateVersion?: number; // Template library version of the certificate template
+    // Fields of the certificate template, resolved against the report's mappings (so they can copy report fields)
+    certificateMappings?: FieldMapping[];
+    certificateImages?: ImageMapping[];
+    certificateQrCode?: QrCodePlacement; // Verification QR code on the certificate
+    certificateDigitalSignature?: SignaturePlacement; // Digital signature appearance on the certificate
+    // What the uploaded sheet contains: XRF readings (default) or dust wipe lab results.
+    // Selects the extractor and the results table added to the report.
+    dataType?: 'xrf' | 'dust_wipe';
+    actionLevel?: ActionLevel; // XRF readings with a numeric value are classified against this (default 1.0 mg/cm²)
+    dustWipeThresholds?: DustWipeThresholds; // Dust wipe samples are classified against these (default: floors 10, sills 100, troughs 400)
+    fileNamePrefix?: string; // Downloaded file name before the address (default "Final Lead Inspection Report")
+    // Field that holds the unit number when a multi-unit workbook gets one report per unit.
+    // Together with the user inputs whose default depends on the readings (result, counts), it is confirmed per unit.
+    unitField?: string;
+    // Fields holding the inspection start and end dates: filled from the first and last reading timestamps, and
+    // readings taken outside them are flagged on confirmation
+    dateRangeFields?: { start: string; end?: string };
+    // Time zone of the inspection (IANA name, e.g. "America/New_York"). Set it when the analyzer logs in UTC: Excel
+    // serial dates are then read as UTC and converted to it. Unset: serial dates are taken as shown in Excel.
+    timeZone?: string;
     mappings: FieldMapping[];
+    pageLayout?: PageLayout; // Defaults to: template pages, readings before the last page, then attachments
+    readingsTable?: ReadingsTableSettings; // XRF readings table pages (default: every column, sized to fit)
+    images?: ImageMapping[];
+    qrCode?: QrCodePlacement; // Verification QR code on the report
+    // Digital signature appearance on the report. Unset: a signed report gets an invisible signature.
+    digitalSignature?: SignaturePlacement;
 }
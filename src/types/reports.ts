@@ -0,0 +1,91 @@
+import type { TemplateVersions } from './templates';
+
+// Which generated PDF an archived report is
+export type ArchivedDocument = 'report' | 'certificate' | 'summary'; // summary: building summary of a multi-unit run
+
+// What is recorded about a generated PDF (see getReportRecordDetails)
+export interface ReportRecordDetails {
+  reportType: string;        // Report config id
+  document: ArchivedDocument;
+  address: string;
+  block?: string;
+  lot?: string;
+  county?: string;
+  inspectionDate?: string;   // YYYY-MM-DD (the report's inspection start date)
+  inspectorId?: string;
+  inspectorName?: string;
+  result?: string;           // As printed, e.g. Lead Free / Not Lead Free, Passed / Failed
+  isPositive: boolean;
+  totalReadings: number;     // Readings, or wipe samples for dust wipe reports
+  positiveReadings: number;
+  templateKey?: string;      // Template the PDF was filled from (e.g. XHRTEMP.pdf)
+  templateVersion?: number;  // Template library version (undefined: the static file in public/templates)
+  generatedBy?: string;
+  revisionOf?: string;       // Original report this one revises (undefined for an original)
+  revision?: number;         // Revision number (undefined or 0 for an original)
+  unit?: string;             // Unit id, for the PDF of one unit of a multi-unit run
+}
+
+// The inputs a report was generated from, kept so it can be reopened and regenerated as a revision
+export interface ReportInputs {
+  data: Record<string, any>; // Confirmed data: the extracted sheet data and the confirmed form values
+  documentIds: string[];     // Documents the report could use: the general documents and the inspector's
+  templateVersions?: TemplateVersions; // Templates it was filled from (undefined for reports archived before they were kept)
+}
+
+// A report reopened to be regenerated as a revision (see /api/reports/<id>/inputs)
+export interface ReportRevisionSource {
+  inputs: ReportInputs;
+  revisionOf: string;        // The original report (also when a revision is reopened)
+  revision: number;          // Number of the new revision
+  templateVersions: TemplateVersions; // Templates the original was filled from, to fill the revision from
+}
+
+// A generated PDF kept in the report archive (see /api/reports); the file itself is stored in R2
+export interface ReportRecord extends ReportRecordDetails {
+  id: string;
+  fileName: string;
+  filePath: string;          // R2 key
+  generatedAt: Date;
+  revokedAt?: Date;          // Set when the report was revoked (its verification page says so)
+  revokedReason?: string;
+  sha256?: string;           // Hex digest of the PDF (undefined for reports archived before it was recorded)
+}
+
+// Archive search; every criterion is optional
+export interface ReportSearch {
+  address?: string;          // Part of the address (case-insensitive)
+  inspectorId?: string;
+  from?: string;             // Inspection date range, YYYY-MM-DD (inclusive)
+  to?: string;
+  result?: 'positive' | 'negative';
+}
+
+// Whether an issued report still stands: revoked, replaced by a later revision, or current
+export type ReportStatus = 'current' | 'superseded' | 'revoked';
+
+// What anyone may see about an issued report (the verification page and API): only what is printed on it
+export interface PublicReportInfo {
+  id: string;
+  document: ArchivedDocument;
+  address: string;
+  block?: string;
+  lot?: string;
+  county?: string;
+  inspectionDate?: string;   // YYYY-MM-DD
+  result?: string;
+  isPositive: boolean;
+  inspectorName?: string;
+  issuedAt: string;          // ISO timestamp of generation
+  revision?: number;
+  status: ReportStatus;
+  supersededBy?: { id: string; revision: number; issuedAt: string };
+  revokedAt?: string;        // ISO timestamp
+  revokedReason?: string;
+}
+
+// A PDF file checked against the issued reports (POST /api/reports/verify)
+export interface PdfVerification {
+  sha256: string;
+  matches: PublicReportInfo[]; // Reports the file is byte-identical to (empty: not a file we issued, or altered)
+}
@@ -0,0 +1,16 @@
+import type { TemplateFieldInfo } from '../utils/templateInventory';
+
+// One uploaded version of a PDF report template (see /api/templates)
+export interface TemplateVersion {
+  templateKey: string; // File name used by the report config (e.g. XHRTEMP.pdf)
+  version: number;
+  fileName: string;    // Name of the uploaded file
+  filePath: string;    // R2 key
+  sha256: string;
+  fields: TemplateFieldInfo[];
+  notes?: string;
+  uploadedAt: Date;
+}
+
+// The template versions a report was filled from, by template key (null: the static file in public/templates)
+export type TemplateVersions = Record<string, number | null>;
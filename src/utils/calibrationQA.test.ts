@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { AnalyzerProfile } from '../types/analyzerProfiles';
+import { checkCalibration } from './calibrationQA';
+
+const profile: AnalyzerProfile = {
+    id: 'test',
+    name: 'Test Analyzer',
+    headerSignature: [],
+    columns: {},
+    positiveValues: ['positive'],
+    negativeValues: ['negative'],
+    calibrationValues: ['cal'],
+    calibrationCheck: { standards: [{ name: 'NIST 1.04', value: 1.04, tolerance: 0.3 }] },
+};
+
+// Reading and calibration columns
+const columns = { reading: 0, calibration: 1 };
+const cal = (value: any) => [value, 'CAL'];
+const reading = (value: any) => [value, ''];
+
+describe('checkCalibration', () => {
+    it('passes with opening and closing sequences within tolerance', () => {
+        const result = checkCalibration(
+            [cal(1.0), cal(1.1), cal(0.9), reading(0.2), reading(1.5), cal(1.0), cal(1.2), cal(1.04)],
+            2, columns, profile, 'mg/cm²'
+        )!;
+
+        expect(result.status).toBe('pass');
+        expect(result.blocking).toBe(false);
+        expect(result.problems).toEqual([]);
+        expect(result.sequences.map(sequence => [sequence.position, sequence.readings.length, sequence.passed])).toEqual([
+            ['opening', 3, true],
+            ['closing', 3, true],
+        ]);
+        expect(result.sequences[1].readings[0].rowNumber).toBe(7);
+    });
+
+    it('fails and blocks on a reading outside the tolerance', () => {
+        const result = checkCalibration(
+            [cal(1.0), cal(1.5), cal(1.0), reading(0.2), cal(1.0), cal(1.0), cal(1.0)],
+            2, columns, profile
+        )!;
+
+        expect(result.status).toBe('fail');
+        expect(result.blocking).toBe(true);
+        expect(result.sequences[0].passed).toBe(false);
+        expect(result.problems).toEqual(['Opening calibration (rows 2, 3, 4): 1.5 is outside 1.04 ± 0.3 (row 3).']);
+    });
+
+    it('fails without a closing sequence unless the profile allows it', () => {
+        const rows = [cal(1.0), cal(1.0), cal(1.0), reading(0.2), cal(1.0), reading(0.3)];
+        const strict = checkCalibration(rows, 2, columns, profile)!;
+        expect(strict.status).toBe('fail');
+        expect(strict.sequences.map(sequence => sequence.position)).toEqual(['opening', 'intermediate']);
+        expect(strict.problems).toContain('No closing calibration check after the last reading.');
+
+        const lenient = checkCalibration(rows, 2, columns, {
+            ...profile,
+            calibrationCheck: { ...profile.calibrationCheck!, requireClosing: false, minReadings: 1 },
+        })!;
+        expect(lenient.status).toBe('warn');
+        expect(lenient.blocking).toBe(false);
+    });
+
+    it('warns when a sequence is short or a reading is not numeric', () => {
+        const result = checkCalibration([cal(1.0), cal('n/a'), reading(0.2), cal(1.0), cal(1.0), cal(1.0)], 2, columns, profile)!;
+
+        expect(result.status).toBe('warn');
+        expect(result.problems).toEqual([
+            'Opening calibration (rows 2, 3) has 2 reading(s), 3 expected.',
+            'Opening calibration (rows 2, 3): no numeric reading in row(s) 3.',
+        ]);
+    });
+
+    it('only warns on failures when the profile says so', () => {
+        const result = checkCalibration([reading(0.2)], 2, columns, {
+            ...profile,
+            calibrationCheck: { ...profile.calibrationCheck!, onFailure: 'warn' },
+        })!;
+
+        expect(result.status).toBe('fail');
+        expect(result.blocking).toBe(false);
+    });
+
+    it('is skipped for profiles without calibration settings', () => {
+        expect(checkCalibration([cal(1.0)], 2, columns, { ...profile, calibrationCheck: undefined })).toBeNull();
+    });
+});
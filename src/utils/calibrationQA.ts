@@ -0,0 +1,153 @@
+import type { AnalyzerProfile, CalibrationStandard } from '../types/analyzerProfiles';
+import type { AnalyzerColumns } from './excelExtractor';
+import { isCalibrationReading } from './excelExtractor';
+
+export type CalibrationQAStatus = 'pass' | 'warn' | 'fail';
+
+// One calibration check reading, compared with the closest standard
+export interface CalibrationReading {
+    rowNumber: number;                     // Sheet row (1-based, as shown in Excel)
+    value: number | null;                  // null if the reading cell isn't a number
+    text: string;                          // Reading as written in the sheet
+    standard: CalibrationStandard | null;  // null if there are no standards or no value
+    withinTolerance: boolean | null;       // null if the reading could not be checked
+}
+
+// Consecutive calibration readings: before the first inspection reading (opening),
+// after the last one (closing) or in between
+export interface CalibrationSequence {
+    position: 'opening' | 'intermediate' | 'closing';
+    readings: CalibrationReading[];
+    passed: boolean | null;                // null if none of its readings could be checked
+}
+
+export interface CalibrationQAResult {
+    status: CalibrationQAStatus;
+    blocking: boolean;                     // A failure the analyzer profile doesn't let a report be generated with
+    sequences: CalibrationSequence[];
+    problems: string[];                    // Why the check didn't pass, one sentence each
+    units?: string;
+}
+
+const DEFAULT_MIN_READINGS = 3;
+
+const parseReading = (value: any): number | null => {
+    if (typeof value === 'number') return isNaN(value) ? null : value;
+    const match = String(value ?? '').replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+};
+
+const closestStandard = (value: number, standards: CalibrationStandard[]): CalibrationStandard | null => {
+    return standards.reduce<CalibrationStandard | null>((best, standard) =>
+        !best || Math.abs(value - standard.value) < Math.abs(value - best.value) ? standard : best, null);
+};
+
+const describeRows = (readings: CalibrationReading[]) => readings.map(r => r.rowNumber).join(', ');
+
+/**
+ * Validates the calibration check readings of an XRF export against the analyzer profile's calibration settings.
+ * Calibration readings are grouped into sequences of consecutive rows; the sheet needs an opening sequence, a
+ * closing one (unless the profile allows it to be missing) and every check reading within the tolerance of its
+ * standard.
+ * @param dataRows - Rows below the header row
+ * @param firstRowNumber - Sheet row number (1-based) of the first data row
+ * @param columns - Columns found by the analyzer profile
+ * @param profile - The analyzer profile the sheet was read with
+ * @param units - Units of the readings
+ * @returns The result, or null if the profile has no calibration settings
+ */
+export const checkCalibration = (
+    dataRows: any[][],
+    firstRowNumber: number,
+    columns: AnalyzerColumns,
+    profile: AnalyzerProfile,
+    units?: string
+): CalibrationQAResult | null => {
+    const settings = profile.calibrationCheck;
+    if (!settings) return null;
+
+    // Group calibration readings into sequences, ignoring empty rows
+    const sequences: CalibrationSequence[] = [];
+    let current: CalibrationReading[] | null = null;
+    let inspectionReadings = 0;
+    let endsWithCalibration = false;
+
+    dataRows.forEach((row, i) => {
+        if (!row || row.every(cell => String(cell ?? '').trim() === '')) return;
+
+        endsWithCalibration = isCalibrationReading(row, i, columns, profile);
+        if (!endsWithCalibration) {
+            inspectionReadings++;
+            current = null;
+            return;
+        }
+        if (!current) {
+            current = [];
+            sequences.push({ position: inspectionReadings === 0 ? 'opening' : 'intermediate', readings: current, passed: null });
+        }
+
+        const text = columns.reading !== undefined ? String(row[columns.reading] ?? '').trim() : '';
+        const value = columns.reading !== undefined ? parseReading(row[columns.reading]) : null;
+        const standard = value !== null ? closestStandard(value, settings.standards) : null;
+        current.push({
+            rowNumber: firstRowNumber + i,
+            value,
+            text,
+            standard,
+            withinTolerance: value !== null && standard ? Math.abs(value - standard.value) <= standard.tolerance : null,
+        });
+    });
+
+    // The last sequence is the closing one if no inspection reading comes after it
+    const last = sequences[sequences.length - 1];
+    if (last && last.position !== 'opening' && endsWithCalibration) {
+        last.position = 'closing';
+    }
+
+    sequences.forEach(sequence => {
+        const checked = sequence.readings.filter(r => r.withinTolerance !== null);
+        sequence.passed = checked.length === 0 ? null : checked.every(r => r.withinTolerance);
+    });
+
+    const failures: string[] = [];
+    const warnings: string[] = [];
+    const minReadings = settings.minReadings ?? DEFAULT_MIN_READINGS;
+    const opening = sequences.find(s => s.position === 'opening');
+    const closing = sequences.find(s => s.position === 'closing');
+
+    if (!opening) {
+        failures.push('No opening calibration check before the first reading.');
+    }
+    if (!closing) {
+        (settings.requireClosing ?? true ? failures : warnings)
+            .push('No closing calibration check after the last reading.');
+    }
+    if (columns.reading === undefined) {
+        warnings.push(`The sheet has no reading column for ${profile.name}, so calibration values could not be checked.`);
+    }
+
+    sequences.forEach(sequence => {
+        const label = `${sequence.position[0].toUpperCase()}${sequence.position.slice(1)} calibration (rows ${describeRows(sequence.readings)})`;
+        if (sequence.readings.length < minReadings) {
+            warnings.push(`${label} has ${sequence.readings.length} reading(s), ${minReadings} expected.`);
+        }
+        const outOfTolerance = sequence.readings.filter(r => r.withinTolerance === false);
+        if (outOfTolerance.length > 0) {
+            failures.push(`${label}: ${outOfTolerance.map(r =>
+                `${r.text} is outside ${r.standard!.value} ± ${r.standard!.tolerance} (row ${r.rowNumber})`).join('; ')}.`);
+        }
+        const unreadable = columns.reading !== undefined ? sequence.readings.filter(r => r.value === null) : [];
+        if (unreadable.length > 0) {
+            warnings.push(`${label}: no numeric reading in row(s) ${describeRows(unreadable)}.`);
+        }
+    });
+
+    const status: CalibrationQAStatus = failures.length > 0 ? 'fail' : warnings.length > 0 ? 'warn' : 'pass';
+    return {
+        status,
+        blocking: status === 'fail' && (settings.onFailure ?? 'block') === 'block',
+        sequences,
+        problems: [...failures, ...warnings],
+        units,
+    };
+};
@@ -0,0 +1,88 @@
+import { decodePDFRawStream, PDFDocument, PDFRawStream } from 'pdf-lib';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { setReportConfigs } from '../config/reports';
+import type { Inspector } from '../types/documents';
+import type { ReportConfig } from '../types/reportStructure';
+import { buildCertificatePDF } from './certificateGenerator';
+import type { TemplateBytesLoader } from './templateLoader';
+
+const REPORT: ReportConfig = {
+    id: 'CERT_TEST',
+    name: 'Certificate Test',
+    templateUrl: '/templates/Report.pdf',
+    certifTemplateUrl: '/templates/Cert.pdf',
+    certifTemplateVersion: 2,
+    mappings: [
+        { pdfFieldId: 'Address', source: 'user_input', label: 'Address' },
+    ],
+    certificateMappings: [
+        { pdfFieldId: 'Site Address', source: 'derived', derive: { type: 'copy', from: 'Address' } },
+        { pdfFieldId: 'NJDOH ID', source: 'variable', variableScope: 'inspector', variableName: 'njdoh' },
+        { pdfFieldId: 'Issued', source: 'user_input' },
+    ],
+};
+
+const inspector: Inspector = { id: 'inspector-1', name: 'Jane Inspector', variableValues: new Map([['NJDOH', 'NJ-1234']]) };
+
+let templateBytes: ArrayBuffer;
+beforeAll(async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage([600, 800]);
+    const form = pdfDoc.getForm();
+    ['Site Address', 'NJDOH ID', 'Issued'].forEach((name, i) => {
+        form.createTextField(name).addToPage(page, { x: 50, y: 700 - i * 40, width: 300, height: 20 });
+    });
+    form.getTextField('Issued').setText('Kept from the template');
+    const bytes = await pdfDoc.save();
+    templateBytes = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+    setReportConfigs([REPORT]);
+});
+
+// The decoded content of every stream of a PDF, where the text drawn by flattening and stamping ends up (hex-encoded)
+const readStreams = async (bytes: Uint8Array): Promise<string> => {
+    const pdfDoc = await PDFDocument.load(bytes);
+    return pdfDoc.context.enumerateIndirectObjects()
+        .map(([, object]) => object instanceof PDFRawStream ? Buffer.from(decodePDFRawStream(object).decode()).toString('latin1') : '')
+        .join('\n')
+        .toLowerCase();
+};
+const hex = (text: string) => Buffer.from(text, 'latin1').toString('hex');
+
+describe('buildCertificatePDF', () => {
+    const build = (data: Record<string, any>, loadTemplate: TemplateBytesLoader, templateVersions?: Record<string, number | null>) =>
+        buildCertificatePDF(data as any, REPORT.id, undefined, undefined, [inspector], undefined, templateVersions, loadTemplate);
+
+    it('fills the certificate from the report fields and variables, keeping template values of empty fields', async () => {
+        const bytes = await build({ Address: '12 Eglantine Ave', selectedInspectorId: inspector.id }, async () => templateBytes);
+
+        const pdfDoc = await PDFDocument.load(bytes);
+        expect(pdfDoc.getForm().getFields()).toHaveLength(0);
+        const streams = await readStreams(bytes);
+        expect(streams).toContain(hex('12 Eglantine Ave'));
+        expect(streams).toContain(hex('NJ-1234'));
+        expect(streams).toContain(hex('Kept from the template'));
+    });
+
+    it('is filled from the pinned template version, or from the version a revision was recorded with', async () => {
+        const loadTemplate = vi.fn<TemplateBytesLoader>(async () => templateBytes);
+        const pinned = await PDFDocument.load(await build({}, loadTemplate));
+        const revised = await PDFDocument.load(await build({ revision: 1 }, loadTemplate, { 'Cert.pdf': 1 }));
+        await build({}, loadTemplate, { 'Cert.pdf': null });
+
+        expect(loadTemplate.mock.calls).toEqual([['/templates/Cert.pdf', 2], ['/templates/Cert.pdf', 1], ['/templates/Cert.pdf', undefined]]);
+        expect(pinned.getKeywords()).toBe('template:Cert.pdf@v2');
+        expect(revised.getKeywords()).toBe('template:Cert.pdf@v1');
+    });
+
+    it('stamps a revision as revised', async () => {
+        const streams = await readStreams(await build({ revision: 2 }, async () => templateBytes));
+        expect(streams).toContain(hex('REVISED - Revision 2'));
+    });
+
+    it('needs a report with a certificate template', async () => {
+        setReportConfigs([{ ...REPORT, id: 'NO_CERT', certifTemplateUrl: undefined }]);
+        await expect(buildCertificatePDF({} as any, 'NO_CERT')).rejects.toThrow('Certificate Test has no certificate template');
+        await expect(buildCertificatePDF({} as any, 'MISSING')).rejects.toThrow('Report configuration not found');
+        setReportConfigs([REPORT]);
+    });
+});
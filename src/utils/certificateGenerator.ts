@@ -0,0 +1,133 @@
+import { PDFDocument } from 'pdf-lib';
+import type { ExtractedData } from '../App';
+import { getReportConfig } from '../config/reports';
+import type { Inspector, Document } from '../types/documents';
+import { findFallbackVariable, resolveFieldValue } from './fieldResolver';
+import type { FieldResolutionContext } from './fieldResolver';
+import { drawImage, prepareImageDraws } from './imagePlacement';
+import { drawQrCode, resolveQrCodeDraw } from './qrCode';
+import { addSignatureField, invisibleSignatureField, resolveSignatureField } from './signatureField';
+import { getMappedFieldName, inlineAppearanceStates, linkPageWidgetsToFields } from './templateFields';
+import { loadTemplateBytes, resolveTemplateVersion, setTemplateKeywords } from './templateLoader';
+import { drawRevisionStamp } from './textOverlay';
+import type { TemplateBytesLoader } from './templateLoader';
+import type { TemplateVersions } from '../types/templates';
+
+/**
+ * Builds the lead-safe certificate by filling the report's certificate template (certifTemplateUrl)
+ * from the same confirmed data as the report.
+ *
+ * Certificate mappings are resolved together with the report's mappings, so they can copy report fields
+ * (e.g. Site Address <- Address). Fields that resolve to nothing keep the value stored in the template.
+ * The result is flattened so it can be downloaded on its own or appended to the report.
+ * @param templateVersions - Template versions to fill instead of the config's certifTemplateVersion, by template
+ *   key (a revision is filled from the versions of the report it revises)
+ * @param loadTemplate - Loads the template (default: fetched over HTTP, see loadTemplateBytes)
+ * @param verificationUrl - Address of the certificate's verification page, encoded in certificateQrCode (unset: no QR code)
+ * @param digitalSignature - Add an empty signature field for the PDF to be signed on the server, at
+ *   certificateDigitalSignature (else invisible). Not for a certificate appended to the report: the report is
+ *   signed as a whole.
+ * @returns The PDF bytes
+ * @throws Error if the report has no certificate template or the template can't be loaded
+ */
+export const buildCertificatePDF = async (
+    data: ExtractedData & Record<string, any>,
+    reportType: string | null,
+    generalTypedDocuments?: Map<string, Document>,
+    inspectorDocuments?: Map<string, Document[]>,
+    inspectors?: Inspector[],
+    generalVariables?: Map<string, string>,
+    templateVersions?: TemplateVersions,
+    loadTemplate: TemplateBytesLoader = loadTemplateBytes,
+    verificationUrl?: string,
+    digitalSignature: boolean = false
+): Promise<Uint8Array> => {
+    const config = getReportConfig(reportType);
+    if (!config) {
+        throw new Error('Report configuration not found');
+    }
+    if (!config.certifTemplateUrl) {
+        throw new Error(`${config.name} has no certificate template`);
+    }
+
+    const version = resolveTemplateVersion(config.certifTemplateUrl, config.certifTemplateVersion, templateVersions);
+    const templateBytes = await loadTemplate(config.certifTemplateUrl, version);
+    const pdfDoc = await PDFDocument.load(templateBytes);
+    await setTemplateKeywords(pdfDoc, config.certifTemplateUrl, templateBytes, version);
+    linkPageWidgetsToFields(pdfDoc);
+    const form = pdfDoc.getForm();
+
+    const selectedInspector = inspectors?.find(i => i.id === data.selectedInspectorId);
+    const resolutionContext: FieldResolutionContext = {
+        generalVariables,
+        inspectorVariables: selectedInspector?.variableValues,
+    };
+    const certificateMappings = config.certificateMappings || [];
+    // Certificate mappings first so their own ids win when referenced
+    const allMappings = [...certificateMappings, ...config.mappings];
+
+    // 1. Fill form fields
+    certificateMappings.forEach(mapping => {
+        try {
+            let value = resolveFieldValue(mapping, data, allMappings, resolutionContext);
+
+            // Same variable fallback as the report
+            if (!value) {
+                value = findFallbackVariable(mapping, resolutionContext);
+            }
+            if (!value) {
+                return; // Keep whatever the template already has in this field
+            }
+
+            const field = form.getTextField(getMappedFieldName(form, mapping));
+            field.setText(value);
+        } catch (err) {
+            console.warn(`Error filling certificate field ${mapping.pdfFieldId}:`, err);
+            // Don't fail the whole certificate if one field can't be filled
+        }
+    });
+
+    // 2. Images, the QR code and the signature field are positioned from the widgets, so before flattening removes them
+    const inspectorDocs = (data.selectedInspectorId && inspectorDocuments?.get(data.selectedInspectorId)) || [];
+    const imageDraws = await prepareImageDraws(pdfDoc, config.certificateImages || [], inspectorDocs, generalTypedDocuments);
+    const qrCodeDraw = config.certificateQrCode && verificationUrl
+        ? resolveQrCodeDraw(pdfDoc, config.certificateQrCode, verificationUrl)
+        : null;
+    const signatureField = config.certificateDigitalSignature && digitalSignature
+        ? resolveSignatureField(pdfDoc, config.certificateDigitalSignature)
+        : null;
+
+    // 3. Flatten, then draw images and the QR code on top of the flattened fields
+    try {
+        inlineAppearanceStates(pdfDoc);
+        form.flatten();
+    } catch (err: any) {
+        console.warn('⚠️ Failed to flatten certificate, it will stay editable:', err.message);
+    }
+
+    imageDraws.forEach(draw => {
+        try {
+            drawImage(draw);
+        } catch (err) {
+            console.warn('Error drawing certificate image:', err);
+        }
+    });
+    if (qrCodeDraw) {
+        try {
+            drawQrCode(qrCodeDraw);
+        } catch (err) {
+            console.warn('Error drawing certificate QR code:', err);
+        }
+    }
+    if (digitalSignature) {
+        try {
+            addSignatureField(pdfDoc, signatureField || invisibleSignatureField(pdfDoc));
+        } catch (err) {
+            console.warn('Error adding the certificate digital signature field:', err);
+        }
+    }
+    await drawRevisionStamp(pdfDoc, data.revision);
+
+    console.log('✅ Lead-safe certificate generated');
+    return await pdfDoc.save();
+};
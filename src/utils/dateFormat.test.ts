@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+    excelSerialToDate,
+    formatDateForPDF,
+    formatDateWithPattern,
+    parseDateValue,
+    parseTimestamp,
+    toLocalISOString,
+} from './dateFormat';
+
+describe('parseDateValue', () => {
+    it('parses US dates with and without time', () => {
+        expect(parseDateValue('3/7/2024')).toEqual(new Date(2024, 2, 7));
+        expect(parseDateValue('3/7/24')).toEqual(new Date(2024, 2, 7));
+        expect(parseDateValue('03/07/2024 14:05:09')).toEqual(new Date(2024, 2, 7, 14, 5, 9));
+    });
+
+    it('reads ISO dates as local dates', () => {
+        expect(parseDateValue('2024-03-07')).toEqual(new Date(2024, 2, 7));
+    });
+
+    it('returns null for text that is not a date', () => {
+        expect(parseDateValue('not a date')).toBeNull();
+        expect(parseDateValue(undefined)).toBeNull();
+    });
+});
+
+describe('excelSerialToDate', () => {
+    it('converts the day and the fraction of the day', () => {
+        expect(excelSerialToDate(45358)).toEqual(new Date(2024, 2, 7));
+        expect(excelSerialToDate(45358.5)).toEqual(new Date(2024, 2, 7, 12, 0, 0));
+    });
+});
+
+describe('parseTimestamp', () => {
+    it('converts timestamps with an offset to the wall clock of the time zone', () => {
+        expect(parseTimestamp('2024-05-01T13:00:00Z', 'America/New_York')).toEqual(new Date(2024, 4, 1, 9, 0, 0));
+    });
+});
+
+describe('toLocalISOString', () => {
+    it('writes the local date and time without an offset', () => {
+        expect(toLocalISOString(new Date(2024, 2, 7, 8, 9, 10))).toBe('2024-03-07T08:09:10');
+    });
+});
+
+describe('formatDateForPDF', () => {
+    it('writes M/D/YYYY, with the time when there is one', () => {
+        expect(formatDateForPDF('2024-03-07')).toBe('3/7/2024');
+        expect(formatDateForPDF('03/07/2024 14:05')).toBe('3/7/2024 14:05');
+    });
+
+    it('returns text that is not a date as is', () => {
+        expect(formatDateForPDF('pending')).toBe('pending');
+    });
+});
+
+describe('formatDateWithPattern', () => {
+    const date = new Date(2024, 2, 7, 9, 4, 5);
+
+    it('replaces the tokens', () => {
+        expect(formatDateWithPattern(date, 'MM/DD/YYYY')).toBe('03/07/2024');
+        expect(formatDateWithPattern(date, 'M/D/YY')).toBe('3/7/24');
+        expect(formatDateWithPattern(date, 'YYYY-MM-DD HH:mm:ss')).toBe('2024-03-07 09:04:05');
+    });
+
+    it('copies bracketed text without reading tokens in it', () => {
+        expect(formatDateWithPattern(date, '[Month:] MM')).toBe('Month: 03');
+        expect(formatDateWithPattern(date, 'D [Day of] M')).toBe('7 Day of 3');
+    });
+
+    it('returns unparseable values as is', () => {
+        expect(formatDateWithPattern('TBD', 'MM/DD/YYYY')).toBe('TBD');
+        expect(formatDateWithPattern(undefined, 'MM/DD/YYYY')).toBe('');
+    });
+});
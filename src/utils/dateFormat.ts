@@ -0,0 +1,248 @@
+// Days from the Excel epoch (1899-12-30, which absorbs Excel's 1900 leap year bug) to the Unix epoch
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+
+// A timestamp with a UTC offset, e.g. 2024-05-01T13:00:00Z or 2024-05-01 09:00:00-04:00
+const TIMESTAMP_WITH_OFFSET = /\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Whether a time zone name is one the browser knows (IANA names such as "America/New_York", or "UTC").
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// The wall-clock date and time of an instant in a time zone, as a local Date (like the other parsed dates)
+const toWallClock = (instant: Date, timeZone: string): Date => {
+    if (!isValidTimeZone(timeZone)) {
+        console.warn(`⚠️ Unknown time zone "${timeZone}", using UTC`);
+        timeZone = 'UTC';
+    }
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+    }).formatToParts(instant);
+    const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+    return new Date(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+};
+
+/**
+ * Converts an Excel serial date (days since 1899-12-30, the fraction being the time of day) to a local Date.
+ * Serial dates carry no time zone: without one, the result is the date and time Excel shows. With a time zone, the
+ * serial is read as UTC (analyzers that log in UTC) and converted to that zone's wall-clock time.
+ * @returns The date, or null if the serial isn't a finite number
+ */
+export const excelSerialToDate = (serial: number, timeZone?: string): Date | null => {
+    if (!isFinite(serial)) return null;
+    // Rounded to the second: serials carry floating point noise (e.g. 09:00 as 08:59:59.9999)
+    const instant = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET_DAYS) * 86400) * 1000);
+    return toWallClock(instant, timeZone || 'UTC');
+};
+
+/**
+ * Parses a reading timestamp: an Excel serial date, or any string parseDateValue accepts.
+ * Strings ending in a UTC offset (e.g. "2024-05-01T13:00:00Z") are converted to the wall-clock time of the time zone,
+ * or of the browser without one.
+ * @param timeZone - Time zone of the inspection (see excelSerialToDate for serial dates)
+ * @returns Parsed Date, or null if the value could not be parsed
+ */
+export const parseTimestamp = (value: string | number | Date | undefined, timeZone?: string): Date | null => {
+    if (value === undefined || value === null || value === '') return null;
+    if (typeof value === 'number') return excelSerialToDate(value, timeZone);
+    if (typeof value === 'string' && TIMESTAMP_WITH_OFFSET.test(value.trim())) {
+        const instant = new Date(value.trim().replace(/^(\d{4}-\d{1,2}-\d{1,2}) /, '$1T'));
+        if (!isNaN(instant.getTime())) {
+            return timeZone ? toWallClock(instant, timeZone) : instant;
+        }
+    }
+    return parseDateValue(value);
+};
+
+/**
+ * Formats a local Date as YYYY-MM-DDTHH:MM:SS (its wall-clock time, no offset).
+ */
+export const toLocalISOString = (dateObj: Date): string => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${dateObj.getFullYear()}-${pad(dateObj.getMonth() + 1)}-${pad(dateObj.getDate())}` +
+        `T${pad(dateObj.getHours())}:${pad(dateObj.getMinutes())}:${pad(dateObj.getSeconds())}`;
+};
+
+/**
+ * Parses a date value coming from Excel, an HTML5 date input or a free-form string.
+ * Strings are parsed manually so the result is in local time (no timezone shifts).
+ * @param dateStr - Excel serial number, Date, or date string
+ * @returns Parsed Date, or null if the value could not be parsed
+ */
+export const parseDateValue = (dateStr: string | number | Date | undefined): Date | null => {
+    if (!dateStr) return null;
+
+    let dateObj: Date | null = null;
+
+    if (dateStr instanceof Date) {
+        dateObj = dateStr;
+    } else if (typeof dateStr === 'number') {
+        // Excel serial date (includes time component)
+        dateObj = excelSerialToDate(dateStr);
+    } else if (typeof dateStr === 'string') {
+        // Handle date strings - parse manually to avoid timezone issues
+        const trimmed = dateStr.trim();
+        
+        // Check if it's ISO format with time (YYYY-MM-DDTHH:MM:SS or YYYY-MM-DD HH:MM:SS)
+        const isoWithTimeMatch = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})[T ](\d{1,2}):(\d{1,2})(?::(\d{1,2}))?/);
+        if (isoWithTimeMatch) {
+            const year = parseInt(isoWithTimeMatch[1], 10);
+            const month = parseInt(isoWithTimeMatch[2], 10);
+            const day = parseInt(isoWithTimeMatch[3], 10);
+            const hours = parseInt(isoWithTimeMatch[4], 10);
+            const minutes = parseInt(isoWithTimeMatch[5], 10);
+            const seconds = isoWithTimeMatch[6] ? parseInt(isoWithTimeMatch[6], 10) : 0;
+            // Create date in local timezone to avoid timezone conversion issues
+            dateObj = new Date(year, month - 1, day, hours, minutes, seconds);
+        }
+        // Check if it's ISO format without time (YYYY-MM-DD) from HTML5 date input
+        else {
+            const isoMatch = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+            if (isoMatch) {
+                const year = parseInt(isoMatch[1], 10);
+                const month = parseInt(isoMatch[2], 10);
+                const day = parseInt(isoMatch[3], 10);
+                // Create date in local timezone to avoid timezone conversion issues
+                dateObj = new Date(year, month - 1, day);
+            }
+            // Check if it's in MM/DD/YYYY HH:MM:SS or MM/DD/YYYY HH:MM format
+            else {
+                const dateWithTimeMatch = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})\s+(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?/);
+                if (dateWithTimeMatch) {
+                    const month = parseInt(dateWithTimeMatch[1], 10);
+                    const day = parseInt(dateWithTimeMatch[2], 10);
+                    let year = parseInt(dateWithTimeMatch[3], 10);
+                    const hours = parseInt(dateWithTimeMatch[4], 10);
+                    const minutes = parseInt(dateWithTimeMatch[5], 10);
+                    const seconds = dateWithTimeMatch[6] ? parseInt(dateWithTimeMatch[6], 10) : 0;
+                    
+                    // Handle 2-digit years (assume 2000-2099)
+                    if (year < 100) {
+                        year += 2000;
+                    }
+                    
+                    // Create date in local timezone to avoid timezone conversion issues
+                    dateObj = new Date(year, month - 1, day, hours, minutes, seconds);
+                }
+                // Check if it's in MM/DD/YYYY or M/D/YY format (no time)
+                else {
+                    const dateMatch = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+                    if (dateMatch) {
+                        const month = parseInt(dateMatch[1], 10);
+                        const day = parseInt(dateMatch[2], 10);
+                        let year = parseInt(dateMatch[3], 10);
+                        
+                        // Handle 2-digit years (assume 2000-2099)
+                        if (year < 100) {
+                            year += 2000;
+                        }
+                        
+                        // Create date in local timezone to avoid timezone conversion issues
+                        dateObj = new Date(year, month - 1, day);
+                        
+                        // Validate the date is correct (handles invalid dates like Feb 30)
+                        if (dateObj.getMonth() !== month - 1 || dateObj.getDate() !== day || dateObj.getFullYear() !== year) {
+                            // Invalid date, try standard parsing as fallback
+                            dateObj = new Date(trimmed);
+                        }
+                    } else {
+                        // Try parsing with standard Date constructor as fallback
+                        dateObj = new Date(trimmed);
+                    }
+                }
+            }
+        }
+    }
+
+    if (dateObj && !isNaN(dateObj.getTime())) {
+        return dateObj;
+    }
+    return null;
+};
+
+// Helper to format date as MM/DD/YYYY HH:MM or MM/DD/YYYY HH:MM:SS (preserves time if present)
+export const formatDateForPDF = (dateStr: string | number | Date | undefined): string => {
+    if (!dateStr) return '';
+
+    const dateObj = parseDateValue(dateStr);
+    if (dateObj) {
+        // Use local date methods to avoid timezone issues
+        const month = dateObj.getMonth() + 1; // getMonth() returns 0-11
+        const day = dateObj.getDate(); // getDate() returns local day
+        const year = dateObj.getFullYear(); // getFullYear() returns local year
+        const hours = dateObj.getHours();
+        const minutes = dateObj.getMinutes();
+        const seconds = dateObj.getSeconds();
+        
+        // Format time component if it's not midnight (00:00:00)
+        // or if the original string had time information
+        const hasTime = hours !== 0 || minutes !== 0 || seconds !== 0 || 
+                       (typeof dateStr === 'string' && (dateStr.includes(':') || dateStr.includes('T')));
+        
+        if (hasTime) {
+            // Format as MM/DD/YYYY HH:MM:SS or MM/DD/YYYY HH:MM
+            if (seconds !== 0) {
+                return `${month}/${day}/${year} ${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+            } else {
+                return `${month}/${day}/${year} ${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+            }
+        } else {
+            // No time component, return just the date
+            return `${month}/${day}/${year}`;
+        }
+    }
+
+    // If it's already in a format we can use, return as is
+    return String(dateStr);
+};
+
+
+/**
+ * Formats a date using a simple token pattern.
+ * Supported tokens: YYYY, YY, MM, M, DD, D, HH, H, mm, ss (e.g. "MM/DD/YYYY", "M", "YYYY").
+ * Text in square brackets is copied as is, without the brackets (e.g. "[Month:] MM").
+ * @param dateStr - Any value accepted by parseDateValue
+ * @param pattern - Token pattern to apply
+ * @returns Formatted date, or the original value as a string if it could not be parsed
+ */
+export const formatDateWithPattern = (dateStr: string | number | Date | undefined, pattern: string): string => {
+    if (!dateStr) return '';
+
+    const dateObj = parseDateValue(dateStr);
+    if (!dateObj) {
+        return String(dateStr);
+    }
+
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const tokens: Record<string, string> = {
+        YYYY: String(dateObj.getFullYear()),
+        YY: String(dateObj.getFullYear()).slice(-2),
+        MM: pad(dateObj.getMonth() + 1),
+        M: String(dateObj.getMonth() + 1),
+        DD: pad(dateObj.getDate()),
+        D: String(dateObj.getDate()),
+        HH: pad(dateObj.getHours()),
+        H: String(dateObj.getHours()),
+        mm: pad(dateObj.getMinutes()),
+        ss: pad(dateObj.getSeconds()),
+    };
+
+    // Bracketed literals are matched first so their letters are never read as tokens,
+    // then the longest tokens first so "YYYY" is not consumed as two "YY"
+    return pattern.replace(/\[([^\]]*)\]|YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g,
+        (token, literal?: string) => literal ?? tokens[token]);
+};
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { getAnalyzerProfile } from '../config/analyzerProfiles';
+import {
+    classifyDustWipeSurface,
+    classifyReading,
+    classifyReadingValue,
+    detectAnalyzerProfile,
+    extractDustWipeInfo,
+    extractSheetInfo,
+    findAnalyzerColumns,
+    getSampleIdPrefix,
+    isCalibrationReading,
+    isPositiveReading,
+} from './excelExtractor';
+
+const sheetOf = (rows: any[][]) => XLSX.utils.aoa_to_sheet(rows);
+
+const VIKEN_HEADER = ['Date/Time', 'Location', 'Room', 'Component', 'Pb (mg/cm²)', 'Result', 'Calibration'];
+const viken = getAnalyzerProfile('viken-pb200i')!;
+
+describe('detectAnalyzerProfile', () => {
+    it('recognizes an export by its header signature', () => {
+        const detection = detectAnalyzerProfile([['Report'], VIKEN_HEADER]);
+        expect(detection.detected).toBe(true);
+        expect(detection.profile.id).toBe('viken-pb200i');
+    });
+});
+
+describe('isCalibrationReading', () => {
+    const columns = findAnalyzerColumns(VIKEN_HEADER.map(header => header.toLowerCase()), viken);
+    const rowWithCalibration = (value: string) => ['', '', '', '', '', '', value];
+
+    it('matches calibration values as substrings', () => {
+        expect(isCalibrationReading(rowWithCalibration('Cal check'), 10, columns, viken)).toBe(true);
+    });
+
+    it('matches short calibration flags as whole values only', () => {
+        expect(isCalibrationReading(rowWithCalibration('Y'), 10, columns, viken)).toBe(true);
+        expect(isCalibrationReading(rowWithCalibration(' yes '), 10, columns, viken)).toBe(true);
+        expect(isCalibrationReading(rowWithCalibration('Survey'), 10, columns, viken)).toBe(false);
+        expect(isCalibrationReading(rowWithCalibration('Yard'), 10, columns, viken)).toBe(false);
+        expect(isCalibrationReading(rowWithCalibration(''), 10, columns, viken)).toBe(false);
+    });
+
+    it('treats the leading calibration rows of a profile as calibration readings', () => {
+        const profile = getAnalyzerProfile('standard')!;
+        expect(isCalibrationReading([], 0, {}, profile)).toBe(true);
+        expect(isCalibrationReading([], profile.leadingCalibrationRows!, {}, profile)).toBe(false);
+    });
+});
+
+describe('classifyReadingValue', () => {
+    it('classifies against the action level and its inconclusive range', () => {
+        expect(classifyReadingValue(1.0)).toBe('positive');
+        expect(classifyReadingValue(0.9)).toBe('negative');
+        const actionLevel = { level: 1.0, inconclusiveRange: [0.7, 1.4] as [number, number] };
+        expect(classifyReadingValue(0.7, actionLevel)).toBe('inconclusive');
+        expect(classifyReadingValue(1.4, actionLevel)).toBe('positive');
+        expect(classifyReadingValue(0.69, actionLevel)).toBe('negative');
+    });
+});
+
+describe('classifyReading', () => {
+    const columns = findAnalyzerColumns(VIKEN_HEADER.map(header => header.toLowerCase()), viken);
+
+    it('prefers the value over the analyzer call', () => {
+        const classification = classifyReading(['', '', '', '', '1.3', 'Negative', ''], columns, viken);
+        expect(classification).toEqual({ value: 1.3, numeric: 'positive', device: 'negative', result: 'positive' });
+    });
+
+    it('falls back to the analyzer call without a value', () => {
+        expect(classifyReading(['', '', '', '', '', 'POS', ''], columns, viken).result).toBe('positive');
+    });
+
+    it('counts inconclusive values as positive unless the action level says otherwise', () => {
+        const actionLevel = { level: 1.0, inconclusiveRange: [0.7, 1.4] as [number, number] };
+        const classification = classifyReading(['', '', '', '', '0.8', '', ''], columns, viken, actionLevel);
+        expect(isPositiveReading(classification, actionLevel)).toBe(true);
+        expect(isPositiveReading(classification, { ...actionLevel, inconclusiveAsPositive: false })).toBe(false);
+    });
+});
+
+describe('extractSheetInfo', () => {
+    it('counts the readings, leaving calibration readings out of the positives', () => {
+        const info = extractSheetInfo(sheetOf([
+            VIKEN_HEADER,
+            ['2024-03-07 09:00', '1A-001', 'Kitchen', 'Calibration', 1.1, 'Positive', 'Y'],
+            ['2024-03-07 09:05', '1A-002', 'Kitchen', 'Door', 0.2, 'Negative', ''],
+            ['2024-03-07 09:10', '1A-003', 'Yard', 'Fence', 2.4, 'Positive', ''],
+            ['2024-03-07 09:15', '1A-004', 'Survey', 'Window', 1.2, 'Negative', ''],
+        ]), { profile: viken });
+
+        expect(info.analyzerProfileId).toBe('viken-pb200i');
+        expect(info.totalReadings).toBe(4);
+        expect(info.positiveReadings).toBe(2);
+        expect(info.isPositive).toBe(true);
+        expect(info.readingDisagreements).toEqual([{ rowNumber: 5, value: 1.2, numeric: 'positive', device: 'negative' }]);
+    });
+});
+
+describe('getSampleIdPrefix', () => {
+    it('is everything before the trailing sample number', () => {
+        expect(getSampleIdPrefix('1A-012')).toBe('1A');
+        expect(getSampleIdPrefix('Unit 2 - 05')).toBe('Unit 2');
+        expect(getSampleIdPrefix('012')).toBeNull();
+    });
+});
+
+describe('classifyDustWipeSurface', () => {
+    it('classifies floors, sills and troughs', () => {
+        expect(classifyDustWipeSurface('Kitchen Floor')).toBe('floor');
+        expect(classifyDustWipeSurface('Window Sill')).toBe('window_sill');
+        expect(classifyDustWipeSurface('Window Stool')).toBe('window_sill');
+        expect(classifyDustWipeSurface('Window Sill/Trough')).toBe('window_trough');
+        expect(classifyDustWipeSurface('Window well')).toBe('window_trough');
+    });
+
+    it('only matches whole words', () => {
+        expect(classifyDustWipeSurface('Dwelling floor')).toBe('floor');
+        expect(classifyDustWipeSurface('Dwelling entrance')).toBeNull();
+        expect(classifyDustWipeSurface('Floorboard')).toBeNull();
+    });
+
+    it('returns null for unknown or empty surfaces', () => {
+        expect(classifyDustWipeSurface('Stair tread')).toBeNull();
+        expect(classifyDustWipeSurface('  ')).toBeNull();
+    });
+});
+
+describe('extractDustWipeInfo', () => {
+    it('reads the samples below the letterhead and compares them with their thresholds', () => {
+        const info = extractDustWipeInfo(sheetOf([
+            ['Acme Environmental Lab'],
+            [],
+            ['Sample ID', 'Location', 'Surface', 'Result (µg/ft²)', 'Date Collected', 'Site Address'],
+            ['DW-1', 'Kitchen', 'Floor', '<5.0', '3/7/2024', '12 Main St'],
+            ['DW-2', 'Bedroom', 'Window Sill', 150, '', ''],
+            ['DW-3', 'Bedroom', 'Window Trough', 399, '', ''],
+            ['DW-4', 'Hall', 'Stair tread', 20, '', ''],
+            ['Field Blank', '', '', '<1', '', ''],
+        ]));
+
+        expect(info.samples.map(sample => [sample.sampleId, sample.surfaceType, sample.result, sample.threshold, sample.passed])).toEqual([
+            ['DW-1', 'floor', 5, 10, true],
+            ['DW-2', 'window_sill', 150, 100, false],
+            ['DW-3', 'window_trough', 399, 400, true],
+            ['DW-4', null, 20, null, null],
+        ]);
+        expect(info.samples[0].resultText).toBe('<5.0');
+        expect(info.isPositive).toBe(true);
+        expect(info.totalReadings).toBe(4);
+        expect(info.positiveReadings).toBe(1);
+        expect(info.address).toBe('12 Main St');
+    });
+
+    it('converts total lead and an area in square inches to a loading', () => {
+        const info = extractDustWipeInfo(sheetOf([
+            ['Sample', 'Location', 'Area (sq in)', 'Total Lead (µg)'],
+            ['1', 'Living room floor', 144, 12],
+            ['2', 'Living room floor', 72, '<2'],
+        ]));
+
+        expect(info.samples.map(sample => [sample.area, sample.result, sample.resultText, sample.passed])).toEqual([
+            [1, 12, '12', false],
+            [0.5, 4, '<4', true],
+        ]);
+    });
+
+    it('uses the thresholds it is given', () => {
+        const info = extractDustWipeInfo(sheetOf([
+            ['Sample', 'Surface', 'Result'],
+            ['1', 'Floor', 8],
+        ]), { floor: 5, window_sill: 40, window_trough: 100 });
+
+        expect(info.samples[0].threshold).toBe(5);
+        expect(info.samples[0].passed).toBe(false);
+        expect(info.isPositive).toBe(true);
+    });
+});
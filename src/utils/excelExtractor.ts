@@ -1,4 +1,8 @@
 import * as XLSX from 'xlsx';
+import type { ActionLevel, DustWipeSurfaceType, DustWipeThresholds, FieldMapping } from '../types/reportStructure';
+import type { AnalyzerColumnRole, AnalyzerProfile } from '../types/analyzerProfiles';
+import { ANALYZER_PROFILES, getAnalyzerProfile, getDefaultAnalyzerProfile } from '../config/analyzerProfiles';
+import { parseTimestamp, toLocalISOString } from './dateFormat';
 
 export interface ExtractedSheetInfo {
     date?: string;
@@ -10,106 +14,353 @@ export interface ExtractedSheetInfo {
     totalReadings?: number;
     positiveReadings?: number;
     fullExcelData?: any[][]; // Full Excel data including header row
+    analyzerProfileId?: string; // XRF analyzer profile the sheet was read with
+    columns?: AnalyzerColumns;  // Columns found by the analyzer profile
+    units?: string;             // Units of the readings (e.g. mg/cm²)
+    inconclusiveReadings?: number; // Readings inside the action level's inconclusive range
+    readingDisagreements?: ReadingDisagreement[];
+    inspectionStart?: string;   // First and last timestamp of the non-calibration readings (YYYY-MM-DDTHH:MM:SS)
+    inspectionEnd?: string;
+    readingTimestamps?: ReadingTimestamp[];
 }
 
-// Helper to format date with time preserved (YYYY-MM-DD HH:MM:SS or YYYY-MM-DDTHH:MM:SS)
-const formatDate = (dateStr: string | number | Date): string => {
+// When a non-calibration reading was taken
+export interface ReadingTimestamp {
+    rowNumber: number;   // Sheet row (1-based, as shown in Excel)
+    timestamp: string;   // YYYY-MM-DDTHH:MM:SS
+    unit?: string;       // Unit of a multi-unit workbook the reading belongs to
+}
+
+// Formats a date cell with its time preserved (YYYY-MM-DDTHH:MM:SS); unparseable text is returned as is
+const formatDate = (dateStr: string | number | Date, timeZone?: string): string => {
     if (!dateStr) return '';
+    const dateObj = parseTimestamp(dateStr, timeZone);
+    return dateObj ? toLocalISOString(dateObj) : String(dateStr);
+};
+
+// ==================== XRF READINGS ====================
+
+// Column index of each role the analyzer profile found in the header row
+export type AnalyzerColumns = Partial<Record<AnalyzerColumnRole, number>>;
+
+// How a reading's result cell reads under a profile's vocabulary
+export type ReadingResult = 'positive' | 'negative' | 'inconclusive';
+
+const DEFAULT_HEADER_SCAN_ROWS = 10;
 
-    let dateObj: Date | null = null;
+const normalizeHeader = (cell: any): string => String(cell ?? '').trim().toLowerCase();
 
-    if (dateStr instanceof Date) {
-        dateObj = dateStr;
-    } else if (typeof dateStr === 'number') {
-        // Excel serial date - includes time component
-        dateObj = new Date((dateStr - (25567 + 2)) * 86400 * 1000);
-    } else {
-        // String parsing - handles dates with or without time
-        dateObj = new Date(dateStr);
+const rowHasAllHeaders = (row: any[], headers: string[]): boolean => {
+    const cells = row.map(normalizeHeader);
+    return headers.every(header => cells.some(cell => cell.includes(header)));
+};
+
+/**
+ * Finds the header row of an analyzer export: the first row (within the profile's scan range) holding the whole
+ * header signature.
+ * @param maxRows - Rows to search instead of the profile's scan range (e.g. past a text export's metadata preamble)
+ * @returns The row index, or -1 if the sheet doesn't have the profile's signature
+ */
+export const findAnalyzerHeaderRow = (jsonData: any[][], profile: AnalyzerProfile, maxRows?: number): number => {
+    if (profile.headerSignature.length === 0) return -1;
+    const scanRows = Math.min(jsonData.length, maxRows ?? profile.headerScanRows ?? DEFAULT_HEADER_SCAN_ROWS);
+    for (let i = 0; i < scanRows; i++) {
+        if (rowHasAllHeaders(jsonData[i] || [], profile.headerSignature)) return i;
     }
+    return -1;
+};
+
+/**
+ * Picks the analyzer profile whose header signature the sheet matches, the most specific one (longest
+ * signature) when several do. Falls back to the default profile.
+ */
+export const detectAnalyzerProfile = (jsonData: any[][]): { profile: AnalyzerProfile; detected: boolean } => {
+    let best: AnalyzerProfile | null = null;
+    ANALYZER_PROFILES.forEach(profile => {
+        if (findAnalyzerHeaderRow(jsonData, profile) === -1) return;
+        if (!best || profile.headerSignature.length > best.headerSignature.length) {
+            best = profile;
+        }
+    });
+    return best ? { profile: best, detected: true } : { profile: getDefaultAnalyzerProfile(), detected: false };
+};
+
+/**
+ * Finds the column of each role in the header row. Candidates are tried in order; for each, an exact header match
+ * wins over a header that only contains it (so "PbC" isn't taken for "PbC Error").
+ */
+export const findAnalyzerColumns = (headerRow: any[], profile: AnalyzerProfile): AnalyzerColumns => {
+    const headers = headerRow.map(normalizeHeader);
+    const columns: AnalyzerColumns = {};
+    const used = new Set<number>();
+
+    (Object.keys(profile.columns) as AnalyzerColumnRole[]).forEach(role => {
+        for (const candidate of profile.columns[role] || []) {
+            let index = headers.findIndex((h, i) => !used.has(i) && h === candidate);
+            if (index === -1) index = headers.findIndex((h, i) => !used.has(i) && h.includes(candidate));
+            if (index !== -1) {
+                columns[role] = index;
+                used.add(index);
+                break;
+            }
+        }
+    });
+    return columns;
+};
 
-    if (dateObj && !isNaN(dateObj.getTime())) {
-        // Return ISO format with time: YYYY-MM-DDTHH:MM:SS
-        // This preserves the time component
-        const year = dateObj.getFullYear();
-        const month = String(dateObj.getMonth() + 1).padStart(2, '0');
-        const day = String(dateObj.getDate()).padStart(2, '0');
-        const hours = String(dateObj.getHours()).padStart(2, '0');
-        const minutes = String(dateObj.getMinutes()).padStart(2, '0');
-        const seconds = String(dateObj.getSeconds()).padStart(2, '0');
-        
-        // Return format: YYYY-MM-DDTHH:MM:SS
-        return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
+/**
+ * Whether a data row is a calibration check reading: one of the profile's leading calibration rows, or a row
+ * whose calibration column contains one of the profile's calibration values or is one of its calibration flags.
+ * @param rowIndexInData - Index of the row below the header
+ */
+export const isCalibrationReading = (
+    row: any[],
+    rowIndexInData: number,
+    columns: AnalyzerColumns,
+    profile: AnalyzerProfile
+): boolean => {
+    if (rowIndexInData < (profile.leadingCalibrationRows ?? 0)) {
+        return true;
+    }
+    if (columns.calibration === undefined || !row) {
+        return false;
+    }
+    const calibrationValue = normalizeHeader(row[columns.calibration]);
+    if (!calibrationValue) {
+        return false;
     }
+    return (profile.calibrationFlagValues || []).includes(calibrationValue) ||
+        (profile.calibrationValues || []).some(value => calibrationValue.includes(value));
+};
+
+/**
+ * Classifies a result cell with the profile's positive/negative vocabulary.
+ * @returns The result, or null if the cell is empty
+ */
+export const classifyReadingResult = (value: any, profile: AnalyzerProfile): ReadingResult | null => {
+    const text = normalizeHeader(value);
+    if (!text) return null;
+    if (profile.positiveValues.includes(text)) return 'positive';
+    if (profile.negativeValues.includes(text)) return 'negative';
+    return 'inconclusive';
+};
 
-    // Fallback: if it's already a string with time, preserve it
-    if (typeof dateStr === 'string') {
-        // If it already has time component, return as is
-        if (dateStr.includes('T') || (dateStr.includes(' ') && dateStr.match(/\d{1,2}:\d{2}/))) {
-            return dateStr;
+// Federal (HUD/EPA) lead-based paint level
+export const DEFAULT_ACTION_LEVEL: ActionLevel = { level: 1.0 };
+
+/**
+ * Classifies a numeric reading against the action level.
+ * At or above the top of the inconclusive range (or the level, without one) is positive, below its bottom negative.
+ */
+export const classifyReadingValue = (value: number, actionLevel: ActionLevel = DEFAULT_ACTION_LEVEL): ReadingResult => {
+    const [from, to] = actionLevel.inconclusiveRange || [actionLevel.level, actionLevel.level];
+    if (value >= to) return 'positive';
+    if (value < from) return 'negative';
+    return 'inconclusive';
+};
+
+// How one reading classifies, from its value and from the analyzer's own call
+export interface ReadingClassification {
+    value: number | null;            // Reading in mg/cm² (null if not numeric or in other units)
+    numeric: ReadingResult | null;   // From the value against the action level
+    device: ReadingResult | null;    // The analyzer's result column (null if empty)
+    result: ReadingResult | null;    // The numeric classification when there is one, else the analyzer's
+}
+
+// A reading whose value and the analyzer's call disagree (e.g. 1.3 mg/cm² reported as negative)
+export interface ReadingDisagreement {
+    rowNumber: number;               // Sheet row (1-based, as shown in Excel)
+    value: number;
+    numeric: ReadingResult;
+    device: ReadingResult;
+}
+
+/**
+ * Classifies a reading row, preferring its numeric value (in mg/cm²) over the analyzer's positive/negative call.
+ */
+export const classifyReading = (
+    row: any[],
+    columns: AnalyzerColumns,
+    profile: AnalyzerProfile,
+    actionLevel: ActionLevel = DEFAULT_ACTION_LEVEL
+): ReadingClassification => {
+    const device = columns.result !== undefined ? classifyReadingResult(row?.[columns.result], profile) : null;
+
+    let value: number | null = null;
+    if (columns.reading !== undefined && String(row?.[columns.reading] ?? '').trim() !== '') {
+        const units = columns.units !== undefined ? normalizeHeader(row[columns.units]) : '';
+        // Readings in other units (e.g. % by weight) can't be compared with the action level
+        if (!units || units.includes('mg/cm')) {
+            value = parseLabNumber(row[columns.reading]);
         }
-        // If it's just a date, try to preserve any time that might be in the original
-        // For now, return the string as is - let the PDF formatter handle it
-        return dateStr;
     }
+    const numeric = value !== null ? classifyReadingValue(value, actionLevel) : null;
+    return { value, numeric, device, result: numeric ?? device };
+};
+
+/**
+ * Whether a classified reading counts as positive: positive, or inconclusive from its value when the action level
+ * counts inconclusive readings as positive. An unrecognised analyzer call is never positive.
+ */
+export const isPositiveReading = (classification: ReadingClassification, actionLevel: ActionLevel = DEFAULT_ACTION_LEVEL): boolean => {
+    if (classification.result === 'positive') return true;
+    return classification.numeric === 'inconclusive' && (actionLevel.inconclusiveAsPositive ?? true);
+};
+
+/**
+ * Counts the readings of an analyzer export and the positive ones (excluding calibration readings).
+ * All rows below the header count towards the total, calibration readings included.
+ */
+const countReadings = (
+    dataRows: any[][],
+    columns: AnalyzerColumns,
+    profile: AnalyzerProfile,
+    actionLevel: ActionLevel = DEFAULT_ACTION_LEVEL,
+    firstRowNumber = 0
+): {
+    totalReadings: number;
+    positiveReadings: number;
+    inconclusiveReadings: number;
+    inconclusiveValues: string[];
+    disagreements: ReadingDisagreement[];
+} => {
+    if (columns.result === undefined && columns.reading === undefined) {
+        return { totalReadings: 0, positiveReadings: 0, inconclusiveReadings: 0, inconclusiveValues: [], disagreements: [] };
+    }
+
+    let positiveReadings = 0;
+    let inconclusiveReadings = 0;
+    const inconclusiveValues = new Set<string>();
+    const disagreements: ReadingDisagreement[] = [];
+    dataRows.forEach((row, i) => {
+        if (isCalibrationReading(row, i, columns, profile)) return;
+        const classification = classifyReading(row, columns, profile, actionLevel);
+
+        if (isPositiveReading(classification, actionLevel)) {
+            positiveReadings++;
+        }
+        if (classification.numeric === 'inconclusive') {
+            inconclusiveReadings++;
+        } else if (classification.numeric === null && classification.device === 'inconclusive') {
+            inconclusiveValues.add(String(row[columns.result!]).trim());
+        }
 
-    return String(dateStr);
+        const { numeric, device, value } = classification;
+        if (numeric && device && numeric !== device && numeric !== 'inconclusive' && device !== 'inconclusive') {
+            disagreements.push({ rowNumber: firstRowNumber + i, value: value!, numeric, device });
+        }
+    });
+    return {
+        totalReadings: dataRows.length,
+        positiveReadings,
+        inconclusiveReadings,
+        inconclusiveValues: Array.from(inconclusiveValues),
+        disagreements,
+    };
 };
 
-export const extractSheetInfo = (sheet: XLSX.WorkSheet): ExtractedSheetInfo => {
+/**
+ * Extracts the XRF readings of an analyzer export.
+ * The analyzer profile (header signature, column roles and result vocabulary) is detected from the headers unless
+ * one is given.
+ * Readings are classified from their mg/cm² value against the action level when they have one, otherwise from the
+ * analyzer's positive/negative call.
+ * @param sheet - The uploaded sheet
+ * @param options.profile - Analyzer profile to read the sheet with (default: auto-detect)
+ * @param options.actionLevel - Action level of the report (default 1.0 mg/cm²)
+ * @param options.timeZone - Time zone of the inspection, for Excel serial dates and UTC timestamps (see parseTimestamp)
+ */
+export const extractSheetInfo = (
+    sheet: XLSX.WorkSheet,
+    options: { profile?: AnalyzerProfile; actionLevel?: ActionLevel; timeZone?: string } = {}
+): ExtractedSheetInfo => {
+    const { profile, actionLevel = DEFAULT_ACTION_LEVEL, timeZone } = options;
     const jsonData: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '' });
 
     if (!jsonData || jsonData.length === 0) {
         return { rawData: [] };
     }
 
-    // Find Header Row (scan first 5 rows)
-    let headerRowIndex = -1;
-    let headerRow: any[] = [];
-
-    for (let i = 0; i < Math.min(jsonData.length, 5); i++) {
-        const row = jsonData[i];
-        // Simple heuristic: Row with "Date" or "Sample" or "Location"
-        if (row.some((cell: any) =>
-            String(cell).match(/(Date|Time|Collected|Sample|Location|Client)/i)
-        )) {
-            headerRowIndex = i;
-            headerRow = row.map((cell: any) => String(cell).trim().toLowerCase());
-            break;
-        }
+    let analyzerProfile = profile;
+    if (!analyzerProfile) {
+        const detection = detectAnalyzerProfile(jsonData);
+        analyzerProfile = detection.profile;
+        console.log(detection.detected
+            ? `✅ Detected analyzer profile: ${analyzerProfile.name}`
+            : `⚠️ No analyzer profile matches the sheet headers, using ${analyzerProfile.name}`);
     }
 
+    // Header row: the profile's signature, else the first row naming any of its columns, else the first row
+    let headerRowIndex = findAnalyzerHeaderRow(jsonData, analyzerProfile);
+    if (headerRowIndex === -1) {
+        const candidates = Object.values(analyzerProfile.columns).flat() as string[];
+        const scanRows = Math.min(jsonData.length, analyzerProfile.headerScanRows ?? DEFAULT_HEADER_SCAN_ROWS);
+        headerRowIndex = jsonData.slice(0, scanRows).findIndex(row =>
+            row.some((cell: any) => candidates.some(candidate => normalizeHeader(cell).includes(candidate)))
+        );
+    }
     if (headerRowIndex === -1) {
         // Fallback: Use first row
         headerRowIndex = 0;
-        headerRow = jsonData[0].map((cell: any) => String(cell).trim().toLowerCase());
+    }
+    const headerRow = jsonData[headerRowIndex].map(normalizeHeader);
+    const columns = findAnalyzerColumns(headerRow, analyzerProfile);
+
+    if (columns.result === undefined && columns.reading === undefined) {
+        console.warn(`⚠️ No result or reading column found for analyzer profile ${analyzerProfile.name} (looked for: ${[...(analyzerProfile.columns.result || []), ...(analyzerProfile.columns.reading || [])].join(', ')})`);
     }
 
     const rawData = jsonData.slice(headerRowIndex + 1);
     let date = '';
     let address = '';
 
-    // Identify Column Indices
-    const dateColIdx = headerRow.findIndex(h => h.includes('date') || h.includes('time') || h.includes('collected'));
-    const addressColIdx = headerRow.findIndex(h => h.includes('sample') || h.includes('location') || h.includes('address'));
-
     // Extract from first available data row
     if (rawData.length > 0) {
         const firstRow = rawData[0];
 
-        if (dateColIdx !== -1) {
-            date = formatDate(firstRow[dateColIdx]);
+        if (columns.date !== undefined) {
+            date = formatDate(firstRow[columns.date], timeZone);
         }
 
-        if (addressColIdx !== -1) {
+        if (columns.site !== undefined) {
             // Address logic: "26 Eglantine Ave" from Sample ID
-            address = String(firstRow[addressColIdx] || '').trim();
+            address = String(firstRow[columns.site] || '').trim();
         }
     }
 
-    // Detect positive/negative status and calculate counts
-    const isPositive = detectPositiveNegative(jsonData, headerRow, headerRowIndex);
-    const { totalReadings, positiveReadings } = calculateReadingsCounts(jsonData, headerRow, headerRowIndex);
+    // Inspection window: the first and last timestamps of the non-calibration readings (text timestamps compare in
+    // chronological order as YYYY-MM-DDTHH:MM:SS)
+    const readingTimestamps: ReadingTimestamp[] = [];
+    if (columns.date !== undefined) {
+        rawData.forEach((row: any[], i: number) => {
+            if (!row || isCalibrationReading(row, i, columns, analyzerProfile!)) return;
+            const timestamp = parseTimestamp(row[columns.date!], timeZone);
+            if (timestamp) {
+                readingTimestamps.push({ rowNumber: headerRowIndex + 2 + i, timestamp: toLocalISOString(timestamp) });
+            }
+        });
+    }
+    const sortedTimestamps = readingTimestamps.map(r => r.timestamp).sort();
+    const inspectionStart = sortedTimestamps[0];
+    const inspectionEnd = sortedTimestamps[sortedTimestamps.length - 1];
+    if (inspectionStart) {
+        // The first reading is usually a calibration check: the inspection starts with the first real one
+        date = inspectionStart;
+    }
+
+    // Units: from the first reading that has them, else the profile's default
+    const unitsRow = columns.units !== undefined ? rawData.find(row => normalizeHeader(row[columns.units!])) : undefined;
+    const units = unitsRow ? String(unitsRow[columns.units!]).trim() : analyzerProfile.defaultUnits;
+
+    // Sheet rows are 1-based and the data starts below the header
+    const { totalReadings, positiveReadings, inconclusiveReadings, inconclusiveValues, disagreements } =
+        countReadings(rawData, columns, analyzerProfile, actionLevel, headerRowIndex + 2);
+    if (inconclusiveValues.length > 0) {
+        console.warn(`⚠️ Results not counted as positive or negative by ${analyzerProfile.name}: ${inconclusiveValues.join(', ')}`);
+    }
+    if (disagreements.length > 0) {
+        console.warn(`⚠️ ${disagreements.length} reading(s) where the value and the analyzer's call disagree (rows ${disagreements.map(d => d.rowNumber).join(', ')})`);
+    }
 
     return {
         date,
@@ -117,166 +368,473 @@ export const extractSheetInfo = (sheet: XLSX.WorkSheet): ExtractedSheetInfo => {
         rawData,
         headerRow,
         headerRowIndex,
-        isPositive,
+        isPositive: positiveReadings > 0,
         totalReadings,
         positiveReadings,
-        fullExcelData: jsonData // Store full Excel data including headers
+        inconclusiveReadings,
+        readingDisagreements: disagreements,
+        inspectionStart,
+        inspectionEnd,
+        readingTimestamps,
+        fullExcelData: jsonData, // Store full Excel data including headers
+        analyzerProfileId: analyzerProfile.id,
+        columns,
+        units,
     };
 };
 
 /**
- * Detects if a sheet is positive or negative based on the "Pb P/F" column
+ * Detects if a sheet is positive or negative from its readings: the mg/cm² value against the action level when
+ * there is one, else the result column of the analyzer profile (the "Pb P/F" column of the default profile).
  * Rules:
- * - If any value in "Pb P/F" column is positive, the sheet is positive
- * - Ignore rows where the calibration column contains "PCS Cal" or similar calibration values
- * - Calibration rows: first 4 rows are always calibration, plus any row with calibration values in calibration column
+ * - If any non-calibration reading is positive, the sheet is positive
+ * - Calibration readings are the profile's leading calibration rows plus any row flagged in its calibration column
  */
 export const detectPositiveNegative = (
     jsonData: any[][],
     headerRow: any[],
-    headerRowIndex: number
+    headerRowIndex: number,
+    profile: AnalyzerProfile = getDefaultAnalyzerProfile(),
+    actionLevel: ActionLevel = DEFAULT_ACTION_LEVEL
 ): boolean => {
+    return calculateReadingsCounts(jsonData, headerRow, headerRowIndex, profile, actionLevel).positiveReadings > 0;
+};
+
+/**
+ * Calculates total readings and positive readings counts (excluding calibration rows)
+ */
+export const calculateReadingsCounts = (
+    jsonData: any[][],
+    headerRow: any[],
+    headerRowIndex: number,
+    profile: AnalyzerProfile = getDefaultAnalyzerProfile(),
+    actionLevel: ActionLevel = DEFAULT_ACTION_LEVEL
+): { totalReadings: number; positiveReadings: number } => {
     if (!jsonData || jsonData.length === 0 || !headerRow || headerRow.length === 0) {
-        return false;
+        return { totalReadings: 0, positiveReadings: 0 };
     }
+    const { totalReadings, positiveReadings } = countReadings(
+        jsonData.slice(headerRowIndex + 1),
+        findAnalyzerColumns(headerRow, profile),
+        profile,
+        actionLevel
+    );
+    return { totalReadings, positiveReadings };
+};
 
-    // Find the "Pb P/F" column index
-    const pbPfColIndex = headerRow.findIndex((h: any) => {
-        const headerStr = String(h).trim().toLowerCase();
-        return headerStr.includes('pb p/f');
-    });
 
-    if (pbPfColIndex === -1) {
-        // Column not found, default to negative
-        return false;
+// Roles readings are grouped by in the room/component summary, unless the profile sets its own
+const DEFAULT_SUMMARY_GROUP_BY: AnalyzerColumnRole[] = ['room', 'component', 'substrate'];
+
+// The readings of one room/component/substrate combination
+export interface ComponentSummaryRow {
+    values: string[];            // Value of each grouping column, as first written in the sheet
+    tested: number;              // Non-calibration readings
+    positive: number;            // Positive readings (see isPositiveReading)
+    maxReading: number | null;   // Highest mg/cm² value (null if no reading has one)
+}
+
+export interface ComponentSummary {
+    roles: AnalyzerColumnRole[]; // Grouping columns found in the sheet
+    headers: string[];           // Their header texts
+    rows: ComponentSummaryRow[]; // In the order the combinations first appear
+}
+
+/**
+ * Groups the non-calibration readings of an analyzer export by room, component and substrate (or the profile's
+ * summaryGroupBy roles). Values are compared case-insensitively; empty rows are skipped.
+ * @returns The summary, or null if the sheet has none of the grouping columns
+ */
+export const summarizeReadingsByComponent = (
+    jsonData: any[][],
+    headerRowIndex: number,
+    profile: AnalyzerProfile = getDefaultAnalyzerProfile(),
+    actionLevel: ActionLevel = DEFAULT_ACTION_LEVEL
+): ComponentSummary | null => {
+    const headerRow = jsonData[headerRowIndex] || [];
+    const columns = findAnalyzerColumns(headerRow, profile);
+    const roles = (profile.summaryGroupBy || DEFAULT_SUMMARY_GROUP_BY).filter(role => columns[role] !== undefined);
+    if (roles.length === 0) {
+        return null;
     }
 
-    // Find the calibration column index (if it exists)
-    const calibrationColIndex = headerRow.findIndex((h: any) => 
-        String(h).toLowerCase().includes('calibration')
-    );
+    const groups = new Map<string, ComponentSummaryRow>();
+    jsonData.slice(headerRowIndex + 1).forEach((row, i) => {
+        if (!row || row.every(cell => String(cell ?? '').trim() === '')) return;
+        if (isCalibrationReading(row, i, columns, profile)) return;
+
+        const values = roles.map(role => String(row[columns[role]!] ?? '').trim());
+        const key = values.map(value => value.toLowerCase()).join('\u0000');
+        let group = groups.get(key);
+        if (!group) {
+            group = { values, tested: 0, positive: 0, maxReading: null };
+            groups.set(key, group);
+        }
 
-    // Get data rows (skip header row)
-    const dataRows = jsonData.slice(headerRowIndex + 1);
-    
-    if (dataRows.length === 0) {
-        return false;
+        const classification = classifyReading(row, columns, profile, actionLevel);
+        group.tested++;
+        if (isPositiveReading(classification, actionLevel)) {
+            group.positive++;
+        }
+        if (classification.value !== null && (group.maxReading === null || classification.value > group.maxReading)) {
+            group.maxReading = classification.value;
+        }
+    });
+
+    return {
+        roles,
+        headers: roles.map(role => String(headerRow[columns[role]!] ?? '').trim() || role),
+        rows: Array.from(groups.values()),
+    };
+};
+
+
+// ==================== MULTI-UNIT WORKBOOKS ====================
+
+// One unit of a multi-family job: a worksheet of its own, or the readings of one sheet sharing a Sample ID prefix
+export interface WorkbookUnit {
+    id: string;                       // Sheet name, or the Sample ID prefix (e.g. "1A" for "1A-012")
+    source: 'sheet' | 'sample_prefix';
+    sheetName: string;
+    // The unit's readings, extracted as if they were a sheet of their own. For Sample ID units that sheet keeps the
+    // rows above the header and all calibration readings, so row numbers count the unit's rows only.
+    info: ExtractedSheetInfo;
+}
+
+// "1A-012" → "1A", "Unit 2 - 05" → "Unit 2"; a sample id without a separator and trailing number has no prefix
+const SAMPLE_ID_PREFIX = /^(.*?[A-Za-z0-9])\s*[-_./ ]\s*\d+$/;
+
+/**
+ * The unit prefix of a Sample ID: everything before its trailing sample number.
+ * @returns The prefix, or null if the id doesn't end in a separated number
+ */
+export const getSampleIdPrefix = (sampleId: any): string | null => {
+    const match = String(sampleId ?? '').trim().match(SAMPLE_ID_PREFIX);
+    return match ? match[1].trim() : null;
+};
+
+/**
+ * Splits the readings of one sheet into units by Sample ID prefix.
+ * Every non-calibration reading must have a prefix, otherwise the sheet isn't treated as multi-unit.
+ * @returns The units (at least two), or an empty array
+ */
+const splitSheetBySamplePrefix = (
+    sheetName: string,
+    info: ExtractedSheetInfo,
+    options: { actionLevel?: ActionLevel; timeZone?: string }
+): WorkbookUnit[] => {
+    const profile = getAnalyzerProfile(info.analyzerProfileId);
+    const columns = info.columns;
+    if (!profile || !columns || columns.site === undefined || !info.fullExcelData) {
+        return [];
     }
 
-    // Check each data row (excluding calibration rows)
-    for (let i = 0; i < dataRows.length; i++) {
-        // Skip first 4 rows (always calibration)
-        if (i < 4) {
+    const headerRowIndex = info.headerRowIndex ?? 0;
+    const prefixes: string[] = [];
+    const rowPrefixes: (string | null)[] = [];
+    for (let i = 0; i < info.rawData.length; i++) {
+        const row: any[] = info.rawData[i];
+        const isEmpty = !row || row.every(cell => String(cell ?? '').trim() === '');
+        if (isEmpty || isCalibrationReading(row, i, columns, profile)) {
+            rowPrefixes.push(null);
             continue;
         }
+        const prefix = getSampleIdPrefix(row[columns.site]);
+        if (!prefix) {
+            return [];
+        }
+        if (!prefixes.includes(prefix)) prefixes.push(prefix);
+        rowPrefixes.push(prefix);
+    }
+    if (prefixes.length < 2) {
+        return [];
+    }
 
-        // Check if this row is a calibration row by looking at the calibration column
-        if (calibrationColIndex !== -1) {
-            const calibrationValue = String(dataRows[i][calibrationColIndex] || '').trim().toLowerCase();
-            // If calibration column contains "pcs cal", "calibration", "cal", etc., skip this row
-            if (calibrationValue.includes('pcs cal') || 
-                calibrationValue.includes('calibration') || 
-                calibrationValue.includes('cal')) {
-                continue;
-            }
+    return prefixes.map(prefix => {
+        // Calibration readings are shared by all units; empty rows are dropped
+        const unitRows = info.rawData.filter((row: any[], i: number) => rowPrefixes[i] === prefix ||
+            (rowPrefixes[i] === null && row && row.some(cell => String(cell ?? '').trim() !== '')));
+        const unitSheet = XLSX.utils.aoa_to_sheet([...info.fullExcelData!.slice(0, headerRowIndex + 1), ...unitRows]);
+        return {
+            id: prefix,
+            source: 'sample_prefix' as const,
+            sheetName,
+            info: extractSheetInfo(unitSheet, { ...options, profile }),
+        };
+    }).filter(unit => {
+        if (!unit.info.totalReadings) {
+            console.warn(`⚠️ Unit ${unit.id} of sheet ${sheetName} has no readings, skipping it`);
         }
+        return !!unit.info.totalReadings;
+    });
+};
 
-        // Now check the Pb P/F value for this non-calibration row
-        const pbPfValue = String(dataRows[i][pbPfColIndex] || '').trim().toLowerCase();
-        
-        // Check if the value indicates positive
-        // Common positive indicators: "positive", "pos", "p", "+", "fail", "f"
-        if (pbPfValue === 'positive' || 
-            pbPfValue === 'pos' || 
-            pbPfValue === 'p' || 
-            pbPfValue === '+' ||
-            pbPfValue === 'fail' ||
-            pbPfValue === 'f') {
-            return true;
+/**
+ * Detects the units of a multi-family workbook: one per worksheet with readings when there are several, else one
+ * per Sample ID prefix of the sheet with readings.
+ * @param options.profile - Analyzer profile to read the sheets with (default: auto-detect per sheet)
+ * @returns The units (at least two), or an empty array if the workbook holds a single unit
+ */
+export const detectWorkbookUnits = (
+    workbook: XLSX.WorkBook,
+    options: { profile?: AnalyzerProfile; actionLevel?: ActionLevel; timeZone?: string } = {}
+): WorkbookUnit[] => {
+    const sheets = workbook.SheetNames
+        .map(sheetName => ({ sheetName, info: extractSheetInfo(workbook.Sheets[sheetName], options) }))
+        .filter(({ info }) => (info.totalReadings || 0) > 0);
+
+    if (sheets.length >= 2) {
+        console.log(`✅ Found ${sheets.length} unit sheets: ${sheets.map(s => s.sheetName).join(', ')}`);
+        return sheets.map(({ sheetName, info }) => ({ id: sheetName, source: 'sheet', sheetName, info }));
+    }
+    if (sheets.length === 1) {
+        const { sheetName, info } = sheets[0];
+        const units = splitSheetBySamplePrefix(sheetName, info, options);
+        if (units.length >= 2) {
+            console.log(`✅ Found ${units.length} units by Sample ID prefix in sheet ${sheetName}: ${units.map(u => u.id).join(', ')}`);
         }
+        return units.length >= 2 ? units : [];
     }
+    return [];
+};
+
 
-    return false;
+// ==================== DUST WIPE (LAB RESULTS) ====================
+
+// Federal (EPA) lead dust hazard standards in µg/ft²
+export const DEFAULT_DUST_WIPE_THRESHOLDS: DustWipeThresholds = {
+    floor: 10,
+    window_sill: 100,
+    window_trough: 400,
 };
 
+export interface DustWipeSample {
+    sampleId: string;
+    location: string;
+    surface: string;                         // Surface as written on the lab sheet
+    surfaceType: DustWipeSurfaceType | null; // null if the surface could not be classified
+    area?: number;                           // Wiped area in ft²
+    result: number | null;                   // Lead loading in µg/ft² (null if unreadable)
+    resultText: string;                      // Result as reported by the lab (e.g. "<5.0")
+    threshold: number | null;
+    passed: boolean | null;                  // null if the sample could not be evaluated
+}
+
+export interface ExtractedDustWipeInfo extends ExtractedSheetInfo {
+    samples: DustWipeSample[];
+}
+
 /**
- * Calculates total readings and positive readings counts (excluding calibration rows)
+ * Classifies a surface description into one of the threshold categories.
+ * Floors are checked first so a location such as "Dwelling floor" is not read as a window; troughs come before sills
+ * because lab sheets often write "Window Sill/Trough" style names for wells. Whole words only ("well", not "dwelling").
  */
-export const calculateReadingsCounts = (
-    jsonData: any[][],
-    headerRow: any[],
-    headerRowIndex: number
-): { totalReadings: number; positiveReadings: number } => {
-    if (!jsonData || jsonData.length === 0 || !headerRow || headerRow.length === 0) {
-        return { totalReadings: 0, positiveReadings: 0 };
-    }
+export const classifyDustWipeSurface = (surface: string): DustWipeSurfaceType | null => {
+    const text = surface.trim().toLowerCase();
+    if (!text) return null;
+    if (/\bfloors?\b/.test(text)) return 'floor';
+    if (/\b(troughs?|wells?)\b/.test(text)) return 'window_trough';
+    if (/\b(sills?|stools?)\b/.test(text)) return 'window_sill';
+    return null;
+};
 
-    // Find the "Pb P/F" column index
-    const pbPfColIndex = headerRow.findIndex((h: any) => {
-        const headerStr = String(h).trim().toLowerCase();
-        return headerStr.includes('pb p/f');
-    });
+// Reads a numeric lab value such as "12.5", "<5.0" or "8 µg/ft²" (below-detection values use the reporting limit)
+const parseLabNumber = (value: any): number | null => {
+    if (typeof value === 'number') return isNaN(value) ? null : value;
+    const match = String(value ?? '').replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+};
 
-    if (pbPfColIndex === -1) {
-        // Column not found
-        return { totalReadings: 0, positiveReadings: 0 };
+/**
+ * Extracts dust wipe lab results from a sheet.
+ * Expects one row per sample with a location and/or surface column and either a loading column (µg/ft²)
+ * or a total lead column (µg) together with the wiped area.
+ * Each sample is compared against the threshold for its surface type; the sheet is positive if any sample fails.
+ * @param thresholds - Hazard thresholds of the report config (default: the federal standards)
+ */
+export const extractDustWipeInfo = (
+    sheet: XLSX.WorkSheet,
+    thresholds: DustWipeThresholds = DEFAULT_DUST_WIPE_THRESHOLDS
+): ExtractedDustWipeInfo => {
+    const jsonData: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '' });
+
+    if (!jsonData || jsonData.length === 0) {
+        return { rawData: [], samples: [] };
     }
 
-    // Find the calibration column index (if it exists)
-    const calibrationColIndex = headerRow.findIndex((h: any) => 
-        String(h).toLowerCase().includes('calibration')
+    // Find Header Row (lab reports often have a few lines of letterhead, so scan the first 10 rows)
+    let headerRowIndex = jsonData.slice(0, 10).findIndex(row =>
+        row.some((cell: any) => String(cell).match(/(Sample|Location|Surface)/i)) &&
+        row.some((cell: any) => String(cell).match(/(µg|ug|Result|Loading|Lead|Pb)/i))
     );
-
-    // Get data rows (skip header row)
-    const dataRows = jsonData.slice(headerRowIndex + 1);
-    
-    if (dataRows.length === 0) {
-        return { totalReadings: 0, positiveReadings: 0 };
+    if (headerRowIndex === -1) headerRowIndex = 0;
+    const headerRow = jsonData[headerRowIndex].map((cell: any) => String(cell).trim().toLowerCase());
+
+    const findColumn = (test: (header: string) => boolean) => headerRow.findIndex(test);
+    const sampleColIdx = findColumn(h => h.includes('sample') && !h.includes('date'));
+    const locationColIdx = findColumn(h => h.includes('location') || h.includes('room'));
+    const surfaceColIdx = findColumn(h => h.includes('surface') || h.includes('component'));
+    const areaColIdx = findColumn(h => h.includes('area'));
+    const loadingColIdx = findColumn(h => /(µg|ug)\s*\/\s*(ft|sq)/.test(h) || h.includes('loading') || h.includes('result'));
+    const totalColIdx = findColumn(h => /(µg|ug)/.test(h) && !h.includes('/'));
+    const dateColIdx = findColumn(h => h.includes('date') || h.includes('collected'));
+    const addressColIdx = findColumn(h => h.includes('address') || h.includes('site'));
+    // Areas reported in square inches are converted to ft²
+    const areaInSquareInches = areaColIdx !== -1 && /(in²|in2|sq\.? ?in|square inch)/.test(headerRow[areaColIdx]);
+
+    if (loadingColIdx === -1 && (totalColIdx === -1 || areaColIdx === -1)) {
+        console.warn('⚠️ Dust wipe sheet has no result column (µg/ft²) and no total lead (µg) + area columns');
     }
 
-    let totalReadings = 0;
-    let positiveReadings = 0;
+    const rawData = jsonData.slice(headerRowIndex + 1);
+    const samples: DustWipeSample[] = [];
+
+    rawData.forEach(row => {
+        const cell = (colIdx: number) => colIdx === -1 ? '' : String(row[colIdx] ?? '').trim();
+        const sampleId = cell(sampleColIdx);
+        const location = cell(locationColIdx);
+        const surface = cell(surfaceColIdx) || location;
+        const resultCell = loadingColIdx !== -1 ? row[loadingColIdx] : row[totalColIdx];
+
+        // Skip blank rows, notes and field blanks at the bottom of the sheet
+        if (!sampleId && !location && !surface) return;
+        if (String(resultCell ?? '').trim() === '') return;
+        if (/blank/i.test(`${sampleId} ${location}`)) return;
+
+        let area = areaColIdx !== -1 ? parseLabNumber(row[areaColIdx]) ?? undefined : undefined;
+        if (area !== undefined && areaInSquareInches) area = area / 144;
+
+        let result = parseLabNumber(resultCell);
+        let resultText = String(resultCell).trim();
+        if (loadingColIdx === -1 && result !== null) {
+            // Total lead in µg - convert to a loading using the wiped area (keeping a "<" detection-limit marker)
+            result = area ? result / area : null;
+            resultText = result === null ? resultText : `${resultText.startsWith('<') ? '<' : ''}${Math.round(result * 100) / 100}`;
+        }
+
+        const surfaceType = classifyDustWipeSurface(surface);
+        const threshold = surfaceType ? thresholds[surfaceType] : null;
+        const passed = result !== null && threshold !== null ? result < threshold : null;
 
-    // Check each data row
-    for (let i = 0; i < dataRows.length; i++) {
-        // Count all rows for total readings (including calibration)
-        totalReadings++;
-
-        // Check if this is a calibration row
-        let isCalibrationRow = false;
-        
-        // First 4 rows are always calibration
-        if (i < 4) {
-            isCalibrationRow = true;
+        if (passed === null) {
+            console.warn(`⚠️ Dust wipe sample "${sampleId || location}" could not be evaluated (surface: "${surface}", result: "${resultCell}")`);
         }
-        
-        // Check if this row is a calibration row by looking at the calibration column
-        if (!isCalibrationRow && calibrationColIndex !== -1) {
-            const calibrationValue = String(dataRows[i][calibrationColIndex] || '').trim().toLowerCase();
-            // If calibration column contains "pcs cal", "calibration", "cal", etc., it's a calibration row
-            if (calibrationValue.includes('pcs cal') || 
-                calibrationValue.includes('calibration') || 
-                calibrationValue.includes('cal')) {
-                isCalibrationRow = true;
+
+        samples.push({
+            sampleId,
+            location,
+            surface,
+            surfaceType,
+            area,
+            result,
+            resultText,
+            threshold,
+            passed,
+        });
+    });
+
+    const failedSamples = samples.filter(sample => sample.passed === false).length;
+    const firstRow = rawData[0] || [];
+
+    return {
+        date: dateColIdx !== -1 ? formatDate(firstRow[dateColIdx]) : '',
+        address: addressColIdx !== -1 ? String(firstRow[addressColIdx] || '').trim() : '',
+        rawData,
+        headerRow,
+        headerRowIndex,
+        isPositive: failedSamples > 0,
+        totalReadings: samples.length,
+        positiveReadings: failedSamples,
+        samples,
+    };
+};
+
+// ==================== MAPPED CELLS ====================
+
+// Formatted text of a cell (dates for 'date' inputs as YYYY-MM-DDTHH:MM:SS), '' if empty
+const readMappedCell = (sheet: XLSX.WorkSheet, r: number, c: number, mapping: FieldMapping): string => {
+    const cell: XLSX.CellObject | undefined = sheet[XLSX.utils.encode_cell({ r, c })];
+    if (!cell || cell.v === undefined || cell.v === null || cell.v === '') return '';
+    if (mapping.inputType === 'date' && (cell.t === 'd' || (cell.t === 'n' && cell.z && XLSX.SSF.is_date(String(cell.z))))) {
+        return formatDate(cell.v as number | Date).replace(/T00:00:00$/, ''); // Date only unless it has a time
+    }
+    return String(cell.w ?? cell.v).trim();
+};
+
+/**
+ * Reads the values of the report's 'excel_cell' mappings from the sheet.
+ * excelColumn is a header name (matched case-insensitively in the first 10 rows, exact match first) or an upper-case
+ * column letter; excelRow is the 1-based sheet row. Without a row, the first non-empty cell below the header is used
+ * (for a column letter: below the sheet's first non-empty row).
+ * @returns Values keyed by pdfFieldId; cells that can't be found are left out
+ */
+export const extractMappedCells = (sheet: XLSX.WorkSheet, mappings: FieldMapping[]): Record<string, string> => {
+    const values: Record<string, string> = {};
+    const cellMappings = mappings.filter(m => m.source === 'excel_cell' && m.excelColumn?.trim());
+    if (cellMappings.length === 0 || !sheet['!ref']) return values;
+
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const headerScanEnd = Math.min(range.e.r, range.s.r + 9);
+    const isColumnLetter = (column: string) => /^[A-Z]{1,3}$/.test(column);
+
+    const rowHasValues = (r: number): boolean => {
+        for (let c = range.s.c; c <= range.e.c; c++) {
+            const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+            if (cell && cell.v !== undefined && cell.v !== '') return true;
+        }
+        return false;
+    };
+    let firstNonEmptyRow = range.s.r;
+    while (firstNonEmptyRow < range.e.r && !rowHasValues(firstNonEmptyRow)) {
+        firstNonEmptyRow++;
+    }
+
+    const findHeader = (name: string, exact: boolean): { r: number; c: number } | null => {
+        for (let r = range.s.r; r <= headerScanEnd; r++) {
+            for (let c = range.s.c; c <= range.e.c; c++) {
+                const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+                const text = cell ? String(cell.v).trim().toLowerCase() : '';
+                if (text && (exact ? text === name : text.includes(name))) {
+                    return { r, c };
+                }
             }
         }
+        return null;
+    };
+
+    cellMappings.forEach(mapping => {
+        const column = mapping.excelColumn!.trim();
+        const header = findHeader(column.toLowerCase(), true)
+            || (isColumnLetter(column) ? null : findHeader(column.toLowerCase(), false));
+
+        let c: number;
+        let firstRow: number;
+        if (header) {
+            c = header.c;
+            firstRow = header.r + 1;
+        } else if (isColumnLetter(column)) {
+            c = XLSX.utils.decode_col(column);
+            firstRow = firstNonEmptyRow + 1;
+        } else {
+            console.warn(`⚠️ Excel column "${column}" for field "${mapping.pdfFieldId}" not found in the sheet`);
+            return;
+        }
 
-        // Only count positive readings from non-calibration rows
-        if (!isCalibrationRow) {
-            // Check if the Pb P/F value is positive
-            const pbPfValue = String(dataRows[i][pbPfColIndex] || '').trim().toLowerCase();
-            
-            // Check if the value indicates positive
-            if (pbPfValue === 'positive' || 
-                pbPfValue === 'pos' || 
-                pbPfValue === 'p' || 
-                pbPfValue === '+' ||
-                pbPfValue === 'fail' ||
-                pbPfValue === 'f') {
-                positiveReadings++;
+        let value = '';
+        if (mapping.excelRow !== undefined) {
+            value = readMappedCell(sheet, mapping.excelRow - 1, c, mapping);
+        } else {
+            for (let r = firstRow; r <= range.e.r && !value; r++) {
+                value = readMappedCell(sheet, r, c, mapping);
             }
         }
-    }
 
-    return { totalReadings, positiveReadings };
+        if (value) {
+            values[mapping.pdfFieldId] = value;
+        } else {
+            console.warn(`⚠️ No value found in Excel column "${column}"${mapping.excelRow !== undefined ? ` row ${mapping.excelRow}` : ''} for field "${mapping.pdfFieldId}"`);
+        }
+    });
+
+    return values;
 };
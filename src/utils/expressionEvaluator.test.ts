@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression, expressionValueToText, validateExpression } from './expressionEvaluator';
+import type { ExpressionContext, ExpressionValue } from './expressionEvaluator';
+
+const contextWith = (references: Record<string, ExpressionValue> = {}): ExpressionContext => ({
+    resolveReference: name => references[name],
+    generalVariables: new Map([['Company', 'Acme Lead Testing']]),
+    inspectorVariables: new Map([['NJDOH', '12345']]),
+});
+
+const evaluateText = (expression: string, references?: Record<string, ExpressionValue>) =>
+    expressionValueToText(evaluateExpression(expression, contextWith(references)));
+
+describe('evaluateExpression', () => {
+    it('follows operator precedence', () => {
+        expect(evaluateExpression('1 + 2 * 3', contextWith())).toBe(7);
+        expect(evaluateExpression('(1 + 2) * 3', contextWith())).toBe(9);
+        expect(evaluateExpression('10 % 4 - -1', contextWith())).toBe(3);
+    });
+
+    it('adds numbers written as text, and concatenates other text', () => {
+        expect(evaluateExpression('count + 1', contextWith({ count: '5' }))).toBe(6);
+        expect(evaluateExpression('count * 2', contextWith({ count: '5' }))).toBe(10);
+        expect(evaluateExpression('count & 1', contextWith({ count: '5' }))).toBe('51');
+        expect(evaluateExpression('unit + 1', contextWith({ unit: 'Unit ' }))).toBe('Unit 1');
+    });
+
+    it('resolves references, with braces for names with spaces', () => {
+        expect(evaluateText('{Inspector name} & " (" & count & ")"', { 'Inspector name': 'Jo', count: 3 })).toBe('Jo (3)');
+        expect(evaluateExpression('missing', contextWith())).toBeNull();
+    });
+
+    it('evaluates conditions and only the branch taken', () => {
+        expect(evaluateText('isPositive ? "Not Lead Free" : "Lead Free"', { isPositive: false })).toBe('Lead Free');
+        expect(evaluateText('if(total > 0, "some", unknownFunctionFree)', { total: 2 })).toBe('some');
+        expect(evaluateExpression('"false" || 0', contextWith())).toBe(false);
+    });
+
+    it('reads variables case-insensitively', () => {
+        expect(evaluateText('general("company")')).toBe('Acme Lead Testing');
+        expect(evaluateText('inspector("njdoh")')).toBe('12345');
+        expect(evaluateExpression('general("nope")', contextWith())).toBeNull();
+    });
+
+    it('computes with dates', () => {
+        expect(evaluateText('formatDate(addYears(date("2024-03-07"), 2), "MM/DD/YYYY")')).toBe('03/07/2026');
+        expect(evaluateText('addDays(date("2024-02-28"), 2)')).toBe('2024-03-01');
+        expect(evaluateExpression('daysBetween("2024-03-01", "2024-04-01")', contextWith())).toBe(31);
+        expect(evaluateExpression('month("3/7/2024") + day("3/7/2024")', contextWith())).toBe(10);
+    });
+
+    it('keeps addMonths and addYears within the target month', () => {
+        expect(evaluateText('addMonths(date("2024-01-31"), 1)')).toBe('2024-02-29');
+        expect(evaluateText('addMonths(date("2023-01-31"), 1)')).toBe('2023-02-28');
+        expect(evaluateText('addMonths(date("2024-03-31"), -1)')).toBe('2024-02-29');
+        expect(evaluateText('addYears(date("2024-02-29"), 1)')).toBe('2025-02-28');
+        expect(evaluateText('addMonths(date("2024-01-15"), 13)')).toBe('2025-02-15');
+    });
+
+    it('rounds away floating point noise in text', () => {
+        expect(evaluateText('0.1 + 0.2')).toBe('0.3');
+        expect(evaluateText('round(2.345, 2)')).toBe('2.35');
+    });
+});
+
+describe('validateExpression', () => {
+    it('accepts valid expressions', () => {
+        expect(validateExpression('coalesce({A}, "none")')).toBeNull();
+    });
+
+    it('reports syntax errors', () => {
+        expect(validateExpression('1 +')).toMatch(/Unexpected end of expression/);
+        expect(validateExpression('(1')).toMatch(/Expected "\)"|Unexpected/);
+    });
+
+    it('rejects names that are not whitelisted functions', () => {
+        for (const name of ['eval', 'constructor', 'toString', 'valueOf', 'hasOwnProperty', '__proto__']) {
+            expect(validateExpression(`${name}(1)`)).toMatch(`Unknown function "${name}"`);
+        }
+    });
+});
@@ -0,0 +1,478 @@
+import { formatDateWithPattern, parseDateValue } from './dateFormat';
+
+/**
+ * Small sandboxed expression language used by 'calculation' field mappings.
+ *
+ * Expressions are tokenized and parsed into an AST and evaluated by walking it - nothing is
+ * ever passed to eval/Function, and only the whitelisted functions below can be called.
+ *
+ * Syntax:
+ * - Literals: 12, 1.5, "text", 'text', true, false, null
+ * - References: totalReadings, isPositive, Date, {Inspector name} (braces for names with spaces)
+ * - Operators: + - * / % (numbers), & (text concatenation), == != < <= > >=, && || !, cond ? a : b
+ *   `+` adds numbers, and text that is a number (form fields resolve to text); it concatenates anything else
+ * - Functions: if, coalesce, concat, upper, lower, trim, number, text, round, min, max, abs,
+ *   today, date, addDays, addMonths, addYears, daysBetween, year, month, day, formatDate,
+ *   general("name"), inspector("name")
+ *
+ * Example: isPositive ? "Not Lead Free" : "Lead Free"
+ * Example: formatDate(addYears({Today}, 2), "MM/DD/YYYY")
+ */
+
+export type ExpressionValue = string | number | boolean | Date | null;
+
+export interface ExpressionContext {
+    // Resolves a bare identifier or {field reference}; return undefined if unknown
+    resolveReference: (name: string) => ExpressionValue | undefined;
+    generalVariables?: Map<string, string>;
+    inspectorVariables?: Map<string, string>;
+}
+
+export class ExpressionError extends Error {
+    constructor(message: string, public expression: string) {
+        super(`${message} in expression "${expression}"`);
+        this.name = 'ExpressionError';
+    }
+}
+
+// Guards against pathological config (deeply nested or huge expressions)
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_DEPTH = 50;
+
+// ==================== TOKENIZER ====================
+
+type Token =
+    | { type: 'number'; value: number }
+    | { type: 'string'; value: string }
+    | { type: 'identifier'; value: string }
+    | { type: 'reference'; value: string }
+    | { type: 'operator'; value: string }
+    | { type: 'eof' };
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '+', '-', '*', '/', '%', '&', '<', '>', '!', '?', ':', '(', ')', ','];
+
+const tokenize = (expression: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+        const char = expression[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        // Numbers: 12, 1.5, .5
+        if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(expression[i + 1] || ''))) {
+            const match = expression.slice(i).match(/^(\d+\.?\d*|\.\d+)/)!;
+            tokens.push({ type: 'number', value: parseFloat(match[0]) });
+            i += match[0].length;
+            continue;
+        }
+
+        // Strings: "text" or 'text' (backslash escapes the next character)
+        if (char === '"' || char === "'") {
+            let value = '';
+            let j = i + 1;
+            while (j < expression.length && expression[j] !== char) {
+                if (expression[j] === '\\' && j + 1 < expression.length) {
+                    j++;
+                }
+                value += expression[j];
+                j++;
+            }
+            if (j >= expression.length) {
+                throw new ExpressionError('Unterminated string', expression);
+            }
+            tokens.push({ type: 'string', value });
+            i = j + 1;
+            continue;
+        }
+
+        // Field references with spaces: {Inspector name}
+        if (char === '{') {
+            const end = expression.indexOf('}', i);
+            if (end === -1) {
+                throw new ExpressionError('Unterminated field reference', expression);
+            }
+            tokens.push({ type: 'reference', value: expression.slice(i + 1, end) });
+            i = end + 1;
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(char)) {
+            const match = expression.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+            tokens.push({ type: 'identifier', value: match[0] });
+            i += match[0].length;
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => expression.startsWith(op, i));
+        if (operator) {
+            tokens.push({ type: 'operator', value: operator });
+            i += operator.length;
+            continue;
+        }
+
+        throw new ExpressionError(`Unexpected character "${char}"`, expression);
+    }
+
+    tokens.push({ type: 'eof' });
+    return tokens;
+};
+
+// ==================== PARSER ====================
+
+type Node =
+    | { kind: 'literal'; value: ExpressionValue }
+    | { kind: 'reference'; name: string }
+    | { kind: 'unary'; operator: string; operand: Node }
+    | { kind: 'binary'; operator: string; left: Node; right: Node }
+    | { kind: 'conditional'; test: Node; consequent: Node; alternate: Node }
+    | { kind: 'call'; name: string; args: Node[] };
+
+// Binary operator precedence (higher binds tighter)
+const PRECEDENCE: Record<string, number> = {
+    '||': 1,
+    '&&': 2,
+    '==': 3, '!=': 3,
+    '<': 4, '<=': 4, '>': 4, '>=': 4,
+    '&': 5,
+    '+': 6, '-': 6,
+    '*': 7, '/': 7, '%': 7,
+};
+
+const parse = (expression: string): Node => {
+    const tokens = tokenize(expression);
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const isOperator = (value: string) => {
+        const token = peek();
+        return token.type === 'operator' && token.value === value;
+    };
+    const expect = (value: string) => {
+        if (!isOperator(value)) {
+            throw new ExpressionError(`Expected "${value}"`, expression);
+        }
+        position++;
+    };
+
+    const parseConditional = (depth: number): Node => {
+        if (depth > MAX_DEPTH) {
+            throw new ExpressionError('Expression is nested too deeply', expression);
+        }
+        const test = parseBinary(0, depth);
+        if (isOperator('?')) {
+            position++;
+            const consequent = parseConditional(depth + 1);
+            expect(':');
+            const alternate = parseConditional(depth + 1);
+            return { kind: 'conditional', test, consequent, alternate };
+        }
+        return test;
+    };
+
+    const parseBinary = (minPrecedence: number, depth: number): Node => {
+        let left = parseUnary(depth);
+        while (true) {
+            const token = peek();
+            if (token.type !== 'operator' || PRECEDENCE[token.value] === undefined) break;
+            const precedence = PRECEDENCE[token.value];
+            if (precedence <= minPrecedence) break;
+            position++;
+            const right = parseBinary(precedence, depth + 1);
+            left = { kind: 'binary', operator: token.value, left, right };
+        }
+        return left;
+    };
+
+    const parseUnary = (depth: number): Node => {
+        if (isOperator('!') || isOperator('-')) {
+            const operator = (peek() as { value: string }).value;
+            position++;
+            return { kind: 'unary', operator, operand: parseUnary(depth + 1) };
+        }
+        return parsePrimary(depth);
+    };
+
+    const parsePrimary = (depth: number): Node => {
+        const token = peek();
+        position++;
+
+        switch (token.type) {
+            case 'number':
+            case 'string':
+                return { kind: 'literal', value: token.value };
+            case 'reference':
+                return { kind: 'reference', name: token.value };
+            case 'identifier': {
+                if (token.value === 'true') return { kind: 'literal', value: true };
+                if (token.value === 'false') return { kind: 'literal', value: false };
+                if (token.value === 'null') return { kind: 'literal', value: null };
+
+                if (isOperator('(')) {
+                    position++;
+                    const args: Node[] = [];
+                    if (!isOperator(')')) {
+                        args.push(parseConditional(depth + 1));
+                        while (isOperator(',')) {
+                            position++;
+                            args.push(parseConditional(depth + 1));
+                        }
+                    }
+                    expect(')');
+                    if (!isKnownFunction(token.value)) {
+                        throw new ExpressionError(`Unknown function "${token.value}"`, expression);
+                    }
+                    return { kind: 'call', name: token.value, args };
+                }
+                return { kind: 'reference', name: token.value };
+            }
+            case 'operator':
+                if (token.value === '(') {
+                    const inner = parseConditional(depth + 1);
+                    expect(')');
+                    return inner;
+                }
+                throw new ExpressionError(`Unexpected "${token.value}"`, expression);
+            default:
+                throw new ExpressionError('Unexpected end of expression', expression);
+        }
+    };
+
+    const ast = parseConditional(0);
+    if (peek().type !== 'eof') {
+        throw new ExpressionError('Unexpected trailing input', expression);
+    }
+    return ast;
+};
+
+// ==================== VALUE HELPERS ====================
+
+export const isExpressionTruthy = (value: ExpressionValue): boolean => {
+    if (value instanceof Date) return true;
+    if (typeof value === 'number') return value !== 0 && !isNaN(value);
+    if (typeof value === 'string') return value.trim() !== '' && value.trim().toLowerCase() !== 'false';
+    return !!value;
+};
+
+const toNumber = (value: ExpressionValue): number => {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value instanceof Date) return value.getTime();
+    if (value === null || String(value).trim() === '') return 0;
+    return parseFloat(String(value).replace(/,/g, ''));
+};
+
+const toDate = (value: ExpressionValue): Date | null => {
+    if (value instanceof Date) return value;
+    if (value === null || value === '' || typeof value === 'boolean') return null;
+    return parseDateValue(value);
+};
+
+/**
+ * Converts an evaluated value to text. Dates become YYYY-MM-DD (the format used by date inputs).
+ */
+export const expressionValueToText = (value: ExpressionValue | undefined): string => {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return formatDateWithPattern(value, 'YYYY-MM-DD');
+    if (typeof value === 'number') {
+        if (isNaN(value)) return '';
+        // Avoid floating point noise such as 0.30000000000000004
+        return String(Math.round(value * 1e9) / 1e9);
+    }
+    return String(value);
+};
+
+const isNumeric = (value: ExpressionValue): boolean =>
+    typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+
+const compare = (left: ExpressionValue, right: ExpressionValue): number => {
+    if (left instanceof Date || right instanceof Date) {
+        const leftDate = toDate(left);
+        const rightDate = toDate(right);
+        if (leftDate && rightDate) return leftDate.getTime() - rightDate.getTime();
+    }
+    if (isNumeric(left) && isNumeric(right)) {
+        return toNumber(left) - toNumber(right);
+    }
+    return expressionValueToText(left).localeCompare(expressionValueToText(right));
+};
+
+const shiftDate = (value: ExpressionValue, days: number, months: number, years: number): Date | null => {
+    const date = toDate(value);
+    if (!date) return null;
+    const shifted = new Date(date.getTime());
+    if (months !== 0 || years !== 0) {
+        // Keep the day within the target month (Jan 31 + 1 month is Feb 28/29, not Mar 2/3)
+        const day = shifted.getDate();
+        shifted.setFullYear(shifted.getFullYear() + years, shifted.getMonth() + months, 1);
+        const lastDay = new Date(shifted.getFullYear(), shifted.getMonth() + 1, 0).getDate();
+        shifted.setDate(Math.min(day, lastDay));
+    }
+    shifted.setDate(shifted.getDate() + days);
+    return shifted;
+};
+
+const lookupVariable = (variables: Map<string, string> | undefined, name: ExpressionValue): string | null => {
+    if (!variables) return null;
+    const key = expressionValueToText(name).toLowerCase();
+    for (const [varName, varValue] of variables.entries()) {
+        if (varName.toLowerCase() === key) return varValue;
+    }
+    return null;
+};
+
+// ==================== FUNCTIONS ====================
+
+type ExpressionFunction = (args: ExpressionValue[], context: ExpressionContext) => ExpressionValue;
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+    // `if` is evaluated lazily in evaluateNode; this entry only marks it as known
+    if: args => (isExpressionTruthy(args[0]) ? args[1] : args[2] ?? null),
+    coalesce: args => args.find(arg => arg !== null && arg !== '') ?? null,
+    concat: args => args.map(expressionValueToText).join(''),
+    upper: args => expressionValueToText(args[0]).toUpperCase(),
+    lower: args => expressionValueToText(args[0]).toLowerCase(),
+    trim: args => expressionValueToText(args[0]).trim(),
+    number: args => toNumber(args[0]),
+    text: args => expressionValueToText(args[0]),
+    round: args => {
+        const factor = Math.pow(10, args.length > 1 ? toNumber(args[1]) : 0);
+        return Math.round(toNumber(args[0]) * factor) / factor;
+    },
+    min: args => Math.min(...args.map(toNumber)),
+    max: args => Math.max(...args.map(toNumber)),
+    abs: args => Math.abs(toNumber(args[0])),
+    today: () => {
+        const now = new Date();
+        return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    },
+    date: args => toDate(args[0]),
+    addDays: args => shiftDate(args[0], toNumber(args[1]), 0, 0),
+    addMonths: args => shiftDate(args[0], 0, toNumber(args[1]), 0),
+    addYears: args => shiftDate(args[0], 0, 0, toNumber(args[1])),
+    daysBetween: args => {
+        const start = toDate(args[0]);
+        const end = toDate(args[1]);
+        if (!start || !end) return null;
+        // Compare calendar days so daylight-saving changes do not produce fractions
+        const startDay = Date.UTC(start.getFullYear(), start.getMonth(), start.getDate());
+        const endDay = Date.UTC(end.getFullYear(), end.getMonth(), end.getDate());
+        return Math.round((endDay - startDay) / 86400000);
+    },
+    year: args => toDate(args[0])?.getFullYear() ?? null,
+    month: args => {
+        const date = toDate(args[0]);
+        return date ? date.getMonth() + 1 : null;
+    },
+    day: args => toDate(args[0])?.getDate() ?? null,
+    formatDate: args => {
+        const date = toDate(args[0]);
+        return date ? formatDateWithPattern(date, expressionValueToText(args[1]) || 'M/D/YYYY') : '';
+    },
+    general: (args, context) => lookupVariable(context.generalVariables, args[0]),
+    inspector: (args, context) => lookupVariable(context.inspectorVariables, args[0]),
+};
+
+// Own entries only, so names such as "constructor" or "toString" are not taken for functions
+const isKnownFunction = (name: string): boolean => Object.prototype.hasOwnProperty.call(FUNCTIONS, name);
+
+// ==================== EVALUATOR ====================
+
+const evaluateNode = (node: Node, context: ExpressionContext): ExpressionValue => {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+        case 'reference': {
+            const value = context.resolveReference(node.name);
+            return value === undefined ? null : value;
+        }
+        case 'unary': {
+            const operand = evaluateNode(node.operand, context);
+            return node.operator === '!' ? !isExpressionTruthy(operand) : -toNumber(operand);
+        }
+        case 'conditional':
+            return isExpressionTruthy(evaluateNode(node.test, context))
+                ? evaluateNode(node.consequent, context)
+                : evaluateNode(node.alternate, context);
+        case 'call': {
+            // Only evaluate the branch that is taken
+            if (node.name === 'if') {
+                return isExpressionTruthy(evaluateNode(node.args[0], context))
+                    ? (node.args[1] ? evaluateNode(node.args[1], context) : null)
+                    : (node.args[2] ? evaluateNode(node.args[2], context) : null);
+            }
+            const args = node.args.map(arg => evaluateNode(arg, context));
+            return FUNCTIONS[node.name](args, context);
+        }
+        case 'binary': {
+            // Short-circuit logical operators
+            if (node.operator === '&&') {
+                const left = evaluateNode(node.left, context);
+                return isExpressionTruthy(left) ? isExpressionTruthy(evaluateNode(node.right, context)) : false;
+            }
+            if (node.operator === '||') {
+                const left = evaluateNode(node.left, context);
+                return isExpressionTruthy(left) ? true : isExpressionTruthy(evaluateNode(node.right, context));
+            }
+
+            const left = evaluateNode(node.left, context);
+            const right = evaluateNode(node.right, context);
+            switch (node.operator) {
+                case '+':
+                    if (isNumeric(left) && isNumeric(right)) return toNumber(left) + toNumber(right);
+                    return expressionValueToText(left) + expressionValueToText(right);
+                case '&': return expressionValueToText(left) + expressionValueToText(right);
+                case '-': return toNumber(left) - toNumber(right);
+                case '*': return toNumber(left) * toNumber(right);
+                case '/': return toNumber(right) === 0 ? null : toNumber(left) / toNumber(right);
+                case '%': return toNumber(right) === 0 ? null : toNumber(left) % toNumber(right);
+                case '==': return compare(left, right) === 0;
+                case '!=': return compare(left, right) !== 0;
+                case '<': return compare(left, right) < 0;
+                case '<=': return compare(left, right) <= 0;
+                case '>': return compare(left, right) > 0;
+                case '>=': return compare(left, right) >= 0;
+                default: return null;
+            }
+        }
+    }
+};
+
+// Parsed expressions are cached since the same config expressions are evaluated on every render
+const astCache = new Map<string, Node>();
+
+/**
+ * Parses and evaluates an expression.
+ * @param expression - Expression source from the report config
+ * @param context - Reference and variable lookups
+ * @returns The evaluated value
+ * @throws ExpressionError if the expression is invalid
+ */
+export const evaluateExpression = (expression: string, context: ExpressionContext): ExpressionValue => {
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+        throw new ExpressionError('Expression is too long', expression.slice(0, 50) + '...');
+    }
+    let ast = astCache.get(expression);
+    if (!ast) {
+        ast = parse(expression);
+        astCache.set(expression, ast);
+    }
+    return evaluateNode(ast, context);
+};
+
+/**
+ * Checks that an expression parses without evaluating it.
+ * @returns An error message, or null if the expression is valid
+ */
+export const validateExpression = (expression: string): string | null => {
+    try {
+        parse(expression);
+        return null;
+    } catch (err: any) {
+        return err.message || String(err);
+    }
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import type { FieldMapping } from '../types/reportStructure';
+import {
+    evaluateFieldCondition,
+    evaluateFieldExpression,
+    findFallbackVariable,
+    findVariableForField,
+    resolveFieldValue,
+} from './fieldResolver';
+
+const mappings: FieldMapping[] = [
+    { pdfFieldId: 'Date', source: 'user_input', inputType: 'date' },
+    { pdfFieldId: 'Report Date', source: 'derived', derive: { type: 'copy', from: 'Date' }, dateFormat: 'MM/DD/YYYY' },
+    { pdfFieldId: 'Month', source: 'derived', derive: { type: 'date_part', from: 'Date', part: 'month' } },
+    { pdfFieldId: 'Street', source: 'user_input' },
+    { pdfFieldId: 'City', source: 'user_input' },
+    { pdfFieldId: 'Address', source: 'derived', derive: { type: 'concat', from: ['Street', 'Unit', 'City'], separator: ', ' } },
+    { pdfFieldId: 'Company', source: 'variable', variableScope: 'general', variableName: 'company name' },
+    { pdfFieldId: 'Result', source: 'calculation', expression: 'positives > 0 ? "Positive" : "Negative"' },
+    { pdfFieldId: 'Count', source: 'user_input' },
+    { pdfFieldId: 'Count Plus One', source: 'calculation', expression: '{Count} + 1' },
+    { pdfFieldId: 'Count Doubled', source: 'calculation', expression: '{Count} * 2' },
+    { pdfFieldId: 'Loop A', source: 'derived', derive: { type: 'copy', from: 'Loop B' } },
+    { pdfFieldId: 'Loop B', source: 'derived', derive: { type: 'copy', from: 'Loop A' } },
+];
+
+const data = {
+    Date: '2024-03-07',
+    Street: '12 Main St',
+    City: 'Newark',
+    positives: 2,
+};
+
+const context = {
+    generalVariables: new Map([['Company Name', 'Acme Lead Testing'], ['TO', 'Someone else']]),
+    inspectorVariables: new Map([['License', 'L-1']]),
+};
+
+const resolve = (fieldId: string, values: Record<string, any> = data) =>
+    resolveFieldValue(mappings.find(m => m.pdfFieldId === fieldId)!, values, mappings, context);
+
+describe('resolveFieldValue', () => {
+    it('formats date inputs and copies of them', () => {
+        expect(resolve('Date')).toBe('3/7/2024');
+        expect(resolve('Report Date')).toBe('03/07/2024');
+    });
+
+    it('derives date parts and concatenations, skipping empty values', () => {
+        expect(resolve('Month')).toBe('3');
+        expect(resolve('Address')).toBe('12 Main St, Newark');
+    });
+
+    it('reads variables by exact name', () => {
+        expect(resolve('Company')).toBe('Acme Lead Testing');
+    });
+
+    it('evaluates calculations against the data', () => {
+        expect(resolve('Result')).toBe('Positive');
+        expect(resolve('Result', { ...data, positives: 0 })).toBe('Negative');
+    });
+
+    it('computes with mapped fields holding numbers as text', () => {
+        expect(resolve('Count Plus One', { ...data, Count: '5' })).toBe('6');
+        expect(resolve('Count Doubled', { ...data, Count: '5' })).toBe('10');
+    });
+
+    it('stops at circular references', () => {
+        expect(resolve('Loop A')).toBe('');
+    });
+});
+
+describe('evaluateFieldExpression', () => {
+    it('references other fields by id', () => {
+        expect(evaluateFieldExpression('{Report Date} & " / " & Result', data, mappings, context)).toBe('2024-03-07 / Positive');
+    });
+
+    it('does not resolve names inherited from Object.prototype', () => {
+        expect(evaluateFieldExpression('constructor', data, mappings, context)).toBe('');
+        expect(evaluateFieldExpression('coalesce(toString, "none")', data, mappings, context)).toBe('none');
+    });
+
+    it('resolves invalid expressions to an empty value', () => {
+        expect(evaluateFieldExpression('1 +', data, mappings, context)).toBe('');
+    });
+});
+
+describe('evaluateFieldCondition', () => {
+    it('evaluates conditions, invalid ones as false', () => {
+        expect(evaluateFieldCondition('positives > 1', data, mappings, context)).toBe(true);
+        expect(evaluateFieldCondition('__proto__(1)', data, mappings, context)).toBe(false);
+    });
+});
+
+describe('findVariableForField', () => {
+    it('matches field names to variable names', () => {
+        expect(findVariableForField('license', context)).toBe('L-1');
+        expect(findVariableForField('Company Name', context)).toBe('Acme Lead Testing');
+        expect(findVariableForField('Unknown', context)).toBe('');
+    });
+});
+
+describe('findFallbackVariable', () => {
+    it('falls back to the variable named like the field, or like the field a copy copies', () => {
+        expect(findFallbackVariable({ pdfFieldId: 'License', source: 'user_input' }, context)).toBe('L-1');
+        expect(findFallbackVariable({ pdfFieldId: 'Contractor', source: 'derived', derive: { type: 'copy', from: 'company name' } }, context))
+            .toBe('Acme Lead Testing');
+    });
+
+    it('gives date parts and concatenations no fallback', () => {
+        // "TO" is a variable too, and a short name like it is contained in many others
+        expect(findFallbackVariable({ pdfFieldId: 'TO', source: 'derived', derive: { type: 'date_part', from: 'End', part: 'month' } }, context))
+            .toBe('');
+        expect(findFallbackVariable({ pdfFieldId: 'License', source: 'derived', derive: { type: 'concat', from: ['A', 'B'] } }, context))
+            .toBe('');
+    });
+});
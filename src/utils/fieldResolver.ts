@@ -0,0 +1,227 @@
+import type { FieldMapping } from '../types/reportStructure';
+import { formatDateForPDF, formatDateWithPattern, parseDateValue } from './dateFormat';
+import { evaluateExpression, expressionValueToText, isExpressionTruthy } from './expressionEvaluator';
+import type { ExpressionValue } from './expressionEvaluator';
+
+// Variables available to 'variable' mappings and to 'calculation' expressions through general("...") and inspector("...")
+export interface FieldResolutionContext {
+    generalVariables?: Map<string, string>;
+    inspectorVariables?: Map<string, string>;
+}
+
+/**
+ * Resolves the text value for a mapping before it is written into the PDF.
+ * Handles user input, Excel cells, static values, variables, derivations from other fields and calculations, and applies
+ * date formatting to date inputs (and fields copied from them).
+ * @param mapping - The mapping to resolve
+ * @param data - Confirmed form data keyed by pdfFieldId
+ * @param mappings - All mappings of the report (used to look up derivation sources)
+ * @param context - Variables for calculation expressions
+ * @returns The formatted value, or '' if nothing could be resolved
+ */
+export const resolveFieldValue = (
+    mapping: FieldMapping,
+    data: Record<string, any>,
+    mappings: FieldMapping[],
+    context: FieldResolutionContext = {}
+): string => {
+    const raw = resolveRawValue(mapping, data, mappings, context, new Set());
+    if (raw === '') return '';
+
+    if (isDateMapping(mapping, mappings)) {
+        return mapping.dateFormat
+            ? formatDateWithPattern(raw, mapping.dateFormat)
+            : formatDateForPDF(raw);
+    }
+    return raw;
+};
+
+/**
+ * Evaluates an expression against the report data, e.g. the default value of a user input.
+ * Invalid expressions are logged and resolve to ''.
+ * @param expression - Expression source from the report config
+ * @param data - Form data keyed by pdfFieldId (plus Excel-derived values like totalReadings)
+ * @param mappings - All mappings of the report (so other calculated/derived fields can be referenced)
+ * @param context - Variables for general("...") and inspector("...")
+ * @returns The value as text (dates as YYYY-MM-DD)
+ */
+export const evaluateFieldExpression = (
+    expression: string,
+    data: Record<string, any>,
+    mappings: FieldMapping[],
+    context: FieldResolutionContext = {}
+): string => {
+    return expressionValueToText(evaluateWithReferences(expression, data, mappings, context, new Set()));
+};
+
+/**
+ * Evaluates a condition (e.g. a page layout `when`) against the report data.
+ * Invalid expressions are logged and treated as false.
+ * @returns Whether the condition holds
+ */
+export const evaluateFieldCondition = (
+    expression: string,
+    data: Record<string, any>,
+    mappings: FieldMapping[],
+    context: FieldResolutionContext = {}
+): boolean => {
+    return isExpressionTruthy(evaluateWithReferences(expression, data, mappings, context, new Set()));
+};
+
+/**
+ * Finds the variable whose name matches a field name (equal, or one containing the other).
+ * General variables are checked first, then the inspector's. Used for fields that have no value of their own.
+ * @returns The variable value, or '' if no variable matches
+ */
+export const findVariableForField = (fieldId: string, context: FieldResolutionContext): string => {
+    const fieldName = fieldId.toLowerCase();
+    for (const variables of [context.generalVariables, context.inspectorVariables]) {
+        if (!variables) continue;
+        const match = Array.from(variables.entries()).find(([varName]) => {
+            const varNameLower = varName.toLowerCase();
+            return fieldName === varNameLower ||
+                fieldName.includes(varNameLower) ||
+                varNameLower.includes(fieldName);
+        });
+        if (match?.[1]) return match[1];
+    }
+    return '';
+};
+
+// A value of the form data itself, not one inherited from Object.prototype (e.g. for a reference to "constructor")
+const ownValue = (data: Record<string, any>, name: string): any =>
+    Object.prototype.hasOwnProperty.call(data, name) ? data[name] : undefined;
+
+/**
+ * The variable a field without a value of its own falls back to, matched by name (see findVariableForField).
+ * A copy tries the name of the field it copies. Other derived fields (date parts, concatenations) get their value from
+ * their sources only: their names, often short box labels such as "TO" or "Month", would match unrelated variables.
+ * @returns The variable value, or '' if there is none
+ */
+export const findFallbackVariable = (mapping: FieldMapping, context: FieldResolutionContext): string => {
+    if (mapping.source !== 'derived') return findVariableForField(mapping.pdfFieldId, context);
+    if (mapping.derive?.type !== 'copy') return '';
+    return findVariableForField(mapping.derive.from, context) || findVariableForField(mapping.pdfFieldId, context);
+};
+
+const evaluateWithReferences = (
+    expression: string,
+    data: Record<string, any>,
+    mappings: FieldMapping[],
+    context: FieldResolutionContext,
+    visited: Set<string>
+): ExpressionValue => {
+    try {
+        return evaluateExpression(expression, {
+            resolveReference: (name: string): ExpressionValue | undefined => {
+                const source = mappings.find(m => m.pdfFieldId === name);
+                if (source) {
+                    return resolveRawValue(source, data, mappings, context, new Set(visited));
+                }
+                const value = ownValue(data, name);
+                if (value === undefined || value === null) return undefined;
+                return typeof value === 'object' && !(value instanceof Date) ? String(value) : value;
+            },
+            generalVariables: context.generalVariables,
+            inspectorVariables: context.inspectorVariables,
+        });
+    } catch (err: any) {
+        console.warn(`⚠️ Could not evaluate expression: ${err.message || err}`);
+        return null;
+    }
+};
+
+// Returns the unformatted value of a field, following derivations and calculations recursively
+const resolveRawValue = (
+    mapping: FieldMapping,
+    data: Record<string, any>,
+    mappings: FieldMapping[],
+    context: FieldResolutionContext,
+    visited: Set<string>
+): string => {
+    if (visited.has(mapping.pdfFieldId)) {
+        console.warn(`⚠️ Circular field reference detected at field "${mapping.pdfFieldId}"`);
+        return '';
+    }
+    visited.add(mapping.pdfFieldId);
+
+    switch (mapping.source) {
+        case 'user_input':
+            return toText(data[mapping.pdfFieldId]);
+        case 'excel_cell':
+            // Read from the sheet on upload and kept in the form data under the field's id
+            return toText(data[mapping.pdfFieldId]);
+        case 'static':
+            return mapping.staticValue || '';
+        case 'variable':
+            return findVariable(mapping, context);
+        case 'derived':
+            return mapping.derive ? resolveDerivation(mapping, data, mappings, context, visited) : '';
+        case 'calculation':
+            return mapping.expression
+                ? expressionValueToText(evaluateWithReferences(mapping.expression, data, mappings, context, visited))
+                : '';
+        default:
+            return '';
+    }
+};
+
+const resolveDerivation = (
+    mapping: FieldMapping,
+    data: Record<string, any>,
+    mappings: FieldMapping[],
+    context: FieldResolutionContext,
+    visited: Set<string>
+): string => {
+    const derive = mapping.derive!;
+    // Each source gets its own copy of visited so the same field can be referenced twice (e.g. in a concat)
+    const valueOf = (fieldId: string) => {
+        const source = mappings.find(m => m.pdfFieldId === fieldId);
+        return source
+            ? resolveRawValue(source, data, mappings, context, new Set(visited))
+            : toText(ownValue(data, fieldId));
+    };
+
+    switch (derive.type) {
+        case 'copy':
+            return valueOf(derive.from);
+        case 'date_part': {
+            const dateObj = parseDateValue(valueOf(derive.from));
+            if (!dateObj) return '';
+            if (derive.part === 'month') return String(dateObj.getMonth() + 1);
+            if (derive.part === 'day') return String(dateObj.getDate());
+            return String(dateObj.getFullYear());
+        }
+        case 'concat':
+            return derive.from
+                .map(valueOf)
+                .filter(value => value.trim() !== '')
+                .join(derive.separator ?? ' ');
+        default:
+            return '';
+    }
+};
+
+const findVariable = (mapping: FieldMapping, context: FieldResolutionContext): string => {
+    const variables = mapping.variableScope === 'inspector' ? context.inspectorVariables : context.generalVariables;
+    const name = mapping.variableName?.trim().toLowerCase();
+    if (!variables || !name) return '';
+    const match = Array.from(variables.entries()).find(([varName]) => varName.trim().toLowerCase() === name);
+    return match?.[1] || '';
+};
+
+// A field is treated as a date if it is a date input or a copy of one
+const isDateMapping = (mapping: FieldMapping, mappings: FieldMapping[], depth = 0): boolean => {
+    const derive = mapping.source === 'derived' ? mapping.derive : undefined;
+    if (derive?.type === 'date_part') return false;
+    if (mapping.inputType === 'date' || mapping.dateFormat) return true;
+    if (derive?.type !== 'copy' || depth > 10) return false;
+
+    const source = mappings.find(m => m.pdfFieldId === derive.from);
+    return !!source && isDateMapping(source, mappings, depth + 1);
+};
+
+const toText = (value: any): string => {
+    if (value === undefined || value === null) return '';
+    return String(value);
+};
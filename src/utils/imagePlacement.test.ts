@@ -0,0 +1,114 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { PDFDocument } from 'pdf-lib';
+import type { PDFImage } from 'pdf-lib';
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { Document } from '../types/documents';
+import type { ImageMapping } from '../types/reportStructure';
+import { findImageDocument, prepareImageDraws, resolveImageDraw } from './imagePlacement';
+
+// 295 x 126
+const logoBytes = readFileSync(join(__dirname, '../../public/aaaleadlogo.png'));
+
+const createDocument = (id: string, documentType: string): Document => ({
+    id,
+    fileName: `${id}.png`,
+    file: new Blob([logoBytes], { type: 'image/png' }),
+    uploadedAt: new Date(2025, 0, 1),
+    category: 'inspector',
+    documentType,
+});
+
+// A page with a 100 x 50 "Inspector sig" field at (10, 20), and a second widget of it on another page
+const createTemplate = async (): Promise<PDFDocument> => {
+    const pdfDoc = await PDFDocument.create();
+    const first = pdfDoc.addPage([600, 800]);
+    const second = pdfDoc.addPage([600, 800]);
+    const field = pdfDoc.getForm().createTextField('Inspector sig');
+    field.addToPage(first, { x: 10, y: 20, width: 100, height: 50, borderWidth: 0 });
+    field.addToPage(second, { x: 300, y: 400, width: 200, height: 100, borderWidth: 0 });
+    return pdfDoc;
+};
+
+describe('resolveImageDraw', () => {
+    let pdfDoc: PDFDocument;
+    let logo: PDFImage;
+    beforeAll(async () => {
+        pdfDoc = await createTemplate();
+        logo = await pdfDoc.embedPng(logoBytes);
+    });
+
+    const resolve = (mapping: Partial<ImageMapping>) =>
+        resolveImageDraw(pdfDoc, { document: 'signature', anchorField: 'Inspector sig', ...mapping }, logo)!;
+
+    it('contains the image in the widget by default, centred', () => {
+        const draw = resolve({});
+        const height = 126 * (100 / 295);
+        expect(draw.page).toBe(pdfDoc.getPage(0));
+        expect(draw.width).toBeCloseTo(100);
+        expect(draw.height).toBeCloseTo(height);
+        expect(draw.x).toBeCloseTo(10);
+        expect(draw.y).toBeCloseTo(20 + (50 - height) / 2);
+    });
+
+    it('only scales an image up when upscaling is allowed', () => {
+        const box = { width: 600, height: 300 };
+        expect(resolve({ offset: box })).toMatchObject({ width: 295, height: 126 });
+
+        const upscaled = resolve({ offset: box, allowUpscale: true });
+        expect(upscaled.width).toBeCloseTo(600);
+        expect(upscaled.height).toBeCloseTo(126 * (600 / 295));
+    });
+
+    it('stretches the image with fill and keeps its size with none', () => {
+        expect(resolve({ fit: 'fill' })).toMatchObject({ x: 10, y: 20, width: 100, height: 50 });
+        expect(resolve({ fit: 'none' })).toMatchObject({ x: 10 + (100 - 295) / 2, y: 20 + (50 - 126) / 2, width: 295, height: 126 });
+    });
+
+    it('aligns the image in the rectangle', () => {
+        const size = { fit: 'none' as const, scale: 0.2 };
+        expect(resolve({ ...size, align: 'left' }).x).toBeCloseTo(10);
+        expect(resolve({ ...size, align: 'center' }).x).toBeCloseTo(10 + (100 - 59) / 2);
+        expect(resolve({ ...size, align: 'right' }).x).toBeCloseTo(110 - 59);
+    });
+
+    it('shifts and resizes the rectangle, and pads the white background around the image', () => {
+        const draw = resolve({ fit: 'fill', offset: { x: 5, y: -5, height: 30 }, whiteBackground: { paddingX: 2, paddingY: 1 } });
+        expect(draw).toMatchObject({ x: 15, y: 15, width: 100, height: 30 });
+        expect(draw.background).toEqual({ x: 13, y: 14, width: 104, height: 32 });
+    });
+
+    it('uses the widget given by widgetIndex, and nothing for a missing anchor', () => {
+        const draw = resolve({ fit: 'fill', widgetIndex: 1 });
+        expect(draw.page).toBe(pdfDoc.getPage(1));
+        expect(draw).toMatchObject({ x: 300, y: 400, width: 200, height: 100 });
+        expect(resolve({ widgetIndex: 2 })).toBeNull();
+        expect(resolve({ anchorField: 'Missing' })).toBeNull();
+    });
+});
+
+describe('findImageDocument', () => {
+    const signature = createDocument('signature', 'Inspector Signature');
+    const stamp = createDocument('stamp', 'Company Stamp');
+
+    it('matches the document type by substring, in the inspector or the general documents', () => {
+        const general = new Map([['Company Stamp', stamp]]);
+        expect(findImageDocument({ document: 'signature', anchorField: 'x' }, [stamp, signature], general)).toBe(signature);
+        expect(findImageDocument({ document: 'STAMP', anchorField: 'x', documentCategory: 'general' }, [], general)).toBe(stamp);
+        expect(findImageDocument({ document: 'signature', anchorField: 'x', documentCategory: 'general' }, [signature], general)).toBeUndefined();
+    });
+});
+
+describe('prepareImageDraws', () => {
+    it('embeds each document once and skips mappings without a document', async () => {
+        const pdfDoc = await createTemplate();
+        const draws = await prepareImageDraws(pdfDoc, [
+            { document: 'signature', anchorField: 'Inspector sig' },
+            { document: 'signature', anchorField: 'Inspector sig', widgetIndex: 1 },
+            { document: 'stamp', anchorField: 'Inspector sig' },
+        ], [createDocument('signature', 'Signature')]);
+
+        expect(draws.map(draw => draw.page)).toEqual([pdfDoc.getPage(0), pdfDoc.getPage(1)]);
+        expect(draws[0].image).toBe(draws[1].image);
+    });
+});
@@ -0,0 +1,205 @@
+import { PDFDocument, rgb } from 'pdf-lib';
+import type { PDFImage, PDFPage } from 'pdf-lib';
+import type { ImageMapping } from '../types/reportStructure';
+import type { Document } from '../types/documents';
+import { findFieldPlacements } from './templateFields';
+
+// An image ready to be drawn, resolved from an ImageMapping
+export interface ImageDraw {
+    page: PDFPage;
+    image: PDFImage;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    background?: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Embeds an uploaded image document (PNG or JPEG) in the PDF.
+ * The format is taken from the file name / MIME type, falling back to trying both.
+ * @param pdfDoc - Document to embed into
+ * @param document - Document with its file loaded
+ * @returns The embedded image
+ * @throws Error if the file is missing, empty or not a supported image
+ */
+export const embedDocumentImage = async (pdfDoc: PDFDocument, document: Document): Promise<PDFImage> => {
+    const file = document.file;
+    if (!file || file.size === 0) {
+        throw new Error(`Image file "${document.fileName}" is empty or invalid (size: ${file?.size || 0} bytes). File path: ${document.filePath || 'N/A'}`);
+    }
+
+    const arrayBuffer = await file.arrayBuffer();
+    // Check minimum size for valid image (at least 8 bytes for header)
+    if (!arrayBuffer || arrayBuffer.byteLength < 8) {
+        throw new Error(`Image file "${document.fileName}" is too small to be a valid image`);
+    }
+
+    const fileName = document.fileName?.toLowerCase() || '';
+    const isPngFile = fileName.endsWith('.png') || file.type === 'image/png';
+    const isJpegFile = fileName.endsWith('.jpg') || fileName.endsWith('.jpeg') ||
+                       file.type === 'image/jpeg' || file.type === 'image/jpg';
+
+    const attempts = isJpegFile && !isPngFile
+        ? [() => pdfDoc.embedJpg(arrayBuffer), () => pdfDoc.embedPng(arrayBuffer)]
+        : [() => pdfDoc.embedPng(arrayBuffer), () => pdfDoc.embedJpg(arrayBuffer)];
+
+    let lastError: any = null;
+    for (const attempt of attempts) {
+        try {
+            return await attempt();
+        } catch (err) {
+            lastError = err;
+        }
+    }
+    throw new Error(`Failed to embed image "${document.fileName}": ${lastError?.message || lastError}. The file may be corrupted or in an unsupported format.`);
+};
+
+/**
+ * Finds the document an image mapping refers to.
+ * Document types are matched case-insensitively by substring, e.g. 'signature' matches "Inspector Signature".
+ */
+export const findImageDocument = (
+    mapping: ImageMapping,
+    inspectorDocs: Document[],
+    generalTypedDocuments?: Map<string, Document>
+): Document | undefined => {
+    const wanted = mapping.document.toLowerCase();
+    if (mapping.documentCategory === 'general') {
+        if (!generalTypedDocuments) return undefined;
+        for (const [documentType, document] of generalTypedDocuments.entries()) {
+            if (documentType.toLowerCase().includes(wanted)) return document;
+        }
+        return undefined;
+    }
+    return inspectorDocs.find(doc => doc.documentType?.toLowerCase().includes(wanted));
+};
+
+/**
+ * Works out where an image goes, from the widget rectangle of its anchor field.
+ * Must be called while the document still has the template's page order.
+ * @param pdfDoc - The filled template
+ * @param mapping - Image mapping from the report config
+ * @param image - The embedded image
+ * @returns The draw instruction, or null if the anchor field is not on any page
+ */
+export const resolveImageDraw = (pdfDoc: PDFDocument, mapping: ImageMapping, image: PDFImage): ImageDraw | null => {
+    const placements = findFieldPlacements(pdfDoc, mapping.anchorField);
+    const placement = placements[mapping.widgetIndex ?? 0];
+    if (!placement) {
+        console.warn(`⚠️ Image anchor field "${mapping.anchorField}" not found on any template page (${placements.length} widgets)`);
+        return null;
+    }
+
+    // Target rectangle: the widget, optionally shifted/resized relative to it
+    const offset = mapping.offset || {};
+    const box = {
+        x: placement.rect.x + (offset.x ?? 0),
+        y: placement.rect.y + (offset.y ?? 0),
+        width: offset.width ?? placement.rect.width,
+        height: offset.height ?? placement.rect.height,
+    };
+
+    let width: number;
+    let height: number;
+    const imageDims = image.scale(1);
+    if (mapping.fit === 'fill') {
+        width = box.width;
+        height = box.height;
+    } else if (mapping.fit === 'none') {
+        width = imageDims.width;
+        height = imageDims.height;
+    } else {
+        // contain: keep the aspect ratio and only scale down unless upscaling is allowed
+        const containScale = Math.min(box.width / imageDims.width, box.height / imageDims.height);
+        const scale = mapping.allowUpscale ? containScale : Math.min(containScale, 1);
+        width = imageDims.width * scale;
+        height = imageDims.height * scale;
+    }
+    width *= mapping.scale ?? 1;
+    height *= mapping.scale ?? 1;
+
+    let x = box.x + (box.width - width) / 2;
+    if (mapping.align === 'left') x = box.x;
+    if (mapping.align === 'right') x = box.x + box.width - width;
+    const y = box.y + (box.height - height) / 2;
+
+    const draw: ImageDraw = { page: pdfDoc.getPage(placement.pageIndex), image, x, y, width, height };
+    if (mapping.whiteBackground) {
+        const paddingX = mapping.whiteBackground.paddingX ?? 0;
+        const paddingY = mapping.whiteBackground.paddingY ?? 0;
+        draw.background = {
+            x: x - paddingX,
+            y: y - paddingY,
+            width: width + paddingX * 2,
+            height: height + paddingY * 2,
+        };
+    }
+    return draw;
+};
+
+/**
+ * Embeds and positions every image of a report's image mappings.
+ * Mappings whose document is missing or whose anchor can't be found are skipped with a warning.
+ * Must be called while the document still has the template's page order.
+ * @param pdfDoc - The filled template
+ * @param mappings - Image mappings from the report config
+ * @param inspectorDocs - Documents of the selected inspector
+ * @param generalTypedDocuments - General documents by type
+ * @returns Draw instructions, to be passed to drawImage once everything else is on the pages
+ */
+export const prepareImageDraws = async (
+    pdfDoc: PDFDocument,
+    mappings: ImageMapping[],
+    inspectorDocs: Document[],
+    generalTypedDocuments?: Map<string, Document>
+): Promise<ImageDraw[]> => {
+    const imageDraws: ImageDraw[] = [];
+    // Embed each document once, even if it is placed several times (e.g. signature on two pages)
+    const embeddedImages = new Map<string, PDFImage>();
+
+    for (const imageMapping of mappings) {
+        try {
+            const imageDoc = findImageDocument(imageMapping, inspectorDocs, generalTypedDocuments);
+            if (!imageDoc?.file) {
+                console.warn(`⚠️ No "${imageMapping.document}" document with a file found for image at "${imageMapping.anchorField}" - skipping`);
+                continue;
+            }
+
+            let image = embeddedImages.get(imageDoc.id);
+            if (!image) {
+                image = await embedDocumentImage(pdfDoc, imageDoc);
+                embeddedImages.set(imageDoc.id, image);
+            }
+
+            const draw = resolveImageDraw(pdfDoc, imageMapping, image);
+            if (draw) {
+                imageDraws.push(draw);
+                console.log(`🖼️ "${imageDoc.fileName}" prepared at "${imageMapping.anchorField}": x=${draw.x}, y=${draw.y}, width=${draw.width}, height=${draw.height}`);
+            }
+        } catch (err) {
+            console.warn(`Error preparing image "${imageMapping.document}" at "${imageMapping.anchorField}":`, err);
+            // Don't fail the whole generation if an image can't be placed
+        }
+    }
+
+    return imageDraws;
+};
+
+/**
+ * Draws a resolved image, with its white background box first so it covers whatever is behind it.
+ */
+export const drawImage = (draw: ImageDraw): void => {
+    if (draw.background) {
+        draw.page.drawRectangle({
+            ...draw.background,
+            color: rgb(1, 1, 1),
+        });
+    }
+    draw.page.drawImage(draw.image, {
+        x: draw.x,
+        y: draw.y,
+        width: draw.width,
+        height: draw.height,
+    });
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { ExtractedData, UnitData } from '../App';
+import { getReportConfig } from '../config/reports';
+import type { ReportConfig } from '../types/reportStructure';
+import { evaluateFieldExpression } from './fieldResolver';
+import { getUnitFieldIds, getUnitLabel, getUnitReportData } from './multiUnit';
+
+const createUnit = (overrides: Partial<UnitData> = {}): UnitData => ({
+    id: '1A',
+    source: 'sample_prefix',
+    sheetName: 'Readings',
+    fields: {},
+    isPositive: true,
+    totalReadings: 12,
+    positiveReadings: 3,
+    inconclusiveReadings: 1,
+    readingDisagreements: [],
+    fullExcelData: [['Sample ID', 'Result'], ['1A-001', 'POSITIVE']],
+    headerRowIndex: 0,
+    analyzerProfileId: 'viken-pb200i',
+    calibrationQA: null,
+    ...overrides,
+});
+
+// The building totals, shared by every unit
+const buildingData = {
+    fileName: 'building.xlsx',
+    Address: '12 Eglantine Ave',
+    isPositive: false,
+    totalReadings: 40,
+    positiveReadings: 0,
+    inconclusiveReadings: 0,
+    fullExcelData: [['Sample ID', 'Result']],
+    units: [createUnit()],
+} as unknown as ExtractedData & Record<string, any>;
+
+describe('getUnitFieldIds', () => {
+    it('confirms the unit field and the inputs that default to the unit readings per unit', () => {
+        expect(getUnitFieldIds(getReportConfig('XHR')!)).toEqual(['Units areas', 'Inspection Result', 'Numb1', 'Numb2']);
+    });
+
+    it('matches whole variable names, and leaves out a unit field that is not mapped', () => {
+        const config: ReportConfig = {
+            id: 'TEST',
+            name: 'Test',
+            templateUrl: '/templates/Test.pdf',
+            unitField: 'Unit',
+            mappings: [
+                { pdfFieldId: 'Result', source: 'user_input', expression: 'isPositive ? "Positive" : "Negative"' },
+                { pdfFieldId: 'Readings', source: 'user_input', expression: 'allTotalReadings' },
+                { pdfFieldId: 'Count', source: 'calculation', expression: 'totalReadings' },
+                { pdfFieldId: 'Address', source: 'user_input' },
+            ],
+        };
+        expect(getUnitFieldIds(config)).toEqual(['Result']);
+    });
+});
+
+describe('getUnitReportData', () => {
+    it('puts the unit readings and fields over the shared data', () => {
+        const unit = createUnit({ fields: { 'Units areas': 'Apt 1A', Address: '12 Eglantine Ave, Apt 1A' } });
+        const unitData = getUnitReportData(buildingData, unit);
+
+        expect(unitData).toMatchObject({
+            fileName: 'building.xlsx',
+            Address: '12 Eglantine Ave, Apt 1A',
+            'Units areas': 'Apt 1A',
+            isPositive: true,
+            totalReadings: 12,
+            positiveReadings: 3,
+            inconclusiveReadings: 1,
+            fullExcelData: unit.fullExcelData,
+            analyzerProfileId: 'viken-pb200i',
+            calibrationQA: null,
+        });
+        // A unit's report is not itself a multi-unit run
+        expect(unitData.units).toBeUndefined();
+        expect(buildingData.totalReadings).toBe(40);
+    });
+
+    it('gives each unit the field defaults of its own readings', () => {
+        const config = getReportConfig('XHR')!;
+        const defaults = (unit: UnitData) => Object.fromEntries(['Inspection Result', 'Numb1', 'Numb2'].map(fieldId => {
+            const mapping = config.mappings.find(m => m.pdfFieldId === fieldId)!;
+            return [fieldId, evaluateFieldExpression(mapping.expression!, getUnitReportData(buildingData, unit), config.mappings)];
+        }));
+
+        expect(defaults(createUnit())).toEqual({ 'Inspection Result': 'Not Lead Free', Numb1: '12', Numb2: '3' });
+        expect(defaults(createUnit({ id: '1B', isPositive: false, totalReadings: 8, positiveReadings: 0 })))
+            .toEqual({ 'Inspection Result': 'Lead Free', Numb1: '8', Numb2: '0' });
+    });
+});
+
+describe('getUnitLabel', () => {
+    const config = getReportConfig('XHR');
+
+    it('is the unit field value, else the unit id', () => {
+        expect(getUnitLabel(createUnit({ fields: { 'Units areas': ' Apt 1A ' } }), config)).toBe('Apt 1A');
+        expect(getUnitLabel(createUnit({ fields: { 'Units areas': ' ' } }), config)).toBe('1A');
+        expect(getUnitLabel(createUnit({ fields: { 'Units areas': 'Apt 1A' } }), undefined)).toBe('1A');
+    });
+});
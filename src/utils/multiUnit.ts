@@ -0,0 +1,75 @@
+import type { ExtractedData, UnitData } from '../App';
+import type { ReportConfig } from '../types/reportStructure';
+import type { WorkbookUnit } from './excelExtractor';
+import type { CalibrationQAResult } from './calibrationQA';
+
+// Report data that differs per unit; an input whose default expression uses one of these is confirmed per unit
+const UNIT_READING_VARIABLES = ['isPositive', 'totalReadings', 'positiveReadings', 'inconclusiveReadings'];
+
+const referencesUnitReadings = (expression: string): boolean => {
+    return UNIT_READING_VARIABLES.some(variable => new RegExp(`\\b${variable}\\b`).test(expression));
+};
+
+/**
+ * The fields confirmed per unit in a multi-unit run: the config's unit field, then the user inputs whose default
+ * depends on the readings (e.g. the inspection result and the reading counts).
+ * @returns Field ids, in mapping order after the unit field
+ */
+export const getUnitFieldIds = (config: ReportConfig): string[] => {
+    const ids = config.unitField && config.mappings.some(m => m.pdfFieldId === config.unitField) ? [config.unitField] : [];
+    config.mappings.forEach(mapping => {
+        if (mapping.source === 'user_input' && mapping.expression && referencesUnitReadings(mapping.expression)
+            && !ids.includes(mapping.pdfFieldId)) {
+            ids.push(mapping.pdfFieldId);
+        }
+    });
+    return ids;
+};
+
+/**
+ * Turns the detected units of a workbook into unit data for the wizard (per-unit fields are filled in on the
+ * confirmation step).
+ */
+export const toUnitData = (unit: WorkbookUnit, calibrationQA: CalibrationQAResult | null): UnitData => ({
+    id: unit.id,
+    source: unit.source,
+    sheetName: unit.sheetName,
+    fields: {},
+    isPositive: !!unit.info.isPositive,
+    totalReadings: unit.info.totalReadings || 0,
+    positiveReadings: unit.info.positiveReadings || 0,
+    inconclusiveReadings: unit.info.inconclusiveReadings || 0,
+    readingDisagreements: unit.info.readingDisagreements || [],
+    fullExcelData: unit.info.fullExcelData,
+    headerRowIndex: unit.info.headerRowIndex,
+    analyzerProfileId: unit.info.analyzerProfileId,
+    calibrationQA,
+});
+
+/**
+ * The unit number shown for a unit: its unit field value, else the sheet name or Sample ID prefix.
+ */
+export const getUnitLabel = (unit: UnitData, config: ReportConfig | undefined): string => {
+    return (config?.unitField && String(unit.fields[config.unitField] ?? '').trim()) || unit.id;
+};
+
+/**
+ * The report data of one unit: the shared confirmed data with the unit's readings and per-unit fields on top.
+ */
+export const getUnitReportData = (
+    data: ExtractedData & Record<string, any>,
+    unit: UnitData
+): ExtractedData & Record<string, any> => ({
+    ...data,
+    ...unit.fields,
+    isPositive: unit.isPositive,
+    totalReadings: unit.totalReadings,
+    positiveReadings: unit.positiveReadings,
+    inconclusiveReadings: unit.inconclusiveReadings,
+    readingDisagreements: unit.readingDisagreements,
+    fullExcelData: unit.fullExcelData,
+    headerRowIndex: unit.headerRowIndex,
+    analyzerProfileId: unit.analyzerProfileId,
+    calibrationQA: unit.calibrationQA,
+    units: undefined,
+});
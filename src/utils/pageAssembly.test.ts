@@ -0,0 +1,128 @@
+import { PDFDocument } from 'pdf-lib';
+import type { PDFPage } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import type { PageLayout } from '../types/reportStructure';
+import { applyPageOrder, resolvePageOrder, resolveTemplatePages } from './pageAssembly';
+import type { PageSections } from './pageAssembly';
+
+// A template of `count` pages told apart by their width (100, 101, ...), with a field on each page given
+const createTemplate = async (count: number, fields: Record<string, number> = {}): Promise<PDFDocument> => {
+    const pdfDoc = await PDFDocument.create();
+    for (let i = 0; i < count; i++) pdfDoc.addPage([100 + i, 200]);
+    const form = pdfDoc.getForm();
+    Object.entries(fields).forEach(([name, pageIndex]) => {
+        form.createTextField(name).addToPage(pdfDoc.getPage(pageIndex), { x: 10, y: 10, width: 50, height: 20 });
+    });
+    return pdfDoc;
+};
+
+const widths = (pages: PDFPage[]) => pages.map(page => page.getWidth());
+
+describe('resolveTemplatePages', () => {
+    it('finds a page by the field it holds, or by its index', async () => {
+        const pdfDoc = await createTemplate(4, { 'Inspector sig': 2 });
+        const pages = resolveTemplatePages(pdfDoc, [
+            { id: 'signature', containsField: 'Inspector sig', index: 0 },
+            { id: 'cover', index: 0 },
+        ]);
+        expect(pages).toEqual(new Map([['signature', 2], ['cover', 0]]));
+    });
+
+    it('counts negative indices from the end', async () => {
+        const pdfDoc = await createTemplate(4);
+        const pages = resolveTemplatePages(pdfDoc, [{ id: 'last', index: -1 }, { id: 'before-last', index: -2 }]);
+        expect(pages).toEqual(new Map([['last', 3], ['before-last', 2]]));
+    });
+
+    it('falls back to the index when the field is missing, and leaves out what it cannot resolve', async () => {
+        const pdfDoc = await createTemplate(3);
+        const pages = resolveTemplatePages(pdfDoc, [
+            { id: 'renamed', containsField: 'Old field', index: 1 },
+            { id: 'missing', containsField: 'Old field' },
+            { id: 'too-far', index: 3 },
+            { id: 'too-far-back', index: -4 },
+        ]);
+        expect(pages).toEqual(new Map([['renamed', 1]]));
+    });
+});
+
+describe('resolvePageOrder', () => {
+    const createSections = async (): Promise<PageSections> => {
+        const pdfDoc = await createTemplate(9);
+        const pages = pdfDoc.getPages();
+        return {
+            template: pages.slice(0, 4),
+            readings: pages.slice(4, 6),
+            certificate: [pages[6]],
+            license: [pages[7]],
+            leadSafeCertificate: [pages[8]],
+        };
+    };
+
+    it('puts the readings before the last template page and the attachments last without a layout', async () => {
+        const sections = await createSections();
+        const order = resolvePageOrder(undefined, new Map(), sections, () => true);
+        expect(widths(order)).toEqual([100, 101, 102, 104, 105, 103, 106, 107, 108]);
+    });
+
+    it('follows the layout steps, leaving out template pages it does not list', async () => {
+        const sections = await createSections();
+        const layout: PageLayout = {
+            pages: [],
+            steps: [
+                { type: 'template', page: 'cover' },
+                { type: 'readings' },
+                { type: 'template', page: 'signature' },
+                { type: 'attachment', document: 'license' },
+                { type: 'attachment', document: 'certificate' },
+            ],
+        };
+        const order = resolvePageOrder(layout, new Map([['cover', 0], ['signature', 2]]), sections, () => true);
+        expect(widths(order)).toEqual([100, 104, 105, 102, 107, 106]);
+    });
+
+    it('skips the steps whose `when` is false', async () => {
+        const sections = await createSections();
+        const layout: PageLayout = {
+            pages: [],
+            steps: [
+                { type: 'template', page: 'cover' },
+                { type: 'template', page: 'lead-free', when: '!isPositive' },
+                { type: 'readings', when: 'totalReadings > 0' },
+            ],
+        };
+        const conditions: string[] = [];
+        const order = resolvePageOrder(layout, new Map([['cover', 0], ['lead-free', 1]]), sections, when => {
+            conditions.push(when);
+            return when === 'totalReadings > 0';
+        });
+        expect(conditions).toEqual(['!isPositive', 'totalReadings > 0']);
+        expect(widths(order)).toEqual([100, 104, 105]);
+    });
+
+    it('skips unknown pages and pages listed twice', async () => {
+        const sections = await createSections();
+        const layout: PageLayout = {
+            pages: [],
+            steps: [
+                { type: 'template', page: 'cover' },
+                { type: 'template', page: 'unresolved' },
+                { type: 'template', page: 'cover' },
+            ],
+        };
+        const order = resolvePageOrder(layout, new Map([['cover', 0]]), sections, () => true);
+        expect(widths(order)).toEqual([100]);
+    });
+});
+
+describe('applyPageOrder', () => {
+    it('rebuilds the document in the given order, dropping the pages left out', async () => {
+        const pdfDoc = await createTemplate(4, { 'Inspector sig': 2 });
+        const [first, , third, fourth] = pdfDoc.getPages();
+        applyPageOrder(pdfDoc, [fourth, third, first]);
+
+        expect(widths(pdfDoc.getPages())).toEqual([103, 102, 100]);
+        // The same page objects, so the form widgets stay on their page
+        expect(resolveTemplatePages(pdfDoc, [{ id: 'signature', containsField: 'Inspector sig' }])).toEqual(new Map([['signature', 1]]));
+    });
+});
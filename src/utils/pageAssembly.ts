@@ -0,0 +1,126 @@
+import type { PDFDocument, PDFPage } from 'pdf-lib';
+import type { PageLayout, TemplatePageRef } from '../types/reportStructure';
+import { findFieldPlacements } from './templateFields';
+
+// Pages available to the layout, grouped by where they came from
+export interface PageSections {
+    template: PDFPage[];     // Template pages in their original order
+    readings: PDFPage[];     // Generated readings table pages
+    certificate: PDFPage[];  // Appended general certificate document
+    license: PDFPage[];      // Appended inspector license document
+    leadSafeCertificate: PDFPage[]; // Filled certificate template, when bundled with the report
+}
+
+/**
+ * Resolves the template page ids declared in a page layout to page indices.
+ * @param pdfDoc - The loaded template (before any pages are added or removed)
+ * @param refs - Page references from the layout
+ * @returns Map of page id -> 0-based template page index (unresolved ids are left out)
+ */
+export const resolveTemplatePages = (pdfDoc: PDFDocument, refs: TemplatePageRef[]): Map<string, number> => {
+    const pageCount = pdfDoc.getPageCount();
+    const resolved = new Map<string, number>();
+
+    refs.forEach(ref => {
+        let pageIndex: number | undefined;
+
+        if (ref.containsField) {
+            const placement = findFieldPlacements(pdfDoc, ref.containsField)[0];
+            if (placement) {
+                pageIndex = placement.pageIndex;
+            } else {
+                console.warn(`⚠️ Page "${ref.id}": field "${ref.containsField}" not found on any template page`);
+            }
+        }
+
+        if (pageIndex === undefined && ref.index !== undefined) {
+            const index = ref.index < 0 ? pageCount + ref.index : ref.index;
+            if (index >= 0 && index < pageCount) {
+                pageIndex = index;
+            }
+        }
+
+        if (pageIndex === undefined) {
+            console.warn(`⚠️ Page "${ref.id}" could not be resolved in the template (${pageCount} pages)`);
+            return;
+        }
+        resolved.set(ref.id, pageIndex);
+    });
+
+    return resolved;
+};
+
+/**
+ * Works out the final page order from a page layout.
+ * Without a layout, template pages keep their order, readings go before the last template page
+ * and attachments are added at the end.
+ * @param layout - The report's page layout (optional)
+ * @param templatePageIds - Resolved template page ids (see resolveTemplatePages)
+ * @param sections - Pages available to the layout
+ * @param isIncluded - Evaluates a step's `when` expression
+ * @returns The pages in their final order
+ */
+export const resolvePageOrder = (
+    layout: PageLayout | undefined,
+    templatePageIds: Map<string, number>,
+    sections: PageSections,
+    isIncluded: (when: string) => boolean
+): PDFPage[] => {
+    if (!layout) {
+        const lastTemplatePage = sections.template.slice(-1);
+        return [
+            ...sections.template.slice(0, -1),
+            ...sections.readings,
+            ...lastTemplatePage,
+            ...sections.certificate,
+            ...sections.license,
+            ...sections.leadSafeCertificate,
+        ];
+    }
+
+    const ordered: PDFPage[] = [];
+    layout.steps.forEach(step => {
+        if (step.when && !isIncluded(step.when)) {
+            return;
+        }
+
+        switch (step.type) {
+            case 'template': {
+                const pageIndex = templatePageIds.get(step.page);
+                if (pageIndex === undefined) {
+                    console.warn(`⚠️ Page layout refers to unknown template page "${step.page}" - skipping`);
+                    return;
+                }
+                if (ordered.includes(sections.template[pageIndex])) {
+                    console.warn(`⚠️ Template page "${step.page}" is listed twice in the page layout - skipping`);
+                    return;
+                }
+                ordered.push(sections.template[pageIndex]);
+                break;
+            }
+            case 'readings':
+                ordered.push(...sections.readings);
+                break;
+            case 'attachment':
+                ordered.push(...sections[step.document]);
+                break;
+        }
+    });
+
+    return ordered;
+};
+
+/**
+ * Rebuilds the page tree of a document in the given order.
+ * Pages not in the list are dropped. Page objects are reused, so form widgets stay attached.
+ * @param pdfDoc - The document to reorder
+ * @param pages - Pages (belonging to pdfDoc) in their final order
+ */
+export const applyPageOrder = (pdfDoc: PDFDocument, pages: PDFPage[]): void => {
+    const pageCount = pdfDoc.getPageCount();
+    for (let i = pageCount - 1; i >= 0; i--) {
+        pdfDoc.removePage(i);
+    }
+    pages.forEach(page => pdfDoc.addPage(page));
+    console.log(`✅ Page layout applied: ${pageCount} pages -> ${pages.length} pages`);
+};
@@ -0,0 +1,54 @@
+const buildFileName = (prefix: string, address: string | undefined, extension: string): string => {
+    const sanitizedAddress = (address || '')
+        .trim()
+        .toUpperCase()
+        .replace(/[^A-Z0-9\s]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return sanitizedAddress ? `${prefix} ${sanitizedAddress}.${extension}` : `${prefix}.${extension}`;
+};
+
+/**
+ * Builds a download file name like "Final Lead Inspection Report 26 EGLANTINE AVE.pdf".
+ * @param prefix - Document name
+ * @param address - Property address (upper-cased, punctuation removed); omitted if empty
+ * @param revision - Revision number, appended as "Revision N" (omitted for an original)
+ */
+export const buildPdfFileName = (prefix: string, address?: string, revision?: number): string => {
+    const fileName = buildFileName(prefix, address, 'pdf');
+    return revision ? fileName.replace(/\.pdf$/, ` Revision ${revision}.pdf`) : fileName;
+};
+
+/**
+ * Builds the file name of a ZIP download, like "Final Lead Inspection Reports 26 EGLANTINE AVE.zip".
+ */
+export const buildZipFileName = (prefix: string, address?: string): string => {
+    return buildFileName(prefix, address, 'zip');
+};
+
+const downloadBytes = (bytes: Uint8Array, filename: string, type: string): void => {
+    const blob = new Blob([bytes as any], { type });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    // Clean up the object URL
+    URL.revokeObjectURL(link.href);
+};
+
+/**
+ * Triggers a browser download of a generated PDF.
+ */
+export const downloadPdf = (pdfBytes: Uint8Array, filename: string): void => {
+    downloadBytes(pdfBytes, filename, 'application/pdf');
+};
+
+/**
+ * Triggers a browser download of a ZIP archive (see zipArchive.ts).
+ */
+export const downloadZip = (zipBytes: Uint8Array, filename: string): void => {
+    downloadBytes(zipBytes, filename, 'application/zip');
+};
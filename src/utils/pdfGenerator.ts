@@ -1,9 +1,32 @@
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import type { ExtractedData } from '../App';
+import { PDFDocument, PDFImage, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import type { ExtractedData, UnitData } from '../App';
 import { getReportConfig } from '../config/reports';
 import type { Inspector, Document } from '../types/documents';
-import { getTemplateUrl } from './apiConfig';
-import { detectPositiveNegative } from './excelExtractor';
+import { formatDateForPDF } from './dateFormat';
+import { evaluateFieldCondition, findFallbackVariable, resolveFieldValue } from './fieldResolver';
+import { applyPageOrder, resolvePageOrder, resolveTemplatePages } from './pageAssembly';
+import { drawImage, prepareImageDraws } from './imagePlacement';
+import { classifyReading, DEFAULT_ACTION_LEVEL, DEFAULT_DUST_WIPE_THRESHOLDS, findAnalyzerColumns, isCalibrationReading, isPositiveReading, summarizeReadingsByComponent } from './excelExtractor';
+import type { AnalyzerColumns, DustWipeSample } from './excelExtractor';
+import type { CalibrationQAResult } from './calibrationQA';
+import { getAnalyzerProfile, getDefaultAnalyzerProfile } from '../config/analyzerProfiles';
+import type { AnalyzerProfile } from '../types/analyzerProfiles';
+import type { ActionLevel, DustWipeSurfaceType, DustWipeThresholds, ReadingsTableSettings, ReportConfig } from '../types/reportStructure';
+import { buildCertificatePDF } from './certificateGenerator';
+import { buildPdfFileName, buildZipFileName, downloadPdf, downloadZip } from './pdfDownload';
+import { getUnitFieldIds, getUnitLabel, getUnitReportData } from './multiUnit';
+import { createZipArchive } from './zipArchive';
+import type { ZipEntry } from './zipArchive';
+import { copyTemplateKeywords, loadTemplateBytes, resolveTemplateVersion, setTemplateKeywords } from './templateLoader';
+import type { TemplateBytesLoader } from './templateLoader';
+import type { TemplateVersions } from '../types/templates';
+import { drawRevisionStamp, drawTextOverlays, resolveTextOverlay } from './textOverlay';
+import { drawQrCode, getVerificationUrl, resolveQrCodeDraw } from './qrCode';
+import { addSignatureField, invisibleSignatureField, resolveSignatureField } from './signatureField';
+import { getMappedFieldName, inlineAppearanceStates, removeOffPageWidgets } from './templateFields';
+import type { TextOverlayDraw } from './textOverlay';
+import { getReportRecordDetails } from './reportData';
+import type { ReportRecordDetails } from '../types/reports';
 
 // Dynamic import for pdfjs-dist to avoid SSR issues
 let pdfjsLib: any = null;
@@ -143,154 +166,6 @@ const embedImageInPDF = async (pdfDoc: PDFDocument, imageFile: File | Blob): Pro
   });
 };
 
-// Helper to check if a value indicates positive
-const isPositiveValue = (value: any): boolean => {
-    const text = String(value || '').trim().toLowerCase();
-    return text === 'positive' || 
-           text === 'pos' || 
-           text === 'p' || 
-           text === '+' ||
-           text === 'fail' ||
-           text === 'f';
-};
-
-// Helper to check if a row is calibration
-const isCalibrationRow = (rowIndex: number, row: any[], calibrationColIndex: number): boolean => {
-    // First 4 rows are always calibration
-    if (rowIndex < 4) {
-        return true;
-    }
-    
-    // Check calibration column if it exists
-    if (calibrationColIndex !== -1 && row && row[calibrationColIndex]) {
-        const calibrationValue = String(row[calibrationColIndex] || '').trim().toLowerCase();
-        if (calibrationValue.includes('pcs cal') || 
-            calibrationValue.includes('calibration') || 
-            calibrationValue.includes('cal')) {
-            return true;
-        }
-    }
-    
-    return false;
-};
-
-// Helper to format date as MM/DD/YYYY HH:MM or MM/DD/YYYY HH:MM:SS (preserves time if present)
-const formatDateForPDF = (dateStr: string | number | Date | undefined): string => {
-    if (!dateStr) return '';
-
-    let dateObj: Date | null = null;
-
-    if (dateStr instanceof Date) {
-        dateObj = dateStr;
-    } else if (typeof dateStr === 'number') {
-        // Excel serial date (includes time component)
-        dateObj = new Date((dateStr - (25567 + 2)) * 86400 * 1000);
-    } else if (typeof dateStr === 'string') {
-        // Handle date strings - parse manually to avoid timezone issues
-        const trimmed = dateStr.trim();
-        
-        // Check if it's ISO format with time (YYYY-MM-DDTHH:MM:SS or YYYY-MM-DD HH:MM:SS)
-        const isoWithTimeMatch = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})[T ](\d{1,2}):(\d{1,2})(?::(\d{1,2}))?/);
-        if (isoWithTimeMatch) {
-            const year = parseInt(isoWithTimeMatch[1], 10);
-            const month = parseInt(isoWithTimeMatch[2], 10);
-            const day = parseInt(isoWithTimeMatch[3], 10);
-            const hours = parseInt(isoWithTimeMatch[4], 10);
-            const minutes = parseInt(isoWithTimeMatch[5], 10);
-            const seconds = isoWithTimeMatch[6] ? parseInt(isoWithTimeMatch[6], 10) : 0;
-            // Create date in local timezone to avoid timezone conversion issues
-            dateObj = new Date(year, month - 1, day, hours, minutes, seconds);
-        }
-        // Check if it's ISO format without time (YYYY-MM-DD) from HTML5 date input
-        else {
-            const isoMatch = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
-            if (isoMatch) {
-                const year = parseInt(isoMatch[1], 10);
-                const month = parseInt(isoMatch[2], 10);
-                const day = parseInt(isoMatch[3], 10);
-                // Create date in local timezone to avoid timezone conversion issues
-                dateObj = new Date(year, month - 1, day);
-            }
-            // Check if it's in MM/DD/YYYY HH:MM:SS or MM/DD/YYYY HH:MM format
-            else {
-                const dateWithTimeMatch = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})\s+(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?/);
-                if (dateWithTimeMatch) {
-                    let month = parseInt(dateWithTimeMatch[1], 10);
-                    let day = parseInt(dateWithTimeMatch[2], 10);
-                    let year = parseInt(dateWithTimeMatch[3], 10);
-                    const hours = parseInt(dateWithTimeMatch[4], 10);
-                    const minutes = parseInt(dateWithTimeMatch[5], 10);
-                    const seconds = dateWithTimeMatch[6] ? parseInt(dateWithTimeMatch[6], 10) : 0;
-                    
-                    // Handle 2-digit years (assume 2000-2099)
-                    if (year < 100) {
-                        year += 2000;
-                    }
-                    
-                    // Create date in local timezone to avoid timezone conversion issues
-                    dateObj = new Date(year, month - 1, day, hours, minutes, seconds);
-                }
-                // Check if it's in MM/DD/YYYY or M/D/YY format (no time)
-                else {
-                    const dateMatch = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
-                    if (dateMatch) {
-                        let month = parseInt(dateMatch[1], 10);
-                        let day = parseInt(dateMatch[2], 10);
-                        let year = parseInt(dateMatch[3], 10);
-                        
-                        // Handle 2-digit years (assume 2000-2099)
-                        if (year < 100) {
-                            year += 2000;
-                        }
-                        
-                        // Create date in local timezone to avoid timezone conversion issues
-                        dateObj = new Date(year, month - 1, day);
-                        
-                        // Validate the date is correct (handles invalid dates like Feb 30)
-                        if (dateObj.getMonth() !== month - 1 || dateObj.getDate() !== day || dateObj.getFullYear() !== year) {
-                            // Invalid date, try standard parsing as fallback
-                            dateObj = new Date(trimmed);
-                        }
-                    } else {
-                        // Try parsing with standard Date constructor as fallback
-                        dateObj = new Date(trimmed);
-                    }
-                }
-            }
-        }
-    }
-
-    if (dateObj && !isNaN(dateObj.getTime())) {
-        // Use local date methods to avoid timezone issues
-        const month = dateObj.getMonth() + 1; // getMonth() returns 0-11
-        const day = dateObj.getDate(); // getDate() returns local day
-        const year = dateObj.getFullYear(); // getFullYear() returns local year
-        const hours = dateObj.getHours();
-        const minutes = dateObj.getMinutes();
-        const seconds = dateObj.getSeconds();
-        
-        // Format time component if it's not midnight (00:00:00)
-        // or if the original string had time information
-        const hasTime = hours !== 0 || minutes !== 0 || seconds !== 0 || 
-                       (typeof dateStr === 'string' && (dateStr.includes(':') || dateStr.includes('T')));
-        
-        if (hasTime) {
-            // Format as MM/DD/YYYY HH:MM:SS or MM/DD/YYYY HH:MM
-            if (seconds !== 0) {
-                return `${month}/${day}/${year} ${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
-            } else {
-                return `${month}/${day}/${year} ${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
-            }
-        } else {
-            // No time component, return just the date
-            return `${month}/${day}/${year}`;
-        }
-    }
-
-    // If it's already in a format we can use, return as is
-    return String(dateStr);
-};
-
 // Helper to format cell value for display
 const formatCellValue = (value: any): string => {
     if (value === null || value === undefined) return '';
@@ -305,60 +180,6 @@ const formatCellValue = (value: any): string => {
 };
 
 
-// Helper to calculate text width
-const getTextWidth = (text: string, fontSize: number, font: any): number => {
-    return font.widthOfTextAtSize(text, fontSize);
-};
-
-// Calculate a global font size that fits all visible columns
-const calculateGlobalFontSize = (
-    excelData: any[][],
-    headerRowIndex: number,
-    headerRow: any[],
-    visibleColumnIndices: number[],
-    colWidth: number,
-    cellPadding: number,
-    baseFontSize: number,
-    font: any,
-    boldFont: any
-): number => {
-    const maxTextWidth = colWidth - (cellPadding * 2);
-    let minFontSize = baseFontSize;
-    
-    // Check all visible header cells
-    visibleColumnIndices.forEach(colIndex => {
-        const headerText = String(headerRow[colIndex] || '');
-        if (headerText) {
-            const textWidth = getTextWidth(headerText, baseFontSize, boldFont);
-            if (textWidth > maxTextWidth) {
-                const scaleFactor = maxTextWidth / textWidth;
-                minFontSize = Math.min(minFontSize, baseFontSize * scaleFactor);
-            }
-        }
-    });
-    
-    // Check all visible data cells (skip header row)
-    const dataRows = excelData.slice(headerRowIndex + 1);
-    dataRows.forEach((row) => {
-        if (row) {
-            visibleColumnIndices.forEach(colIndex => {
-                if (colIndex < row.length) {
-                    const cellValue = formatCellValue(row[colIndex] || '');
-                    if (cellValue) {
-                        const textWidth = getTextWidth(cellValue, baseFontSize, font);
-                        if (textWidth > maxTextWidth) {
-                            const scaleFactor = maxTextWidth / textWidth;
-                            minFontSize = Math.min(minFontSize, baseFontSize * scaleFactor);
-                        }
-                    }
-                }
-            });
-        }
-    });
-    
-    // Ensure minimum readable font size (at least 4pt)
-    return Math.max(4, minFontSize);
-};
 
 // Simple Table Helper Class
 class SimpleTable {
@@ -494,9 +315,104 @@ class SimpleTable {
     }
 }
 
-// Create pages with Excel data displayed as a table
-const createExcelDataPages = async (pdfDoc: PDFDocument, excelData: any[][], headerRowIndex: number): Promise<any[]> => {
-    const pages: any[] = [];
+// A column of the readings table, resolved against the sheet
+interface ReadingsColumn {
+    index: number;  // Column index in the sheet
+    label: string;
+    width: number;  // In points
+}
+
+// Picks the readings table columns (see ReadingsTableSettings) and shares the table width between them.
+// Columns without a configured width are sized to their widest value (within limits)
+const resolveReadingsColumns = (
+    headerRow: any[],
+    dataRows: any[][],
+    analyzerColumns: AnalyzerColumns,
+    settings: ReadingsTableSettings,
+    tableWidth: number,
+    fontSize: number,
+    font: any,
+    boldFont: any
+): ReadingsColumn[] => {
+    const headers = headerRow.map(h => String(h ?? '').trim().toLowerCase());
+    const picked: { index: number; label?: string; width?: number }[] = [];
+
+    if (settings.columns && settings.columns.length > 0) {
+        settings.columns.forEach(column => {
+            let index = -1;
+            if (column.header) {
+                const header = column.header.trim().toLowerCase();
+                index = headers.indexOf(header);
+                if (index === -1) index = headers.findIndex(h => h.includes(header));
+            } else if (column.role) {
+                index = analyzerColumns[column.role] ?? -1;
+            }
+            if (index === -1) {
+                console.warn(`⚠️ Readings table column "${column.header || column.role}" not found in the sheet, skipping it`);
+                return;
+            }
+            picked.push({ index, label: column.label, width: column.width });
+        });
+    }
+    if (picked.length === 0) {
+        headers.forEach((header, index) => {
+            if (header !== 'condition' && header !== 'notes') picked.push({ index });
+        });
+    }
+
+    // Content width of a column, between a narrow number column and a long description
+    const measure = (index: number, label: string): number => {
+        let widest = boldFont.widthOfTextAtSize(label, fontSize);
+        dataRows.forEach(row => {
+            widest = Math.max(widest, font.widthOfTextAtSize(formatCellValue(row?.[index] ?? ''), fontSize));
+        });
+        return Math.min(Math.max(widest, 30), 160);
+    };
+
+    const columns = picked.map(column => {
+        const label = column.label ?? String(headerRow[column.index] ?? '');
+        return { index: column.index, label, width: column.width ?? measure(column.index, label) };
+    });
+    const total = columns.reduce((sum, column) => sum + column.width, 0);
+    return columns.map(column => ({ ...column, width: (column.width / total) * tableWidth }));
+};
+
+// Wraps a cell's text into lines that fit the width; a word longer than the width is broken between characters
+const wrapCellText = (text: string, font: any, fontSize: number, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    text.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, fontSize) <= maxWidth) {
+            line = candidate;
+            return;
+        }
+        if (line) lines.push(line);
+        line = '';
+        for (const char of word) {
+            if (line && font.widthOfTextAtSize(line + char, fontSize) > maxWidth) {
+                lines.push(line);
+                line = '';
+            }
+            line += char;
+        }
+    });
+    if (line) lines.push(line);
+    return lines;
+};
+
+// Create pages with the Excel readings as a table: the configured columns (see ReadingsTableSettings), positive
+// readings shaded, calibration readings grouped, and a footer with the address and "Page X of Y"
+const createExcelDataPages = async (
+    pdfDoc: PDFDocument,
+    excelData: any[][],
+    headerRowIndex: number,
+    profile: AnalyzerProfile,
+    actionLevel?: ActionLevel,
+    settings: ReadingsTableSettings = {},
+    address: string = ''
+): Promise<PDFPage[]> => {
+    const pages: PDFPage[] = [];
     const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
     const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
     
@@ -506,138 +422,445 @@ const createExcelDataPages = async (pdfDoc: PDFDocument, excelData: any[][], hea
     const margin = 50;
     const topMargin = 570;
     const bottomMargin = 50;
-    const rowHeight = 18;
-    const baseFontSize = 7;
-    const cellPadding = 2;
+    const footerY = 30;
+    const fontSize = settings.fontSize ?? 7;
+    const lineHeight = fontSize * 1.2;
+    const cellPadding = 3;
+    const groupCalibration = settings.groupCalibration ?? true;
     
     // Get header row and data
     const headerRow = excelData[headerRowIndex] || excelData[0] || [];
     const dataRows = excelData.slice(headerRowIndex + 1);
+    // Reading, result and calibration columns of the analyzer profile, to shade positive and calibration readings
+    const analyzerColumns = findAnalyzerColumns(headerRow, profile);
+    const columns = resolveReadingsColumns(headerRow, dataRows, analyzerColumns, settings, pageWidth - 2 * margin, fontSize, font, boldFont);
     
-    // Find column indices for filtering
-    const conditionColIndex = headerRow.findIndex((h: any) => 
-        String(h).trim().toLowerCase() === 'condition'
-    );
-    const notesColIndex = headerRow.findIndex((h: any) => 
-        String(h).trim().toLowerCase() === 'notes'
-    );
-    const pbPfColIndex = headerRow.findIndex((h: any) => 
-        String(h).trim().toLowerCase().includes('pb p/f')
-    );
-    const calibrationColIndex = headerRow.findIndex((h: any) => 
-        String(h).trim().toLowerCase().includes('calibration')
-    );
+    let page: PDFPage;
+    let currentY = 0;
     
-    // Create visible columns (exclude CONDITION and NOTES)
-    const visibleColumnIndices: number[] = [];
-    headerRow.forEach((header, colIndex) => {
-        if (colIndex !== conditionColIndex && colIndex !== notesColIndex) {
-            visibleColumnIndices.push(colIndex);
+    // Draws one row of cells, wrapped to the column widths, with an optional background; returns its height
+    const drawCells = (cells: string[], y: number, cellFont: any, background?: ReturnType<typeof rgb>): number => {
+        const wrapped = cells.map((cell, i) => wrapCellText(cell, cellFont, fontSize, columns[i].width - 2 * cellPadding));
+        const height = Math.max(1, ...wrapped.map(lines => lines.length)) * lineHeight + 2 * cellPadding;
+        if (background) {
+            page.drawRectangle({ x: margin, y: y - height, width: pageWidth - 2 * margin, height, color: background });
         }
-    });
+        let x = margin;
+        wrapped.forEach((lines, i) => {
+            lines.forEach((line, lineIndex) => {
+                page.drawText(line, {
+                    x: x + cellPadding,
+                    y: y - cellPadding - fontSize - lineIndex * lineHeight,
+                    size: fontSize,
+                    font: cellFont,
+                    color: rgb(0, 0, 0),
+                });
+            });
+            x += columns[i].width;
+        });
+        return height;
+    };
     
-    // Calculate font size that fits all columns
-    const visibleHeaders = visibleColumnIndices.map(i => String(headerRow[i] || ''));
-    let globalFontSize = baseFontSize;
+    const rowHeightOf = (cells: string[], cellFont: any): number => {
+        const lines = cells.map((cell, i) => wrapCellText(cell, cellFont, fontSize, columns[i].width - 2 * cellPadding).length);
+        return Math.max(1, ...lines) * lineHeight + 2 * cellPadding;
+    };
     
-    // Simple font size calculation - check headers first
-    const availableWidth = pageWidth - (2 * margin);
-    const totalPadding = cellPadding * (visibleColumnIndices.length - 1);
-    const colWidth = Math.floor((availableWidth - totalPadding) / visibleColumnIndices.length);
+    // New page with the header row repeated
+    const headerCells = columns.map(column => column.label);
+    const startPage = () => {
+        page = pdfDoc.addPage([pageWidth, pageHeight]);
+        pages.push(page);
+        currentY = topMargin - drawCells(headerCells, topMargin, boldFont, rgb(0.85, 0.85, 0.85));
+    };
+    startPage();
     
-    // Check if we need to reduce font size based on headers
-    for (const headerText of visibleHeaders) {
-        const textWidth = boldFont.widthOfTextAtSize(headerText, baseFontSize);
-        if (textWidth > colWidth - (cellPadding * 2)) {
-            const scaleFactor = (colWidth - (cellPadding * 2)) / textWidth;
-            globalFontSize = Math.min(globalFontSize, baseFontSize * scaleFactor);
+    let inCalibrationGroup = false;
+    dataRows.forEach((row, rowIndexInData) => {
+        const isCalibration = isCalibrationReading(row, rowIndexInData, analyzerColumns, profile);
+        const isPositive = !isCalibration &&
+                          !!row &&
+                          isPositiveReading(classifyReading(row, analyzerColumns, profile, actionLevel), actionLevel);
+        const cells = columns.map(column => formatCellValue(row?.[column.index] ?? ''));
+        
+        // A run of calibration readings starts under its own heading, kept on the page of its first reading
+        const startsGroup = groupCalibration && isCalibration && !inCalibrationGroup;
+        const headingHeight = startsGroup ? lineHeight + 2 * cellPadding : 0;
+        const height = rowHeightOf(cells, font);
+        if (currentY - headingHeight - height < bottomMargin) {
+            startPage();
         }
-    }
-    globalFontSize = Math.max(4, globalFontSize);
-    
-    // Calculate rows per page
-    const availableHeight = topMargin - bottomMargin;
-    const rowsPerPage = Math.floor(availableHeight / rowHeight);
-    
-    let currentY = topMargin;
-    let currentPage = pdfDoc.addPage([pageWidth, pageHeight]);
-    pages.push(currentPage);
-    
-    // Create table helper
-    let table = new SimpleTable(
-        currentPage,
-        font,
-        boldFont,
-        pageWidth,
-        pageHeight,
-        margin,
-        visibleColumnIndices.length,
-        rowHeight,
-        globalFontSize,
-        cellPadding
-    );
-    
-    // Draw header row
-    const headerRowData = visibleColumnIndices.map(i => String(headerRow[i] || ''));
-    table.drawRow(headerRowData, currentY, true);
-    currentY -= rowHeight;
+        if (startsGroup) {
+            page.drawRectangle({ x: margin, y: currentY - headingHeight, width: pageWidth - 2 * margin, height: headingHeight, color: rgb(0.75, 0.75, 0.75) });
+            page.drawText('Calibration Check', { x: margin + cellPadding, y: currentY - cellPadding - fontSize, size: fontSize, font: boldFont, color: rgb(0, 0, 0) });
+            currentY -= headingHeight;
+        }
+        inCalibrationGroup = isCalibration;
+        
+        const background = isPositive
+            ? rgb(1, 0.85, 0.85)
+            : groupCalibration && isCalibration ? rgb(0.93, 0.93, 0.93) : undefined;
+        currentY -= drawCells(cells, currentY, font, background);
+    });
     
-    let rowCount = 1; // Header already drawn
+    // Footer of every page, now that the page count is known
+    pages.forEach((footerPage, i) => {
+        const pageText = `Page ${i + 1} of ${pages.length}`;
+        if (address) {
+            footerPage.drawText(address, { x: margin, y: footerY, size: 8, font, color: rgb(0.3, 0.3, 0.3), maxWidth: pageWidth / 2 });
+        }
+        footerPage.drawText(pageText, {
+            x: pageWidth - margin - font.widthOfTextAtSize(pageText, 8),
+            y: footerY,
+            size: 8,
+            font,
+            color: rgb(0.3, 0.3, 0.3),
+        });
+    });
     
-    // Draw data rows
-    dataRows.forEach((row, rowIndexInData) => {
-        // Check if current row will fit on the current page
-        const spaceNeeded = rowHeight;
-        const spaceAvailable = currentY - bottomMargin;
-        
-        // If not enough space, create a new page BEFORE drawing the row
-        if (spaceAvailable < spaceNeeded || rowCount >= rowsPerPage) {
-            currentPage = pdfDoc.addPage([pageWidth, pageHeight]);
-            pages.push(currentPage);
-            currentY = topMargin;
-            rowCount = 1; // Header will be drawn
-            
-            // Create new table helper for new page
-            table = new SimpleTable(
-                currentPage,
-                font,
-                boldFont,
-                pageWidth,
-                pageHeight,
-                margin,
-                visibleColumnIndices.length,
-                rowHeight,
-                globalFontSize,
-                cellPadding
-            );
-            
-            // Redraw header on new page
-            table.drawRow(headerRowData, currentY, true);
+    return pages;
+};
+
+// Create pages summarizing the readings per room and component (see summarizeReadingsByComponent), positive ones highlighted.
+// Returns no pages when the sheet has none of the grouping columns
+const createComponentSummaryPages = async (
+    pdfDoc: PDFDocument,
+    excelData: any[][],
+    headerRowIndex: number,
+    profile: AnalyzerProfile,
+    actionLevel: ActionLevel = DEFAULT_ACTION_LEVEL
+): Promise<PDFPage[]> => {
+    const summary = summarizeReadingsByComponent(excelData, headerRowIndex, profile, actionLevel);
+    if (!summary) {
+        console.warn(`⚠️ No room/component columns found for ${profile.name}, skipping the readings summary`);
+        return [];
+    }
+
+    const pages: PDFPage[] = [];
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+    // Portrait orientation, the table has few columns
+    const pageWidth = 612;
+    const pageHeight = 792;
+    const margin = 50;
+    const topMargin = 742;
+    const bottomMargin = 50;
+    const rowHeight = 18;
+    const fontSize = 8;
+    const cellPadding = 2;
+
+    const headerRowData = [...summary.headers, 'Max Reading (mg/cm²)', 'Tested', 'Positive', 'Result'];
+    const positiveCount = summary.rows.filter(row => row.positive > 0).length;
+
+    const startPage = (isFirstPage: boolean) => {
+        const page = pdfDoc.addPage([pageWidth, pageHeight]);
+        pages.push(page);
+        let y = topMargin;
+
+        if (isFirstPage) {
+            page.drawText('Summary of XRF Readings by Room and Component', { x: margin, y, size: 14, font: boldFont, color: rgb(0, 0, 0) });
+            y -= 20;
+            const text = positiveCount > 0
+                ? `${positiveCount} of ${summary.rows.length} components tested positive for lead-based paint`
+                : `None of the ${summary.rows.length} components tested positive for lead-based paint`;
+            page.drawText(text, { x: margin, y, size: 10, font: boldFont, color: positiveCount > 0 ? rgb(0.8, 0, 0) : rgb(0, 0.5, 0) });
+            y -= 28;
+        }
+
+        const table = new SimpleTable(page, font, boldFont, pageWidth, pageHeight, margin, headerRowData.length, rowHeight, fontSize, cellPadding);
+        table.drawRow(headerRowData, y, true);
+        return { table, y: y - rowHeight };
+    };
+
+    let { table, y: currentY } = startPage(true);
+
+    summary.rows.forEach(row => {
+        if (currentY < bottomMargin) {
+            ({ table, y: currentY } = startPage(false));
+        }
+        table.drawRow([
+            ...row.values,
+            row.maxReading === null ? '' : String(Math.round(row.maxReading * 100) / 100),
+            String(row.tested),
+            String(row.positive),
+            row.positive > 0 ? 'Positive' : 'Negative',
+        ], currentY, false, row.positive > 0);
+        currentY -= rowHeight;
+    });
+
+    return pages;
+};
+
+// Create a page summarizing the XRF calibration check: every check reading against its standard, then any problems
+const createCalibrationSummaryPages = async (
+    pdfDoc: PDFDocument,
+    qa: CalibrationQAResult,
+    data: ExtractedData
+): Promise<PDFPage[]> => {
+    const pages: PDFPage[] = [];
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+    // Portrait orientation, the table has few columns
+    const pageWidth = 612;
+    const pageHeight = 792;
+    const margin = 50;
+    const topMargin = 742;
+    const bottomMargin = 50;
+    const rowHeight = 18;
+    const fontSize = 8;
+    const cellPadding = 2;
+
+    const units = qa.units ? ` (${qa.units})` : '';
+    const headerRowData = ['Sequence', 'Sheet Row', `Reading${units}`, 'Standard', 'Accepted Range', 'Result'];
+    const statusText = qa.status === 'fail' ? 'FAILED' : qa.status === 'warn' ? 'PASSED WITH WARNINGS' : 'PASSED';
+    const statusColor = qa.status === 'fail' ? rgb(0.8, 0, 0) : qa.status === 'warn' ? rgb(0.7, 0.45, 0) : rgb(0, 0.5, 0);
+    // Instrument details from a CSV/text export's preamble, when the upload had them
+    const instrumentText = [
+        data.instrumentModel,
+        data.instrumentSerialNumber && `serial number ${data.instrumentSerialNumber}`,
+        data.instrumentSourceDate && `source date ${data.instrumentSourceDate}`,
+        data.instrumentFirmware && `firmware ${data.instrumentFirmware}`,
+    ].filter(Boolean).join(', ');
+
+    const startPage = (isFirstPage: boolean) => {
+        const page = pdfDoc.addPage([pageWidth, pageHeight]);
+        pages.push(page);
+        let y = topMargin;
+
+        if (isFirstPage) {
+            page.drawText('XRF Calibration Check', { x: margin, y, size: 14, font: boldFont, color: rgb(0, 0, 0) });
+            y -= 20;
+            page.drawText(`Calibration check: ${statusText}`, { x: margin, y, size: 10, font: boldFont, color: statusColor });
+            y -= 14;
+            if (instrumentText) {
+                page.drawText(`Instrument: ${instrumentText}`, { x: margin, y, size: 8, font, color: rgb(0.3, 0.3, 0.3) });
+                y -= 14;
+            }
+            y -= 14;
+        }
+
+        const table = new SimpleTable(page, font, boldFont, pageWidth, pageHeight, margin, headerRowData.length, rowHeight, fontSize, cellPadding);
+        table.drawRow(headerRowData, y, true);
+        return { page, table, y: y - rowHeight };
+    };
+
+    let { page, table, y: currentY } = startPage(true);
+
+    qa.sequences.forEach(sequence => {
+        sequence.readings.forEach(reading => {
+            if (currentY < bottomMargin) {
+                ({ page, table, y: currentY } = startPage(false));
+            }
+            const standard = reading.standard;
+            table.drawRow([
+                sequence.position.charAt(0).toUpperCase() + sequence.position.slice(1),
+                String(reading.rowNumber),
+                reading.text,
+                standard ? standard.name : '',
+                standard ? `${Math.round((standard.value - standard.tolerance) * 100) / 100} - ${Math.round((standard.value + standard.tolerance) * 100) / 100}` : '',
+                reading.withinTolerance === null ? 'Not checked' : reading.withinTolerance ? 'Pass' : 'Fail',
+            ], currentY, false, reading.withinTolerance === false);
             currentY -= rowHeight;
+        });
+    });
+
+    // Problems below the table, one per line
+    if (qa.problems.length > 0) {
+        currentY -= 10;
+        qa.problems.forEach(problem => {
+            if (currentY < bottomMargin) {
+                ({ page, table, y: currentY } = startPage(false));
+            }
+            page.drawText(`- ${problem}`, { x: margin, y: currentY, size: fontSize, font, color: rgb(0.3, 0.3, 0.3), maxWidth: pageWidth - 2 * margin });
+            currentY -= 12;
+        });
+    }
+
+    return pages;
+};
+
+// Surface names used in the dust wipe results table
+const DUST_WIPE_SURFACE_LABELS: Record<DustWipeSurfaceType, string> = {
+    floor: 'Floor',
+    window_sill: 'Window Sill',
+    window_trough: 'Window Trough',
+};
+
+// Create pages with dust wipe lab results: one row per sample with its threshold and pass/fail, failed samples highlighted
+const createDustWipeResultsPages = async (
+    pdfDoc: PDFDocument,
+    samples: DustWipeSample[],
+    thresholds: DustWipeThresholds
+): Promise<PDFPage[]> => {
+    const pages: PDFPage[] = [];
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+    // Portrait orientation, the table has few columns
+    const pageWidth = 612;
+    const pageHeight = 792;
+    const margin = 50;
+    const topMargin = 742;
+    const bottomMargin = 50;
+    const rowHeight = 18;
+    const fontSize = 8;
+    const cellPadding = 2;
+
+    const headerRowData = ['Sample', 'Location', 'Surface', 'Area (ft²)', 'Result (µg/ft²)', 'Threshold (µg/ft²)', 'Pass/Fail'];
+    const failedCount = samples.filter(sample => sample.passed === false).length;
+
+    const formatNumber = (value: number | null | undefined) =>
+        value === null || value === undefined ? '' : String(Math.round(value * 100) / 100);
+    // e.g. "floors 10 µg/ft², window sills 100 µg/ft², window troughs 400 µg/ft²"
+    const thresholdsText = (Object.keys(DUST_WIPE_SURFACE_LABELS) as DustWipeSurfaceType[])
+        .map(type => `${DUST_WIPE_SURFACE_LABELS[type].toLowerCase()}s ${formatNumber(thresholds[type])} µg/ft²`)
+        .join(', ');
+
+    const startPage = (isFirstPage: boolean) => {
+        const page = pdfDoc.addPage([pageWidth, pageHeight]);
+        pages.push(page);
+        let y = topMargin;
+
+        if (isFirstPage) {
+            page.drawText('Dust Wipe Sample Results', { x: margin, y, size: 14, font: boldFont, color: rgb(0, 0, 0) });
+            y -= 20;
+            const summary = failedCount > 0
+                ? `Overall result: FAILED - ${failedCount} of ${samples.length} samples at or above the hazard threshold`
+                : `Overall result: PASSED - all ${samples.length} samples below the hazard thresholds`;
+            page.drawText(summary, { x: margin, y, size: 10, font: boldFont, color: failedCount > 0 ? rgb(0.8, 0, 0) : rgb(0, 0.5, 0) });
+            y -= 14;
+            page.drawText(`Hazard thresholds: ${thresholdsText}`, {
+                x: margin, y, size: 8, font, color: rgb(0.3, 0.3, 0.3)
+            });
+            y -= 28;
         }
-        
-        // Check if this row is positive (non-calibration)
-        const isCalibration = isCalibrationRow(rowIndexInData, row, calibrationColIndex);
-        const isPositive = !isCalibration && 
-                          pbPfColIndex !== -1 && 
-                          row && 
-                          isPositiveValue(row[pbPfColIndex]);
-        
-        // Prepare row data (only visible columns)
-        const rowData = visibleColumnIndices.map(i => formatCellValue(row[i] || ''));
-        
-        // Draw the row using table helper
-        table.drawRow(rowData, currentY, false, isPositive);
-        
+
+        const table = new SimpleTable(page, font, boldFont, pageWidth, pageHeight, margin, headerRowData.length, rowHeight, fontSize, cellPadding);
+        table.drawRow(headerRowData, y, true);
+        return { table, y: y - rowHeight };
+    };
+
+    let { table, y: currentY } = startPage(true);
+
+    samples.forEach(sample => {
+        if (currentY < bottomMargin) {
+            ({ table, y: currentY } = startPage(false));
+        }
+
+        const surfaceLabel = sample.surfaceType ? DUST_WIPE_SURFACE_LABELS[sample.surfaceType] : sample.surface;
+        const status = sample.passed === null ? 'Not evaluated' : sample.passed ? 'Pass' : 'Fail';
+        table.drawRow([
+            sample.sampleId,
+            sample.location,
+            surfaceLabel,
+            formatNumber(sample.area),
+            sample.resultText,
+            formatNumber(sample.threshold),
+            status,
+        ], currentY, false, sample.passed === false);
         currentY -= rowHeight;
-        rowCount++;
     });
-    
+
     return pages;
 };
 
 // Helper function to fix text overflow in fields before flattening
 // This ensures that long text is visible after flattening by reducing font size to fit within boundaries
+// Building summary of a multi-unit run: one row per unit with its per-unit fields, readings status and calibration
+const createBuildingSummaryPages = async (
+    pdfDoc: PDFDocument,
+    data: ExtractedData & Record<string, any>,
+    units: UnitData[],
+    config: ReportConfig
+): Promise<PDFPage[]> => {
+    const pages: PDFPage[] = [];
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+    // Portrait orientation, the table has few columns
+    const pageWidth = 612;
+    const pageHeight = 792;
+    const margin = 50;
+    const topMargin = 742;
+    const bottomMargin = 50;
+    const rowHeight = 18;
+    const fontSize = 8;
+    const cellPadding = 2;
+
+    // The unit field is the first column; the other per-unit fields (result, counts) follow with their labels
+    const fieldIds = getUnitFieldIds(config).filter(fieldId => fieldId !== config.unitField);
+    const headerRowData = [
+        'Unit',
+        ...fieldIds.map(fieldId => config.mappings.find(m => m.pdfFieldId === fieldId)?.label || fieldId),
+        'Readings',
+        'Calibration',
+    ];
+    const positiveUnits = units.filter(unit => unit.isPositive).length;
+    const actionLevel = config.actionLevel || DEFAULT_ACTION_LEVEL;
+    const address = data.Address || data.address || '';
+    const dateRange = config.dateRangeFields;
+    const start = data[dateRange?.start || 'Date'];
+    const end = dateRange?.end ? data[dateRange.end] : undefined;
+    const date = start ? `${formatDateForPDF(start)}${end && end !== start ? ` - ${formatDateForPDF(end)}` : ''}` : '';
+
+    const startPage = (isFirstPage: boolean) => {
+        const page = pdfDoc.addPage([pageWidth, pageHeight]);
+        pages.push(page);
+        let y = topMargin;
+
+        if (isFirstPage) {
+            page.drawText('Building Summary', { x: margin, y, size: 14, font: boldFont, color: rgb(0, 0, 0) });
+            y -= 20;
+            if (address) {
+                page.drawText(address, { x: margin, y, size: 10, font, color: rgb(0, 0, 0) });
+                y -= 14;
+            }
+            page.drawText([
+                date ? `Inspection date: ${date}` : '',
+                `Action level: ${actionLevel.level} mg/cm²`,
+            ].filter(Boolean).join('   '), { x: margin, y, size: 8, font, color: rgb(0.3, 0.3, 0.3) });
+            y -= 14;
+            const summary = positiveUnits > 0
+                ? `${positiveUnits} of ${units.length} units with lead-based paint readings`
+                : `No lead-based paint readings in any of the ${units.length} units`;
+            page.drawText(summary, { x: margin, y, size: 10, font: boldFont, color: positiveUnits > 0 ? rgb(0.8, 0, 0) : rgb(0, 0.5, 0) });
+            y -= 28;
+        }
+
+        const table = new SimpleTable(page, font, boldFont, pageWidth, pageHeight, margin, headerRowData.length, rowHeight, fontSize, cellPadding);
+        table.drawRow(headerRowData, y, true);
+        return { page, table, y: y - rowHeight };
+    };
+
+    let { page, table, y: currentY } = startPage(true);
+
+    units.forEach(unit => {
+        if (currentY < bottomMargin) {
+            ({ page, table, y: currentY } = startPage(false));
+        }
+        const calibration = unit.calibrationQA;
+        table.drawRow([
+            getUnitLabel(unit, config),
+            ...fieldIds.map(fieldId => String(unit.fields[fieldId] ?? '')),
+            `${unit.isPositive ? 'Positive' : 'Negative'} (${unit.positiveReadings} of ${unit.totalReadings})`,
+            !calibration ? '' : calibration.status === 'fail' ? 'Failed' : calibration.status === 'warn' ? 'Passed with warnings' : 'Passed',
+        ], currentY, false, unit.isPositive);
+        currentY -= rowHeight;
+    });
+
+    if (currentY < bottomMargin) {
+        ({ page, table, y: currentY } = startPage(false));
+    }
+    currentY -= 10;
+    page.drawText(`Building total: ${data.positiveReadings || 0} positive of ${data.totalReadings || 0} readings`, {
+        x: margin, y: currentY, size: fontSize, font, color: rgb(0.3, 0.3, 0.3)
+    });
+
+    return pages;
+};
+
 const fixFieldTextOverflow = async (form: any, font: any): Promise<void> => {
     console.log('🔧 Fixing text overflow in fields before flattening...');
     
@@ -1037,7 +1260,7 @@ const flattenFormAsImage = async (pdfDoc: PDFDocument): Promise<void> => {
             const pageRotation = pdfPage.rotate || 0;
             
             // Use the original dimensions from pdf-lib, but check if pdf.js rotation indicates we need to swap
-            let originalDims = originalPageDimensions[pageNum - 1];
+            const originalDims = originalPageDimensions[pageNum - 1];
             let originalWidth = originalDims.width;
             let originalHeight = originalDims.height;
             
@@ -1179,14 +1402,48 @@ export const flattenPdf = async (file: File): Promise<void> => {
 };
 
 
-export const generatePDFReport = async (
+// What a generation run downloads: the report, the lead-safe certificate, both as separate files,
+// or the report with the certificate included (placed by the page layout's 'leadSafeCertificate' step)
+export type ReportOutput = 'report' | 'certificate' | 'separate' | 'bundle';
+
+// A PDF a generation run downloaded, with what the report archive records about it
+export interface GeneratedPdf {
+    reportId: string; // Archive record id, chosen before the PDF is built so its QR code can link to it
+    fileName: string;
+    bytes: Uint8Array;
+    details: ReportRecordDetails;
+}
+
+export interface ReportBuildOptions {
+    includeCertificate?: boolean; // Add the filled certificate template to the report
+    // Template versions to fill instead of the config's pins, by template key: a revision is filled from the
+    // versions of the report it revises (see resolveTemplateVersion)
+    templateVersions?: TemplateVersions;
+    // Loads the templates (default: fetched over HTTP). The server reads them from disk and storage instead.
+    loadTemplate?: TemplateBytesLoader;
+    // Address of the PDF's verification page (see getVerificationUrl), encoded in the config's QR code.
+    // Unset: no QR code.
+    verificationUrl?: string;
+    // Add an empty signature field for the PDF to be signed on the server: at the config's digitalSignature,
+    // else invisible
+    digitalSignature?: boolean;
+}
+
+/**
+ * Builds the full report PDF from the confirmed data.
+ * Runs in the browser and on the server: documents are passed in with their files, templates come from
+ * options.loadTemplate, and without a browser to render pages the XHR report is flattened with pdf-lib.
+ * @returns The PDF bytes
+ */
+export const buildPDFReport = async (
     data: ExtractedData & Record<string, any>, 
     reportType: string | null,
     generalTypedDocuments?: Map<string, Document>,
     inspectorDocuments?: Map<string, Document[]>,
     inspectors?: Inspector[],
-    generalVariables?: Map<string, string>
-) => {
+    generalVariables?: Map<string, string>,
+    options: ReportBuildOptions = {}
+): Promise<Uint8Array> => {
     try {
         const config = getReportConfig(reportType);
         if (!config) {
@@ -1194,144 +1451,22 @@ export const generatePDFReport = async (
         }
 
         // 1. Load Main Template
-        // Use utility to get template URLs to try
-        const templateUrls = getTemplateUrl(config.templateUrl);
-        const templateFilename = config.templateUrl.replace('/templates/', '');
-        
-        console.log('Fetching main template, trying URLs:', templateUrls);
-        let templateResponse: Response | null = null;
-        
-        // Try each URL until one works
-        for (const url of templateUrls) {
-            try {
-                templateResponse = await fetch(url, { cache: 'no-cache' });
-                if (templateResponse.ok) {
-                    console.log(`✅ Successfully fetched main template from: ${url}`);
-                    break;
-                }
-            } catch (err: any) {
-                console.warn(`Failed to fetch main template from ${url}:`, err.message);
-                templateResponse = null;
-            }
-        }
-        
-        if (!templateResponse || !templateResponse.ok) {
-            throw new Error(
-                `Failed to fetch template: ${templateResponse?.status || 'Network Error'} ${templateResponse?.statusText || ''}.\n\n` +
-                `Tried URLs: ${templateUrls.join(', ')}\n` +
-                `Please ensure:\n` +
-                `  1. Template file exists at: public/templates/${templateFilename}\n` +
-                `  2. React dev server is running (for development) or API server is running (npm run server)`
-            );
-        }
-        
-        const existingPdfBytes = await templateResponse.arrayBuffer();
-        if (existingPdfBytes.byteLength === 0) {
-            throw new Error(`Template file ${config.templateUrl} is empty. Please check the file.`);
-        }
+        const templateVersion = resolveTemplateVersion(config.templateUrl, config.templateVersion, options.templateVersions);
+        const loadTemplate = options.loadTemplate || loadTemplateBytes;
+        const existingPdfBytes = await loadTemplate(config.templateUrl, templateVersion);
         const pdfDoc = await PDFDocument.load(existingPdfBytes);
+        await setTemplateKeywords(pdfDoc, config.templateUrl, existingPdfBytes, templateVersion);
         const form = pdfDoc.getForm();
 
-        // Store the original page count and identify the target page index (3rd-to-last from original template)
-        // This is the page with new form fields that should be removed if results are positive
-        let targetPageIndex: number | null = null;
-        if (reportType === 'XHR') {
-            const originalPageCount = pdfDoc.getPageCount();
-            // 3rd-to-last page: if there are 5 pages (0-4), 3rd-to-last is index 2
-            // But user says it's the 6th page (index 5), so let's use that
-            if (originalPageCount >= 6) {
-                targetPageIndex = 5; // 6th page (0-indexed)
-            } else if (originalPageCount >= 3) {
-                // Fallback: calculate 3rd-to-last
-                targetPageIndex = originalPageCount - 3;
-            }
-            console.log(`XHR template has ${originalPageCount} pages. Target page index: ${targetPageIndex}`);
-        }
+        // Keep the template pages in their original order. The page layout refers to these by id,
+        // so readings, attachments and conditional pages never shift the references by index.
+        const templatePages = pdfDoc.getPages();
+        const templatePageIds = resolveTemplatePages(pdfDoc, config.pageLayout?.pages || []);
 
         // 2. Fill form fields
-        // First pass: Handle special cases that need to populate multiple fields
-        // Handle Inspection Date splitting first
-        const inspectionDateMapping = config.mappings.find(m => m.pdfFieldId === 'Dates of Inspection' && m.source === 'user_input');
-        if (inspectionDateMapping) {
-            const inspectionDateValue = data[inspectionDateMapping.pdfFieldId] || '';
-            if (inspectionDateValue) {
-                const formattedDate = formatDateForPDF(inspectionDateValue);
-                const dateParts = formattedDate.split('/');
-                
-                if (dateParts.length === 3) {
-                    const [month, day, year] = dateParts;
-                    
-                    // Fill all date fields
-                    const dateFields = [
-                        { id: 'Dates of Inspection', value: month },
-                        { id: 'undefined', value: day },
-                        { id: 'undefined_2', value: year },
-                        { id: 'TO', value: month },
-                        { id: 'undefined_3', value: day },
-                        { id: 'undefined_4', value: year },
-                        { id: 'Date Certificate Issued', value: month },
-                        { id: 'undefined_5', value: day },
-                        { id: 'undefined_6a', value: year }
-                    ];
-                    
-                    dateFields.forEach(({ id, value }) => {
-                        try {
-                            const field = form.getTextField(id);
-                            if (field) {
-                                field.setText(value);
-                                // updateAppearances() may require arguments in some versions
-                                try {
-                                    (field.updateAppearances as any)();
-                                } catch (_err: any) {
-                                    // Ignore appearance update errors
-                                }
-                            }
-                        } catch (err) {
-                            console.warn(`Error filling date field ${id}:`, err);
-                        }
-                    });
-                }
-            }
-        }
-
-        // Handle Applicable Units text splitting
-        const applicableUnitsMapping = config.mappings.find(m => m.pdfFieldId === 'Applicable Units or Common Areas 1' && m.source === 'user_input');
-        if (applicableUnitsMapping) {
-            const applicableUnitsValue = data[applicableUnitsMapping.pdfFieldId] || '';
-            if (applicableUnitsValue) {
-                const maxLength = 50;
-                const text = String(applicableUnitsValue);
-                if (text.length > maxLength) {
-                    let breakPoint = maxLength;
-                    for (let i = maxLength; i > maxLength * 0.7; i--) {
-                        if (text[i] === ' ' || text[i] === ',' || text[i] === '-') {
-                            breakPoint = i + 1;
-                            break;
-                        }
-                    }
-                    const firstPart = text.substring(0, breakPoint).trim();
-                    const secondPart = text.substring(breakPoint).trim();
-                    
-                    try {
-                        const secondField = form.getTextField('Applicable Units or Common Areas 2');
-                        if (secondField) {
-                            secondField.setText(secondPart);
-                            try {
-                                (secondField.updateAppearances as any)();
-                            } catch (_err: any) {
-                                // Ignore appearance update errors
-                            }
-                        }
-                    } catch (err) {
-                        console.warn('Error filling Applicable Units field 2:', err);
-                    }
-                }
-            }
-        }
-
-        // 3. Handle special field mappings for XHR reports
-        // Note: Fields that reuse values (Address, address, insp date, etc.) are now handled
-        // in the main loop by reading from the same data source - no special copying needed
+        // Handle special field mappings for XHR reports
+        // Note: Fields that reuse values (address, insp date, etc.) are declared as 'derived'
+        // mappings in the report config and resolved in the main loop
         if (reportType === 'XHR') {
             // Fill Inspector name from dropdown if selected (before main loop processes it)
             if (data.selectedInspectorId && inspectors) {
@@ -1343,288 +1478,44 @@ export const generatePDFReport = async (
             }
         }
 
-        // 4. Iterate Mappings for all other fields (but skip Check Box8 - handle at end)
-        const checkboxMapping = config.mappings.find(m => m.pdfFieldId === 'Check Box8');
-        const otherMappings = config.mappings.filter(m => m.pdfFieldId !== 'Check Box8');
+        // Overlay fields are not filled in the form - they are drawn as text after flattening (step 9)
+        const textOverlays: TextOverlayDraw[] = [];
         
-        // Embed font for black text (used for Numb1 and Numb2)
-        const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+        // Variables available to 'calculation' expressions
+        const selectedInspector = inspectors?.find(i => i.id === data.selectedInspectorId);
+        const resolutionContext = {
+            generalVariables,
+            inspectorVariables: selectedInspector?.variableValues,
+        };
         
-        otherMappings.forEach(mapping => {
+        config.mappings.forEach(mapping => {
             try {
-                // Skip fields that were already handled in special cases
-                if (mapping.pdfFieldId === 'Dates of Inspection' || 
-                    ['undefined', 'undefined_2', 'TO', 'undefined_3', 'undefined_4', 
-                     'Date Certificate Issued', 'undefined_5', 'undefined_6a', 'Signature', 'Inspector sig'].includes(mapping.pdfFieldId) ||
-                    (mapping.pdfFieldId === 'Applicable Units or Common Areas 1' && mapping.source === 'user_input')) {
-                    // These are handled above, but we still need to process the main field
-                    if (mapping.pdfFieldId === 'Dates of Inspection' && mapping.source === 'user_input') {
-                        const field = form.getTextField(mapping.pdfFieldId);
-                        if (field) {
-                            const inspectionDateValue = data[mapping.pdfFieldId] || '';
-                            if (inspectionDateValue) {
-                                const formattedDate = formatDateForPDF(inspectionDateValue);
-                                const dateParts = formattedDate.split('/');
-                                if (dateParts.length === 3) {
-                                    field.setText(dateParts[0]); // MM
-                                    try {
-                                        (field.updateAppearances as any)();
-                                    } catch (_err: any) {
-                                        // Ignore appearance update errors
-                                    }
-                                }
-                            }
-                        }
-                    } else if (mapping.pdfFieldId === 'Applicable Units or Common Areas 1' && mapping.source === 'user_input') {
-                        const field = form.getTextField(mapping.pdfFieldId);
-                        if (field) {
-                            let valueToFill = data[mapping.pdfFieldId] || '';
-                            if (valueToFill) {
-                                const maxLength = 50;
-                                const text = String(valueToFill);
-                                if (text.length > maxLength) {
-                                    let breakPoint = maxLength;
-                                    for (let i = maxLength; i > maxLength * 0.7; i--) {
-                                        if (text[i] === ' ' || text[i] === ',' || text[i] === '-') {
-                                            breakPoint = i + 1;
-                                            break;
-                                        }
-                                    }
-                                    valueToFill = text.substring(0, breakPoint).trim();
-                                }
-                            }
-                            field.setText(String(valueToFill));
-                            try {
-                                (field.updateAppearances as any)();
-                            } catch (_err: any) {
-                                // Ignore appearance update errors
-                            }
-                        }
+                // Images are placed at these fields (step 4b), they have no text
+                if (['Signature', 'Inspector sig'].includes(mapping.pdfFieldId)) {
+                    return;
+                }
+
+                if (mapping.overlay) {
+                    const overlayText = resolveFieldValue(mapping, data, config.mappings, resolutionContext);
+                    if (overlayText) {
+                        const overlayDraw = resolveTextOverlay(pdfDoc, getMappedFieldName(form, mapping), mapping.overlay, overlayText);
+                        if (overlayDraw) textOverlays.push(overlayDraw);
                     }
-                    return; // Skip other special case fields as they're already handled
+                    return;
                 }
 
-                const field = form.getTextField(mapping.pdfFieldId);
+                const field = form.getTextField(getMappedFieldName(form, mapping));
                 if (!field) {
                     console.warn(`Field ${mapping.pdfFieldId} found in config but not in PDF.`);
                     return;
                 }
 
-                // Skip static fields with empty staticValue that are meant to be filled from other fields
-                // (These are handled in the special XHR mapping section above)
-                // Also skip Date field for XHR since it's handled in the special section
-                // No special skipping needed - all fields are processed normally in main loop
-
-                let valueToFill = '';
-
-                if (mapping.source === 'user_input') {
-                    // For XHR reports, some fields reuse values from other fields
-                    if (reportType === 'XHR') {
-                        // address (lowercase, on page 6) reuses Address value
-                        if (mapping.pdfFieldId === 'address') {
-                            valueToFill = data['Address'] || data[mapping.pdfFieldId] || '';
-                        }
-                        // Date-related fields (insp date, insp date end, cert date) reuse Date value
-                        else if (mapping.pdfFieldId === 'insp date' || mapping.pdfFieldId === 'insp date end' || mapping.pdfFieldId === 'cert date') {
-                            valueToFill = data['Date'] || data[mapping.pdfFieldId] || '';
-                        }
-                        // cert date 2 reuses Today (Report Date) value
-                        else if (mapping.pdfFieldId === 'cert date 2') {
-                            valueToFill = data['Today'] || data[mapping.pdfFieldId] || '';
-                        }
-                        // inpector name (typo) reuses Inspector name value
-                        else if (mapping.pdfFieldId === 'inpector name ') {
-                            valueToFill = data['Inspector name'] || data[mapping.pdfFieldId] || '';
-                        }
-                        else {
-                            valueToFill = data[mapping.pdfFieldId] || '';
-                        }
-                    } else {
-                        valueToFill = data[mapping.pdfFieldId] || '';
-                    }
-                } else if (mapping.source === 'static') {
-                    valueToFill = mapping.staticValue || '';
-                    // For XHR reports, static fields with empty values that should reuse other field values
-                    if (reportType === 'XHR' && !valueToFill) {
-                        // Date-related fields (insp date, insp date end, cert date) reuse Date value
-                        if (mapping.pdfFieldId === 'insp date' || mapping.pdfFieldId === 'insp date end' || mapping.pdfFieldId === 'cert date') {
-                            valueToFill = data['Date'] || '';
-                        }
-                        // cert date 2 reuses Today (Report Date) value
-                        else if (mapping.pdfFieldId === 'cert date 2') {
-                            valueToFill = data['Today'] || '';
-                        }
-                        // inpector name (typo) reuses Inspector name value
-                        else if (mapping.pdfFieldId === 'inpector name ') {
-                            valueToFill = data['Inspector name'] || '';
-                        }
-                        // address (lowercase) reuses Address value
-                        else if (mapping.pdfFieldId === 'address') {
-                            valueToFill = data['Address'] || '';
-                        }
-                    }
-                } else if (mapping.source === 'excel_cell') {
-                    // TODO: Implement Excel Extraction Logic here
-                    // For now, we mock or leave empty unless data is passed via inputs
-                    valueToFill = '';
-                }
+                // Resolve user input, static, derived and calculated values (including date formatting)
+                let valueToFill = resolveFieldValue(mapping, data, config.mappings, resolutionContext);
                 
                 // Check if field name matches variables (general first, then inspector)
                 if (!valueToFill) {
-                    const fieldName = mapping.pdfFieldId.toLowerCase();
-                    
-                    // Check general variables first
-                    if (generalVariables) {
-                        for (const [varName, varValue] of generalVariables.entries()) {
-                            const varNameLower = varName.toLowerCase();
-                            if (fieldName === varNameLower || 
-                                fieldName.includes(varNameLower) || 
-                                varNameLower.includes(fieldName)) {
-                                valueToFill = varValue;
-                                break;
-                            }
-                        }
-                    }
-                    
-                    // Then check inspector variable values if available
-                    if (!valueToFill && data.selectedInspectorId && inspectors) {
-                        const inspector = inspectors.find(i => i.id === data.selectedInspectorId);
-                        if (inspector?.variableValues) {
-                            for (const [varName, varValue] of inspector.variableValues.entries()) {
-                                const varNameLower = varName.toLowerCase();
-                                if (fieldName === varNameLower || 
-                                    fieldName.includes(varNameLower) || 
-                                    varNameLower.includes(fieldName)) {
-                                    valueToFill = varValue;
-                                    break;
-                                }
-                            }
-                        }
-                    }
-                }
-
-                // Format dates as MM/DD/YYYY if this is a date field (but not Dates of Inspection)
-                if (mapping.inputType === 'date' && valueToFill && mapping.pdfFieldId !== 'Dates of Inspection') {
-                    valueToFill = formatDateForPDF(valueToFill);
-                }
-                
-                // Format date fields that reuse Date value (static fields that get date values)
-                if (reportType === 'XHR' && valueToFill && 
-                    (mapping.pdfFieldId === 'insp date' || mapping.pdfFieldId === 'insp date end' || mapping.pdfFieldId === 'cert date')) {
-                    valueToFill = formatDateForPDF(valueToFill);
-                }
-                
-                // Format cert date 2 that reuses Today value
-                if (reportType === 'XHR' && valueToFill && mapping.pdfFieldId === 'cert date 2') {
-                    valueToFill = formatDateForPDF(valueToFill);
-                }
-                
-                // Skip filling Numb1 and Numb2 in regular form fields - they will be drawn as text overlay instead
-                if (reportType === 'XHR' && (mapping.pdfFieldId === 'Numb1' || mapping.pdfFieldId === 'Numb2')) {
-                    // Skip this field - don't fill it in the form, it will be drawn as text overlay later
-                    return;
-                }
-
-                // Special handling for Inspector name on page 5: append Permit number
-                // Find page 5 by checking all fields and finding which ones are on page 5 (index 4)
-                if (reportType === 'XHR' && mapping.pdfFieldId === 'Inspector name' && valueToFill) {
-                    try {
-                        // Get all fields and find which page "Inspector name" is on
-                        const widgets = field.acroField.getWidgets();
-                        if (widgets.length > 0) {
-                            const widget = widgets[0];
-                            const fieldPageRef = (widget.dict as any).get('P');
-                            const pages = pdfDoc.getPages();
-                            
-                            // Find which page this field is on by comparing references
-                            let fieldPageIndex = -1;
-                            for (let i = 0; i < pages.length; i++) {
-                                try {
-                                    if (fieldPageRef === pages[i].ref) {
-                                        fieldPageIndex = i;
-                                        break;
-                                    }
-                                } catch (e) {
-                                    // Try alternative comparison
-                                    try {
-                                        if (fieldPageRef?.toString() === pages[i].ref?.toString()) {
-                                            fieldPageIndex = i;
-                                            break;
-                                        }
-                                    } catch (e2) {
-                                        // Continue
-                                    }
-                                }
-                            }
-                            
-                            // Alternative: List all fields on each page to debug
-                            if (fieldPageIndex === -1) {
-                                console.log(`🔍 Permit# Check - Could not determine page for Inspector name field. Listing all fields by page:`);
-                                const allFields = form.getFields();
-                                const fieldsByPage = new Map<number, string[]>();
-                                
-                                allFields.forEach(testField => {
-                                    try {
-                                        const testWidgets = testField.acroField.getWidgets();
-                                        if (testWidgets.length > 0) {
-                                            const testPageRef = (testWidgets[0].dict as any).get('P');
-                                            for (let i = 0; i < pages.length; i++) {
-                                                if (testPageRef === pages[i].ref) {
-                                                    if (!fieldsByPage.has(i)) {
-                                                        fieldsByPage.set(i, []);
-                                                    }
-                                                    fieldsByPage.get(i)!.push(testField.getName());
-                                                    break;
-                                                }
-                                            }
-                                        }
-                                    } catch (e) {
-                                        // Skip
-                                    }
-                                });
-                                
-                                fieldsByPage.forEach((fieldNames, pageIdx) => {
-                                    console.log(`  Page ${pageIdx + 1} (index ${pageIdx}): ${fieldNames.join(', ')}`);
-                                });
-                                
-                                // Try to find page 5 by looking for fields we know are on page 5
-                                // The signature image is placed on page 5, so look for fields near that area
-                                // Or use page index 4 directly if we have 5+ pages
-                                if (pages.length >= 5) {
-                                    fieldPageIndex = 4; // Assume page 5 if we can't detect it
-                                    console.log(`🔍 Permit# Check - Assuming page 5 (index 4) since template has ${pages.length} pages`);
-                                }
-                            }
-                            
-                            console.log(`🔍 Permit# Check - Inspector name field on page ${fieldPageIndex + 1} (index ${fieldPageIndex}), total pages: ${pages.length}`);
-                            
-                            // If this is page 5 (index 4), append Permit number
-                            if (fieldPageIndex === 4 && data.selectedInspectorId && inspectors) {
-                                const inspector = inspectors.find(ins => ins.id === data.selectedInspectorId);
-                                if (inspector) {
-                                    console.log(`🔍 Permit# Check - Inspector found: ${inspector.name}`);
-                                    
-                                    // Try both 'license number' and 'Permit number' as variable names
-                                    const permitNumber = inspector.variableValues?.get('license number') || 
-                                                         inspector.variableValues?.get('Permit number') ||
-                                                         inspector.variableValues?.get('permit number');
-                                    
-                                    if (permitNumber && permitNumber.trim()) {
-                                        valueToFill = `${valueToFill} Permit# ${permitNumber.trim()}`;
-                                        console.log(`✅ Permit# appended: "${valueToFill}"`);
-                                    } else {
-                                        console.log(`⚠️ Permit# Check - No permit number found. Available variables:`, inspector.variableValues ? Array.from(inspector.variableValues.keys()) : 'none');
-                                    }
-                                } else {
-                                    console.log(`⚠️ Permit# Check - Inspector with ID ${data.selectedInspectorId} not found`);
-                                }
-                            } else {
-                                console.log(`ℹ️ Permit# Check - Inspector name field not on page 5 (pageIndex: ${fieldPageIndex}), skipping Permit# append`);
-                            }
-                        }
-                    } catch (err) {
-                        console.warn('❌ Permit# Check - Error:', err);
-                    }
+                    valueToFill = findFallbackVariable(mapping, resolutionContext);
                 }
 
                 field.setText(String(valueToFill));
@@ -1647,38 +1538,6 @@ export const generatePDFReport = async (
                     }
                 }
                 
-                // Note: Black numbers for Numb1 and Numb2 are drawn later (after all fields are filled)
-                // These fields are NOT filled in the regular form - only drawn as text overlay
-                
-                // Store phone field reference for later use in signature positioning
-                if (reportType === 'XHR' && (mapping.pdfFieldId === 'Phone' || mapping.pdfFieldId === 'phone')) {
-                    try {
-                        const widgets = field.acroField.getWidgets();
-                        if (widgets.length > 0) {
-                            const widget = widgets[0];
-                            const pageRef = (widget.dict as any).get('P');
-                            const pages = pdfDoc.getPages();
-                            for (let i = 0; i < pages.length; i++) {
-                                if (pageRef === pages[i].ref) {
-                                    const rect = widget.getRectangle();
-                                    phoneFieldRef = {
-                                        field: field,
-                                        page: pages[i],
-                                        x: rect.x,
-                                        y: rect.y,
-                                        width: rect.width,
-                                        height: rect.height || 20
-                                    };
-                                    console.log(`Stored phone field reference on page ${i + 1} at x=${rect.x}, y=${rect.y}`);
-                                    break;
-                                }
-                            }
-                        }
-                    } catch (phoneErr) {
-                        console.warn('Error storing phone field reference:', phoneErr);
-                    }
-                }
-                
                 // Ensure text appears on top by updating appearances
                 // This ensures the text is properly rendered and visible
                 try {
@@ -1692,524 +1551,65 @@ export const generatePDFReport = async (
             }
         });
 
-        // Note: Fields that reuse values are now handled in main loop above
-        // No special copying needed - they read from the same data source
-
-            // 4. Handle Check Box8 LAST to ensure it's on top of everything - write user input in large, obvious text
-            if (checkboxMapping) {
-                try {
-                    // Get the user's input text for Check Box8
-                    let checkBoxText = '';
-                    if (checkboxMapping.source === 'user_input') {
-                        checkBoxText = data['Check Box8'] || '';
-                    } else if (checkboxMapping.source === 'static') {
-                        checkBoxText = checkboxMapping.staticValue || '';
-                    }
-                    
-                    if (checkBoxText) {
-                        // Try as text field first (most likely)
-                        try {
-                            const textField = form.getTextField('Check Box8');
-                            if (textField) {
-                                // Write the user's text
-                                textField.setText(checkBoxText);
-                                // Set font size for checkbox text
-                                try {
-                                    // Only set font size if field is valid and supports it
-                                    if (textField && 
-                                        textField.constructor.name && 
-                                        textField.constructor.name.includes('TextField') &&
-                                        typeof textField.setFontSize === 'function') {
-                                        textField.setFontSize(12); // Reduced font size
-                                    }
-                                } catch (fontErr: any) {
-                                    // If setFontSize fails, silently ignore - font size will be handled during flattening
-                                    if (fontErr?.message && !fontErr.message.includes('defineProperty')) {
-                                        console.warn('Could not set font size for Check Box8:', fontErr.message);
-                                    }
-                                }
-                                // Ensure it's visible and on top
-                                (textField.updateAppearances as any)();
-                            }
-                        } catch (textErr) {
-                            // If it's not a text field, try as checkbox but write text to a label instead
-                            try {
-                                const checkboxField = form.getCheckBox('Check Box8');
-                                if (checkboxField) {
-                                    // For checkboxes, we can't set text directly, but we can still make it visible
-                                    checkboxField.check();
-                                    checkboxField.updateAppearances();
-                                    // Try to get the page and draw text nearby if possible
-                                    console.warn('Check Box8 is a checkbox field, cannot write text directly');
-                                }
-                            } catch (checkboxErr) {
-                                console.warn('Check Box8 field not found or could not be accessed:', checkboxErr);
-                            }
-                        }
-                    }
-                } catch (err) {
-                    console.warn(`Error handling Check Box8:`, err);
-                }
-            }
-
-        // ==================== SIGNATURE POSITIONING CONFIGURATION ====================
-        // Easy-to-change variables for signature positioning on page 6
-        // Location: src/utils/pdfGenerator.ts - around line 1719
-        const PAGE6_SIGNATURE_X = 600;  // X coordinate for signature on page 6
-        const PAGE6_SIGNATURE_Y = 125;   // Y coordinate for signature on page 6
-        // Note: These are PDF coordinates where (0,0) is bottom-left corner
-        // =================================================================================
-        
-        // Store signature image info to draw last (on top of everything)
-        let signatureImageData: { image: any; page: any; x: number; y: number; width: number; height: number } | null = null;
-        let xhrSignatureImageData: { image: any; page: any; x: number; y: number; width: number; height: number } | null = null;
-        let xhrPage6SignatureImageData: { image: any; page: any; x: number; y: number; width: number; height: number } | null = null;
-        // Store phone field reference when we fill it, so we can use it later for signature positioning
-        let phoneFieldRef: { field: any; page: any; x: number; y: number; width: number; height: number } | null = null;
-        
-        // 3. Prepare Signature image - will be drawn last to appear on top
-        if (false && data.selectedInspectorId && inspectorDocuments) {
-            try {
-                const inspectorDocs = inspectorDocuments!.get(data.selectedInspectorId!) || [];
-                // Find signature document (look for document type containing "signature")
-                const signatureDoc = inspectorDocs.find((doc: any) => 
-                    doc.documentType?.toLowerCase().includes('signature')
-                );
-
-                const signatureFile = signatureDoc?.file;
-                if (signatureDoc && signatureFile) {
-                    try {
-                        // TypeScript narrowing: we've checked signatureFile exists above
-                        // Use type assertion since we've verified it exists in the if condition
-                        const file = signatureFile as File | Blob;
-                        
-                        // Known position of signature (from when we removed the field)
-                        // Move 20px higher: original y=86.56, now y=106.56
-                        const sigX = 594.72;
-                        const sigY = 106.56; // Bottom-left y coordinate (20px higher than original 86.56)
-                        const sigWidth = 83.4;
-                        const sigHeight = 50;
-
-                        // Get first page (where signature should be)
-                        const pages = pdfDoc.getPages();
-                        const targetPage = pages[0]; // Signature is on first page
-
-                        // Embed the signature image
-                        const arrayBuffer = await file.arrayBuffer();
-                        let image;
-                        
-                        if (file.type === 'image/png') {
-                            image = await pdfDoc.embedPng(arrayBuffer);
-                        } else if (file.type === 'image/jpeg' || file.type === 'image/jpg') {
-                            image = await pdfDoc.embedJpg(arrayBuffer);
-                        } else {
-                            // Try PNG first, then JPEG
-                            try {
-                                image = await pdfDoc.embedPng(arrayBuffer);
-                            } catch {
-                                image = await pdfDoc.embedJpg(arrayBuffer);
-                            }
-                        }
-
-                        // Calculate image dimensions and scale to fit, then make 25% bigger
-                        const imageDims = image.scale(1);
-                        const scaleX = sigWidth / imageDims.width;
-                        const scaleY = sigHeight / imageDims.height;
-                        let scale = Math.min(scaleX, scaleY, 1); // Don't scale up, only down
-                        
-                        // Make it 25% bigger (1.25x the size)
-                        scale = scale * 1.25;
-
-                        const scaledWidth = imageDims.width * scale;
-                        const scaledHeight = imageDims.height * scale;
-
-                        // Center the image in the signature location
-                        const imageX = sigX + (sigWidth - scaledWidth) / 2;
-                        // Note: PDF coordinates start from bottom-left, so y is the bottom of the field
-                        const imageY = sigY + (sigHeight - scaledHeight) / 2;
-
-                        // Store image data to draw later (on top of everything)
-                        signatureImageData = {
-                            image,
-                            page: targetPage,
-                            x: imageX,
-                            y: imageY,
-                            width: scaledWidth,
-                            height: scaledHeight
-                        };
-                    } catch (sigErr) {
-                        console.warn('Error preparing signature image:', sigErr);
-                    }
-                }
-            } catch (err) {
-                console.warn('Error handling signature:', err);
-            }
-        }
-
-        // 3b. Prepare Signature image for XHR reports on page 5 - will be drawn last to appear on top
-        if (reportType === 'XHR' && data.selectedInspectorId && inspectorDocuments) {
-            try {
-                const inspectorDocs = inspectorDocuments!.get(data.selectedInspectorId!) || [];
-                console.log(`🔍 XHR Signature Check - Inspector ID: ${data.selectedInspectorId}, Docs found: ${inspectorDocs.length}`);
-                // Find signature document (look for document type containing "signature")
-                const signatureDoc = inspectorDocs.find(doc => 
-                    doc.documentType?.toLowerCase().includes('signature')
+        // 4b. Prepare images (signature, stamp, logo) anchored to form fields - drawn last to appear on top.
+        // Positions come from the template's widget rectangles, so this runs before any pages are added or moved.
+        const inspectorDocs = (data.selectedInspectorId && inspectorDocuments?.get(data.selectedInspectorId)) || [];
+        const imageDraws = await prepareImageDraws(pdfDoc, config.images || [], inspectorDocs, generalTypedDocuments);
+        const qrCodeDraw = config.qrCode && options.verificationUrl
+            ? resolveQrCodeDraw(pdfDoc, config.qrCode, options.verificationUrl)
+            : null;
+        const signatureField = config.digitalSignature && options.digitalSignature
+            ? resolveSignatureField(pdfDoc, config.digitalSignature)
+            : null;
+
+        // 5. Add Excel data pages
+        // They are appended for now and moved into place when the page layout is applied
+        let readingsPages: PDFPage[] = [];
+        if (config.dataType === 'dust_wipe') {
+            if (data.dustWipeSamples && data.dustWipeSamples.length > 0) {
+                const tempPdfDoc = await PDFDocument.create();
+                const resultPages = await createDustWipeResultsPages(
+                    tempPdfDoc,
+                    data.dustWipeSamples,
+                    config.dustWipeThresholds || DEFAULT_DUST_WIPE_THRESHOLDS
                 );
-
-                console.log(`🔍 XHR Signature Check - Signature doc found: ${!!signatureDoc}, Has file: ${!!signatureDoc?.file}, Doc type: ${signatureDoc?.documentType}`);
-                
-                // Log file details including path/URL
-                if (signatureDoc) {
-                    const filePath = (signatureDoc as any).filePath;
-                    console.log(`📋 Signature document details:`, {
-                        id: signatureDoc.id,
-                        fileName: signatureDoc.fileName,
-                        documentType: signatureDoc.documentType,
-                        hasFile: !!signatureDoc.file,
-                        fileSize: signatureDoc.file?.size || 0,
-                        fileType: signatureDoc.file?.type || 'N/A',
-                        filePath: filePath || 'N/A',
-                        fileUrl: filePath ? `R2: ${filePath}` : 'N/A'
-                    });
-                }
-
-                if (signatureDoc?.file) {
-                    try {
-                        // Get page 5 (index 4) where Inspector sig field is located
-                        const pages = pdfDoc.getPages();
-                        // Page 5 is index 4 (0-indexed)
-                        const targetPageIndex = 4;
-                        if (pages.length > targetPageIndex) {
-                            const targetPage = pages[targetPageIndex];
-                            
-                            // Try to get the Inspector sig field to find its position
-                            let sigX = 0;
-                            let sigY = 0;
-                            let sigWidth = 100;
-                            let sigHeight = 50;
-                            
-                            try {
-                                const sigField = form.getTextField('Inspector sig');
-                                if (sigField) {
-                                    const widgets = sigField.acroField.getWidgets();
-                                    if (widgets.length > 0) {
-                                        const widget = widgets[0];
-                                        const rect = widget.getRectangle();
-                                        sigX = rect.x;
-                                        sigY = rect.y;
-                                        sigWidth = rect.width;
-                                        sigHeight = rect.height || 50; // Default height if not specified
-                                    }
-                                }
-                            } catch (fieldErr) {
-                                console.warn('Could not get Inspector sig field position, using defaults:', fieldErr);
-                                // Default position if field not found (adjust as needed)
-                                sigX = 400;
-                                sigY = 100;
-                            }
-
-                            // Validate file before embedding
-                            const filePath = (signatureDoc as any).filePath;
-                            console.log(`🖼️ Preparing to embed signature image:`, {
-                                fileName: signatureDoc.fileName,
-                                fileSize: signatureDoc.file.size,
-                                fileType: signatureDoc.file.type,
-                                filePath: filePath || 'N/A'
-                            });
-                            
-                            if (!signatureDoc.file || signatureDoc.file.size === 0) {
-                                throw new Error(`Signature file "${signatureDoc.fileName}" is empty or invalid (size: ${signatureDoc.file?.size || 0} bytes). File path: ${filePath || 'N/A'}`);
-                            }
-                            
-                            // Embed the signature image
-                            const arrayBuffer = await signatureDoc.file.arrayBuffer();
-                            
-                            // Validate arrayBuffer
-                            if (!arrayBuffer || arrayBuffer.byteLength === 0) {
-                                throw new Error(`Signature file "${signatureDoc.fileName}" has no data`);
-                            }
-                            
-                            // Check minimum size for valid image (at least 8 bytes for header)
-                            if (arrayBuffer.byteLength < 8) {
-                                throw new Error(`Signature file "${signatureDoc.fileName}" is too small to be a valid image`);
-                            }
-                            
-                            let image;
-                            
-                            // Try to determine image type from file extension or MIME type
-                            const fileName = signatureDoc.fileName?.toLowerCase() || '';
-                            const isPngFile = fileName.endsWith('.png') || signatureDoc.file.type === 'image/png';
-                            const isJpegFile = fileName.endsWith('.jpg') || fileName.endsWith('.jpeg') || 
-                                             signatureDoc.file.type === 'image/jpeg' || signatureDoc.file.type === 'image/jpg';
-                            
-                            if (isPngFile) {
-                                try {
-                                    image = await pdfDoc.embedPng(arrayBuffer);
-                                } catch (pngErr: any) {
-                                    console.warn(`Failed to embed as PNG, trying JPEG:`, pngErr.message);
-                                    image = await pdfDoc.embedJpg(arrayBuffer);
-                                }
-                            } else if (isJpegFile) {
-                                try {
-                                    image = await pdfDoc.embedJpg(arrayBuffer);
-                                } catch (jpgErr: any) {
-                                    console.warn(`Failed to embed as JPEG, trying PNG:`, jpgErr.message);
-                                    image = await pdfDoc.embedPng(arrayBuffer);
-                                }
-                            } else {
-                                // Try PNG first, then JPEG
-                                try {
-                                    image = await pdfDoc.embedPng(arrayBuffer);
-                                } catch {
-                                    try {
-                                        image = await pdfDoc.embedJpg(arrayBuffer);
-                                    } catch (embedErr: any) {
-                                        throw new Error(`Failed to embed signature image "${signatureDoc.fileName}": ${embedErr.message || embedErr}. The file may be corrupted or in an unsupported format.`);
-                                    }
-                                }
-                            }
-
-                            // Calculate image dimensions and scale to fit, then make 25% bigger
-                            const imageDims = image.scale(1);
-                            const scaleX = sigWidth / imageDims.width;
-                            const scaleY = sigHeight / imageDims.height;
-                            let scale = Math.min(scaleX, scaleY, 1); // Don't scale up, only down
-                            
-                            // Make it 25% bigger (1.25x the size)
-                            scale = scale * 1.25;
-
-                            const scaledWidth = imageDims.width * scale;
-                            const scaledHeight = imageDims.height * scale;
-
-                            // Center the image in the signature location
-                            const imageX = sigX + (sigWidth - scaledWidth) / 2;
-                            // Note: PDF coordinates start from bottom-left, so y is the bottom of the field
-                            const imageY = sigY + (sigHeight - scaledHeight) / 2;
-
-                            // Store image data to draw later (on top of everything)
-                            xhrSignatureImageData = {
-                                image,
-                                page: targetPage,
-                                x: imageX,
-                                y: imageY,
-                                width: scaledWidth,
-                                height: scaledHeight
-                            };
-                            
-                            console.log(`XHR signature image prepared for page 5 at: x=${imageX}, y=${imageY}, width=${scaledWidth}, height=${scaledHeight}`);
-                        } else {
-                            console.warn(`Page 5 (index ${targetPageIndex}) not found. Total pages: ${pages.length}`);
-                        }
-                    } catch (sigErr) {
-                        console.warn('Error preparing XHR signature image:', sigErr);
-                    }
-                }
-            } catch (err) {
-                console.warn('Error handling XHR signature:', err);
+                readingsPages = await pdfDoc.copyPages(tempPdfDoc, resultPages.map((_, i) => i));
+                readingsPages.forEach(page => pdfDoc.addPage(page));
             }
-        }
-
-        // 5. Add Excel data pages (for XHR reports)
-        // Store number of Excel pages inserted so we can adjust page 6 index later
-        let numExcelPagesInserted = 0;
-        if (data.fullExcelData && data.fullExcelData.length > 0) {
-            const totalPages = pdfDoc.getPageCount();
-            // For XHR reports:
-            // - Positive reports: insert after page 6 (index 7)
-            // - Negative reports: insert before page 6 (index 5)
-            // For other reports, insert before the last page
-            let insertBeforeIndex: number;
-            if (reportType === 'XHR') {
-                // Check if report is positive
-                const isPositive = data.isPositive ?? false;
-                if (isPositive) {
-                    // Insert at index 7 (after page 6) for positive reports
-                    insertBeforeIndex = 7;
-                } else {
-                    // Insert at index 5 (before page 6) for negative reports
-                    insertBeforeIndex = 5;
-                }
-            } else {
-                // Insert before last page (original behavior)
-                insertBeforeIndex = Math.max(0, totalPages - 1);
-            }
-            
+        } else if (data.fullExcelData && data.fullExcelData.length > 0) {
             // Create a temporary PDF document to build Excel pages
             const tempPdfDoc = await PDFDocument.create();
-            const excelPages = await createExcelDataPages(tempPdfDoc, data.fullExcelData, data.headerRowIndex || 0);
+            const analyzerProfile = getAnalyzerProfile(data.analyzerProfileId) || getDefaultAnalyzerProfile();
+            const excelPages = await createExcelDataPages(
+                tempPdfDoc,
+                data.fullExcelData,
+                data.headerRowIndex || 0,
+                analyzerProfile,
+                config.actionLevel,
+                config.readingsTable,
+                data.Address || data.address || ''
+            );
             
-            // Copy Excel pages from temp document to main document at correct position
-            const copiedPages = await pdfDoc.copyPages(tempPdfDoc, excelPages.map((_, i) => i));
-            numExcelPagesInserted = copiedPages.length;
+            // The calibration summary and the room/component summary go before the readings
+            const calibrationPages = data.calibrationQA ? await createCalibrationSummaryPages(tempPdfDoc, data.calibrationQA, data) : [];
+            const componentPages = await createComponentSummaryPages(tempPdfDoc, data.fullExcelData, data.headerRowIndex || 0, analyzerProfile, config.actionLevel);
             
-            // Insert them at the correct position (in reverse order to maintain indices)
-            for (let i = copiedPages.length - 1; i >= 0; i--) {
-                pdfDoc.insertPage(insertBeforeIndex, copiedPages[i]);
-            }
-        }
-
-        // 5b. Prepare Signature image for XHR reports on page 6 - using hardcoded coordinates
-        // NOTE: This must run AFTER Excel pages are added
-        // Position is configured via PAGE6_SIGNATURE_X and PAGE6_SIGNATURE_Y variables at top of function
-        if (reportType === 'XHR' && data.selectedInspectorId && inspectorDocuments) {
-            try {
-                const inspectorDocs = inspectorDocuments!.get(data.selectedInspectorId!) || [];
-                console.log(`🔍 XHR Page 6 Signature Check - Inspector ID: ${data.selectedInspectorId}, Docs found: ${inspectorDocs.length}`);
-                // Find signature document (look for document type containing "signature")
-                const signatureDoc = inspectorDocs.find(doc => 
-                    doc.documentType?.toLowerCase().includes('signature')
-                );
-
-                console.log(`🔍 XHR Page 6 Signature Check - Signature doc found: ${!!signatureDoc}, Has file: ${!!signatureDoc?.file}, Doc type: ${signatureDoc?.documentType}`);
-                
-                // Log file details including path/URL
-                if (signatureDoc) {
-                    const filePath = (signatureDoc as any).filePath;
-                    console.log(`📋 Page 6 Signature document details:`, {
-                        id: signatureDoc.id,
-                        fileName: signatureDoc.fileName,
-                        documentType: signatureDoc.documentType,
-                        hasFile: !!signatureDoc.file,
-                        fileSize: signatureDoc.file?.size || 0,
-                        fileType: signatureDoc.file?.type || 'N/A',
-                        filePath: filePath || 'N/A',
-                        fileUrl: filePath ? `R2: ${filePath}` : 'N/A'
-                    });
-                }
-
-                if (signatureDoc?.file) {
-                    try {
-                        // Get page 6 - this is the page with the phone field
-                        const pages = pdfDoc.getPages();
-                        // Calculate page 6 index based on where Excel pages were inserted:
-                        // - Negative reports: Excel at index 5, so page 6 is at index 5 + numExcelPagesInserted
-                        // - Positive reports: Excel at index 7 (after page 6), so page 6 stays at index 5
-                        const isPositive = data.isPositive ?? false;
-                        const targetPageIndex = isPositive ? 5 : (5 + numExcelPagesInserted); // Page 6 (0-indexed, adjusted for Excel pages)
-                        
-                        if (pages.length > targetPageIndex) {
-                            const targetPage = pages[targetPageIndex];
-                            // Embed the signature image (reuse the same image from page 5 if available, otherwise embed new)
-                            let image;
-                            if (xhrSignatureImageData && xhrSignatureImageData.image) {
-                                // Reuse the same image object from page 5
-                                image = xhrSignatureImageData.image;
-                            } else {
-                                // Validate file before embedding
-                                const filePath = (signatureDoc as any).filePath;
-                                console.log(`🖼️ Preparing to embed signature image for page 6:`, {
-                                    fileName: signatureDoc.fileName,
-                                    fileSize: signatureDoc.file.size,
-                                    fileType: signatureDoc.file.type,
-                                    filePath: filePath || 'N/A'
-                                });
-                                
-                                if (!signatureDoc.file || signatureDoc.file.size === 0) {
-                                    throw new Error(`Signature file "${signatureDoc.fileName}" is empty or invalid (size: ${signatureDoc.file?.size || 0} bytes). File path: ${filePath || 'N/A'}`);
-                                }
-                                
-                                // Embed the signature image
-                                const arrayBuffer = await signatureDoc.file.arrayBuffer();
-                                
-                                // Validate arrayBuffer
-                                if (!arrayBuffer || arrayBuffer.byteLength === 0) {
-                                    throw new Error(`Signature file "${signatureDoc.fileName}" has no data`);
-                                }
-                                
-                                // Check minimum size for valid image
-                                if (arrayBuffer.byteLength < 8) {
-                                    throw new Error(`Signature file "${signatureDoc.fileName}" is too small to be a valid image`);
-                                }
-                                
-                                // Try to determine image type from file extension or MIME type
-                                const fileName = signatureDoc.fileName?.toLowerCase() || '';
-                                const isPngFile = fileName.endsWith('.png') || signatureDoc.file.type === 'image/png';
-                                const isJpegFile = fileName.endsWith('.jpg') || fileName.endsWith('.jpeg') || 
-                                                 signatureDoc.file.type === 'image/jpeg' || signatureDoc.file.type === 'image/jpg';
-                                
-                                if (isPngFile) {
-                                    try {
-                                        image = await pdfDoc.embedPng(arrayBuffer);
-                                    } catch (pngErr: any) {
-                                        console.warn(`Failed to embed as PNG, trying JPEG:`, pngErr.message);
-                                        image = await pdfDoc.embedJpg(arrayBuffer);
-                                    }
-                                } else if (isJpegFile) {
-                                    try {
-                                        image = await pdfDoc.embedJpg(arrayBuffer);
-                                    } catch (jpgErr: any) {
-                                        console.warn(`Failed to embed as JPEG, trying PNG:`, jpgErr.message);
-                                        image = await pdfDoc.embedPng(arrayBuffer);
-                                    }
-                                } else {
-                                    // Try PNG first, then JPEG
-                                    try {
-                                        image = await pdfDoc.embedPng(arrayBuffer);
-                                    } catch {
-                                        try {
-                                            image = await pdfDoc.embedJpg(arrayBuffer);
-                                        } catch (embedErr: any) {
-                                            throw new Error(`Failed to embed signature image "${signatureDoc.fileName}": ${embedErr.message || embedErr}. The file may be corrupted or in an unsupported format.`);
-                                        }
-                                    }
-                                }
-                            }
-
-                            // Use the same dimensions as page 5 signature if available, otherwise calculate
-                            let scaledWidth: number;
-                            let scaledHeight: number;
-                            
-                            if (xhrSignatureImageData) {
-                                // Reuse the same size as page 5
-                                scaledWidth = xhrSignatureImageData.width;
-                                scaledHeight = xhrSignatureImageData.height;
-                            } else {
-                                // Calculate image dimensions and scale to fit, then make 25% bigger
-                                const imageDims = image.scale(1);
-                                const sigWidth = 100; // Default signature width
-                                const sigHeight = 50; // Default signature height
-                                const scaleX = sigWidth / imageDims.width;
-                                const scaleY = sigHeight / imageDims.height;
-                                let scale = Math.min(scaleX, scaleY, 1); // Don't scale up, only down
-                                
-                                // Make it 25% bigger (1.25x the size)
-                                scale = scale * 1.25;
-                                
-                                scaledWidth = imageDims.width * scale;
-                                scaledHeight = imageDims.height * scale;
-                            }
-
-                            // Position signature using hardcoded coordinates (configurable at top of function)
-                            // See PAGE6_SIGNATURE_X and PAGE6_SIGNATURE_Y variables above (around line 1720)
-                            const imageX = PAGE6_SIGNATURE_X;
-                            const imageY = PAGE6_SIGNATURE_Y;
-
-                            // Store image data to draw later (on top of everything)
-                            xhrPage6SignatureImageData = {
-                                image,
-                                page: targetPage,
-                                x: imageX,
-                                y: imageY,
-                                width: scaledWidth,
-                                height: scaledHeight
-                            };
-                            
-                            console.log(`XHR signature image prepared for page ${targetPageIndex + 1} at: x=${imageX}, y=${imageY}, width=${scaledWidth}, height=${scaledHeight}`);
-                        } else {
-                            console.warn(`Page 6 (index ${targetPageIndex}) not found. Total pages: ${pages.length}`);
-                        }
-                    } catch (sigErr) {
-                        console.warn('Error preparing XHR signature image for page 6:', sigErr);
-                    }
-                }
-            } catch (err) {
-                console.warn('Error handling XHR signature for page 6:', err);
-            }
+            // Copy Excel pages from temp document to main document
+            readingsPages = await pdfDoc.copyPages(tempPdfDoc, [
+                ...calibrationPages.map((_, i) => excelPages.length + i),
+                ...componentPages.map((_, i) => excelPages.length + calibrationPages.length + i),
+                ...excelPages.map((_, i) => i),
+            ]);
+            readingsPages.forEach(page => pdfDoc.addPage(page));
         }
 
         // 6. Append documents at the end (General Certificate and Inspector License)
+        // The appended pages are tracked so the page layout can place them
         // TEMPORARILY: Skip if documents don't exist instead of throwing errors
+        let certificatePages: PDFPage[] = [];
+        let licensePages: PDFPage[] = [];
         {
+            const pageCountBeforeCertificate = pdfDoc.getPageCount();
             // Append General Certificate (if available)
             if (data.certificateDocumentType && generalTypedDocuments && generalTypedDocuments.has(data.certificateDocumentType)) {
             const certDoc = generalTypedDocuments.get(data.certificateDocumentType!)!;
@@ -2270,7 +1670,10 @@ export const generatePDFReport = async (
                 }
             }
 
+            certificatePages = pdfDoc.getPages().slice(pageCountBeforeCertificate);
+
             // Append Inspector License (if available)
+            const pageCountBeforeLicense = pdfDoc.getPageCount();
             if (data.selectedInspectorId && data.licenseDocumentType && inspectorDocuments) {
             const inspectorDocs = inspectorDocuments.get(data.selectedInspectorId) || [];
             console.log(`🔍 XHR License Check - Inspector ID: ${data.selectedInspectorId}, License type: ${data.licenseDocumentType}, Docs found: ${inspectorDocs.length}`);
@@ -2376,196 +1779,36 @@ export const generatePDFReport = async (
                     }
                 }
             }
+            licensePages = pdfDoc.getPages().slice(pageCountBeforeLicense);
         }
 
-
-        // 6. Draw white background box and signature image on certificate page (for XHR reports)
-        // REMOVED - certificate page no longer added to XHR reports
-        let certificatePage: any = null;
-        if (false && reportType === 'XHR' && certificatePage && data.selectedInspectorId && inspectorDocuments) {
+        // 6b. Lead-safe certificate filled from the certificate template (bundled output only)
+        let leadSafeCertificatePages: PDFPage[] = [];
+        if (options.includeCertificate) {
             try {
-                const inspectorDocs = inspectorDocuments!.get(data.selectedInspectorId!) || [];
-                const signatureDoc = inspectorDocs.find(doc => 
-                    doc.documentType?.toLowerCase().includes('signature')
+                const certificateBytes = await buildCertificatePDF(
+                    data, reportType, generalTypedDocuments, inspectorDocuments, inspectors, generalVariables,
+                    options.templateVersions, loadTemplate, options.verificationUrl
                 );
-
-                const signatureFile2 = signatureDoc?.file;
-                if (signatureDoc && signatureFile2) {
-                    try {
-                        const file2 = signatureFile2 as File | Blob;
-                        const sigX = 594.72;
-                        const sigY = 106.56;
-                        const sigWidth = 83.4;
-                        const sigHeight = 50;
-
-                        const arrayBuffer = await file2.arrayBuffer();
-                        let image;
-                        
-                        if (file2.type === 'image/png') {
-                            image = await pdfDoc.embedPng(arrayBuffer);
-                        } else if (file2.type === 'image/jpeg' || file2.type === 'image/jpg') {
-                            image = await pdfDoc.embedJpg(arrayBuffer);
-                        } else {
-                            try {
-                                image = await pdfDoc.embedPng(arrayBuffer);
-                            } catch {
-                                image = await pdfDoc.embedJpg(arrayBuffer);
-                            }
-                        }
-
-                        const imageDims = image.scale(1);
-                        const scaleX = sigWidth / imageDims.width;
-                        const scaleY = sigHeight / imageDims.height;
-                        let scale = Math.min(scaleX, scaleY, 1);
-                        scale = scale * 1.25;
-
-                        const scaledWidth = imageDims.width * scale;
-                        const scaledHeight = imageDims.height * scale;
-
-                        const imageX = sigX + (sigWidth - scaledWidth) / 2;
-                        const imageY = sigY + (sigHeight - scaledHeight) / 2;
-
-                        // Draw white background box first
-                        const widthMargin = 40;
-                        const heightMargin = 20;
-                        const whiteBoxX = imageX - widthMargin;
-                        const whiteBoxY = imageY - (heightMargin / 2);
-                        const whiteBoxWidth = scaledWidth + (widthMargin * 2);
-                        const whiteBoxHeight = scaledHeight + heightMargin;
-
-                        certificatePage.drawRectangle({
-                            x: whiteBoxX,
-                            y: whiteBoxY,
-                            width: whiteBoxWidth,
-                            height: whiteBoxHeight,
-                            color: rgb(1, 1, 1),
-                        });
-
-                        // Draw signature image on top
-                        certificatePage.drawImage(image, {
-                            x: imageX,
-                            y: imageY,
-                            width: scaledWidth,
-                            height: scaledHeight,
-                        });
-                    } catch (sigErr) {
-                        console.warn('Error drawing signature on certificate page:', sigErr);
-                    }
-                }
-            } catch (err) {
-                console.warn('Error handling signature on certificate page:', err);
-            }
-        }
-
-        // 7. Draw white background box and signature image ABSOLUTELY LAST (right before saving)
-        // Draw directly on the original PDF to ensure it's the last thing in the content stream
-        if (signatureImageData) {
-            try {
-                // Draw white background box first (to cover whatever is behind the signature)
-                // Much larger margins, especially in width to block everything behind it
-                const widthMargin = 40; // 40px on each side = 80px total width margin
-                const heightMargin = 20; // 20px on top and bottom = 40px total height margin
-                
-                const whiteBoxX = (signatureImageData as any).x - widthMargin; // Large margin on left
-                const whiteBoxY = (signatureImageData as any).y - (heightMargin / 2); // Margin on bottom
-                const whiteBoxWidth = (signatureImageData as any).width + (widthMargin * 2); // Much wider (20px on each side)
-                const whiteBoxHeight = (signatureImageData as any).height + heightMargin; // Taller (10px on top and bottom)
-                
-                // Draw white rectangle behind signature to block everything
-                (signatureImageData as any).page.drawRectangle({
-                    x: whiteBoxX,
-                    y: whiteBoxY,
-                    width: whiteBoxWidth,
-                    height: whiteBoxHeight,
-                    color: rgb(1, 1, 1), // White
-                });
-                
-                // Draw the signature image on top of the white box
-                (signatureImageData as any).page.drawImage((signatureImageData as any).image, {
-                    x: (signatureImageData as any).x,
-                    y: (signatureImageData as any).y,
-                    width: (signatureImageData as any).width,
-                    height: (signatureImageData as any).height,
-                });
-                
-                console.log(`White box drawn at: x=${whiteBoxX}, y=${whiteBoxY}, width=${whiteBoxWidth}, height=${whiteBoxHeight}`);
-                console.log(`Signature image drawn on top at: x=${(signatureImageData as any).x}, y=${(signatureImageData as any).y}, width=${(signatureImageData as any).width}, height=${(signatureImageData as any).height}`);
-            } catch (err) {
-                console.warn('Error drawing signature image on top:', err);
-            }
-        }
-
-        // 7b. Draw white background box and signature image for XHR reports on page 5 ABSOLUTELY LAST
-        if (xhrSignatureImageData) {
-            try {
-                // Draw white background box first (to cover whatever is behind the signature)
-                const widthMargin = 40; // 40px on each side = 80px total width margin
-                const heightMargin = 20; // 20px on top and bottom = 40px total height margin
-                
-                const whiteBoxX = xhrSignatureImageData.x - widthMargin; // Large margin on left
-                const whiteBoxY = xhrSignatureImageData.y - (heightMargin / 2); // Margin on bottom
-                const whiteBoxWidth = xhrSignatureImageData.width + (widthMargin * 2); // Much wider (40px on each side)
-                const whiteBoxHeight = xhrSignatureImageData.height + heightMargin; // Taller (20px on top and bottom)
-                
-                // Draw white rectangle behind signature to block everything
-                xhrSignatureImageData.page.drawRectangle({
-                    x: whiteBoxX,
-                    y: whiteBoxY,
-                    width: whiteBoxWidth,
-                    height: whiteBoxHeight,
-                    color: rgb(1, 1, 1), // White
-                });
-                
-                // Draw the signature image on top of the white box
-                xhrSignatureImageData.page.drawImage(xhrSignatureImageData.image, {
-                    x: xhrSignatureImageData.x,
-                    y: xhrSignatureImageData.y,
-                    width: xhrSignatureImageData.width,
-                    height: xhrSignatureImageData.height,
-                });
-                
-                console.log(`XHR: White box drawn at: x=${whiteBoxX}, y=${whiteBoxY}, width=${whiteBoxWidth}, height=${whiteBoxHeight}`);
-                console.log(`XHR: Signature image drawn on page 5 at: x=${xhrSignatureImageData.x}, y=${xhrSignatureImageData.y}, width=${xhrSignatureImageData.width}, height=${xhrSignatureImageData.height}`);
+                const certificateDoc = await PDFDocument.load(certificateBytes);
+                leadSafeCertificatePages = await pdfDoc.copyPages(certificateDoc, certificateDoc.getPageIndices());
+                leadSafeCertificatePages.forEach(page => pdfDoc.addPage(page));
+                copyTemplateKeywords(certificateDoc, pdfDoc);
+                console.log(`✅ Lead-safe certificate added (${leadSafeCertificatePages.length} page(s))`);
             } catch (err) {
-                console.warn('Error drawing XHR signature image on page 5:', err);
+                console.warn('Error adding lead-safe certificate to the report:', err);
+                // Don't fail the whole generation - the certificate can still be downloaded separately
             }
         }
 
-        // 7c. Draw white background box and signature image for XHR reports on page 6 ABSOLUTELY LAST
-        if (xhrPage6SignatureImageData) {
+        // 7. Draw images (with their white background boxes) ABSOLUTELY LAST so they are on top of everything
+        imageDraws.forEach(draw => {
             try {
-                // Draw white background box first (to cover whatever is behind the signature)
-                const widthMargin = 40; // 40px on each side = 80px total width margin
-                const heightMargin = 20; // 20px on top and bottom = 40px total height margin
-                
-                const whiteBoxX = xhrPage6SignatureImageData.x - widthMargin; // Large margin on left
-                const whiteBoxY = xhrPage6SignatureImageData.y - (heightMargin / 2); // Margin on bottom
-                const whiteBoxWidth = xhrPage6SignatureImageData.width + (widthMargin * 2); // Much wider (40px on each side)
-                const whiteBoxHeight = xhrPage6SignatureImageData.height + heightMargin; // Taller (20px on top and bottom)
-                
-                // Draw white rectangle behind signature to block everything
-                xhrPage6SignatureImageData.page.drawRectangle({
-                    x: whiteBoxX,
-                    y: whiteBoxY,
-                    width: whiteBoxWidth,
-                    height: whiteBoxHeight,
-                    color: rgb(1, 1, 1), // White
-                });
-                
-                // Draw the signature image on top of the white box
-                xhrPage6SignatureImageData.page.drawImage(xhrPage6SignatureImageData.image, {
-                    x: xhrPage6SignatureImageData.x,
-                    y: xhrPage6SignatureImageData.y,
-                    width: xhrPage6SignatureImageData.width,
-                    height: xhrPage6SignatureImageData.height,
-                });
-                
-                console.log(`XHR: White box drawn on page 6 at: x=${whiteBoxX}, y=${whiteBoxY}, width=${whiteBoxWidth}, height=${whiteBoxHeight}`);
-                console.log(`XHR: Signature image drawn on page 6 at: x=${xhrPage6SignatureImageData.x}, y=${xhrPage6SignatureImageData.y}, width=${xhrPage6SignatureImageData.width}, height=${xhrPage6SignatureImageData.height}`);
+                drawImage(draw);
             } catch (err) {
-                console.warn('Error drawing XHR signature image on page 6:', err);
+                console.warn('Error drawing image:', err);
             }
-        }
+        });
 
         // 7. Flatten PDF for XHR reports - PAUSED
         // Flattening temporarily disabled
@@ -2584,107 +1827,41 @@ export const generatePDFReport = async (
         }
         */
 
-        // 8. Remove target page if results are positive (XHR reports only)
-        // The target page is the one with new form fields (originally 6th page, index 5)
-        // NOTE: This happens AFTER flattening - the flattened content on this page will be removed,
-        // but that's okay since we're removing the entire page anyway
-        if (reportType === 'XHR' && targetPageIndex !== null && data.fullExcelData && data.fullExcelData.length > 0) {
-            try {
-                const headerRow = data.fullExcelData[data.headerRowIndex || 0] || [];
-                const isPositive = detectPositiveNegative(
-                    data.fullExcelData,
-                    headerRow,
-                    data.headerRowIndex || 0
-                );
-                
-                if (isPositive) {
-                    // For positive reports: Excel pages are inserted at index 7 (after page 6),
-                    // so page 6 stays at index 5 (targetPageIndex)
-                    const adjustedTargetPageIndex = targetPageIndex;
-                    const totalPages = pdfDoc.getPageCount();
-                    
-                    // Make sure the target page index is still valid
-                    if (adjustedTargetPageIndex < totalPages) {
-                        console.log(`Results are positive. Removing page at index ${adjustedTargetPageIndex} (6th page from original template, contains new form fields, adjusted for ${numExcelPagesInserted} Excel pages)`);
-                        console.log(`   Note: Fields on this page were already flattened, so removing the page is safe.`);
-                        pdfDoc.removePage(adjustedTargetPageIndex);
-                        console.log(`Page removed. New total pages: ${pdfDoc.getPageCount()}`);
-                    } else {
-                        console.warn(`Target page index ${adjustedTargetPageIndex} is out of range. Total pages: ${totalPages}`);
-                    }
-                } else {
-                    console.log('Results are negative. Keeping page with new form fields.');
-                }
-            } catch (err) {
-                console.warn('Error checking positive/negative or removing page:', err);
-                // Don't fail the whole generation if this check fails
-            }
-        }
-
-        // 8b. Move original page 7 to position 6 (for XHR negative reports only)
-        // For negative reports: Excel pages are inserted at index 5, so page 7 needs to be moved to position 6 (index 5)
-        // For positive reports: Excel pages are inserted at index 7 (after page 6), so page 7 stays in place
-        // IMPORTANT: Use copyPages to preserve the original page dimensions (especially for landscape pages)
-        const isPositive = data.isPositive ?? false;
-        if (reportType === 'XHR' && numExcelPagesInserted > 0 && !isPositive) {
-            try {
-                const pages = pdfDoc.getPages();
-                const totalPages = pages.length;
-                
-                // Original page 7 was at index 6 in the template
-                // After Excel pages are inserted at index 5 (for negative reports), the original page 7 is now at index 6 + numExcelPagesInserted
-                const originalPage7Index = 6 + numExcelPagesInserted;
-                
-                // Check if the original page 7 exists
-                if (originalPage7Index < totalPages) {
-                    console.log(`Moving original page 7 (currently at index ${originalPage7Index}) to position 6 (index 5, right after pages 1-5)`);
-                    
-                    // Get the page size BEFORE any operations to preserve dimensions
-                    const pageToMove = pages[originalPage7Index];
-                    const pageSize = pageToMove.getSize();
-                    const isLandscape = pageSize.width > pageSize.height;
-                    console.log(`Page 7 original dimensions: ${pageSize.width}x${pageSize.height} (${isLandscape ? 'landscape' : 'portrait'})`);
-                    
-                    // Create a temporary PDF document to preserve the page with its exact dimensions
-                    const tempPdfBytes = await pdfDoc.save();
-                    const tempPdfDoc = await PDFDocument.load(tempPdfBytes);
-                    
-                    // Copy the page from temp document (this preserves all dimensions and content)
-                    const [copiedPage] = await pdfDoc.copyPages(tempPdfDoc, [originalPage7Index]);
-                    
-                    // Remove the original page from the main document
-                    pdfDoc.removePage(originalPage7Index);
-                    
-                    // Insert the copied page at position 6 (index 5) - copyPages preserves dimensions
-                    pdfDoc.insertPage(5, copiedPage);
-                    
-                    // Verify the dimensions were preserved
-                    const insertedPage = pdfDoc.getPages()[5];
-                    const insertedSize = insertedPage.getSize();
-                    if (Math.abs(insertedSize.width - pageSize.width) > 0.1 || Math.abs(insertedSize.height - pageSize.height) > 0.1) {
-                        console.warn(`⚠️ Page dimensions changed during move! Original: ${pageSize.width}x${pageSize.height}, After: ${insertedSize.width}x${insertedSize.height}`);
-                    } else {
-                        console.log(`✅ Page dimensions preserved: ${insertedSize.width}x${insertedSize.height} (${isLandscape ? 'landscape' : 'portrait'})`);
-                    }
-                    
-                    // Note: We'll rotate page 6 during flattening to avoid distortion
-                    // Don't set rotation here - it will be handled in flattenFormAsImage
-                    
-                    console.log(`✅ Successfully moved original page 7 to position 6. New total pages: ${pdfDoc.getPageCount()}`);
-                } else {
-                    console.warn(`Original page 7 index ${originalPage7Index} is out of range. Total pages: ${totalPages}`);
-                }
-            } catch (err) {
-                console.warn('Error moving original page 7 to position 6:', err);
-                // Don't fail the whole generation if this fails
-            }
+        // 8. Arrange pages according to the report's page layout (conditional template pages,
+        // readings table position, attachments). Done before flattening so the final order is flattened.
+        try {
+            const orderedPages = resolvePageOrder(
+                config.pageLayout,
+                templatePageIds,
+                {
+                    template: templatePages,
+                    readings: readingsPages,
+                    certificate: certificatePages,
+                    license: licensePages,
+                    leadSafeCertificate: leadSafeCertificatePages,
+                },
+                when => evaluateFieldCondition(when, data, config.mappings, resolutionContext)
+            );
+            applyPageOrder(pdfDoc, orderedPages);
+        } catch (err) {
+            console.warn('Error applying page layout:', err);
+            // Don't fail the whole generation if this fails - pages stay in their appended order
         }
+        // Final page objects in order - overlays are matched to pages by position, since flattening replaces them
+        const arrangedPages = pdfDoc.getPages();
 
         // 8.5. Flatten XHR reports (after all operations are complete to avoid reference errors)
         if (reportType === 'XHR') {
             console.log('🔄 Flattening XHR report after all operations are complete...');
             try {
-                await flattenFormAsImage(pdfDoc);
+                if (typeof document === 'undefined') {
+                    // No canvas to render the pages to (server-side generation): flatten the form fields instead
+                    removeOffPageWidgets(pdfDoc);
+                    inlineAppearanceStates(pdfDoc);
+                    pdfDoc.getForm().flatten();
+                } else {
+                    await flattenFormAsImage(pdfDoc);
+                }
                 console.log('✅ XHR report flattened successfully');
             } catch (err: any) {
                 // If flattening fails, log the error but don't throw
@@ -2705,80 +1882,41 @@ export const generatePDFReport = async (
         // Note: Page 6 rotation is handled during flattening by preserving correct dimensions
         // No additional rotation needed - dimensions are preserved correctly
 
-        // 9. Draw black numbers for Numb1 and Numb2 fields on page 4 AFTER all processing (including flattening)
-        // This ensures the numbers are not removed by the flattening process
-        // These fields are NOT filled in the regular form fields - only drawn as text overlay
-        if (reportType === 'XHR') {
+        // 9. Draw text overlays AFTER all processing (including flattening) so flattening can't remove them
+        if (textOverlays.length > 0) {
+            await drawTextOverlays(pdfDoc, textOverlays, arrangedPages);
+        }
+        // The QR code too, so it isn't rasterised with the page; matched to its page the same way
+        if (qrCodeDraw) {
+            const page = pdfDoc.getPages()[arrangedPages.indexOf(qrCodeDraw.page)];
             try {
-                const pages = pdfDoc.getPages();
-                // Page 4 is at index 3 (0-indexed) - Excel pages are inserted at index 5, so page 4 should still be at index 3
-                // But let's be safe and check if we have enough pages
-                const page4Index = 3;
-                if (pages.length > page4Index) {
-                    const page4 = pages[page4Index];
-                    
-                    // Get the actual values from the data
-                    const numb1Value = String(data['Numb1'] || data.totalReadings || '0');
-                    const numb2Value = String(data['Numb2'] || data.positiveReadings || '0');
-                    
-                    console.log(`🔍 Drawing black numbers on page 4 (index ${page4Index}) AFTER flattening: Numb1="${numb1Value}", Numb2="${numb2Value}"`);
-                    
-                    // Known coordinates from field inspection:
-                    // Numb1: X: 188.475, Y: 364.472, Width: 21.465, Height: 13.319
-                    // Numb2: X: 206.445, Y: 348.513, Width: 20.938, Height: 13.319
-                    
-                    // Draw Numb1 value with small offset: slightly to the right and slightly lower
-                    // Y coordinate is from bottom, so moving "down" means subtracting from Y
-                    const numb1X = 188.475 + 2.5; // Offset to the right (2.5 points)
-                    const numb1Y = 364.472 + 13.319 - 12; // y + height - 12 points (moved down more)
-                    
-                    page4.drawText(numb1Value, {
-                        x: numb1X,
-                        y: numb1Y,
-                        size: 10,
-                        font: boldFont,
-                        color: rgb(0, 0, 0), // Black color
-                    });
-                    
-                    // Draw Numb2 value with small offset: slightly to the right and slightly lower
-                    const numb2X = 206.445 + 2.5; // Offset to the right (2.5 points)
-                    const numb2Y = 348.513 + 13.319 - 12; // y + height - 12 points (moved down more)
-                    
-                    page4.drawText(numb2Value, {
-                        x: numb2X,
-                        y: numb2Y,
-                        size: 10,
-                        font: boldFont,
-                        color: rgb(0, 0, 0), // Black color
-                    });
-                    
-                    console.log(`✅ Drew black "${numb1Value}" for Numb1 on page 4 (index ${page4Index}) at (${numb1X}, ${numb1Y}) AFTER flattening`);
-                    console.log(`✅ Drew black "${numb2Value}" for Numb2 on page 4 (index ${page4Index}) at (${numb2X}, ${numb2Y}) AFTER flattening`);
+                if (page) {
+                    drawQrCode({ ...qrCodeDraw, page });
+                } else {
+                    console.log('ℹ️ Verification QR code skipped: its page is not part of this report');
+                }
+            } catch (err) {
+                console.warn('Error drawing the verification QR code:', err);
+            }
+        }
+        // And the signature field, which flattening would remove
+        if (options.digitalSignature) {
+            const page = signatureField && pdfDoc.getPages()[arrangedPages.indexOf(signatureField.page)];
+            try {
+                if (signatureField && page) {
+                    addSignatureField(pdfDoc, { ...signatureField, page });
                 } else {
-                    console.warn(`⚠️ Page 4 (index ${page4Index}) not found. Total pages: ${pages.length}`);
+                    console.log('ℹ️ No place for the digital signature on this report\'s pages, it will be invisible');
+                    addSignatureField(pdfDoc, invisibleSignatureField(pdfDoc));
                 }
-            } catch (pErr: any) {
-                console.error('❌ Error drawing black numbers on page 4 AFTER flattening:', pErr.message, pErr.stack);
+            } catch (err) {
+                console.warn('Error adding the digital signature field:', err);
             }
         }
+        await drawRevisionStamp(pdfDoc, data.revision);
 
-        // 10. Save and Download
-        const pdfBytes = await pdfDoc.save();
-        const blob = new Blob([pdfBytes as any], { type: 'application/pdf' });
-        const link = document.createElement('a');
-        link.href = URL.createObjectURL(blob);
-        
-        // Generate filename: "Final Lead Inspection Report [ADDRESS]"
-        const address = (data.Address || data.address || '').trim().toUpperCase();
-        const sanitizedAddress = address.replace(/[^A-Z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
-        const filename = sanitizedAddress 
-            ? `Final Lead Inspection Report ${sanitizedAddress}.pdf`
-            : `Final Lead Inspection Report.pdf`;
-        
-        link.download = filename;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        // 10. Save
+        return await pdfDoc.save();
 
     } catch (error: any) {
         console.error('PDF Generation failed:', error);
@@ -2787,3 +1925,142 @@ export const generatePDFReport = async (
         throw new Error(errorMessage);
     }
 };
+
+/**
+ * Generates the report and/or the lead-safe certificate and downloads them.
+ * @param output - What to download (default: the report only)
+ * @returns The downloaded PDFs
+ */
+export const generatePDFReport = async (
+    data: ExtractedData & Record<string, any>, 
+    reportType: string | null,
+    generalTypedDocuments?: Map<string, Document>,
+    inspectorDocuments?: Map<string, Document[]>,
+    inspectors?: Inspector[],
+    generalVariables?: Map<string, string>,
+    output: ReportOutput = 'report'
+): Promise<GeneratedPdf[]> => {
+    const config = getReportConfig(reportType);
+    if (!config) {
+        throw new Error('Report configuration not found');
+    }
+    const address = data.Address || data.address || '';
+    const generated: GeneratedPdf[] = [];
+
+    if (output !== 'certificate') {
+        const reportId = crypto.randomUUID();
+        // Generate filename: "Final Lead Inspection Report [ADDRESS]" (prefix can be set per report)
+        const fileName = buildPdfFileName(config.fileNamePrefix || 'Final Lead Inspection Report', address, data.revision);
+        const reportBytes = await buildPDFReport(
+            data, reportType, generalTypedDocuments, inspectorDocuments, inspectors, generalVariables,
+            { includeCertificate: output === 'bundle', verificationUrl: getVerificationUrl(reportId), templateVersions: data.templateVersions }
+        );
+        downloadPdf(reportBytes, fileName);
+        generated.push({ reportId, fileName, bytes: reportBytes, details: getReportRecordDetails(data, config, 'report') });
+    }
+
+    if (output === 'certificate' || output === 'separate') {
+        try {
+            const reportId = crypto.randomUUID();
+            const fileName = buildPdfFileName('Lead Safe Certificate', address, data.revision);
+            const certificateBytes = await buildCertificatePDF(
+                data, reportType, generalTypedDocuments, inspectorDocuments, inspectors, generalVariables,
+                data.templateVersions, undefined, getVerificationUrl(reportId)
+            );
+            downloadPdf(certificateBytes, fileName);
+            generated.push({ reportId, fileName, bytes: certificateBytes, details: getReportRecordDetails(data, config, 'certificate') });
+        } catch (error: any) {
+            console.error('Certificate generation failed:', error);
+            throw new Error(error?.message || 'Unknown error occurred while generating the certificate');
+        }
+    }
+    return generated;
+};
+
+/**
+ * Builds the building summary PDF of a multi-unit run.
+ * @returns The PDF bytes
+ */
+export const buildBuildingSummaryPDF = async (
+    data: ExtractedData & Record<string, any>,
+    reportType: string | null
+): Promise<Uint8Array> => {
+    const config = getReportConfig(reportType);
+    if (!config) {
+        throw new Error('Report configuration not found');
+    }
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.setTitle(`Building Summary ${data.Address || data.address || ''}`.trim());
+    await createBuildingSummaryPages(pdfDoc, data, data.units || [], config);
+    await drawRevisionStamp(pdfDoc, data.revision);
+    return pdfDoc.save();
+};
+
+/**
+ * Generates one report per unit of a multi-unit run plus the building summary, and downloads them as one ZIP.
+ * Each unit's report is built from the shared confirmed data with the unit's readings and per-unit fields on top.
+ * @returns The PDFs in the ZIP
+ */
+export const generateUnitReports = async (
+    data: ExtractedData & Record<string, any>,
+    reportType: string | null,
+    generalTypedDocuments?: Map<string, Document>,
+    inspectorDocuments?: Map<string, Document[]>,
+    inspectors?: Inspector[],
+    generalVariables?: Map<string, string>,
+    output: ReportOutput = 'report'
+): Promise<GeneratedPdf[]> => {
+    const config = getReportConfig(reportType);
+    if (!config) {
+        throw new Error('Report configuration not found');
+    }
+    const address = data.Address || data.address || '';
+    const prefix = config.fileNamePrefix || 'Final Lead Inspection Report';
+    const files: ZipEntry[] = [];
+    const generated: GeneratedPdf[] = [];
+
+    // Units can share a label (e.g. the same unit number typed twice), file names in the archive can't
+    const addFile = (reportId: string, name: string, bytes: Uint8Array, details: ReportRecordDetails) => {
+        let uniqueName = name;
+        for (let n = 2; files.some(file => file.name === uniqueName); n++) {
+            uniqueName = name.replace(/\.pdf$/, ` (${n}).pdf`);
+        }
+        files.push({ name: uniqueName, data: bytes });
+        generated.push({ reportId, fileName: uniqueName, bytes, details });
+    };
+
+    for (const unit of data.units || []) {
+        const label = getUnitLabel(unit, config);
+        const unitAddress = `${address} ${/^unit\b/i.test(label) ? label : `Unit ${label}`}`;
+        const unitData = getUnitReportData(data, unit);
+        try {
+            if (output !== 'certificate') {
+                const reportId = crypto.randomUUID();
+                const fileName = buildPdfFileName(prefix, unitAddress, data.revision);
+                const reportBytes = await buildPDFReport(
+                    unitData, reportType, generalTypedDocuments, inspectorDocuments, inspectors, generalVariables,
+                    { includeCertificate: output === 'bundle', verificationUrl: getVerificationUrl(reportId), templateVersions: data.templateVersions }
+                );
+                addFile(reportId, fileName, reportBytes, getReportRecordDetails(unitData, config, 'report', unitAddress, unit.id));
+            }
+            if (output === 'certificate' || output === 'separate') {
+                const reportId = crypto.randomUUID();
+                const fileName = buildPdfFileName('Lead Safe Certificate', unitAddress, data.revision);
+                const certificateBytes = await buildCertificatePDF(
+                    unitData, reportType, generalTypedDocuments, inspectorDocuments, inspectors, generalVariables,
+                    data.templateVersions, undefined, getVerificationUrl(reportId)
+                );
+                addFile(reportId, fileName, certificateBytes, getReportRecordDetails(unitData, config, 'certificate', unitAddress, unit.id));
+            }
+            console.log(`✅ Generated unit ${label}`);
+        } catch (error: any) {
+            console.error(`❌ Generation failed for unit ${label}:`, error);
+            throw new Error(`Unit ${label}: ${error?.message || 'Unknown error occurred'}`);
+        }
+    }
+
+    const summaryFileName = buildPdfFileName('Building Summary', address, data.revision);
+    addFile(crypto.randomUUID(), summaryFileName, await buildBuildingSummaryPDF(data, reportType), getReportRecordDetails(data, config, 'summary'));
+    downloadZip(createZipArchive(files), buildZipFileName(prefix, address));
+    return generated;
+};
@@ -0,0 +1,89 @@
+import QRCode from 'qrcode';
+import { rgb } from 'pdf-lib';
+import type { PDFDocument, PDFPage } from 'pdf-lib';
+import type { QrCodePlacement } from '../types/reportStructure';
+import { findFieldPlacements } from './templateFields';
+
+// A QR code ready to be drawn, resolved from a QrCodePlacement
+export interface QrCodeDraw {
+    page: PDFPage;
+    url: string;
+    x: number;
+    y: number;
+    size: number;
+}
+
+const QUIET_ZONE = 2; // Blank modules around the code, so it scans next to other content
+
+/**
+ * Builds the address of a generated PDF's public verification page.
+ * The site address is NEXT_PUBLIC_APP_URL when set (the public address, e.g. behind a proxy), else baseUrl,
+ * else the current page's origin in the browser.
+ * @param reportId - Id the PDF is archived under
+ * @returns The URL, or undefined if the site address isn't known (e.g. a command-line run without NEXT_PUBLIC_APP_URL)
+ */
+export const getVerificationUrl = (reportId: string, baseUrl?: string): string | undefined => {
+    const base = process.env.NEXT_PUBLIC_APP_URL || baseUrl || (typeof window !== 'undefined' ? window.location.origin : '');
+    if (!base) return undefined;
+    return `${base.replace(/\/+$/, '')}/verify/${encodeURIComponent(reportId)}`;
+};
+
+/**
+ * Works out where a QR code goes, from the widget rectangle of its anchor field.
+ * Must be called while the document still has the template's page order.
+ * @returns The draw instruction, or null if the anchor field is not on any page
+ */
+export const resolveQrCodeDraw = (pdfDoc: PDFDocument, placement: QrCodePlacement, url: string): QrCodeDraw | null => {
+    const placements = findFieldPlacements(pdfDoc, placement.anchorField);
+    const widget = placements[placement.widgetIndex ?? 0];
+    if (!widget) {
+        console.warn(`⚠️ QR code anchor field "${placement.anchorField}" not found on any template page (${placements.length} widgets)`);
+        return null;
+    }
+
+    const offset = placement.offset || {};
+    const box = {
+        x: widget.rect.x + (offset.x ?? 0),
+        y: widget.rect.y + (offset.y ?? 0),
+        width: offset.width ?? widget.rect.width,
+        height: offset.height ?? widget.rect.height,
+    };
+    const size = placement.size ?? Math.min(box.width, box.height);
+
+    let x = box.x + (box.width - size) / 2;
+    if (placement.align === 'left') x = box.x;
+    if (placement.align === 'right') x = box.x + box.width - size;
+    const y = box.y + (box.height - size) / 2;
+
+    return { page: pdfDoc.getPage(widget.pageIndex), url, x, y, size };
+};
+
+/**
+ * Draws a QR code as vector squares on a white background (sharp at any zoom, no image to embed).
+ */
+export const drawQrCode = (draw: QrCodeDraw): void => {
+    const { modules } = QRCode.create(draw.url, { errorCorrectionLevel: 'M' });
+    const count = modules.size + QUIET_ZONE * 2;
+
+    // One path for the whole code: a rectangle per run of dark modules in a row
+    let path = '';
+    for (let row = 0; row < modules.size; row++) {
+        for (let col = 0; col < modules.size; col++) {
+            if (!modules.get(row, col)) continue;
+            const start = col;
+            while (col + 1 < modules.size && modules.get(row, col + 1)) col++;
+            path += `M${start + QUIET_ZONE} ${row + QUIET_ZONE}h${col - start + 1}v1h${-(col - start + 1)}z`;
+        }
+    }
+
+    draw.page.drawRectangle({ x: draw.x, y: draw.y, width: draw.size, height: draw.size, color: rgb(1, 1, 1) });
+    // SVG paths run downwards from their origin, so it is the top-left corner
+    draw.page.drawSvgPath(path, {
+        x: draw.x,
+        y: draw.y + draw.size,
+        scale: draw.size / count,
+        color: rgb(0, 0, 0),
+        borderWidth: 0,
+    });
+    console.log(`✅ Drew verification QR code for ${draw.url} at (${draw.x}, ${draw.y})`);
+};
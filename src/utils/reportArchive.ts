@@ -0,0 +1,119 @@
+import type { PdfVerification, ReportInputs, ReportRecord, ReportRecordDetails, ReportRevisionSource, ReportSearch } from '../types/reports';
+import { getApiUrl } from './apiConfig';
+import { downloadPdf } from './pdfDownload';
+import { fetchAsStaff } from './staffAuth';
+
+const toReportRecord = (raw: any): ReportRecord => ({
+    ...raw,
+    generatedAt: new Date(raw.generatedAt),
+    revokedAt: raw.revokedAt ? new Date(raw.revokedAt) : undefined,
+});
+
+// The archive's records and files are staff only (see lib/apiAuth.ts)
+const fetchArchive = async (path: string, init?: RequestInit): Promise<Response> => {
+    const response = await fetchAsStaff(`${getApiUrl()}${path}`, init);
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response;
+};
+
+/**
+ * Stores a generated PDF in the report archive.
+ * @param inputs - What the PDF was generated from, so it can be regenerated as a revision
+ * @param id - Record id, when it was chosen before the PDF was built (its verification QR code links to it)
+ * @returns The archive record
+ */
+export const archiveReport = async (
+    bytes: Uint8Array,
+    fileName: string,
+    details: ReportRecordDetails,
+    inputs?: ReportInputs,
+    id?: string
+): Promise<ReportRecord> => {
+    const formData = new FormData();
+    if (id) formData.append('id', id);
+    formData.append('file', new Blob([bytes as any], { type: 'application/pdf' }), fileName);
+    formData.append('details', JSON.stringify(details));
+    if (inputs) formData.append('inputs', JSON.stringify(inputs));
+
+    // Not apiCall: it forces a JSON content type
+    const response = await fetchAsStaff(`${getApiUrl()}/api/reports`, {
+        method: 'POST',
+        body: formData,
+    });
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: response.statusText }));
+        if (errorData.missingVars) {
+            throw new Error(`${errorData.error}. Missing: ${errorData.missingVars.join(', ')}`);
+        }
+        throw new Error(errorData.error || errorData.message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return toReportRecord(await response.json());
+};
+
+/**
+ * Searches the report archive, newest first.
+ */
+export const searchReports = async (search: ReportSearch = {}): Promise<ReportRecord[]> => {
+    const params = new URLSearchParams();
+    if (search.address) params.set('address', search.address);
+    if (search.inspectorId) params.set('inspector', search.inspectorId);
+    if (search.from) params.set('from', search.from);
+    if (search.to) params.set('to', search.to);
+    if (search.result) params.set('result', search.result);
+    const query = params.toString();
+    const response = await fetchArchive(`/api/reports${query ? `?${query}` : ''}`);
+    return (await response.json() as any[]).map(toReportRecord);
+};
+
+/**
+ * Downloads an archived PDF again, with its original file name.
+ */
+export const downloadArchivedReport = async (report: ReportRecord): Promise<void> => {
+    const response = await fetchArchive(`/api/reports/${encodeURIComponent(report.id)}`);
+    downloadPdf(new Uint8Array(await response.arrayBuffer()), report.fileName);
+};
+
+/**
+ * Loads the inputs of an archived report, to regenerate it as a revision.
+ * @throws Error if the report's inputs weren't kept
+ */
+export const loadReportRevisionSource = async (id: string): Promise<ReportRevisionSource> => {
+    const response = await fetchArchive(`/api/reports/${encodeURIComponent(id)}/inputs`);
+    return response.json();
+};
+
+/**
+ * Revokes an issued report, so its verification page shows it as revoked.
+ * @returns The updated record
+ */
+export const revokeArchivedReport = async (id: string, reason: string): Promise<ReportRecord> => {
+    const response = await fetchArchive(`/api/reports/${encodeURIComponent(id)}/revoke`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+    });
+    return toReportRecord(await response.json());
+};
+
+/**
+ * Checks whether a PDF file is byte-identical to a report we issued.
+ * @returns The file's SHA-256 and the reports it matches (none if it was never issued or was altered)
+ */
+export const verifyPdfFile = async (file: File): Promise<PdfVerification> => {
+    const formData = new FormData();
+    formData.append('file', file, file.name);
+
+    // Not apiCall: it forces a JSON content type
+    const response = await fetch(`${getApiUrl()}/api/reports/verify`, {
+        method: 'POST',
+        body: formData,
+    });
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.json();
+};
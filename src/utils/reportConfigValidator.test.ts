@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { getReportConfigs } from '../config/reports';
+import type { ReportConfig } from '../types/reportStructure';
+import { checkReportConfig, validateReportConfigStructure } from './reportConfigValidator';
+import type { TemplateFieldInfo } from './templateInventory';
+
+const createConfig = (overrides: Partial<ReportConfig> = {}): ReportConfig => ({
+    id: 'TEST',
+    name: 'Test Report',
+    templateUrl: '/templates/Test.pdf',
+    mappings: [
+        { pdfFieldId: 'Address', source: 'user_input', label: 'Address' },
+        { pdfFieldId: 'address', source: 'derived', derive: { type: 'copy', from: 'Address' } },
+    ],
+    ...overrides,
+});
+
+const textField = (name: string): TemplateFieldInfo => ({ name, type: 'Text' });
+const messages = (issues: { message: string }[]) => issues.map(issue => issue.message);
+
+describe('validateReportConfigStructure', () => {
+    it('accepts the bundled configs', () => {
+        getReportConfigs().forEach(config => {
+            expect(validateReportConfigStructure(config), config.id).toEqual([]);
+        });
+    });
+
+    it('reports unknown properties, wrong values and settings a source needs', () => {
+        const config = {
+            ...createConfig(),
+            colour: 'red',
+            mappings: [
+                { pdfFieldId: 'Address', source: 'typed' },
+                { pdfFieldId: 'njdoh', source: 'variable', variableScope: 'inspector' },
+            ],
+        };
+        const found = messages(validateReportConfigStructure(config));
+        expect(found).toContain('config has unknown property "colour"');
+        expect(found).toContain('mappings[0].source must be one of user_input, excel_cell, static, calculation, derived, variable');
+        expect(found.some(message => message.startsWith('mappings[1]') && message.includes('variableName'))).toBe(true);
+    });
+
+    it('reports duplicate mappings, derivations from unmapped fields and expressions that do not parse', () => {
+        const config = createConfig({
+            mappings: [
+                { pdfFieldId: 'Address', source: 'user_input' },
+                { pdfFieldId: 'Address', source: 'user_input' },
+                { pdfFieldId: 'Month', source: 'derived', derive: { type: 'date_part', from: 'Date', part: 'month' } },
+                { pdfFieldId: 'Total', source: 'calculation', expression: 'positiveReadings +' },
+            ],
+        });
+        const issues = validateReportConfigStructure(config);
+        expect(issues.map(issue => issue.fieldId)).toEqual(['Address', 'Month', 'Total']);
+        expect(messages(issues)[0]).toBe('mappings[1]: "Address" is mapped more than once (only the first mapping is used)');
+        expect(messages(issues)[1]).toBe('mappings[2]: "Month" is derived from "Date", which is not a mapped field');
+        expect(messages(issues)[2]).toMatch(/^mappings\[3\]: invalid expression for "Total": /);
+    });
+
+    it('lets certificate mappings copy report fields', () => {
+        const config = createConfig({
+            certifTemplateUrl: '/templates/Cert.pdf',
+            certificateMappings: [
+                { pdfFieldId: 'Site Address', source: 'derived', derive: { type: 'copy', from: 'Address' } },
+                { pdfFieldId: 'Site', source: 'derived', derive: { type: 'copy', from: 'Site Address' } },
+            ],
+        });
+        expect(validateReportConfigStructure(config)).toEqual([]);
+    });
+
+    it('checks the settings that refer to fields, the time zone and the action level', () => {
+        const config = createConfig({
+            unitField: 'Unit',
+            timeZone: 'Mars/Olympus',
+            actionLevel: { level: 1, inconclusiveRange: [0.5, 0.9] },
+        });
+        expect(messages(validateReportConfigStructure(config))).toEqual([
+            'unitField "Unit" is not a mapped field',
+            'timeZone "Mars/Olympus" is not a known time zone (use an IANA name such as "America/New_York")',
+            'actionLevel.inconclusiveRange [0.5, 0.9] must contain the action level 1',
+        ]);
+    });
+});
+
+describe('checkReportConfig', () => {
+    it('finds mapped fields missing from the template, with a suggestion, and matches aliases', () => {
+        const config = createConfig({
+            mappings: [
+                { pdfFieldId: 'Adress', source: 'user_input' },
+                { pdfFieldId: 'Inspector name', source: 'user_input', aliases: ['Inspector'] },
+                { pdfFieldId: 'Total', source: 'calculation', expression: '1 + 1' },
+            ],
+        });
+        const issues = checkReportConfig(config, { report: [textField('Address'), textField('Inspector')] });
+        expect(issues).toEqual([
+            {
+                severity: 'error',
+                kind: 'missing',
+                template: 'report',
+                fieldId: 'Adress',
+                message: 'Mapped field "Adress" is not a field of the report template (did you mean "Address"?), so its value is never written',
+            },
+            {
+                // Calculations may only feed other fields
+                severity: 'warning',
+                kind: 'missing',
+                template: 'report',
+                fieldId: 'Total',
+                message: 'Mapped field "Total" is not a field of the report template',
+            },
+            {
+                severity: 'warning',
+                kind: 'unused',
+                template: 'report',
+                fieldId: 'Address',
+                message: 'Text field "Address" of the report template is not mapped and keeps its template value',
+            },
+        ]);
+    });
+
+    it('needs an overlay for a field that is not a text field, and checks the anchors', () => {
+        const config = createConfig({
+            mappings: [
+                { pdfFieldId: 'Address', source: 'user_input' },
+                { pdfFieldId: 'Positive', source: 'user_input' },
+                { pdfFieldId: 'Count', source: 'calculation', expression: '1', overlay: { anchorField: 'Counts' } },
+            ],
+            images: [{ document: 'signature', anchorField: 'Inspector sig' }],
+            pageLayout: { pages: [{ id: 'cover', containsField: 'Address' }], steps: [{ type: 'template', page: 'cover' }] },
+        });
+        const issues = checkReportConfig(config, { report: [textField('Address'), { name: 'Positive', type: 'CheckBox' }] });
+        expect(messages(issues.filter(issue => issue.severity === 'error'))).toEqual([
+            'Mapped field "Positive" is a CheckBox field in the report template, not a text field (use an overlay anchored to it instead)',
+            'Anchor field of image "signature" "Inspector sig" is not a field of the report template',
+            'Anchor field of the overlay of "Count" "Counts" is not a field of the report template',
+        ]);
+    });
+
+    it('checks the certificate template against the certificate mappings', () => {
+        const config = createConfig({
+            certifTemplateUrl: '/templates/Cert.pdf',
+            certificateMappings: [{ pdfFieldId: 'Site Address', source: 'derived', derive: { type: 'copy', from: 'Address' } }],
+        });
+        const issues = checkReportConfig(config, {
+            report: [textField('Address'), textField('address')],
+            certificate: [textField('Site address')],
+        });
+        expect(issues).toHaveLength(2);
+        expect(issues[0]).toMatchObject({ severity: 'error', template: 'certificate', fieldId: 'Site Address' });
+        expect(issues[0].message).toContain('(did you mean "Site address"?)');
+        expect(issues[1]).toMatchObject({ severity: 'warning', kind: 'unused', template: 'certificate', fieldId: 'Site address' });
+    });
+
+    it('stops at structure errors of the config itself', () => {
+        const config = { ...createConfig(), templateUrl: 3 } as unknown as ReportConfig;
+        expect(messages(checkReportConfig(config, { report: [] }))).toEqual(['templateUrl must be string']);
+    });
+});
@@ -0,0 +1,668 @@
+import Ajv from 'ajv';
+import type { ErrorObject } from 'ajv';
+import { PDFDocument } from 'pdf-lib';
+import type { FieldMapping, ReportConfig } from '../types/reportStructure';
+import { validateExpression } from './expressionEvaluator';
+import { isValidTimeZone } from './dateFormat';
+import { getTemplateFieldInventory } from './templateInventory';
+import type { TemplateFieldInfo } from './templateInventory';
+import { loadTemplateBytes } from './templateLoader';
+
+// A problem found in a report config. Errors leave fields blank (or break generation); warnings are worth a look.
+export interface ReportConfigIssue {
+    severity: 'error' | 'warning';
+    kind: 'structure' | 'missing' | 'unused' | 'type_mismatch';
+    template?: 'report' | 'certificate';
+    fieldId?: string;
+    message: string;
+}
+
+// Form fields of the templates a config is checked against
+export interface ReportTemplateFields {
+    report: TemplateFieldInfo[];
+    certificate?: TemplateFieldInfo[];
+}
+
+// ==================== SCHEMA ====================
+
+// Unions are discriminated by `type`, so an error names the branch's own missing properties
+const derivationSchema = {
+    type: 'object',
+    discriminator: { propertyName: 'type' },
+    required: ['type'],
+    oneOf: [
+        {
+            type: 'object',
+            properties: {
+                type: { const: 'copy' },
+                from: { type: 'string', minLength: 1 },
+            },
+            required: ['type', 'from'],
+            additionalProperties: false,
+        },
+        {
+            type: 'object',
+            properties: {
+                type: { const: 'date_part' },
+                from: { type: 'string', minLength: 1 },
+                part: { enum: ['month', 'day', 'year'] },
+            },
+            required: ['type', 'from', 'part'],
+            additionalProperties: false,
+        },
+        {
+            type: 'object',
+            properties: {
+                type: { const: 'concat' },
+                from: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 },
+                separator: { type: 'string' },
+            },
+            required: ['type', 'from'],
+            additionalProperties: false,
+        },
+    ],
+};
+
+const overlaySchema = {
+    type: 'object',
+    properties: {
+        anchorField: { type: 'string', minLength: 1 },
+        widgetIndex: { type: 'integer', minimum: 0 },
+        page: { type: 'integer', minimum: 0 },
+        x: { type: 'number' },
+        y: { type: 'number' },
+        font: { enum: ['Helvetica', 'HelveticaBold', 'TimesRoman', 'TimesRomanBold', 'Courier', 'CourierBold'] },
+        size: { type: 'number', exclusiveMinimum: 0 },
+        color: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
+        align: { enum: ['left', 'center', 'right'] },
+    },
+    additionalProperties: false,
+};
+
+// Source-specific settings a mapping can't work without
+const requiredForSource = (source: string, required: string[]) => ({
+    if: { properties: { source: { const: source } } },
+    then: { required },
+});
+
+const fieldMappingSchema = {
+    type: 'object',
+    properties: {
+        pdfFieldId: { type: 'string', minLength: 1 },
+        aliases: { type: 'array', items: { type: 'string', minLength: 1 } },
+        source: { enum: ['user_input', 'excel_cell', 'static', 'calculation', 'derived', 'variable'] },
+        label: { type: 'string' },
+        inputType: { enum: ['text', 'date', 'number'] },
+        required: { type: 'boolean' },
+        excelColumn: { type: 'string', minLength: 1 },
+        excelRow: { type: 'integer', minimum: 1 },
+        staticValue: { type: 'string' },
+        variableScope: { enum: ['general', 'inspector'] },
+        variableName: { type: 'string', minLength: 1 },
+        derive: derivationSchema,
+        expression: { type: 'string', minLength: 1 },
+        dateFormat: { type: 'string', minLength: 1 },
+        overlay: overlaySchema,
+    },
+    required: ['pdfFieldId', 'source'],
+    additionalProperties: false,
+    allOf: [
+        requiredForSource('excel_cell', ['excelColumn']),
+        requiredForSource('static', ['staticValue']),
+        requiredForSource('variable', ['variableName']),
+        requiredForSource('derived', ['derive']),
+        requiredForSource('calculation', ['expression']),
+    ],
+};
+
+const imageMappingSchema = {
+    type: 'object',
+    properties: {
+        document: { type: 'string', minLength: 1 },
+        documentCategory: { enum: ['inspector', 'general'] },
+        anchorField: { type: 'string', minLength: 1 },
+        widgetIndex: { type: 'integer', minimum: 0 },
+        offset: {
+            type: 'object',
+            properties: {
+                x: { type: 'number' },
+                y: { type: 'number' },
+                width: { type: 'number', exclusiveMinimum: 0 },
+                height: { type: 'number', exclusiveMinimum: 0 },
+            },
+            additionalProperties: false,
+        },
+        fit: { enum: ['contain', 'fill', 'none'] },
+        allowUpscale: { type: 'boolean' },
+        scale: { type: 'number', exclusiveMinimum: 0 },
+        align: { enum: ['left', 'center', 'right'] },
+        whiteBackground: {
+            type: 'object',
+            properties: {
+                paddingX: { type: 'number' },
+                paddingY: { type: 'number' },
+            },
+            additionalProperties: false,
+        },
+    },
+    required: ['document', 'anchorField'],
+    additionalProperties: false,
+};
+
+const pageLayoutSchema = {
+    type: 'object',
+    properties: {
+        pages: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', minLength: 1 },
+                    containsField: { type: 'string', minLength: 1 },
+                    index: { type: 'integer' },
+                },
+                required: ['id'],
+                anyOf: [{ required: ['containsField'] }, { required: ['index'] }],
+                additionalProperties: false,
+            },
+        },
+        steps: {
+            type: 'array',
+            items: {
+                type: 'object',
+                discriminator: { propertyName: 'type' },
+                required: ['type'],
+                oneOf: [
+                    {
+                        type: 'object',
+                        properties: { type: { const: 'template' }, page: { type: 'string', minLength: 1 }, when: { type: 'string' } },
+                        required: ['type', 'page'],
+                        additionalProperties: false,
+                    },
+                    {
+                        type: 'object',
+                        properties: { type: { const: 'readings' }, when: { type: 'string' } },
+                        required: ['type'],
+                        additionalProperties: false,
+                    },
+                    {
+                        type: 'object',
+                        properties: {
+                            type: { const: 'attachment' },
+                            document: { enum: ['certificate', 'license', 'leadSafeCertificate'] },
+                            when: { type: 'string' },
+                        },
+                        required: ['type', 'document'],
+                        additionalProperties: false,
+                    },
+                ],
+            },
+        },
+    },
+    required: ['pages', 'steps'],
+    additionalProperties: false,
+};
+
+const readingsTableSchema = {
+    type: 'object',
+    properties: {
+        columns: {
+            type: 'array',
+            minItems: 1,
+            items: {
+                type: 'object',
+                properties: {
+                    header: { type: 'string', minLength: 1 },
+                    role: { enum: ['date', 'site', 'reading', 'units', 'result', 'depthIndex', 'calibration', 'room', 'component', 'substrate'] },
+                    label: { type: 'string' },
+                    width: { type: 'number', exclusiveMinimum: 0 },
+                },
+                anyOf: [{ required: ['header'] }, { required: ['role'] }],
+                additionalProperties: false,
+            },
+        },
+        fontSize: { type: 'number', minimum: 4, maximum: 14 },
+        groupCalibration: { type: 'boolean' },
+    },
+    additionalProperties: false,
+};
+
+const qrCodePlacementSchema = {
+    type: 'object',
+    properties: {
+        anchorField: { type: 'string', minLength: 1 },
+        widgetIndex: { type: 'integer', minimum: 0 },
+        offset: imageMappingSchema.properties.offset,
+        size: { type: 'number', exclusiveMinimum: 0 },
+        align: { enum: ['left', 'center', 'right'] },
+    },
+    required: ['anchorField'],
+    additionalProperties: false,
+};
+
+const signaturePlacementSchema = {
+    type: 'object',
+    properties: {
+        anchorField: { type: 'string', minLength: 1 },
+        widgetIndex: { type: 'integer', minimum: 0 },
+        offset: imageMappingSchema.properties.offset,
+    },
+    required: ['anchorField'],
+    additionalProperties: false,
+};
+
+const reportConfigSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string', minLength: 1 },
+        name: { type: 'string', minLength: 1 },
+        templateUrl: { type: 'string', pattern: '\\.pdf$' },
+        templateVersion: { type: 'integer', minimum: 1 },
+        certifTemplateUrl: { type: 'string', pattern: '\\.pdf$' },
+        certifTemplateVersion: { type: 'integer', minimum: 1 },
+        certificateMappings: { type: 'array', items: fieldMappingSchema },
+        certificateImages: { type: 'array', items: imageMappingSchema },
+        certificateQrCode: qrCodePlacementSchema,
+        certificateDigitalSignature: signaturePlacementSchema,
+        dataType: { enum: ['xrf', 'dust_wipe'] },
+        actionLevel: {
+            type: 'object',
+            properties: {
+                level: { type: 'number', exclusiveMinimum: 0 },
+                inconclusiveRange: { type: 'array', items: { type: 'number', minimum: 0 }, minItems: 2, maxItems: 2 },
+                inconclusiveAsPositive: { type: 'boolean' },
+            },
+            required: ['level'],
+            additionalProperties: false,
+        },
+        dustWipeThresholds: {
+            type: 'object',
+            properties: {
+                floor: { type: 'number', exclusiveMinimum: 0 },
+                window_sill: { type: 'number', exclusiveMinimum: 0 },
+                window_trough: { type: 'number', exclusiveMinimum: 0 },
+            },
+            required: ['floor', 'window_sill', 'window_trough'],
+            additionalProperties: false,
+        },
+        fileNamePrefix: { type: 'string' },
+        unitField: { type: 'string', minLength: 1 },
+        dateRangeFields: {
+            type: 'object',
+            properties: {
+                start: { type: 'string', minLength: 1 },
+                end: { type: 'string', minLength: 1 },
+            },
+            required: ['start'],
+            additionalProperties: false,
+        },
+        timeZone: { type: 'string', minLength: 1 },
+        mappings: { type: 'array', items: fieldMappingSchema },
+        pageLayout: pageLayoutSchema,
+        readingsTable: readingsTableSchema,
+        images: { type: 'array', items: imageMappingSchema },
+        qrCode: qrCodePlacementSchema,
+        digitalSignature: signaturePlacementSchema,
+        // Set on configs loaded from the database
+        updatedAt: {},
+    },
+    required: ['id', 'name', 'templateUrl', 'mappings'],
+    additionalProperties: false,
+};
+
+let validateSchema: ReturnType<Ajv['compile']> | null = null;
+
+const getSchemaValidator = () => {
+    if (!validateSchema) {
+        validateSchema = new Ajv({ allErrors: true, discriminator: true }).compile(reportConfigSchema);
+    }
+    return validateSchema;
+};
+
+// "/mappings/3/source must be equal to one of the allowed values" -> "mappings[3].source must be ..."
+const formatSchemaError = (error: ErrorObject): string => {
+    const path = error.instancePath
+        .replace(/\/(\d+)/g, '[$1]')
+        .replace(/\//g, '.')
+        .replace(/^\./, '');
+    const detail = error.keyword === 'additionalProperties'
+        ? `has unknown property "${(error.params as { additionalProperty: string }).additionalProperty}"`
+        : error.keyword === 'enum'
+            ? `must be one of ${(error.params as { allowedValues: unknown[] }).allowedValues.join(', ')}`
+            : error.message || 'is invalid';
+    return `${path || 'config'} ${detail}`;
+};
+
+// oneOf/anyOf/if failures repeat what the branch errors already say
+const isSummaryError = (error: ErrorObject) => ['oneOf', 'anyOf', 'if'].includes(error.keyword);
+
+// ==================== STRUCTURE ====================
+
+const getDerivationSources = (mapping: FieldMapping): string[] => {
+    if (!mapping.derive) return [];
+    return Array.isArray(mapping.derive.from) ? mapping.derive.from : [mapping.derive.from];
+};
+
+const checkMappingReferences = (
+    mappings: FieldMapping[],
+    listName: string,
+    referenceable: Set<string>
+): ReportConfigIssue[] => {
+    const issues: ReportConfigIssue[] = [];
+    const seen = new Set<string>();
+
+    mappings.forEach((mapping, idx) => {
+        if (seen.has(mapping.pdfFieldId)) {
+            issues.push({
+                severity: 'error',
+                kind: 'structure',
+                fieldId: mapping.pdfFieldId,
+                message: `${listName}[${idx}]: "${mapping.pdfFieldId}" is mapped more than once (only the first mapping is used)`,
+            });
+        }
+        seen.add(mapping.pdfFieldId);
+
+        getDerivationSources(mapping).forEach(from => {
+            if (!referenceable.has(from)) {
+                issues.push({
+                    severity: 'error',
+                    kind: 'structure',
+                    fieldId: mapping.pdfFieldId,
+                    message: `${listName}[${idx}]: "${mapping.pdfFieldId}" is derived from "${from}", which is not a mapped field`,
+                });
+            }
+        });
+
+        if (mapping.expression) {
+            const expressionError = validateExpression(mapping.expression);
+            if (expressionError) {
+                issues.push({
+                    severity: 'error',
+                    kind: 'structure',
+                    fieldId: mapping.pdfFieldId,
+                    message: `${listName}[${idx}]: invalid expression for "${mapping.pdfFieldId}": ${expressionError}`,
+                });
+            }
+        }
+    });
+    return issues;
+};
+
+/**
+ * Checks the shape of a report config against the JSON schema (unknown properties, wrong types, settings a
+ * mapping's source needs), plus duplicate mappings, derivations from unmapped fields and expressions that don't parse.
+ * Doesn't need the templates, so it can run on the server before a config is saved.
+ * @returns The problems found (all errors)
+ */
+export const validateReportConfigStructure = (config: unknown): ReportConfigIssue[] => {
+    const validate = getSchemaValidator();
+    if (!validate(config)) {
+        const messages = (validate.errors || []).filter(error => !isSummaryError(error)).map(formatSchemaError);
+        return Array.from(new Set(messages))
+            .map(message => ({ severity: 'error' as const, kind: 'structure' as const, message }));
+    }
+
+    const report = config as ReportConfig;
+    const certificateMappings = report.certificateMappings || [];
+    const reportIds = new Set(report.mappings.map(m => m.pdfFieldId));
+    const settingIssues: ReportConfigIssue[] = [];
+    const settingFields: [string, string | undefined][] = [
+        ['unitField', report.unitField],
+        ['dateRangeFields.start', report.dateRangeFields?.start],
+        ['dateRangeFields.end', report.dateRangeFields?.end],
+    ];
+    settingFields.forEach(([setting, fieldId]) => {
+        if (fieldId && !reportIds.has(fieldId)) {
+            settingIssues.push({
+                severity: 'error',
+                kind: 'structure',
+                fieldId,
+                message: `${setting} "${fieldId}" is not a mapped field`,
+            });
+        }
+    });
+    if (report.timeZone && !isValidTimeZone(report.timeZone)) {
+        settingIssues.push({
+            severity: 'error',
+            kind: 'structure',
+            message: `timeZone "${report.timeZone}" is not a known time zone (use an IANA name such as "America/New_York")`,
+        });
+    }
+    const range = report.actionLevel?.inconclusiveRange;
+    if (range && !(range[0] <= report.actionLevel!.level && report.actionLevel!.level <= range[1])) {
+        settingIssues.push({
+            severity: 'error',
+            kind: 'structure',
+            message: `actionLevel.inconclusiveRange [${range.join(', ')}] must contain the action level ${report.actionLevel!.level}`,
+        });
+    }
+    return [
+        ...settingIssues,
+        ...checkMappingReferences(report.mappings, 'mappings', reportIds),
+        // Certificate mappings can copy report fields
+        ...checkMappingReferences(certificateMappings, 'certificateMappings',
+            new Set([...certificateMappings.map(m => m.pdfFieldId), ...reportIds])),
+    ];
+};
+
+// ==================== TEMPLATE FIELDS ====================
+
+const normalizeFieldName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const editDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// Closest template field name, for "did you mean" hints on typos and stray spaces
+const suggestFieldName = (name: string, fieldNames: string[]): string | undefined => {
+    const normalized = normalizeFieldName(name);
+    let best: { name: string; distance: number } | undefined;
+    fieldNames.forEach(candidate => {
+        const distance = editDistance(normalized, normalizeFieldName(candidate));
+        if (distance <= 2 && (!best || distance < best.distance)) {
+            best = { name: candidate, distance };
+        }
+    });
+    return best?.name;
+};
+
+const checkTemplateFields = (
+    template: 'report' | 'certificate',
+    fields: TemplateFieldInfo[],
+    mappings: FieldMapping[],
+    anchors: { fieldId: string; usedFor: string }[]
+): ReportConfigIssue[] => {
+    const issues: ReportConfigIssue[] = [];
+    const fieldsByName = new Map(fields.map(f => [f.name, f]));
+    const fieldNames = fields.map(f => f.name);
+    const referenced = new Set<string>();
+
+    const missingMessage = (name: string, what: string) => {
+        const suggestion = suggestFieldName(name, fieldNames);
+        return `${what} "${name}" is not a field of the ${template} template` +
+            (suggestion ? ` (did you mean "${suggestion}"?)` : '');
+    };
+
+    mappings.forEach(mapping => {
+        const names = [mapping.pdfFieldId, ...(mapping.aliases || [])];
+        names.forEach(name => referenced.add(name));
+        const matchedName = names.find(name => fieldsByName.has(name));
+
+        if (!matchedName) {
+            // Calculations can feed other fields without a field of their own, and an overlay at
+            // explicit coordinates doesn't need one
+            const needsField = mapping.source !== 'calculation' &&
+                !(mapping.overlay && mapping.overlay.page !== undefined);
+            issues.push({
+                severity: needsField ? 'error' : 'warning',
+                kind: 'missing',
+                template,
+                fieldId: mapping.pdfFieldId,
+                message: missingMessage(mapping.pdfFieldId, 'Mapped field') +
+                    (mapping.aliases?.length ? `; none of its aliases (${mapping.aliases.join(', ')}) are either` : '') +
+                    (needsField ? ', so its value is never written' : ''),
+            });
+            return;
+        }
+
+        const field = fieldsByName.get(matchedName)!;
+        // Values are written with setText, so anything but a text field needs an overlay
+        if (field.type !== 'Text' && !mapping.overlay) {
+            issues.push({
+                severity: 'error',
+                kind: 'type_mismatch',
+                template,
+                fieldId: mapping.pdfFieldId,
+                message: `Mapped field "${matchedName}" is a ${field.type} field in the ${template} template, not a text field ` +
+                    `(use an overlay anchored to it instead)`,
+            });
+        }
+    });
+
+    anchors.forEach(({ fieldId, usedFor }) => {
+        referenced.add(fieldId);
+        if (!fieldsByName.has(fieldId)) {
+            issues.push({
+                severity: 'error',
+                kind: 'missing',
+                template,
+                fieldId,
+                message: missingMessage(fieldId, `Anchor field of ${usedFor}`),
+            });
+        }
+    });
+
+    fields.forEach(field => {
+        if (!referenced.has(field.name)) {
+            issues.push({
+                severity: 'warning',
+                kind: 'unused',
+                template,
+                fieldId: field.name,
+                message: `${field.type} field "${field.name}" of the ${template} template is not mapped and keeps its template value`,
+            });
+        }
+    });
+    return issues;
+};
+
+/**
+ * Cross-checks a report config against the form fields of its templates: mapped fields (or their aliases) that
+ * the template doesn't have, fields that aren't text fields, image/overlay/page anchors that don't exist,
+ * and template fields nothing refers to. Runs the structural checks first.
+ * @param config - The report config
+ * @param templateFields - Fields of the report template, and of the certificate template if the config has one
+ * @returns The problems found, errors first
+ */
+export const checkReportConfig = (config: ReportConfig, templateFields: ReportTemplateFields): ReportConfigIssue[] => {
+    const issues = validateReportConfigStructure(config);
+    if (issues.some(issue => issue.kind === 'structure' && !issue.fieldId)) {
+        return issues; // Not a well-formed config, the field checks would only add noise
+    }
+
+    const reportAnchors = [
+        ...(config.images || []).map(image => ({ fieldId: image.anchorField, usedFor: `image "${image.document}"` })),
+        ...(config.qrCode ? [{ fieldId: config.qrCode.anchorField, usedFor: 'the verification QR code' }] : []),
+        ...(config.digitalSignature ? [{ fieldId: config.digitalSignature.anchorField, usedFor: 'the digital signature' }] : []),
+        ...config.mappings
+            .filter(m => m.overlay?.anchorField && m.overlay.page === undefined)
+            .map(m => ({ fieldId: m.overlay!.anchorField!, usedFor: `the overlay of "${m.pdfFieldId}"` })),
+        ...(config.pageLayout?.pages || [])
+            .filter(page => page.containsField)
+            .map(page => ({ fieldId: page.containsField!, usedFor: `page "${page.id}"` })),
+    ];
+    issues.push(...checkTemplateFields('report', templateFields.report, config.mappings, reportAnchors));
+
+    if (config.certifTemplateUrl && templateFields.certificate) {
+        const certificateAnchors = [
+            ...(config.certificateImages || [])
+                .map(image => ({ fieldId: image.anchorField, usedFor: `image "${image.document}"` })),
+            ...(config.certificateQrCode ? [{ fieldId: config.certificateQrCode.anchorField, usedFor: 'the verification QR code' }] : []),
+            ...(config.certificateDigitalSignature
+                ? [{ fieldId: config.certificateDigitalSignature.anchorField, usedFor: 'the digital signature' }]
+                : []),
+        ];
+        issues.push(...checkTemplateFields('certificate', templateFields.certificate,
+            config.certificateMappings || [], certificateAnchors));
+    }
+
+    return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
+
+const loadTemplateFields = async (templateUrl: string, version?: number): Promise<TemplateFieldInfo[]> => {
+    const pdfDoc = await PDFDocument.load(await loadTemplateBytes(templateUrl, version));
+    return getTemplateFieldInventory(pdfDoc);
+};
+
+/**
+ * Loads a config's templates (at their pinned versions) and checks the config against them.
+ * A template that can't be loaded is reported as an error instead of throwing.
+ * @returns The problems found, errors first
+ */
+export const validateReportConfig = async (config: ReportConfig): Promise<ReportConfigIssue[]> => {
+    const structureIssues = validateReportConfigStructure(config);
+    if (structureIssues.some(issue => !issue.fieldId)) {
+        return structureIssues;
+    }
+
+    let report: TemplateFieldInfo[];
+    try {
+        report = await loadTemplateFields(config.templateUrl, config.templateVersion);
+    } catch (err: any) {
+        return [...structureIssues, {
+            severity: 'error',
+            kind: 'missing',
+            template: 'report',
+            message: `Report template could not be loaded: ${err.message || err}`,
+        }];
+    }
+
+    let certificate: TemplateFieldInfo[] | undefined;
+    const loadIssues: ReportConfigIssue[] = [];
+    if (config.certifTemplateUrl) {
+        try {
+            certificate = await loadTemplateFields(config.certifTemplateUrl, config.certifTemplateVersion);
+        } catch (err: any) {
+            loadIssues.push({
+                severity: 'error',
+                kind: 'missing',
+                template: 'certificate',
+                message: `Certificate template could not be loaded: ${err.message || err}`,
+            });
+        }
+    }
+
+    return [...loadIssues, ...checkReportConfig(config, { report, certificate })];
+};
+
+/**
+ * Logs a config's issues to the console, errors as warnings and the rest grouped (e.g. from the startup check).
+ */
+export const logReportConfigIssues = (config: ReportConfig, issues: ReportConfigIssue[]): void => {
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const warnings = issues.filter(issue => issue.severity === 'warning');
+    if (errors.length === 0) {
+        console.log(`✅ Report config ${config.id} matches its templates` +
+            (warnings.length ? ` (${warnings.length} warning(s))` : ''));
+    } else {
+        console.warn(`⚠️ Report config ${config.id} has ${errors.length} error(s):\n` +
+            errors.map(issue => `  - ${issue.message}`).join('\n'));
+    }
+    if (warnings.length > 0) {
+        console.groupCollapsed(`Report config ${config.id} warnings`);
+        warnings.forEach(issue => console.log(`[${issue.kind}] ${issue.message}`));
+        console.groupEnd();
+    }
+};
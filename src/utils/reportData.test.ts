@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import type { Document } from '../types/documents';
+import type { ReportConfig } from '../types/reportStructure';
+import {
+    findCertificateDocumentType,
+    findLicenseDocumentType,
+    getReferencedDocumentIds,
+    getReportRecordDetails,
+    getTemplateVersions,
+} from './reportData';
+
+const createDocument = (id: string, documentType: string, category: Document['category'] = 'inspector'): Document => ({
+    id,
+    fileName: `${id}.pdf`,
+    filePath: `documents/${id}.pdf`,
+    uploadedAt: new Date(2025, 0, 1),
+    category,
+    documentType,
+});
+
+const REPORT: ReportConfig = {
+    id: 'XHR',
+    name: 'XRF Report',
+    templateUrl: '/templates/XHRTEMP.pdf',
+    templateVersion: 3,
+    certifTemplateUrl: '/templates/CertTEMP.pdf',
+    mappings: [],
+};
+
+describe('findCertificateDocumentType', () => {
+    it('is the first general document type named like a certificate', () => {
+        const general = new Map([
+            ['Insurance', createDocument('insurance', 'Insurance', 'general-typed')],
+            ['Company Cert', createDocument('cert', 'Company Cert', 'general-typed')],
+            ['Certificate', createDocument('certificate', 'Certificate', 'general-typed')],
+        ]);
+        expect(findCertificateDocumentType(general)).toBe('Company Cert');
+        expect(findCertificateDocumentType(new Map())).toBeUndefined();
+    });
+});
+
+describe('findLicenseDocumentType', () => {
+    it('is the inspector document type named like a license, in either spelling', () => {
+        expect(findLicenseDocumentType([createDocument('sig', 'Signature'), createDocument('lic', 'NJ Licence')])).toBe('NJ Licence');
+        expect(findLicenseDocumentType([createDocument('lic', 'Inspector License')])).toBe('Inspector License');
+        expect(findLicenseDocumentType([createDocument('sig', 'Signature')])).toBeUndefined();
+    });
+});
+
+describe('getReferencedDocumentIds', () => {
+    it('lists the general documents and those of the selected inspector only', () => {
+        const general = new Map([['Certificate', createDocument('certificate', 'Certificate', 'general-typed')]]);
+        const byInspector = new Map([
+            ['inspector-1', [createDocument('sig-1', 'Signature'), createDocument('lic-1', 'License')]],
+            ['inspector-2', [createDocument('sig-2', 'Signature')]],
+        ]);
+        expect(getReferencedDocumentIds({ selectedInspectorId: 'inspector-1' }, general, byInspector))
+            .toEqual(['certificate', 'sig-1', 'lic-1']);
+        expect(getReferencedDocumentIds({}, general, byInspector)).toEqual(['certificate']);
+        expect(getReferencedDocumentIds({ selectedInspectorId: 'inspector-1' })).toEqual([]);
+    });
+});
+
+describe('getTemplateVersions', () => {
+    it('records the pinned versions, null for a static template', () => {
+        expect(getTemplateVersions({}, REPORT)).toEqual({ 'XHRTEMP.pdf': 3, 'CertTEMP.pdf': null });
+        expect(getTemplateVersions({}, { ...REPORT, certifTemplateUrl: undefined })).toEqual({ 'XHRTEMP.pdf': 3 });
+    });
+
+    it('keeps the versions of the report a revision revises', () => {
+        const data = { templateVersions: { 'XHRTEMP.pdf': 2, 'CertTEMP.pdf': 1 } };
+        expect(getTemplateVersions(data, REPORT)).toEqual({ 'XHRTEMP.pdf': 2, 'CertTEMP.pdf': 1 });
+        // Templates the revised report didn't record fall back to the pins
+        expect(getTemplateVersions({ templateVersions: { 'XHRTEMP.pdf': null } }, REPORT)).toEqual({ 'XHRTEMP.pdf': null, 'CertTEMP.pdf': null });
+        expect(getTemplateVersions({ templateVersions: { 'CertTEMP.pdf': 4 } }, REPORT)).toEqual({ 'XHRTEMP.pdf': 3, 'CertTEMP.pdf': 4 });
+    });
+});
+
+describe('getReportRecordDetails', () => {
+    const data = {
+        Address: '12 Eglantine Ave',
+        Block: ' 104 ',
+        lot: '',
+        Date: '2025-03-07',
+        selectedInspectorId: 'inspector-1',
+        'Inspector name': 'Jane Inspector',
+        isPositive: true,
+        totalReadings: 40,
+        positiveReadings: 3,
+        revisionOf: 'original-id',
+        revision: 2,
+        templateVersions: { 'XHRTEMP.pdf': 2 },
+    };
+
+    it('records the report with the template version it was filled from', () => {
+        expect(getReportRecordDetails(data, REPORT, 'report')).toEqual({
+            reportType: 'XHR',
+            document: 'report',
+            address: '12 Eglantine Ave',
+            block: '104',
+            lot: undefined,
+            county: undefined,
+            inspectionDate: '2025-03-07',
+            inspectorId: 'inspector-1',
+            inspectorName: 'Jane Inspector',
+            result: 'Not Lead Free',
+            isPositive: true,
+            totalReadings: 40,
+            positiveReadings: 3,
+            templateKey: 'XHRTEMP.pdf',
+            templateVersion: 2,
+            revisionOf: 'original-id',
+            revision: 2,
+            unit: undefined,
+        });
+    });
+
+    it('records the certificate template for the certificate, and the unit of a unit report', () => {
+        expect(getReportRecordDetails(data, REPORT, 'certificate', '12 Eglantine Ave, Apt 1A', '1A')).toMatchObject({
+            document: 'certificate',
+            address: '12 Eglantine Ave, Apt 1A',
+            templateKey: 'CertTEMP.pdf',
+            templateVersion: undefined,
+            unit: '1A',
+        });
+        expect(getReportRecordDetails(data, REPORT, 'summary')).toMatchObject({ templateKey: undefined, templateVersion: undefined });
+    });
+});
@@ -0,0 +1,224 @@
+import * as XLSX from 'xlsx';
+import type { UploadedData } from '../App';
+import type { ReportConfig } from '../types/reportStructure';
+import type { AnalyzerProfile, InstrumentMetadata } from '../types/analyzerProfiles';
+import type { Document } from '../types/documents';
+import type { ArchivedDocument, ReportRecordDetails } from '../types/reports';
+import type { TemplateVersions } from '../types/templates';
+import { getAnalyzerProfile } from '../config/analyzerProfiles';
+import { extractDustWipeInfo, extractMappedCells, extractSheetInfo } from './excelExtractor';
+import type { ExtractedSheetInfo } from './excelExtractor';
+import { checkCalibration } from './calibrationQA';
+import type { CalibrationQAResult } from './calibrationQA';
+import { getInstrumentDataFields, isTextExportFile, parseTextExport, textExportToWorkbook } from './textExportParser';
+import { parseDateValue, toLocalISOString } from './dateFormat';
+import { getTemplateKey, resolveTemplateVersion } from './templateLoader';
+
+// Turning an uploaded analyzer export into report data. Used by the upload step and by the server generate API,
+// so it doesn't touch the browser.
+
+// An uploaded file read as a workbook
+export interface UploadedWorkbook {
+    workbook: XLSX.WorkBook;
+    instrumentMetadata: InstrumentMetadata; // From a CSV/text export's preamble (empty for Excel files)
+}
+
+/**
+ * Whether a file can be uploaded: an Excel workbook or a CSV/text analyzer export.
+ */
+export const isSupportedUploadFile = (fileName: string): boolean => {
+    return /\.(xlsx|xls)$/i.test(fileName) || isTextExportFile(fileName);
+};
+
+/**
+ * Reads an uploaded file. CSV/text exports keep their metadata preamble apart and their readings become a one-sheet
+ * workbook.
+ * @throws Error if the file can't be parsed
+ */
+export const readUploadedWorkbook = (fileName: string, bytes: ArrayBuffer): UploadedWorkbook => {
+    if (isTextExportFile(fileName)) {
+        const parsed = parseTextExport(new TextDecoder().decode(bytes));
+        return {
+            workbook: textExportToWorkbook(parsed, fileName.replace(/\.[^.]+$/, '')),
+            instrumentMetadata: parsed.metadata,
+        };
+    }
+    return { workbook: XLSX.read(bytes), instrumentMetadata: {} };
+};
+
+/**
+ * Checks the calibration readings of an extracted sheet (sheet rows are 1-based and the data starts below the header).
+ * @returns The check, or null if the sheet wasn't read with an analyzer profile
+ */
+export const getCalibrationQA = (extracted: ExtractedSheetInfo): CalibrationQAResult | null => {
+    const analyzerProfile = getAnalyzerProfile(extracted.analyzerProfileId);
+    return analyzerProfile && extracted.columns
+        ? checkCalibration(extracted.rawData, (extracted.headerRowIndex ?? 0) + 2, extracted.columns, analyzerProfile, extracted.units)
+        : null;
+};
+
+/**
+ * Extracts the report data of one sheet: the readings (or dust wipe results) with their counts, the calibration
+ * check, the instrument details and the fields mapped to sheet cells.
+ * @param options.profile - Analyzer profile to read the sheet with (default: auto-detect)
+ * @throws Error if a dust wipe report's sheet has no results
+ */
+export const extractReportData = (
+    workbook: XLSX.WorkBook,
+    sheetName: string,
+    config: ReportConfig | undefined,
+    options: { fileName: string; profile?: AnalyzerProfile; instrumentMetadata?: InstrumentMetadata }
+): UploadedData => {
+    const sheet = workbook.Sheets[sheetName];
+    // Fields mapped to a sheet cell or column ('excel_cell'), keyed by field id
+    const mappedCells = extractMappedCells(sheet, config?.mappings || []);
+
+    if (config?.dataType === 'dust_wipe') {
+        const extracted = extractDustWipeInfo(sheet, config.dustWipeThresholds);
+        if (extracted.samples.length === 0) {
+            throw new Error('No dust wipe results found. The sheet needs a sample location/surface column and a result column (µg/ft²).');
+        }
+
+        return {
+            fileName: options.fileName,
+            rawData: extracted.rawData,
+            address: extracted.address || '',
+            isPositive: extracted.isPositive || false,
+            totalReadings: extracted.totalReadings || 0,
+            positiveReadings: extracted.positiveReadings || 0,
+            dustWipeSamples: extracted.samples,
+            units: undefined,
+            ...getInstrumentDataFields(options.instrumentMetadata),
+            Date: extracted.date || '', // Include extracted date from Excel
+            ...mappedCells,
+        };
+    }
+
+    const extracted = extractSheetInfo(sheet, {
+        profile: options.profile,
+        actionLevel: config?.actionLevel,
+        timeZone: config?.timeZone,
+    });
+
+    return {
+        fileName: options.fileName,
+        rawData: extracted.rawData,
+        address: extracted.address || '',
+        isPositive: extracted.isPositive || false,
+        totalReadings: extracted.totalReadings || 0,
+        positiveReadings: extracted.positiveReadings || 0,
+        inconclusiveReadings: extracted.inconclusiveReadings || 0,
+        readingDisagreements: extracted.readingDisagreements || [],
+        fullExcelData: extracted.fullExcelData,
+        headerRowIndex: extracted.headerRowIndex,
+        analyzerProfileId: extracted.analyzerProfileId,
+        calibrationQA: getCalibrationQA(extracted),
+        inspectionStart: extracted.inspectionStart,
+        inspectionEnd: extracted.inspectionEnd,
+        readingTimestamps: extracted.readingTimestamps || [],
+        units: undefined,
+        ...getInstrumentDataFields(options.instrumentMetadata),
+        Date: extracted.date || '', // Include extracted date from Excel
+        ...mappedCells,
+    };
+};
+
+/**
+ * The general document appended as the certificate: the first type named like a certificate.
+ */
+export const findCertificateDocumentType = (generalTypedDocuments: Map<string, Document>): string | undefined => {
+    return Array.from(generalTypedDocuments.keys()).find(
+        type => type.toLowerCase().includes('certificate') || type.toLowerCase().includes('cert')
+    );
+};
+
+/**
+ * The inspector document appended as the license.
+ */
+export const findLicenseDocumentType = (inspectorDocs: Document[]): string | undefined => {
+    return inspectorDocs.find(doc =>
+        doc.documentType?.toLowerCase().includes('license') ||
+        doc.documentType?.toLowerCase().includes('licence')
+    )?.documentType;
+};
+
+// A field value whatever the case of its id (e.g. block or Block)
+const findFieldValue = (data: Record<string, any>, fieldId: string): string | undefined => {
+    const key = Object.keys(data).find(candidate => candidate.toLowerCase() === fieldId.toLowerCase());
+    const value = key !== undefined ? data[key] : undefined;
+    return value === undefined || value === null || String(value).trim() === '' ? undefined : String(value).trim();
+};
+
+/**
+ * What the report archive records about a generated PDF, taken from the confirmed data.
+ * @param document - Which PDF of the run it is (the certificate records the certificate template)
+ * @param address - Address of the PDF, when it isn't the report's (e.g. a unit of a multi-unit run)
+ * @param unit - Unit id, for the PDF of one unit of a multi-unit run (its revisions are numbered per unit)
+ */
+export const getReportRecordDetails = (
+    data: Record<string, any>,
+    config: ReportConfig,
+    document: ArchivedDocument,
+    address?: string,
+    unit?: string
+): ReportRecordDetails => {
+    const isDustWipe = config.dataType === 'dust_wipe';
+    const inspectionDate = parseDateValue(data[config.dateRangeFields?.start || 'Date']);
+    const templateUrl = document === 'certificate' ? config.certifTemplateUrl : document === 'report' ? config.templateUrl : undefined;
+    const pinnedVersion = document === 'certificate' ? config.certifTemplateVersion : config.templateVersion;
+
+    return {
+        reportType: config.id,
+        document,
+        address: address ?? (data.Address || data.address || ''),
+        block: findFieldValue(data, 'block'),
+        lot: findFieldValue(data, 'lot'),
+        county: findFieldValue(data, 'county'),
+        inspectionDate: inspectionDate ? toLocalISOString(inspectionDate).slice(0, 10) : undefined,
+        inspectorId: data.selectedInspectorId,
+        inspectorName: data['Inspector name'] || data.inspectorName || undefined,
+        // As the generation step shows it
+        result: isDustWipe
+            ? (data.isPositive ? 'Failed' : 'Passed')
+            : (data['Inspection Result'] || (data.isPositive ? 'Not Lead Free' : 'Lead Free')),
+        isPositive: !!data.isPositive,
+        totalReadings: data.totalReadings || 0,
+        positiveReadings: data.positiveReadings || 0,
+        templateKey: templateUrl ? getTemplateKey(templateUrl) : undefined,
+        templateVersion: templateUrl ? resolveTemplateVersion(templateUrl, pinnedVersion, data.templateVersions) : undefined,
+        revisionOf: data.revisionOf,
+        revision: data.revision,
+        unit,
+    };
+};
+
+/**
+ * The template versions a report is filled from (the config's pins, or for a revision those of the report it
+ * revises), kept with its inputs so a revision of it is filled from the same ones.
+ */
+export const getTemplateVersions = (data: Record<string, any>, config: ReportConfig): TemplateVersions => {
+    const versions: TemplateVersions = {};
+    const templates: [string | undefined, number | undefined][] = [
+        [config.templateUrl, config.templateVersion],
+        [config.certifTemplateUrl, config.certifTemplateVersion],
+    ];
+    for (const [templateUrl, pinned] of templates) {
+        if (templateUrl) {
+            versions[getTemplateKey(templateUrl)] = resolveTemplateVersion(templateUrl, pinned, data.templateVersions) ?? null;
+        }
+    }
+    return versions;
+};
+
+/**
+ * Ids of the documents a report can use (the general documents and the selected inspector's), kept with its inputs
+ * so a revision can tell which of them have been replaced since.
+ */
+export const getReferencedDocumentIds = (
+    data: Record<string, any>,
+    generalTypedDocuments?: Map<string, Document>,
+    inspectorDocuments?: Map<string, Document[]>
+): string[] => {
+    const inspectorDocs = (data.selectedInspectorId && inspectorDocuments?.get(data.selectedInspectorId)) || [];
+    return [...Array.from(generalTypedDocuments?.values() || []), ...inspectorDocs].map(doc => doc.id);
+};
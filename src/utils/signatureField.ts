@@ -0,0 +1,73 @@
+import { PDFName, PDFString } from 'pdf-lib';
+import type { PDFDocument, PDFPage } from 'pdf-lib';
+import type { SignaturePlacement } from '../types/reportStructure';
+import { findFieldPlacements } from './templateFields';
+
+// Name of the empty signature field a PDF is built with, filled in when it is signed on the server (lib/pdfSigner)
+export const DIGITAL_SIGNATURE_FIELD = 'Digital Signature';
+
+// A signature field ready to be added, resolved from a SignaturePlacement
+export interface SignatureFieldDraw {
+    page: PDFPage;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Works out where the digital signature appearance goes, from the widget rectangle of its anchor field.
+ * Must be called while the document still has the template's page order.
+ * @returns The field rectangle, or null if the anchor field is not on any page
+ */
+export const resolveSignatureField = (pdfDoc: PDFDocument, placement: SignaturePlacement): SignatureFieldDraw | null => {
+    const placements = findFieldPlacements(pdfDoc, placement.anchorField);
+    const widget = placements[placement.widgetIndex ?? 0];
+    if (!widget) {
+        console.warn(`⚠️ Digital signature anchor field "${placement.anchorField}" not found on any template page (${placements.length} widgets)`);
+        return null;
+    }
+
+    const offset = placement.offset || {};
+    return {
+        page: pdfDoc.getPage(widget.pageIndex),
+        x: widget.rect.x + (offset.x ?? 0),
+        y: widget.rect.y + (offset.y ?? 0),
+        width: offset.width ?? widget.rect.width,
+        height: offset.height ?? widget.rect.height,
+    };
+};
+
+/**
+ * A signature field without appearance on the first page, for PDFs with no place for a visible signature.
+ */
+export const invisibleSignatureField = (pdfDoc: PDFDocument): SignatureFieldDraw => ({
+    page: pdfDoc.getPage(0),
+    x: 0,
+    y: 0,
+    width: 0,
+    height: 0,
+});
+
+/**
+ * Adds an empty signature field (no appearance until it is signed), after flattening so it stays a field.
+ * Signing fills it with the signature and its visible appearance.
+ */
+export const addSignatureField = (pdfDoc: PDFDocument, draw: SignatureFieldDraw): void => {
+    // pdf-lib can't create signature fields: a merged field and widget dictionary, like form editors write
+    const fieldRef = pdfDoc.context.register(pdfDoc.context.obj({
+        Type: 'Annot',
+        Subtype: 'Widget',
+        FT: 'Sig',
+        T: PDFString.of(DIGITAL_SIGNATURE_FIELD),
+        Rect: [draw.x, draw.y, draw.x + draw.width, draw.y + draw.height],
+        F: 4, // Print
+        P: draw.page.ref,
+    }));
+    draw.page.node.addAnnot(fieldRef);
+    const acroForm = pdfDoc.catalog.getOrCreateAcroForm();
+    acroForm.addField(fieldRef);
+    // Fields flattened away leave no appearances to regenerate; readers must not rebuild the signature's
+    acroForm.dict.delete(PDFName.of('NeedAppearances'));
+    console.log(`✅ Added digital signature field at (${draw.x}, ${draw.y})`);
+};
@@ -0,0 +1,21 @@
+const STAFF_TOKEN_STORAGE_KEY = 'staffApiToken';
+
+/**
+ * fetch for the staff-only API routes (see lib/apiAuth.ts): sends the staff token saved in this browser, and asks
+ * for it once when the server refuses the request (first use, or the token was changed on the server).
+ */
+export const fetchAsStaff = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const send = (token: string | null) => {
+        const headers = new Headers(init.headers);
+        if (token) headers.set('Authorization', `Bearer ${token}`);
+        return fetch(url, { ...init, headers });
+    };
+
+    const response = await send(window.localStorage.getItem(STAFF_TOKEN_STORAGE_KEY));
+    if (response.status !== 401) return response;
+
+    const token = window.prompt('Staff token (STAFF_API_TOKEN on the server):')?.trim();
+    if (!token) return response;
+    window.localStorage.setItem(STAFF_TOKEN_STORAGE_KEY, token);
+    return send(token);
+};
@@ -1,6 +1,8 @@
 import type { Inspector, Document } from '../types/documents';
 import { uploadFileToR2, getFileFromR2, deleteFileFromR2, generateR2Key, isR2Configured } from './r2Storage';
 import { getApiUrl } from './apiConfig';
+import type { ReportConfig } from '../types/reportStructure';
+import { getReportConfigs, setReportConfigs } from '../config/reports';
 
 const API_BASE = getApiUrl();
 
@@ -601,6 +603,34 @@ export const saveInspectorDocuments = async (documents: Map<string, Document[]>)
   }
 };
 
+// ==================== REPORT CONFIGS ====================
+
+// Loads the configs saved from the mapping editor and makes them the active report configs.
+// Returns the active configs (the bundled ones if the database can't be reached).
+export const loadReportConfigsAsync = async (): Promise<ReportConfig[]> => {
+  try {
+    const savedConfigs = await apiCall('/api/report-configs');
+    setReportConfigs(savedConfigs.map(({ updatedAt, ...config }: any) => config as ReportConfig));
+  } catch (error) {
+    console.error('Error loading report configs, using the bundled configs:', error);
+  }
+  return getReportConfigs();
+};
+
+export const saveReportConfig = async (config: ReportConfig): Promise<ReportConfig[]> => {
+  await apiCall('/api/report-configs', {
+    method: 'POST',
+    body: JSON.stringify(config),
+  });
+  return loadReportConfigsAsync();
+};
+
+// Removes the saved config, so the bundled config with the same id (if any) is used again
+export const deleteReportConfig = async (id: string): Promise<ReportConfig[]> => {
+  await apiCall(`/api/report-configs/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  return loadReportConfigsAsync();
+};
+
 // ==================== GENERAL VARIABLES ====================
 
 export const loadGeneralVariables = (): Map<string, string> => {
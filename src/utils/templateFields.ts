@@ -0,0 +1,203 @@
+import { PDFDocument, PDFName, PDFDict, PDFArray, PDFNumber, PDFRef, PDFStream, PDFString, PDFHexString } from 'pdf-lib';
+import type { PDFForm, PDFObject } from 'pdf-lib';
+import type { FieldMapping } from '../types/reportStructure';
+
+export interface FieldRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface FieldPlacement {
+    pageIndex: number; // 0-based index of the page the widget is drawn on
+    rect: FieldRect;   // Widget rectangle in PDF coordinates (origin bottom-left)
+}
+
+// Builds the fully qualified field name of a widget by walking its /Parent chain
+const getWidgetFieldName = (pdfDoc: PDFDocument, widget: PDFDict): string => {
+    const parts: string[] = [];
+    let current: PDFDict | undefined = widget;
+    let guard = 0;
+
+    while (current && guard++ < 20) {
+        const title = current.get(PDFName.of('T'));
+        if (title instanceof PDFString || title instanceof PDFHexString) {
+            parts.unshift(title.decodeText());
+        }
+        const parent: PDFObject | undefined = current.get(PDFName.of('Parent'));
+        const parentDict: PDFObject | undefined = parent ? pdfDoc.context.lookup(parent) : undefined;
+        current = parentDict instanceof PDFDict ? parentDict : undefined;
+    }
+
+    return parts.join('.');
+};
+
+const getWidgetRect = (pdfDoc: PDFDocument, widget: PDFDict): FieldRect | null => {
+    const rectValue = pdfDoc.context.lookup(widget.get(PDFName.of('Rect')));
+    if (!(rectValue instanceof PDFArray) || rectValue.size() < 4) return null;
+
+    const [x1, y1, x2, y2] = rectValue.asArray().map(value => {
+        const number = pdfDoc.context.lookup(value);
+        return number instanceof PDFNumber ? number.asNumber() : 0;
+    });
+    return {
+        x: Math.min(x1, x2),
+        y: Math.min(y1, y2),
+        width: Math.abs(x2 - x1),
+        height: Math.abs(y2 - y1),
+    };
+};
+
+/**
+ * Finds every widget of a form field together with the page it is drawn on.
+ *
+ * Pages are scanned for widget annotations by field name instead of following the
+ * AcroForm field objects, because several templates (XHRTEMP.pdf, CertTEMP.pdf) contain
+ * field objects that are not the same objects referenced from the page /Annots arrays.
+ * @param pdfDoc - The template document
+ * @param fieldName - Fully qualified field name (e.g. "Inspector sig")
+ * @returns One entry per widget, in page order
+ */
+export const findFieldPlacements = (pdfDoc: PDFDocument, fieldName: string): FieldPlacement[] => {
+    const placements: FieldPlacement[] = [];
+
+    pdfDoc.getPages().forEach((page, pageIndex) => {
+        const annots = page.node.Annots();
+        if (!annots) return;
+
+        annots.asArray().forEach(annotRef => {
+            const annot = pdfDoc.context.lookup(annotRef);
+            if (!(annot instanceof PDFDict)) return;
+            if (annot.get(PDFName.of('Subtype')) !== PDFName.of('Widget')) return;
+            if (getWidgetFieldName(pdfDoc, annot) !== fieldName) return;
+
+            const rect = getWidgetRect(pdfDoc, annot);
+            if (rect) {
+                placements.push({ pageIndex, rect });
+            }
+        });
+    });
+
+    return placements;
+};
+
+/**
+ * Name of the form field a mapping fills: its pdfFieldId, or the first alias the template has.
+ * @returns The field name, or pdfFieldId if neither exists (so the form lookup reports the configured name)
+ */
+export const getMappedFieldName = (form: PDFForm, mapping: FieldMapping): string => {
+    if (form.getFieldMaybe(mapping.pdfFieldId)) return mapping.pdfFieldId;
+    return mapping.aliases?.find(alias => form.getFieldMaybe(alias)) || mapping.pdfFieldId;
+};
+
+/**
+ * Points the AcroForm field list at the widgets that are actually on the pages.
+ *
+ * In some templates (CertTEMP.pdf) every form field object is a copy that no page references, so filling it
+ * through the form API changes nothing visible. Each top-level page widget that has its own name replaces the
+ * field of the same name, after which getForm() fills the widgets shown on the page.
+ * @param pdfDoc - The template document
+ * @returns Number of fields relinked
+ */
+export const linkPageWidgetsToFields = (pdfDoc: PDFDocument): number => {
+    const acroForm = pdfDoc.catalog.lookup(PDFName.of('AcroForm'));
+    if (!(acroForm instanceof PDFDict)) return 0;
+    const fields = pdfDoc.context.lookup(acroForm.get(PDFName.of('Fields')));
+    if (!(fields instanceof PDFArray)) return 0;
+
+    const fieldIndexByName = new Map<string, number>();
+    const fieldRefs = new Set<string>();
+    fields.asArray().forEach((fieldRef, index) => {
+        fieldRefs.add(fieldRef.toString());
+        const field = pdfDoc.context.lookup(fieldRef);
+        if (field instanceof PDFDict) {
+            fieldIndexByName.set(getWidgetFieldName(pdfDoc, field), index);
+        }
+    });
+
+    let relinked = 0;
+    pdfDoc.getPages().forEach(page => {
+        const annots = page.node.Annots();
+        if (!annots) return;
+
+        annots.asArray().forEach(annotRef => {
+            const annot = pdfDoc.context.lookup(annotRef);
+            if (!(annot instanceof PDFDict)) return;
+            if (annot.get(PDFName.of('Subtype')) !== PDFName.of('Widget')) return;
+            // Only self-contained widgets - kids of a field are already reachable from it
+            if (annot.get(PDFName.of('Parent')) || fieldRefs.has(annotRef.toString())) return;
+
+            const fieldIndex = fieldIndexByName.get(getWidgetFieldName(pdfDoc, annot));
+            if (fieldIndex === undefined) return;
+            fields.set(fieldIndex, annotRef);
+            relinked++;
+        });
+    });
+
+    if (relinked > 0) {
+        console.log(`🔗 Linked ${relinked} form fields to their page widgets`);
+    }
+    return relinked;
+};
+
+/**
+ * Inlines indirect appearance state dictionaries (/AP /N -> { /Yes, /Off }) of check boxes and radio buttons.
+ * pdf-lib's form.flatten() only picks the checked/unchecked appearance from an inline dictionary; with an
+ * indirect one it draws the dictionary itself, leaving an invalid XObject on the page.
+ * @param pdfDoc - Document about to be flattened
+ */
+export const inlineAppearanceStates = (pdfDoc: PDFDocument): void => {
+    pdfDoc.getForm().getFields().forEach(field => {
+        field.acroField.getWidgets().forEach(widget => {
+            const appearances = widget.dict.lookup(PDFName.of('AP'));
+            if (!(appearances instanceof PDFDict)) return;
+            const normal = appearances.get(PDFName.of('N'));
+            if (!(normal instanceof PDFRef)) return;
+            const normalDict = pdfDoc.context.lookup(normal);
+            if (normalDict instanceof PDFDict && !(normalDict instanceof PDFStream)) {
+                appearances.set(PDFName.of('N'), normalDict);
+            }
+        });
+    });
+};
+
+/**
+ * Removes the form widgets of pages no longer in the document (e.g. template pages the page layout left out),
+ * and the fields left without a widget. pdf-lib's form.flatten() fails on a widget it can't find the page of.
+ * @param pdfDoc - Document about to be flattened
+ * @returns Number of widgets removed
+ */
+export const removeOffPageWidgets = (pdfDoc: PDFDocument): number => {
+    const pages = pdfDoc.getPages();
+    const pageRefs = new Set(pages.map(page => page.ref.toString()));
+    const annotRefs = new Set<string>();
+    pages.forEach(page => page.node.Annots()?.asArray().forEach(ref => annotRefs.add(ref.toString())));
+
+    const form = pdfDoc.getForm();
+    let removed = 0;
+    form.getFields().forEach(field => {
+        const widgets = field.acroField.getWidgets();
+        const offPage = widgets.map(widget => {
+            const ref = pdfDoc.context.getObjectRef(widget.dict);
+            const pageRef = widget.P();
+            return !(ref && annotRefs.has(ref.toString())) && !(pageRef && pageRefs.has(pageRef.toString()));
+        });
+        if (offPage.every(Boolean)) {
+            form.acroForm.removeField(field.acroField);
+            removed += widgets.length;
+            return;
+        }
+        for (let i = widgets.length - 1; i >= 0; i--) {
+            if (offPage[i]) {
+                field.acroField.removeWidget(i);
+                removed++;
+            }
+        }
+    });
+
+    if (removed > 0) {
+        console.log(`🧹 Removed ${removed} form widgets of pages left out of the report`);
+    }
+    return removed;
+};
@@ -0,0 +1,56 @@
+import {
+    PDFButton,
+    PDFCheckBox,
+    PDFDropdown,
+    PDFOptionList,
+    PDFRadioGroup,
+    PDFSignature,
+    PDFTextField,
+} from 'pdf-lib';
+import type { PDFDocument, PDFField } from 'pdf-lib';
+import { findFieldPlacements } from './templateFields';
+import type { FieldPlacement } from './templateFields';
+
+// One form field of a PDF template, as recorded in the template library
+export interface TemplateFieldInfo {
+    name: string;
+    type: string;   // Text, CheckBox, Dropdown, RadioGroup, Signature, ...
+    value?: string; // Value stored in the template, if it's a text field that has one
+    placements?: FieldPlacement[]; // Page and rectangle of each widget drawn on a page
+}
+
+// Class names get mangled by minifiers, so known field classes are matched explicitly
+const getFieldType = (field: PDFField): string => {
+    if (field instanceof PDFTextField) return 'Text';
+    if (field instanceof PDFCheckBox) return 'CheckBox';
+    if (field instanceof PDFDropdown) return 'Dropdown';
+    if (field instanceof PDFOptionList) return 'OptionList';
+    if (field instanceof PDFRadioGroup) return 'RadioGroup';
+    if (field instanceof PDFSignature) return 'Signature';
+    if (field instanceof PDFButton) return 'Button';
+    return field.constructor.name.replace('PDF', '').replace('Field', ''); // Clean up type name
+};
+
+/**
+ * Lists the form fields of a PDF template with their widget positions
+ * (used by scripts/inspectPDF.ts, the template library and the mapping editor).
+ * @param pdfDoc - The loaded template
+ * @returns The fields in form order
+ */
+export const getTemplateFieldInventory = (pdfDoc: PDFDocument): TemplateFieldInfo[] => {
+    return pdfDoc.getForm().getFields().map(field => {
+        const name = field.getName();
+        const info: TemplateFieldInfo = { name, type: getFieldType(field), placements: findFieldPlacements(pdfDoc, name) };
+
+        // Try to get the value if it's a text field
+        try {
+            if (field instanceof PDFTextField) {
+                const value = field.getText();
+                if (value) info.value = value;
+            }
+        } catch (e) {
+            // Field might not have a value
+        }
+        return info;
+    });
+};
@@ -0,0 +1,49 @@
+import type { TemplateVersion } from '../types/templates';
+import { apiCall } from './storage';
+import { getApiUrl } from './apiConfig';
+
+const toTemplateVersion = (raw: any): TemplateVersion => ({
+    ...raw,
+    uploadedAt: new Date(raw.uploadedAt),
+});
+
+/**
+ * Loads the versions recorded in the template library, newest first.
+ * @param templateKey - Only versions of this template (e.g. XHRTEMP.pdf)
+ */
+export const loadTemplateVersions = async (templateKey?: string): Promise<TemplateVersion[]> => {
+    const query = templateKey ? `?template=${encodeURIComponent(templateKey)}` : '';
+    const versions = await apiCall(`/api/templates${query}`);
+    return (versions as any[]).map(toTemplateVersion);
+};
+
+/**
+ * Uploads a new version of a template. Uploading the same file as the latest version doesn't create a new one.
+ * @returns The recorded version (with unchanged: true if the file matched the latest version)
+ */
+export const uploadTemplateVersion = async (
+    file: File,
+    templateKey: string,
+    notes?: string
+): Promise<TemplateVersion & { unchanged?: boolean }> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('templateKey', templateKey);
+    if (notes) {
+        formData.append('notes', notes);
+    }
+
+    // Not apiCall: it forces a JSON content type
+    const response = await fetch(`${getApiUrl()}/api/templates`, {
+        method: 'POST',
+        body: formData,
+    });
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: response.statusText }));
+        if (errorData.missingVars) {
+            throw new Error(`${errorData.error}. Missing: ${errorData.missingVars.join(', ')}`);
+        }
+        throw new Error(errorData.error || errorData.message || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    return toTemplateVersion(await response.json());
+};
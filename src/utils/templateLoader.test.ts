@@ -0,0 +1,65 @@
+import { createHash } from 'crypto';
+import { PDFDocument } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import {
+    copyTemplateKeywords,
+    getTemplateFingerprint,
+    readTemplateKeywords,
+    resolveTemplateVersion,
+    setTemplateKeywords,
+} from './templateLoader';
+
+const templateBytes = new TextEncoder().encode('%PDF-1.7 template').buffer as ArrayBuffer;
+
+describe('getTemplateFingerprint', () => {
+    it('is the start of the SHA-256 of the file', async () => {
+        const sha256 = createHash('sha256').update(new Uint8Array(templateBytes)).digest('hex');
+        expect(await getTemplateFingerprint(templateBytes)).toBe(sha256.slice(0, 16));
+    });
+});
+
+describe('setTemplateKeywords', () => {
+    it('records a pinned version by number and the static file by fingerprint', async () => {
+        const pdfDoc = await PDFDocument.create();
+        await setTemplateKeywords(pdfDoc, '/templates/XHRTEMP.pdf', templateBytes, 3);
+        await setTemplateKeywords(pdfDoc, '/templates/Cert TEMP.pdf', templateBytes);
+
+        const fingerprint = await getTemplateFingerprint(templateBytes);
+        expect(pdfDoc.getKeywords()).toBe(`template:XHRTEMP.pdf@v3 template:Cert%20TEMP.pdf@static:${fingerprint}`);
+    });
+});
+
+describe('readTemplateKeywords', () => {
+    it('reads back the versions setTemplateKeywords records, null for the static file', async () => {
+        const pdfDoc = await PDFDocument.create();
+        pdfDoc.setKeywords(['other']);
+        await setTemplateKeywords(pdfDoc, '/templates/XHRTEMP.pdf', templateBytes, 3);
+        await setTemplateKeywords(pdfDoc, '/templates/Cert TEMP.pdf', templateBytes);
+
+        expect(readTemplateKeywords(pdfDoc.getKeywords())).toEqual({ 'XHRTEMP.pdf': 3, 'Cert TEMP.pdf': null });
+        expect(readTemplateKeywords(undefined)).toEqual({});
+    });
+});
+
+describe('copyTemplateKeywords', () => {
+    it('copies only the template keywords, once', async () => {
+        const certificate = await PDFDocument.create();
+        certificate.setKeywords(['other', 'template:CertTEMP.pdf@v2']);
+        const report = await PDFDocument.create();
+        report.setKeywords(['template:XHRTEMP.pdf@v3']);
+
+        copyTemplateKeywords(certificate, report);
+        copyTemplateKeywords(certificate, report);
+
+        expect(report.getKeywords()).toBe('template:XHRTEMP.pdf@v3 template:CertTEMP.pdf@v2');
+    });
+});
+
+describe('resolveTemplateVersion', () => {
+    it('prefers the recorded version, the static file included, over the pin', () => {
+        expect(resolveTemplateVersion('/templates/XHRTEMP.pdf', 4, { 'XHRTEMP.pdf': 2 })).toBe(2);
+        expect(resolveTemplateVersion('/templates/XHRTEMP.pdf', 4, { 'XHRTEMP.pdf': null })).toBeUndefined();
+        expect(resolveTemplateVersion('/templates/XHRTEMP.pdf', 4, { 'CertTEMP.pdf': 1 })).toBe(4);
+        expect(resolveTemplateVersion('/templates/XHRTEMP.pdf', 4)).toBe(4);
+    });
+});
@@ -0,0 +1,151 @@
+import type { PDFDocument } from 'pdf-lib';
+import type { TemplateVersions } from '../types/templates';
+import { getApiUrl, getTemplateUrl } from './apiConfig';
+
+/**
+ * Template library key of a template path (its file name, e.g. /templates/XHRTEMP.pdf -> XHRTEMP.pdf).
+ */
+export const getTemplateKey = (templateUrl: string): string => {
+    return templateUrl.split('/').pop() || templateUrl;
+};
+
+/**
+ * The template version to fill: the one recorded for the template, when there is one (a revision is filled from
+ * the versions of the report it revises), else the config's pin.
+ * @param pinned - The config's template library version
+ * @param recorded - Versions a report was filled from (see getTemplateVersions and readTemplateKeywords)
+ * @returns The template library version, or undefined for the static file
+ */
+export const resolveTemplateVersion = (
+    templateUrl: string,
+    pinned: number | undefined,
+    recorded?: TemplateVersions
+): number | undefined => {
+    const key = getTemplateKey(templateUrl);
+    if (recorded && Object.prototype.hasOwnProperty.call(recorded, key)) {
+        return recorded[key] ?? undefined;
+    }
+    return pinned;
+};
+
+/**
+ * URLs to fetch a template from: a version from the template library when one is pinned,
+ * otherwise the static file in public/templates.
+ * @param templateUrl - Template path from the report config (e.g. /templates/XHRTEMP.pdf)
+ * @param version - Template library version
+ */
+export const getTemplateSourceUrls = (templateUrl: string, version?: number): string[] => {
+    if (version !== undefined) {
+        return [`${getApiUrl()}/api/templates/${encodeURIComponent(getTemplateKey(templateUrl))}/${version}`];
+    }
+    return getTemplateUrl(templateUrl);
+};
+
+// Loads the bytes of a template (path from the report config, optional template library version). Generation takes
+// one so it can run outside the browser, where templates are read from disk and storage instead of fetched.
+export type TemplateBytesLoader = (templateUrl: string, version?: number) => Promise<ArrayBuffer>;
+
+/**
+ * Fetches a PDF template, trying each URL from getTemplateSourceUrls until one works.
+ * A pinned version never falls back to the static file, so a report is never built from the wrong template.
+ * @param templateUrl - Template path from the report config (e.g. /templates/XHRTEMP.pdf)
+ * @param version - Template library version (default: the static file)
+ * @returns The template bytes
+ * @throws Error listing the URLs tried if the template can't be fetched or is empty
+ */
+export const loadTemplateBytes = async (templateUrl: string, version?: number): Promise<ArrayBuffer> => {
+    const templateUrls = getTemplateSourceUrls(templateUrl, version);
+    const templateFilename = getTemplateKey(templateUrl);
+    const templateLabel = version !== undefined ? `${templateFilename} v${version}` : templateFilename;
+
+    console.log(`Fetching template ${templateLabel}, trying URLs:`, templateUrls);
+    let templateResponse: Response | null = null;
+
+    // Try each URL until one works
+    for (const url of templateUrls) {
+        try {
+            templateResponse = await fetch(url, { cache: 'no-cache' });
+            if (templateResponse.ok) {
+                console.log(`✅ Successfully fetched template from: ${url}`);
+                break;
+            }
+        } catch (err: any) {
+            console.warn(`Failed to fetch template from ${url}:`, err.message);
+            templateResponse = null;
+        }
+    }
+
+    if (!templateResponse || !templateResponse.ok) {
+        const checks = version !== undefined
+            ? `  1. Version ${version} of ${templateFilename} exists in the template library\n` +
+              `  2. The database and R2 storage are configured`
+            : `  1. Template file exists at: public/templates/${templateFilename}\n` +
+              `  2. React dev server is running (for development) or API server is running (npm run server)`;
+        throw new Error(
+            `Failed to fetch template ${templateLabel}: ${templateResponse?.status || 'Network Error'} ${templateResponse?.statusText || ''}.\n\n` +
+            `Tried URLs: ${templateUrls.join(', ')}\n` +
+            `Please ensure:\n` +
+            checks
+        );
+    }
+
+    const templateBytes = await templateResponse.arrayBuffer();
+    if (templateBytes.byteLength === 0) {
+        throw new Error(`Template file ${templateLabel} is empty. Please check the file.`);
+    }
+    return templateBytes;
+};
+
+// Prefix of the PDF keywords that record a template (see setTemplateKeywords)
+const TEMPLATE_KEYWORD_PREFIX = 'template:';
+
+/**
+ * Fingerprint of a template file: the first 16 hex digits of its SHA-256.
+ */
+export const getTemplateFingerprint = async (templateBytes: ArrayBuffer): Promise<string> => {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', templateBytes));
+    return Array.from(digest.slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Records the template a document was generated from in its PDF keywords (e.g. "template:XHRTEMP.pdf@v3"), so a report
+ * can be regenerated with the same version. The static file in public/templates has no version and is recorded by its
+ * fingerprint instead (e.g. "template:XHRTEMP.pdf@static:3f9a0c1d2b4e5f60"), so a change to it can still be told apart.
+ * @param templateBytes - The template file the document was filled from
+ */
+export const setTemplateKeywords = async (
+    pdfDoc: PDFDocument,
+    templateUrl: string,
+    templateBytes: ArrayBuffer,
+    version?: number
+): Promise<void> => {
+    const source = version !== undefined ? `v${version}` : `static:${await getTemplateFingerprint(templateBytes)}`;
+    addKeywords(pdfDoc, [`${TEMPLATE_KEYWORD_PREFIX}${encodeURIComponent(getTemplateKey(templateUrl))}@${source}`]);
+};
+
+/**
+ * Reads back the template versions recorded in PDF keywords by setTemplateKeywords. A template recorded by its
+ * fingerprint maps to null: it was the static file.
+ */
+export const readTemplateKeywords = (keywords: string | undefined): TemplateVersions => {
+    const versions: TemplateVersions = {};
+    for (const keyword of keywords?.split(' ') || []) {
+        const match = /^template:(.+)@(?:v(\d+)|static:[0-9a-f]+)$/.exec(keyword);
+        if (match) {
+            versions[decodeURIComponent(match[1])] = match[2] ? parseInt(match[2], 10) : null;
+        }
+    }
+    return versions;
+};
+
+/**
+ * Copies the template keywords of a document merged into another (e.g. the certificate added to a report).
+ */
+export const copyTemplateKeywords = (from: PDFDocument, to: PDFDocument): void => {
+    addKeywords(to, (from.getKeywords()?.split(' ') || []).filter(keyword => keyword.startsWith(TEMPLATE_KEYWORD_PREFIX)));
+};
+
+const addKeywords = (pdfDoc: PDFDocument, keywords: string[]): void => {
+    const existing = pdfDoc.getKeywords()?.split(' ').filter(Boolean) || [];
+    pdfDoc.setKeywords([...existing, ...keywords.filter(keyword => !existing.includes(keyword))]);
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { getInstrumentDataFields, isTextExportFile, parseTextExport, textExportToWorkbook } from './textExportParser';
+
+describe('isTextExportFile', () => {
+    it('recognizes CSV and text exports', () => {
+        expect(isTextExportFile('readings.CSV')).toBe(true);
+        expect(isTextExportFile('readings.tsv')).toBe(true);
+        expect(isTextExportFile('readings.txt')).toBe(true);
+        expect(isTextExportFile('readings.xlsx')).toBe(false);
+    });
+});
+
+describe('parseTextExport', () => {
+    it('reads the preamble as instrument metadata and the rows from the analyzer header', () => {
+        const parsed = parseTextExport([
+            '\uFEFFInstrument Model: Viken Pb200i',
+            'Serial Number,01234',
+            '# Firmware = 7.0',
+            '',
+            'Date/Time,Location,Component,Pb (mg/cm²),Result,Calibration',
+            '2024-03-07 09:00,"Kitchen, north wall",Door,1.2,Positive,',
+            '2024-03-07 09:05,001,"Window ""A""",0.05,Negative,',
+            '',
+        ].join('\r\n'));
+
+        expect(parsed.delimiter).toBe(',');
+        expect(parsed.metadata).toEqual({ model: 'Viken Pb200i', serialNumber: '01234', firmware: '7.0' });
+        expect(parsed.preamble['Serial Number']).toBe('01234');
+        expect(parsed.rows).toEqual([
+            ['Date/Time', 'Location', 'Component', 'Pb (mg/cm²)', 'Result', 'Calibration'],
+            ['2024-03-07 09:00', 'Kitchen, north wall', 'Door', 1.2, 'Positive', ''],
+            ['2024-03-07 09:05', '001', 'Window "A"', 0.05, 'Negative', ''],
+        ]);
+    });
+
+    it('picks the delimiter most lines split by', () => {
+        const parsed = parseTextExport('Site;Reading;Units\n1;0,5;mg/cm²\n2;1,1;mg/cm²');
+        expect(parsed.delimiter).toBe(';');
+        expect(parsed.rows[1]).toEqual([1, '0,5', 'mg/cm²']);
+    });
+
+    it('takes the first row of the usual width as the header without a known analyzer', () => {
+        const parsed = parseTextExport('Operator\tJo\nA\tB\tC\n1\t2\t3');
+        expect(parsed.delimiter).toBe('\t');
+        expect(parsed.preamble).toEqual({ Operator: 'Jo' });
+        expect(parsed.rows).toEqual([['A', 'B', 'C'], [1, 2, 3]]);
+    });
+});
+
+describe('textExportToWorkbook', () => {
+    it('puts the rows in one sheet with a valid name', () => {
+        const workbook = textExportToWorkbook(parseTextExport('A,B,C\n1,2,3'), 'readings: 2024/03/07 [final] export file.csv');
+        expect(workbook.SheetNames).toEqual(['readings  2024 03 07  final  ex']);
+        expect(XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { header: 1 })).toEqual([['A', 'B', 'C'], [1, 2, 3]]);
+    });
+});
+
+describe('getInstrumentDataFields', () => {
+    it('has every field, undefined when unknown', () => {
+        expect(getInstrumentDataFields({ serialNumber: '01234' })).toEqual({
+            instrumentModel: undefined,
+            instrumentSerialNumber: '01234',
+            instrumentSourceDate: undefined,
+            instrumentFirmware: undefined,
+        });
+    });
+});
@@ -0,0 +1,176 @@
+import * as XLSX from 'xlsx';
+import type { ExtractedData } from '../App';
+import type { InstrumentMetadata, InstrumentMetadataField } from '../types/analyzerProfiles';
+import { ANALYZER_PROFILES, INSTRUMENT_METADATA_KEYS } from '../config/analyzerProfiles';
+import { findAnalyzerHeaderRow } from './excelExtractor';
+
+// A CSV or delimited text export, read into rows like a worksheet
+export interface ParsedTextExport {
+    rows: any[][];                    // Header row first, then the readings (the metadata preamble is removed)
+    preamble: Record<string, string>; // Every "key: value" line above the header, as written
+    metadata: InstrumentMetadata;     // The preamble keys recognised as instrument details
+    delimiter: string;
+}
+
+const DELIMITERS = ['\t', ',', ';'];
+const TEXT_EXPORT_EXTENSIONS = /\.(csv|tsv|txt)$/i;
+
+// Keys the instrument metadata is kept under in the report data, so expressions can use it (e.g. instrumentSerialNumber)
+const INSTRUMENT_DATA_KEYS: Record<InstrumentMetadataField, string> = {
+    model: 'instrumentModel',
+    serialNumber: 'instrumentSerialNumber',
+    sourceDate: 'instrumentSourceDate',
+    firmware: 'instrumentFirmware',
+};
+
+/**
+ * Whether an uploaded file is a CSV or delimited text export rather than an Excel workbook.
+ */
+export const isTextExportFile = (fileName: string): boolean => TEXT_EXPORT_EXTENSIONS.test(fileName);
+
+// Splits one line, honouring double quotes ("a, b" is one cell and "" an escaped quote)
+const splitLine = (line: string, delimiter: string): string[] => {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && cell.trim() === '') {
+            quoted = true;
+            cell = '';
+        } else if (char === delimiter) {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+};
+
+// The column count most lines split into (3 or more columns), and how many lines do
+const modalColumnCount = (rows: string[][]): { columns: number; lines: number } => {
+    const counts = new Map<number, number>();
+    rows.forEach(row => {
+        if (row.length >= 3) counts.set(row.length, (counts.get(row.length) || 0) + 1);
+    });
+    let best = { columns: 0, lines: 0 };
+    counts.forEach((lines, columns) => {
+        if (lines > best.lines) best = { columns, lines };
+    });
+    return best;
+};
+
+// Numbers become numbers like in a worksheet; ids with leading zeros ("001") stay text
+const toCellValue = (cell: string): string | number => {
+    return /^-?(0|[1-9]\d*)(\.\d+)?$/.test(cell) ? parseFloat(cell) : cell;
+};
+
+// "Serial Number: 12345", "Serial Number,12345" or "# Firmware = 7.0"
+const parsePreambleLine = (cells: string[]): [string, string] | null => {
+    const filled = cells.map(cell => cell.replace(/^#+\s*/, '').trim()).filter(Boolean);
+    if (filled.length === 0) return null;
+    if (filled.length === 1) {
+        const match = filled[0].match(/^([^:=]+?)\s*[:=]\s*(.+)$/);
+        return match ? [match[1], match[2].trim()] : null;
+    }
+    return [filled[0].replace(/\s*[:=]$/, ''), filled.slice(1).join(' ')];
+};
+
+const recogniseMetadata = (preamble: Record<string, string>): InstrumentMetadata => {
+    const metadata: InstrumentMetadata = {};
+    Object.entries(preamble).forEach(([key, value]) => {
+        const normalizedKey = key.toLowerCase();
+        const match = INSTRUMENT_METADATA_KEYS.find(([, candidates]) =>
+            candidates.some(candidate => normalizedKey.includes(candidate)));
+        if (match && !metadata[match[0]]) {
+            metadata[match[0]] = value;
+        }
+    });
+    return metadata;
+};
+
+/**
+ * Parses a CSV or delimited text analyzer export.
+ * The delimiter (tab, comma or semicolon) is the one most lines split into the same number of columns by. The header
+ * row is the first row with an analyzer profile's header signature, else the first row of that many columns followed
+ * by another; the lines above it are read as instrument metadata.
+ */
+export const parseTextExport = (text: string): ParsedTextExport => {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+    while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+
+    let delimiter = DELIMITERS[0];
+    let rows: string[][] = lines.map(line => splitLine(line, delimiter));
+    let best = modalColumnCount(rows);
+    DELIMITERS.slice(1).forEach(candidate => {
+        const candidateRows = lines.map(line => splitLine(line, candidate));
+        const candidateBest = modalColumnCount(candidateRows);
+        if (candidateBest.lines > best.lines) {
+            delimiter = candidate;
+            rows = candidateRows;
+            best = candidateBest;
+        }
+    });
+
+    let headerRowIndex = -1;
+    ANALYZER_PROFILES.forEach(profile => {
+        const index = findAnalyzerHeaderRow(rows, profile, rows.length);
+        if (index !== -1 && (headerRowIndex === -1 || index < headerRowIndex)) headerRowIndex = index;
+    });
+    if (headerRowIndex === -1) {
+        headerRowIndex = rows.findIndex((row, i) => row.length === best.columns && rows[i + 1]?.length === best.columns);
+    }
+    if (headerRowIndex === -1) {
+        headerRowIndex = 0;
+    }
+
+    const preamble: Record<string, string> = {};
+    rows.slice(0, headerRowIndex).forEach(cells => {
+        const entry = parsePreambleLine(cells);
+        if (entry && preamble[entry[0]] === undefined) preamble[entry[0]] = entry[1];
+    });
+    const metadata = recogniseMetadata(preamble);
+    if (Object.keys(metadata).length > 0) {
+        console.log('✅ Instrument metadata from the export preamble:', metadata);
+    }
+
+    return {
+        rows: rows.slice(headerRowIndex).map(row => row.map(toCellValue)),
+        preamble,
+        metadata,
+        delimiter,
+    };
+};
+
+/**
+ * Wraps a parsed text export in a one-sheet workbook, so it goes through the same extraction as an Excel upload.
+ */
+export const textExportToWorkbook = (parsed: ParsedTextExport, sheetName: string): XLSX.WorkBook => {
+    const workbook = XLSX.utils.book_new();
+    // Sheet names are limited to 31 characters and can't contain : \ / ? * [ ]
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(parsed.rows), sheetName.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31) || 'Readings');
+    return workbook;
+};
+
+/**
+ * The report data fields of instrument metadata. Every field is present (undefined when unknown) so uploading another
+ * file replaces the previous file's values.
+ */
+export const getInstrumentDataFields = (metadata: InstrumentMetadata = {}): Partial<ExtractedData> => {
+    const fields: Partial<ExtractedData> = {};
+    (Object.keys(INSTRUMENT_DATA_KEYS) as InstrumentMetadataField[]).forEach(field => {
+        (fields as Record<string, any>)[INSTRUMENT_DATA_KEYS[field]] = metadata[field];
+    });
+    return fields;
+};
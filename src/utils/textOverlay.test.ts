@@ -0,0 +1,75 @@
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { describe, expect, it, vi } from 'vitest';
+import { applyPageOrder } from './pageAssembly';
+import { drawTextOverlays, resolveTextOverlay } from './textOverlay';
+
+// A 100 x 20 "Amount" field at (50, 100) on the first page, and a second widget of it on the second
+const createTemplate = async (): Promise<PDFDocument> => {
+    const pdfDoc = await PDFDocument.create();
+    const first = pdfDoc.addPage([600, 800]);
+    const second = pdfDoc.addPage([600, 800]);
+    const field = pdfDoc.getForm().createTextField('Amount');
+    field.addToPage(first, { x: 50, y: 100, width: 100, height: 20, borderWidth: 0 });
+    field.addToPage(second, { x: 300, y: 400, width: 80, height: 30, borderWidth: 0 });
+    return pdfDoc;
+};
+
+describe('resolveTextOverlay', () => {
+    it('anchors the text in the widget of its field, inset and centred vertically by default', async () => {
+        const pdfDoc = await createTemplate();
+        const draw = resolveTextOverlay(pdfDoc, 'Amount', {}, '12')!;
+        expect(draw.templatePage).toBe(pdfDoc.getPage(0));
+        expect(draw).toMatchObject({ fieldId: 'Amount', text: '12', x: 52, y: 100 + (20 - 7) / 2, width: 96 });
+    });
+
+    it('takes the offsets from the widget, and the widget from anchorField and widgetIndex', async () => {
+        const pdfDoc = await createTemplate();
+        const draw = resolveTextOverlay(pdfDoc, 'Count', { anchorField: 'Amount', widgetIndex: 1, x: 5, y: 3 }, '12')!;
+        expect(draw.templatePage).toBe(pdfDoc.getPage(1));
+        expect(draw).toMatchObject({ fieldId: 'Count', x: 305, y: 403, width: 70 });
+    });
+
+    it('places the text at explicit page coordinates', async () => {
+        const pdfDoc = await createTemplate();
+        const draw = resolveTextOverlay(pdfDoc, 'Amount', { page: 0, x: 20, y: 30 }, '12')!;
+        expect(draw.templatePage).toBe(pdfDoc.getPage(0));
+        expect(draw).toMatchObject({ x: 20, y: 30, width: 0 });
+    });
+
+    it('cannot place text on a missing page or widget', async () => {
+        const pdfDoc = await createTemplate();
+        expect(resolveTextOverlay(pdfDoc, 'Amount', { page: 2 }, '12')).toBeNull();
+        expect(resolveTextOverlay(pdfDoc, 'Amount', { widgetIndex: 2 }, '12')).toBeNull();
+        expect(resolveTextOverlay(pdfDoc, 'Missing', {}, '12')).toBeNull();
+    });
+});
+
+describe('drawTextOverlays', () => {
+    it('aligns the text in the widget and draws it on the page where its template page ended up', async () => {
+        const pdfDoc = await createTemplate();
+        const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+        const textWidth = font.widthOfTextAtSize('12', 10);
+        const draws = (['left', 'center', 'right'] as const).map(align =>
+            resolveTextOverlay(pdfDoc, 'Amount', { align, font: 'HelveticaBold' }, '12')!);
+        // The template's first page is now the second
+        const arranged = [pdfDoc.getPage(1), pdfDoc.getPage(0)];
+        applyPageOrder(pdfDoc, arranged);
+        const drawText = vi.spyOn(pdfDoc.getPage(1), 'drawText');
+
+        await drawTextOverlays(pdfDoc, draws, arranged);
+
+        expect(drawText.mock.calls.map(([, options]) => options!.x)).toEqual([52, 52 + (96 - textWidth) / 2, 148 - textWidth]);
+        expect(drawText.mock.calls.every(([text, options]) => text === '12' && options!.size === 10)).toBe(true);
+    });
+
+    it('skips overlays whose page is not part of the report', async () => {
+        const pdfDoc = await createTemplate();
+        const draw = resolveTextOverlay(pdfDoc, 'Amount', {}, '12')!;
+        const arranged = [pdfDoc.getPage(1)];
+        applyPageOrder(pdfDoc, arranged);
+        const drawText = vi.spyOn(pdfDoc.getPage(0), 'drawText');
+
+        await drawTextOverlays(pdfDoc, [draw], arranged);
+        expect(drawText).not.toHaveBeenCalled();
+    });
+});
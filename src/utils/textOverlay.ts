@@ -0,0 +1,160 @@
+import { rgb, StandardFonts } from 'pdf-lib';
+import type { PDFDocument, PDFFont, PDFPage } from 'pdf-lib';
+import type { TextOverlay } from '../types/reportStructure';
+import { findFieldPlacements } from './templateFields';
+
+// A text overlay with its position resolved against the template
+export interface TextOverlayDraw {
+    fieldId: string;
+    text: string;
+    templatePage: PDFPage; // Template page the text belongs to (pages may be reordered or replaced before drawing)
+    x: number;             // Left edge of the alignment box
+    y: number;             // Baseline
+    width: number;         // Width of the alignment box (0 for explicit coordinates)
+    overlay: TextOverlay;
+}
+
+const DEFAULT_SIZE = 10;
+const DEFAULT_PADDING_X = 2; // Same inset as a form field's own text
+
+/**
+ * Works out where an overlay's text goes, from the widget rectangle of its anchor field or from explicit coordinates.
+ * Must be called while the document still has the template's page order.
+ * @param pdfDoc - The filled template
+ * @param fieldId - The mapping's field name in the template (default anchor)
+ * @param overlay - Overlay settings from the mapping
+ * @param text - The value to draw
+ * @returns The resolved overlay, or null if it cannot be placed
+ */
+export const resolveTextOverlay = (
+    pdfDoc: PDFDocument,
+    fieldId: string,
+    overlay: TextOverlay,
+    text: string
+): TextOverlayDraw | null => {
+    const size = overlay.size ?? DEFAULT_SIZE;
+
+    if (overlay.page !== undefined) {
+        const pageCount = pdfDoc.getPageCount();
+        if (overlay.page < 0 || overlay.page >= pageCount) {
+            console.warn(`⚠️ Overlay for "${fieldId}": page ${overlay.page} does not exist in the template (${pageCount} pages)`);
+            return null;
+        }
+        return {
+            fieldId,
+            text,
+            templatePage: pdfDoc.getPage(overlay.page),
+            x: overlay.x ?? 0,
+            y: overlay.y ?? 0,
+            width: 0,
+            overlay,
+        };
+    }
+
+    const anchorField = overlay.anchorField || fieldId;
+    const placements = findFieldPlacements(pdfDoc, anchorField);
+    const placement = placements[overlay.widgetIndex ?? 0];
+    if (!placement) {
+        console.warn(`⚠️ Overlay anchor field "${anchorField}" not found on any template page (${placements.length} widgets)`);
+        return null;
+    }
+
+    const { rect } = placement;
+    return {
+        fieldId,
+        text,
+        templatePage: pdfDoc.getPage(placement.pageIndex),
+        x: rect.x + (overlay.x ?? DEFAULT_PADDING_X),
+        // Without an explicit offset the text is centred vertically (cap height ~0.7 of the font size)
+        y: rect.y + (overlay.y ?? (rect.height - size * 0.7) / 2),
+        width: Math.max(rect.width - (overlay.x ?? DEFAULT_PADDING_X) * 2, 0),
+        overlay,
+    };
+};
+
+// Parses "#RRGGBB" (or "RRGGBB") into a pdf-lib color, black if invalid
+const parseColor = (color: string | undefined) => {
+    const match = color?.trim().match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+    if (!match) return rgb(0, 0, 0);
+    return rgb(parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255);
+};
+
+/**
+ * Draws resolved text overlays on the final document.
+ * @param pdfDoc - The document after page arrangement (and flattening, if any)
+ * @param draws - Overlays resolved with resolveTextOverlay
+ * @param arrangedPages - The page objects in final order, captured right after the page layout was applied.
+ *   Flattening replaces every page, so overlays are matched to pages by their position in this list.
+ */
+export const drawTextOverlays = async (
+    pdfDoc: PDFDocument,
+    draws: TextOverlayDraw[],
+    arrangedPages: PDFPage[]
+): Promise<void> => {
+    const fonts = new Map<string, PDFFont>();
+    const pages = pdfDoc.getPages();
+
+    for (const draw of draws) {
+        try {
+            const pageIndex = arrangedPages.indexOf(draw.templatePage);
+            if (pageIndex === -1) {
+                console.log(`ℹ️ Overlay for "${draw.fieldId}" skipped: its page is not part of this report`);
+                continue;
+            }
+            const page = pages[pageIndex];
+            if (!page) {
+                console.warn(`⚠️ Overlay for "${draw.fieldId}": page ${pageIndex + 1} not found (${pages.length} pages)`);
+                continue;
+            }
+
+            const fontName = draw.overlay.font || 'Helvetica';
+            let font = fonts.get(fontName);
+            if (!font) {
+                font = await pdfDoc.embedFont(StandardFonts[fontName]);
+                fonts.set(fontName, font);
+            }
+
+            const size = draw.overlay.size ?? DEFAULT_SIZE;
+            const textWidth = font.widthOfTextAtSize(draw.text, size);
+            let x = draw.x;
+            if (draw.overlay.align === 'center') x = draw.x + (draw.width - textWidth) / 2;
+            if (draw.overlay.align === 'right') x = draw.x + draw.width - textWidth;
+
+            page.drawText(draw.text, {
+                x,
+                y: draw.y,
+                size,
+                font,
+                color: parseColor(draw.overlay.color),
+            });
+            console.log(`✅ Drew overlay "${draw.text}" for "${draw.fieldId}" on page ${pageIndex + 1} at (${x}, ${draw.y})`);
+        } catch (err: any) {
+            console.warn(`Error drawing overlay for "${draw.fieldId}":`, err.message || err);
+            // Don't fail the whole generation if one overlay can't be drawn
+        }
+    }
+};
+
+/**
+ * Marks a regenerated report as revised: "REVISED - Revision N (date)" in red across the top of the first page.
+ * Drawn last, like the overlays, so flattening can't remove it.
+ * @param revision - Revision number (nothing is drawn for an original, 0 or undefined)
+ */
+export const drawRevisionStamp = async (pdfDoc: PDFDocument, revision: number | undefined): Promise<void> => {
+    if (!revision) return;
+    const page = pdfDoc.getPages()[0];
+    if (!page) return;
+
+    const text = `REVISED - Revision ${revision} (${new Date().toLocaleDateString('en-US')})`;
+    const size = 12;
+    const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+    const { width, height } = page.getSize();
+    page.drawText(text, {
+        x: (width - font.widthOfTextAtSize(text, size)) / 2,
+        y: height - 24,
+        size,
+        font,
+        color: rgb(0.8, 0, 0),
+    });
+    console.log(`✅ Marked the report as revision ${revision}`);
+};
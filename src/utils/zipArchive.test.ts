@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createZipArchive } from './zipArchive';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Reads the entries back through the central directory, as unzip tools do
+const readZip = (archive: Uint8Array) => {
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+    const end = archive.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054B50);
+    const count = view.getUint16(end + 10, true);
+    let position = view.getUint32(end + 16, true);
+
+    const entries = [];
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(position, true)).toBe(0x02014B50);
+        const crc = view.getUint32(position + 16, true);
+        const size = view.getUint32(position + 24, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const localOffset = view.getUint32(position + 42, true);
+        const name = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength));
+
+        expect(view.getUint32(localOffset, true)).toBe(0x04034B50);
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+        entries.push({ name, crc, data: decoder.decode(archive.subarray(dataStart, dataStart + size)) });
+        position += 46 + nameLength;
+    }
+    return entries;
+};
+
+describe('createZipArchive', () => {
+    it('stores the entries with their names, contents and CRC-32', () => {
+        const archive = createZipArchive([
+            { name: 'report.pdf', data: encoder.encode('hello') },
+            { name: 'Unit 1A/Café report.pdf', data: encoder.encode('') },
+        ], new Date(2024, 2, 7, 9, 4, 6));
+
+        expect(readZip(archive)).toEqual([
+            { name: 'report.pdf', crc: 0x3610A686, data: 'hello' },
+            { name: 'Unit 1A/Café report.pdf', crc: 0, data: '' },
+        ]);
+    });
+
+    it('writes the modification time in MS-DOS format', () => {
+        const archive = createZipArchive([{ name: 'a.pdf', data: encoder.encode('a') }], new Date(2024, 2, 7, 9, 4, 6));
+        const view = new DataView(archive.buffer);
+
+        expect(view.getUint16(10, true)).toBe((9 << 11) | (4 << 5) | 3);
+        expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (3 << 5) | 7);
+    });
+
+    it('is an empty archive without entries', () => {
+        expect(readZip(createZipArchive([]))).toEqual([]);
+    });
+});
@@ -0,0 +1,110 @@
+// Minimal ZIP writer for bundling generated PDFs into one download.
+// Entries are stored without compression: PDFs are already compressed, so deflating them again saves little.
+
+export interface ZipEntry {
+    name: string;      // Path inside the archive (forward slashes)
+    data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+    return crcTable;
+};
+
+const crc32 = (data: Uint8Array): number => {
+    const table = getCrcTable();
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        crc = table[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// MS-DOS date and time of an entry's last modification
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Builds a ZIP archive of the given files (stored, no compression).
+ * Names are written as UTF-8; duplicate names are not checked here.
+ * @returns The archive bytes
+ */
+export const createZipArchive = (entries: ZipEntry[], modified: Date = new Date()): Uint8Array => {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(modified);
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach(entry => {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        const size = entry.data.length;
+
+        const local = new Uint8Array(30 + name.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034B50, true);  // Local file header signature
+        localView.setUint16(4, 20, true);          // Version needed to extract
+        localView.setUint16(6, 0x0800, true);      // Flags: UTF-8 names
+        localView.setUint16(8, 0, true);           // Method: stored
+        localView.setUint16(10, time, true);
+        localView.setUint16(12, date, true);
+        localView.setUint32(14, crc, true);
+        localView.setUint32(18, size, true);       // Compressed size
+        localView.setUint32(22, size, true);       // Uncompressed size
+        localView.setUint16(26, name.length, true);
+        localView.setUint16(28, 0, true);          // Extra field length
+        local.set(name, 30);
+
+        const central = new Uint8Array(46 + name.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, 0x02014B50, true); // Central directory header signature
+        centralView.setUint16(4, 20, true);         // Version made by
+        centralView.setUint16(6, 20, true);         // Version needed to extract
+        centralView.setUint16(8, 0x0800, true);
+        centralView.setUint16(10, 0, true);
+        centralView.setUint16(12, time, true);
+        centralView.setUint16(14, date, true);
+        centralView.setUint32(16, crc, true);
+        centralView.setUint32(20, size, true);
+        centralView.setUint32(24, size, true);
+        centralView.setUint16(28, name.length, true);
+        // Extra field, comment, disk number, internal and external attributes stay 0
+        centralView.setUint32(42, offset, true);    // Offset of the local header
+        central.set(name, 46);
+
+        localParts.push(local, entry.data);
+        centralParts.push(central);
+        offset += local.length + size;
+    });
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054B50, true);         // End of central directory signature
+    endView.setUint16(8, entries.length, true);      // Entries on this disk
+    endView.setUint16(10, entries.length, true);     // Entries in total
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);             // Offset of the central directory
+
+    const archive = new Uint8Array(offset + centralSize + end.length);
+    let position = 0;
+    [...localParts, ...centralParts, end].forEach(part => {
+        archive.set(part, position);
+        position += part.length;
+    });
+    return archive;
+};